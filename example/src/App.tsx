@@ -56,12 +56,16 @@ import {
 } from 'react-native-mapbox-geometry-editor';
 import type {
   CameraControls,
+  ClippingOptions,
   DraggablePointStyle,
   EditableFeature,
   GeometryIORef,
   InteractionEventProps,
+  MergeMetadataCb,
+  Metadata,
   MetadataSchema,
   SemanticGeometryType,
+  SnappingOptions,
   StyleGeneratorMap,
 } from 'react-native-mapbox-geometry-editor';
 
@@ -187,7 +191,10 @@ const styleGeneratorMap: StyleGeneratorMap = {
     feature: EditableFeature
   ): DraggablePointStyle => {
     let style = defaultStyleGeneratorMap.draggablePoint(role, feature);
-    if (feature.geometry.type === 'Point') {
+    if (
+      feature.geometry.type === 'Point' ||
+      feature.geometry.type === 'MultiPoint'
+    ) {
       style.color = vehicleTypeColor(feature.properties?.vehicleType);
     }
     return style;
@@ -196,6 +203,14 @@ const styleGeneratorMap: StyleGeneratorMap = {
    * Style for selected vertices of shapes being edited
    */
   selectedVertex: defaultStyleGeneratorMap.selectedVertex,
+  /**
+   * Style for handles used to insert vertices into the edges of shapes being edited
+   */
+  edgeMidpoint: defaultStyleGeneratorMap.edgeMidpoint,
+  /**
+   * Style for the position to which a vertex was snapped
+   */
+  snapTarget: defaultStyleGeneratorMap.snapTarget,
   /**
    * Style for point geometry, non-clusters
    */
@@ -378,9 +393,14 @@ const POINT_SCHEMA = [
 function metadataSchemaGenerator(
   type: SemanticGeometryType
 ): MetadataSchema | null {
-  if (type === 'Point') {
+  if (type === 'Point' || type === 'MultiPoint') {
     return POINT_SCHEMA;
-  } else if (type === 'Polygon') {
+  } else if (
+    type === 'Polygon' ||
+    type === 'MultiPolygon' ||
+    type === 'Circle' ||
+    type === 'Rectangle'
+  ) {
     return [
       ['yup.object'],
       ['yup.required'],
@@ -414,7 +434,7 @@ function metadataSchemaGenerator(
         },
       ],
     ];
-  } else if (type === 'LineString') {
+  } else if (type === 'LineString' || type === 'MultiLineString') {
     return [
       ['yup.object'],
       ['yup.required'],
@@ -457,6 +477,36 @@ const metadataSchemaGeneratorMap: MetadataSchemaGeneratorMap = {
   existingGeometry: metadataSchemaGenerator,
 };
 
+/**
+ * Snap new and dragged vertices to other features within 15 screen pixels
+ */
+const snappingOptions: SnappingOptions = {
+  tolerance: 15,
+  units: 'pixels',
+};
+
+/**
+ * Clip new polygons to the boundary polygon, if the user has designated one,
+ * and remove their overlaps with existing polygons
+ */
+const clippingOptions: ClippingOptions = {
+  clipToBoundary: true,
+  subtractNeighbours: true,
+};
+
+/**
+ * Combine the metadata of merged regions. The merged region keeps the
+ * type of the first region, and only permits overnight use
+ * if all of the regions permitted overnight use.
+ */
+const mergeMetadata: MergeMetadataCb = (features) => {
+  const metadata: Metadata = { ...features[0].properties };
+  metadata.openAtNight = features.every(
+    (feature) => feature.properties?.openAtNight === true
+  );
+  return metadata;
+};
+
 /**
  * For development purposes, validate the metadata schema
  */
@@ -660,7 +710,12 @@ export default function App() {
           styleURL: 'mapbox://styles/mapbox/dark-v10',
         }}
         metadataSchemaGeneratorMap={metadataSchemaGeneratorMap}
+        mergeMetadata={mergeMetadata}
         styleGenerators={styleGeneratorMap}
+        snapping={snappingOptions}
+        topologicalEditing={true}
+        clipping={clippingOptions}
+        invalidGeometryPolicy="warn"
         interactionEventProps={interactionHandlers}
         ref={ioRef}
       >
@@ -1,9 +1,30 @@
+import cloneDeep from 'lodash/cloneDeep';
 import range from 'lodash/range';
-import { point } from '@turf/helpers';
+import { toJS } from 'mobx';
+import type { LineString, Position } from 'geojson';
+import bbox from '@turf/bbox';
+import circle from '@turf/circle';
+import { lineString, point, polygon } from '@turf/helpers';
 
 import { FeatureListModel } from '../../state/FeatureListModel';
+import { RootModel } from '../../state/RootModel';
+import { InteractionMode } from '../../state/ControlsModel';
 import { FeatureModel } from '../../state/FeatureModel';
-import { FeatureLifecycleStage } from '../../type/geometry';
+import {
+  CoordinateRole,
+  FeatureLifecycleStage,
+  LineStringRole,
+} from '../../type/geometry';
+import type { CircleShape, EditableFeature } from '../../type/geometry';
+import type { FeaturePredicate } from '../../type/query';
+import { importGeometry } from '../../util/geometry/io';
+import { loadZoomLevel } from '../../util/geometry/snapping';
+import {
+  readSemanticShape,
+  SEMANTIC_SHAPE_KEY,
+} from '../../util/geometry/semantic';
+import { METERS_PER_DEGREE } from '../../util/geometry/transform';
+import type { PositionProvider, TrackPositionCb } from '../../type/tracking';
 
 /**
  * Test that moving a given point by index updates the appropriate
@@ -44,3 +65,2006 @@ test.each([[1], [2], [3]])(
     });
   }
 );
+
+/**
+ * Test that new and dragged vertices snap to features that are not being
+ * edited, depending on the snapping settings
+ */
+test.each([
+  // Snapping disabled
+  [undefined, [0.00001, 0.00001]],
+  // Tolerance in metres
+  [{ tolerance: 5, units: 'meters' as const }, [0, 0]],
+  // Tolerance in pixels, without a known zoom level
+  [{ tolerance: 5, units: 'pixels' as const }, [0.00001, 0.00001]],
+])('snapping with options %j', (options, expected) => {
+  /**
+   * Setup: Create a polygon that is not being edited
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon([
+        [
+          [0, 0],
+          [0.001, 0],
+          [0.001, 0.001],
+          [0, 0.001],
+          [0, 0],
+        ],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.snapping.setOptions(options);
+
+  /**
+   * Test: Add a point near a vertex of the polygon, then drag it away
+   * and back again
+   */
+  store.features.addNewPoint([0.00001, 0.00001]);
+  const newFeature = store.features.features[1];
+  expect(newFeature.geojson.geometry.coordinates).toStrictEqual(expected);
+  if (options?.units === 'meters') {
+    expect(store.snapping.snapTarget).toStrictEqual(expected);
+  } else {
+    expect(store.snapping.snapTarget).toBeNull();
+  }
+
+  store.features.dragPosition([0.0005, 0.0005], newFeature.$modelId, 0);
+  expect(newFeature.geojson.geometry.coordinates).toStrictEqual([
+    0.0005, 0.0005,
+  ]);
+  expect(store.snapping.snapTarget).toBeNull();
+
+  store.features.dragPosition([0.00001, 0.00001], newFeature.$modelId, 0);
+  expect(newFeature.geojson.geometry.coordinates).toStrictEqual(expected);
+
+  /**
+   * Test: The snap target is no longer highlighted after editing
+   */
+  store.features.endEditingSession();
+  expect(store.snapping.snapTarget).toBeNull();
+});
+
+/**
+ * Test that snapping tolerances in pixels take effect once the zoom level
+ * of the map is read, before the map is moved
+ */
+test('loadZoomLevel()', async () => {
+  /**
+   * Setup: Create a point, and snap with a tolerance in pixels
+   */
+  const store = new RootModel({});
+  store.features.importFeatures([point([0, 0])], { replace: true });
+  store.snapping.setOptions({ tolerance: 5, units: 'pixels' });
+  expect(store.snapping.snap([0.00001, 0.00001])).toStrictEqual([
+    0.00001, 0.00001,
+  ]);
+
+  /**
+   * Test: The zoom level cannot be read
+   */
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  await loadZoomLevel(store.snapping, {
+    getZoom: () => Promise.reject(new Error('The map is not ready')),
+  });
+  expect(warn).toHaveBeenCalledTimes(1);
+  expect(store.snapping.zoomLevel).toBeNull();
+  warn.mockRestore();
+
+  /**
+   * Test: Positions snap once the zoom level is read
+   */
+  await loadZoomLevel(store.snapping, { getZoom: () => Promise.resolve(16) });
+  expect(store.snapping.zoomLevel).toBe(16);
+  expect(store.snapping.snap([0.00001, 0.00001])).toStrictEqual([0, 0]);
+});
+
+/**
+ * Test that dragging a vertex on a boundary shared by two polygons
+ * moves the vertex in both polygons only when topological editing is enabled,
+ * and that the change is a single undo step
+ */
+test.each([[false], [true]])(
+  'dragPosition() with topological editing %p',
+  (topologicalEditing) => {
+    /**
+     * Setup: Create two squares that share an edge, and edit the first square
+     */
+    const store = new RootModel({});
+    store.features.importFeatures(
+      [
+        polygon([
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 1],
+            [0, 0],
+          ],
+        ]),
+        polygon([
+          [
+            [1, 0],
+            [2, 0],
+            [2, 1],
+            [1, 1],
+            [1, 0],
+          ],
+        ]),
+      ],
+      { replace: true }
+    );
+    store.controls.setTopologicalEditing(topologicalEditing);
+    const [edited, neighbour] = store.features.features;
+    edited.setStage(FeatureLifecycleStage.EditShape);
+    store.features.clearHistory();
+    const originalNeighbour = toJS(neighbour.geojson.geometry.coordinates);
+
+    /**
+     * Test: Drag the shared vertex at [1, 0]
+     */
+    store.features.dragPosition([1.5, -0.5], edited.$modelId, 1);
+    expect(edited.geojson.geometry.coordinates).toStrictEqual([
+      [
+        [0, 0],
+        [1.5, -0.5],
+        [1, 1],
+        [0, 1],
+        [0, 0],
+      ],
+    ]);
+    if (topologicalEditing) {
+      expect(neighbour.geojson.geometry.coordinates).toStrictEqual([
+        [
+          [1.5, -0.5],
+          [2, 0],
+          [2, 1],
+          [1, 1],
+          [1.5, -0.5],
+        ],
+      ]);
+    } else {
+      expect(neighbour.geojson.geometry.coordinates).toStrictEqual(
+        originalNeighbour
+      );
+    }
+
+    /**
+     * Test: A single undo operation restores both polygons
+     */
+    store.features.undo();
+    expect(
+      (edited.geojson.geometry.coordinates as Array<Array<Position>>)[0][1]
+    ).toStrictEqual([1, 0]);
+    expect(neighbour.geojson.geometry.coordinates).toStrictEqual(
+      originalNeighbour
+    );
+    expect(store.features.canUndo).toBe(false);
+  }
+);
+
+/**
+ * Test that splitting a polygon with a cut line replaces the polygon with
+ * two polygons that have copies of its properties, and that the split can be undone
+ */
+test('splitEditableFeatures() on a polygon', () => {
+  /**
+   * Setup: Create a square and split it in split shape mode
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon(
+        [
+          [
+            [0, 0],
+            [2, 0],
+            [2, 2],
+            [0, 2],
+            [0, 0],
+          ],
+        ],
+        { name: 'field', tags: ['a'] }
+      ),
+    ],
+    { replace: true }
+  );
+  const original = store.features.features[0];
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  store.features.toggleMultiSelectFeature(original.$modelId);
+  store.controls.toggleMode(InteractionMode.SplitShape);
+  expect(store.features.canSplit).toBe(false);
+  store.features.addCutLineVertex([1, -1]);
+  store.features.addCutLineVertex([1, 3]);
+  expect(store.features.canSplit).toBe(true);
+  store.controls.split();
+
+  /**
+   * Test: The square is replaced by two rectangles, and the cut line is removed
+   */
+  const pieces = store.features.features;
+  expect(pieces).toHaveLength(2);
+  pieces.forEach((val) => {
+    expect(val.stage).toBe(FeatureLifecycleStage.EditShape);
+    expect(val.geojson.geometry.type).toBe('Polygon');
+    expect(toJS(val.geojson.properties)).toStrictEqual({
+      name: 'field',
+      tags: ['a'],
+    });
+  });
+  expect(pieces[0].geojson.properties).not.toBe(pieces[1].geojson.properties);
+
+  /**
+   * Test: A single undo operation restores the square and the cut line
+   */
+  store.features.undo();
+  expect(store.features.features).toHaveLength(2);
+  expect(store.features.features[0].$modelId).toBe(original.$modelId);
+  expect(store.features.canSplit).toBe(true);
+
+  /**
+   * Test: Cancelling the editing session discards the cut line
+   */
+  store.controls.cancel(true);
+  expect(store.controls.mode).toBe(InteractionMode.SelectMultiple);
+  expect(store.features.features).toHaveLength(1);
+  expect(store.features.features[0].stage).toBe(
+    FeatureLifecycleStage.SelectMultiple
+  );
+});
+
+/**
+ * Test that merging selected polygons replaces them with a single selected polygon,
+ * with or without a function for combining their properties,
+ * and that the merge can be undone
+ */
+test.each([[false], [true]])(
+  'mergeSelected() with a metadata callback %p',
+  (useCallback) => {
+    /**
+     * Setup: Create two squares that share an edge, and a point, and select the squares
+     */
+    const store = new RootModel({});
+    store.features.importFeatures(
+      [
+        polygon(
+          [
+            [
+              [0, 0],
+              [1, 0],
+              [1, 1],
+              [0, 1],
+              [0, 0],
+            ],
+          ],
+          { name: 'first' }
+        ),
+        point([5, 5]),
+        polygon(
+          [
+            [
+              [1, 0],
+              [2, 0],
+              [2, 1],
+              [1, 1],
+              [1, 0],
+            ],
+          ],
+          { name: 'second' }
+        ),
+      ],
+      { replace: true }
+    );
+    store.controls.toggleMode(InteractionMode.SelectMultiple);
+    const [first, other, second] = store.features.features;
+    store.features.toggleMultiSelectFeature(first.$modelId);
+    expect(store.features.canMergeSelected).toBe(false);
+    store.features.toggleMultiSelectFeature(second.$modelId);
+    expect(store.features.canMergeSelected).toBe(true);
+    store.features.toggleMultiSelectFeature(other.$modelId);
+    expect(store.features.canMergeSelected).toBe(false);
+    store.features.toggleMultiSelectFeature(other.$modelId);
+
+    /**
+     * Test: The squares are replaced by a rectangle
+     */
+    const mergeMetadata = jest.fn((features: Array<EditableFeature>) => {
+      return {
+        name: features.map((val) => val.properties?.name).join(' and '),
+      };
+    });
+    store.controls.merge(useCallback ? mergeMetadata : undefined);
+    expect(store.features.features).toHaveLength(2);
+    const merged = store.features.features[0];
+    expect(merged.stage).toBe(FeatureLifecycleStage.SelectMultiple);
+    expect(merged.geojson.geometry.type).toBe('Polygon');
+    expect(store.features.features[1].$modelId).toBe(other.$modelId);
+    if (useCallback) {
+      expect(mergeMetadata).toHaveBeenCalledTimes(1);
+      expect(toJS(merged.geojson.properties)).toStrictEqual({
+        name: 'first and second',
+      });
+    } else {
+      expect(toJS(merged.geojson.properties)).toStrictEqual({
+        name: 'first',
+      });
+    }
+
+    /**
+     * Test: A single undo operation restores the squares
+     */
+    store.features.undo();
+    expect(store.features.features.map((val) => val.$modelId)).toStrictEqual(
+      [first, other, second].map((val) => val.$modelId)
+    );
+    expect(store.features.canUndo).toBe(false);
+  }
+);
+
+/**
+ * Test copying and pasting features next to the original features, and at a given position,
+ * and duplicating features, checking that the changes can be undone
+ */
+test('copy(), paste(), and duplicate()', () => {
+  /**
+   * Setup: Create a square and a point, and copy the square
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon(
+        [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 1],
+            [0, 0],
+          ],
+        ],
+        { name: 'plot' }
+      ),
+      point([5, 5]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [square] = store.features.features;
+  expect(store.controls.canCopy).toBe(false);
+  store.features.toggleMultiSelectFeature(square.$modelId);
+  expect(store.controls.canPaste).toBe(false);
+  store.controls.copy();
+  expect(store.clipboardGeoJSON.features).toHaveLength(1);
+
+  /**
+   * Test: Pasting creates a selected copy south-east of the square
+   */
+  store.controls.paste();
+  expect(store.features.features).toHaveLength(3);
+  const pasted = store.features.features[2];
+  expect(pasted.$modelId).not.toBe(square.$modelId);
+  expect(pasted.stage).toBe(FeatureLifecycleStage.SelectMultiple);
+  expect(square.stage).toBe(FeatureLifecycleStage.View);
+  expect(toJS(pasted.geojson.properties)).toStrictEqual({ name: 'plot' });
+  const pastedCorner = (
+    pasted.geojson.geometry.coordinates as Array<Array<Position>>
+  )[0][0];
+  expect(pastedCorner[0]).toBeGreaterThan(0);
+  expect(pastedCorner[1]).toBeLessThan(0);
+
+  /**
+   * Test: Pasting at a position centres the copy on the position
+   */
+  store.controls.togglePastingAtLocation();
+  expect(store.controls.isPastingAtLocation).toBe(true);
+  store.handleMapPress(point([10, 20]));
+  expect(store.controls.isPastingAtLocation).toBe(false);
+  expect(store.features.features).toHaveLength(4);
+  const placedCorner = (
+    store.features.features[3].geojson.geometry.coordinates as Array<
+      Array<Position>
+    >
+  )[0][0];
+  expect(placedCorner[0]).toBeCloseTo(9.5);
+  expect(placedCorner[1]).toBeCloseTo(19.5);
+
+  /**
+   * Test: Duplicating the selected copy creates another copy,
+   * without changing the clipboard
+   */
+  const clipboard = store.clipboardGeoJSON;
+  store.controls.duplicate();
+  expect(store.features.features).toHaveLength(5);
+  expect(store.clipboardGeoJSON).toStrictEqual(clipboard);
+
+  /**
+   * Test: The changes can be undone
+   */
+  store.features.undo();
+  store.features.undo();
+  store.features.undo();
+  expect(store.features.features).toHaveLength(2);
+  expect(store.features.canUndo).toBe(false);
+});
+
+/**
+ * Test moving, rotating, and scaling multiple features together with handles,
+ * checking that each drag of a handle is a single step in the undo history
+ */
+test('dragPosition() on transformation handles', () => {
+  /**
+   * Setup: Select a square and a point, and start transforming them
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon([
+        [
+          [0, 0],
+          [2, 0],
+          [2, 2],
+          [0, 2],
+          [0, 0],
+        ],
+      ]),
+      point([1, 1]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [square, center] = store.features.features;
+  store.features.toggleMultiSelectFeature(square.$modelId);
+  store.features.toggleMultiSelectFeature(center.$modelId);
+  store.controls.toggleMode(InteractionMode.TransformShape);
+  const handles = store.features.draggablePositions;
+  expect(handles.map((val) => val.role)).toStrictEqual([
+    CoordinateRole.TransformTranslate,
+    CoordinateRole.TransformRotate,
+    CoordinateRole.TransformScale,
+  ]);
+  expect(handles[0].coordinates).toStrictEqual([1, 1]);
+  const id = store.features.$modelId;
+  const corner = () =>
+    (
+      store.features.features[0].geojson.geometry.coordinates as Array<
+        Array<Position>
+      >
+    )[0][1];
+
+  /**
+   * Test: Moving the features
+   */
+  store.features.dragPosition([2, 3], id, 0);
+  expect(toJS(corner())).toStrictEqual([3, 2]);
+  expect(
+    toJS(store.features.features[1].geojson.geometry.coordinates)
+  ).toStrictEqual([2, 3]);
+
+  /**
+   * Test: Rotating the features by a half turn, about their centre
+   */
+  const rotateHandle = store.features.draggablePositions[1].coordinates;
+  store.features.dragPosition([rotateHandle[0], 6 - rotateHandle[1]], id, 1);
+  expect(corner()[0]).toBeCloseTo(1);
+  expect(corner()[1]).toBeCloseTo(4);
+
+  /**
+   * Test: Scaling the features, about their centre
+   */
+  const scaleHandle = store.features.draggablePositions[2].coordinates;
+  store.features.dragPosition(
+    [2 + (scaleHandle[0] - 2) / 2, 3 + (scaleHandle[1] - 3) / 2],
+    id,
+    2
+  );
+  expect(corner()[0]).toBeCloseTo(1.5);
+  expect(corner()[1]).toBeCloseTo(3.5);
+  expect(
+    store.features.features[1].geojson.geometry.coordinates[0]
+  ).toBeCloseTo(2);
+
+  /**
+   * Test: Each transformation is undone separately
+   */
+  store.features.undo();
+  expect(corner()[0]).toBeCloseTo(1);
+  store.features.undo();
+  expect(toJS(corner())).toStrictEqual([3, 2]);
+  store.features.undo();
+  expect(toJS(corner())).toStrictEqual([2, 0]);
+  expect(store.features.canUndo).toBe(false);
+
+  /**
+   * Test: Leaving the editing mode restores the selection
+   */
+  store.controls.cancel(true);
+  expect(store.controls.mode).toBe(InteractionMode.SelectMultiple);
+  expect(store.features.selectedFeaturesCount).toBe(2);
+  expect(store.features.draggablePositions).toHaveLength(0);
+});
+
+/**
+ * Test that traced lines start or extend a new polyline, and that each traced line
+ * can be undone separately
+ */
+test('addFreehandStroke()', () => {
+  /**
+   * Setup: Start tracing a polyline
+   */
+  const store = new RootModel({});
+  store.controls.toggleMode(InteractionMode.DrawFreehand);
+
+  /**
+   * Test: The first traced line starts the polyline, and the next line extends it
+   */
+  store.controls.addFreehandStroke([
+    [0, 0],
+    [1, 1],
+  ]);
+  store.controls.addFreehandStroke([
+    [2, 1],
+    [3, 0],
+  ]);
+  expect(store.features.features).toHaveLength(1);
+  const line = store.features.features[0];
+  expect(toJS(line.geojson.geometry)).toStrictEqual({
+    type: 'LineString',
+    coordinates: [
+      [0, 0],
+      [1, 1],
+      [2, 1],
+      [3, 0],
+    ],
+  });
+
+  /**
+   * Test: Undoing removes the last traced line only
+   */
+  store.features.undo();
+  expect(
+    toJS(store.features.features[0].geojson.geometry.coordinates)
+  ).toStrictEqual([
+    [0, 0],
+    [1, 1],
+  ]);
+
+  /**
+   * Test: The polyline is saved as an ordinary feature
+   */
+  store.controls.confirm();
+  expect(store.controls.isPageOpen).toBe(true);
+  store.controls.confirm();
+  expect(store.controls.mode).toBe(InteractionMode.SelectSingle);
+  expect(store.features.features).toHaveLength(1);
+  expect(store.features.features[0].stage).toBe(FeatureLifecycleStage.View);
+  expect(store.features.features[0].finalType).toBe('LineString');
+});
+
+/**
+ * Test previewing and applying the simplification and densification of a polyline,
+ * checking that the changes can be undone
+ */
+test('resampleEditableFeature()', () => {
+  /**
+   * Setup: Select a polyline with a small wiggle, and start resampling it
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      lineString([
+        [0, 0],
+        [0.001, 0.00001],
+        [0.002, 0],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [line] = store.features.features;
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  expect(store.features.canResampleSelected).toBe(true);
+  store.controls.toggleMode(InteractionMode.ResampleShape);
+  const coordinates = () =>
+    toJS(store.features.features[0].geojson.geometry.coordinates);
+
+  /**
+   * Test: The simplified polyline is previewed without changing the polyline
+   */
+  store.controls.setResampleDistance(5);
+  expect(store.features.resamplePreview?.coordinates).toHaveLength(2);
+  expect(coordinates()).toHaveLength(3);
+  expect(store.features.hotFeatures.features.length).toBeGreaterThan(
+    store.features.features[0].hotFeatures.length
+  );
+
+  /**
+   * Test: A tolerance that is too small does not simplify the polyline
+   */
+  store.controls.stepResampleDistance(false);
+  store.controls.stepResampleDistance(false);
+  store.controls.stepResampleDistance(false);
+  expect(store.controls.resampleDistance).toBe(0.5);
+  expect(store.features.canResample).toBe(false);
+
+  /**
+   * Test: Applying the simplification and then densifying the result
+   */
+  store.controls.setResampleDistance(5);
+  store.controls.resample();
+  expect(coordinates()).toStrictEqual([
+    [0, 0],
+    [0.002, 0],
+  ]);
+  store.controls.toggleResampleMethod();
+  store.controls.setResampleDistance(100);
+  store.controls.resample();
+  expect(coordinates()).toHaveLength(4);
+
+  /**
+   * Test: Each change is undone separately
+   */
+  store.features.undo();
+  expect(coordinates()).toHaveLength(2);
+  store.features.undo();
+  expect(coordinates()).toHaveLength(3);
+  expect(store.features.canUndo).toBe(false);
+});
+
+/**
+ * Test creating polygons around features, and lines parallel to polylines
+ */
+test('bufferEditableFeatures()', () => {
+  /**
+   * Setup: Select a polyline and a polygon, and start buffering them
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      lineString(
+        [
+          [0, 0],
+          [0.001, 0],
+        ],
+        { name: 'road' }
+      ),
+      polygon([
+        [
+          [0, 0.01],
+          [0.001, 0.01],
+          [0.001, 0.011],
+          [0, 0.01],
+        ],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [line, area] = store.features.features;
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  store.features.toggleMultiSelectFeature(area.$modelId);
+  store.controls.toggleMode(InteractionMode.BufferShape);
+
+  /**
+   * Test: Both features are previewed as polygons, and lines cannot be offset
+   */
+  expect(store.features.draggablePositions).toHaveLength(0);
+  expect(store.features.bufferPreview.map((val) => val.type)).toStrictEqual([
+    'Polygon',
+    'Polygon',
+  ]);
+  expect(store.features.canOffsetEditableFeatures).toBe(false);
+  store.controls.toggleBufferMethod();
+  expect(store.controls.bufferMethod).toBe('buffer');
+
+  /**
+   * Test: Creating the buffers, and changing the units
+   */
+  store.controls.buffer();
+  expect(store.features.features.map((val) => val.$modelId)).toStrictEqual([
+    line.$modelId,
+    expect.any(String),
+    area.$modelId,
+    expect.any(String),
+  ]);
+  expect(toJS(store.features.features[1].geojson.properties)).toStrictEqual({
+    name: 'road',
+  });
+  const widthInMeters = () => {
+    const coordinates = store.features.bufferPreview[0].coordinates as Array<
+      Array<Position>
+    >;
+    const latitudes = coordinates[0].map((val) => val[1]);
+    return (
+      (Math.max(...latitudes) - Math.min(...latitudes)) * METERS_PER_DEGREE
+    );
+  };
+  expect(widthInMeters()).toBeCloseTo(20, 0);
+  store.controls.toggleBufferUnits();
+  expect(store.controls.bufferUnits).toBe('feet');
+  expect(widthInMeters()).toBeCloseTo(20 * 0.3048, 0);
+
+  /**
+   * Test: Offsetting the polyline alone
+   */
+  store.features.undo();
+  expect(store.features.features).toHaveLength(2);
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  store.features.toggleMultiSelectFeature(area.$modelId);
+  store.controls.toggleMode(InteractionMode.BufferShape);
+  expect(store.features.canOffsetEditableFeatures).toBe(true);
+  store.controls.toggleBufferMethod();
+  expect(store.controls.bufferMethod).toBe('offsetLeft');
+  store.controls.buffer();
+  expect(store.features.features).toHaveLength(3);
+  expect(store.features.features[1].geojson.geometry.type).toBe('LineString');
+  expect(
+    (store.features.features[1].geojson.geometry as LineString)
+      .coordinates[0][1]
+  ).toBeCloseTo((10 * 0.3048) / METERS_PER_DEGREE);
+});
+
+/**
+ * Test inserting vertices by dragging the midpoints of edges
+ */
+test('dragEdgeMidpoint()', () => {
+  /**
+   * Setup: Start editing the vertices of a square
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon([
+        [
+          [0, 0],
+          [2, 0],
+          [2, 2],
+          [0, 2],
+          [0, 0],
+        ],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [square] = store.features.features;
+  store.features.toggleMultiSelectFeature(square.$modelId);
+  store.controls.toggleMode(InteractionMode.EditVertices);
+
+  /**
+   * Test: There is a handle at the midpoint of each edge
+   */
+  const midpoints = () =>
+    store.features.draggablePositions
+      .filter((val) => val.role === CoordinateRole.EdgeMidpoint)
+      .map((val) => [toJS(val.coordinates), val.index]);
+  expect(midpoints()).toStrictEqual([
+    [[1, 0], 0],
+    [[2, 1], 1],
+    [[1, 2], 2],
+    [[0, 1], 3],
+  ]);
+
+  /**
+   * Test: Dragging a handle inserts and selects a vertex
+   */
+  store.controls.dragEdgeMidpoint([3, 1], square.$modelId, 1);
+  expect(toJS(square.geojson.geometry.coordinates)).toStrictEqual([
+    [
+      [0, 0],
+      [2, 0],
+      [3, 1],
+      [2, 2],
+      [0, 2],
+      [0, 0],
+    ],
+  ]);
+  expect(store.controls.selectedVertex).toStrictEqual({
+    id: square.$modelId,
+    index: 2,
+  });
+  expect(midpoints()).toHaveLength(5);
+
+  /**
+   * Test: The insertion can be undone
+   */
+  store.controls.undo();
+  expect(midpoints()).toHaveLength(4);
+});
+
+test('extendLine()', () => {
+  /**
+   * Setup: Start extending a line string
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      lineString([
+        [0, 0],
+        [1, 0],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [line] = store.features.features;
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  expect(store.features.hasOneSelectedLineStringOnly).toBe(true);
+  store.controls.toggleMode(InteractionMode.ExtendLine);
+  expect(store.controls.mode).toBe(InteractionMode.ExtendLine);
+  expect(line.stage).toBe(FeatureLifecycleStage.EditShape);
+
+  /**
+   * Test: Pressing the map adds a vertex after the last vertex
+   */
+  store.handleMapPress(point([2, 0]));
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ]);
+
+  /**
+   * Test: After switching ends, pressing the map adds a vertex
+   * before the first vertex
+   */
+  store.controls.toggleExtendFromStart();
+  expect(store.controls.extendFromStart).toBe(true);
+  store.handleMapPress(point([-1, 0]));
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [-1, 0],
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ]);
+  expect(line.geojson.geometry.type).toBe('LineString');
+
+  /**
+   * Test: Each extension can be undone
+   */
+  store.controls.undo();
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ]);
+});
+
+test('measurement', () => {
+  /**
+   * The length of one thousandth of a degree at the equator, in metres
+   */
+  const edge = 0.001 * METERS_PER_DEGREE;
+  const store = new RootModel({});
+  expect(store.features.measurement).toBeNull();
+
+  /**
+   * Test: The last edge of a polyline being drawn is measured
+   */
+  store.controls.toggleMode(InteractionMode.DrawPolyline);
+  store.handleMapPress(point([0, 0]));
+  store.handleMapPress(point([0.001, 0]));
+  store.handleMapPress(point([0.001, 0.002]));
+  const drawing = store.features.measurement!;
+  expect(drawing.segmentLength! / (2 * edge)).toBeCloseTo(1, 2);
+  expect(drawing.length! / (3 * edge)).toBeCloseTo(1, 2);
+  expect(drawing.area).toBeNull();
+  expect(drawing.perimeter).toBeNull();
+  store.controls.cancel(true);
+
+  /**
+   * Setup: Start editing the vertices of a square
+   */
+  store.features.importFeatures(
+    [
+      polygon([
+        [
+          [0, 0],
+          [0.001, 0],
+          [0.001, 0.001],
+          [0, 0.001],
+          [0, 0],
+        ],
+      ]),
+    ],
+    { replace: true }
+  );
+  expect(store.features.measurement).toBeNull();
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [square] = store.features.features;
+  store.features.toggleMultiSelectFeature(square.$modelId);
+  store.controls.toggleMode(InteractionMode.EditVertices);
+  const editing = store.features.measurement!;
+  expect(editing.segmentLength).toBeNull();
+  expect(editing.length).toBeNull();
+  expect(editing.area! / (edge * edge)).toBeCloseTo(1, 2);
+  expect(editing.perimeter! / (4 * edge)).toBeCloseTo(1, 2);
+
+  /**
+   * Test: Dragging a vertex updates the measurements, and measures
+   * the edge ending at the vertex
+   */
+  store.controls.dragPosition([0.002, 0], square.$modelId, 1);
+  const dragged = store.features.measurement!;
+  expect(dragged.segmentLength! / (2 * edge)).toBeCloseTo(1, 2);
+  expect(dragged.area! / (1.5 * edge * edge)).toBeCloseTo(1, 2);
+  const rendered = store.features.hotFeatures.features.find(
+    (val) => val.geometry.type === 'Polygon'
+  );
+  expect(rendered?.properties.rnmgeArea).toBe(dragged.area);
+  expect(rendered?.properties.rnmgeSegmentLength).toBe(dragged.segmentLength);
+  expect(rendered?.properties.rnmgeLength).toBeUndefined();
+
+  /**
+   * Test: Undoing the drag restores the measurements
+   */
+  store.controls.undo();
+  expect(store.features.measurement).toStrictEqual(editing);
+});
+
+test('moveSelectedVertex() and selectAdjacentVertex()', () => {
+  /**
+   * Setup: Start editing the vertices of a line string, next to a point
+   * that vertices would be snapped to if they were dragged
+   */
+  const store = new RootModel({});
+  store.snapping.setOptions({ tolerance: 20000, units: 'meters' });
+  store.features.importFeatures(
+    [
+      lineString([
+        [0, 0],
+        [1, 0],
+        [2, 0],
+      ]),
+      point([0.5, 0.5]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [line] = store.features.features;
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  store.controls.toggleMode(InteractionMode.EditVertices);
+  expect(store.controls.selectedVertexPosition).toBeUndefined();
+
+  /**
+   * Test: Stepping between vertices wraps around the ends of the line string
+   */
+  store.controls.onPressHotGeometry({
+    features: [
+      point([0, 0], {
+        rnmgeID: line.$modelId,
+        rnmgeIndex: 0,
+        rnmgeStage: FeatureLifecycleStage.EditShape,
+        rnmgeRole: CoordinateRole.LineStart,
+      }),
+    ],
+    coordinates: { latitude: 0, longitude: 0 },
+    point: { x: 0, y: 0 },
+  });
+  expect(toJS(store.controls.selectedVertexPosition)).toStrictEqual([0, 0]);
+  store.controls.selectAdjacentVertex(false);
+  expect(toJS(store.controls.selectedVertexPosition)).toStrictEqual([2, 0]);
+  store.controls.selectAdjacentVertex(true);
+  store.controls.selectAdjacentVertex(true);
+  expect(toJS(store.controls.selectedVertexPosition)).toStrictEqual([1, 0]);
+
+  /**
+   * Test: The selected vertex is moved to exactly the given position
+   */
+  store.controls.moveSelectedVertex([0.5, 0.4]);
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [0.5, 0.4],
+    [2, 0],
+  ]);
+  expect(store.controls.selectedVertex).toStrictEqual({
+    id: line.$modelId,
+    index: 1,
+  });
+
+  /**
+   * Test: Dragging the vertex to the same position snaps it to the point instead
+   */
+  store.controls.dragPosition([0.5, 0.4], line.$modelId, 1);
+  expect(toJS(line.geojson.geometry.coordinates[1])).toStrictEqual([0.5, 0.5]);
+
+  /**
+   * Test: The move can be undone
+   */
+  store.controls.undo();
+  store.controls.undo();
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [1, 0],
+    [2, 0],
+  ]);
+});
+
+test('constrained drawing', () => {
+  /**
+   * Setup: Draw a polyline with right angles between its edges
+   */
+  const store = new RootModel({});
+  store.controls.toggleMode(InteractionMode.DrawPolyline);
+  store.controls.toggleConstrainingDrawing();
+  store.controls.toggleAngleConstraint();
+  expect(store.controls.angleConstraint).toBe('right');
+  store.handleMapPress(point([0, 0]));
+  const [line] = store.features.features;
+  const expectPosition = (index: number, expected: Position) => {
+    const position = line.geojson.geometry.coordinates[index] as Position;
+    expect(position[0]).toBeCloseTo(expected[0], 7);
+    expect(position[1]).toBeCloseTo(expected[1], 7);
+  };
+
+  /**
+   * Test: A guide line is shown for each allowed direction
+   */
+  const guide = store.features.hotFeatures.features.find(
+    (val) => val.properties.rnmgeRole === LineStringRole.Guide
+  );
+  expect(guide?.geometry.coordinates.length).toBe(4);
+
+  /**
+   * Test: The first edge is snapped to a direction relative to north
+   */
+  store.handleMapPress(point([1, 0.1]));
+  expectPosition(1, [1, 0]);
+
+  /**
+   * Test: The next edge is perpendicular to the previous edge,
+   * and has the fixed length, which only applies to one edge
+   */
+  store.controls.setFixedSegmentLength(2 * METERS_PER_DEGREE);
+  store.handleMapPress(point([1.2, 1]));
+  expectPosition(2, [1, 2]);
+  expect(store.controls.fixedSegmentLength).toBeNull();
+
+  /**
+   * Test: Locking the bearing of the previous edge
+   */
+  store.controls.toggleBearingLock();
+  expect(store.controls.lockedBearing).toBeCloseTo(0, 7);
+  store.handleMapPress(point([1.5, 3]));
+  expectPosition(3, [1, 3]);
+  store.controls.toggleBearingLock();
+  expect(store.controls.lockedBearing).toBeNull();
+
+  /**
+   * Test: Turning off constrained drawing restores free drawing
+   */
+  store.controls.toggleConstrainingDrawing();
+  expect(store.controls.drawingConstraints).toBeNull();
+  store.handleMapPress(point([1.5, 3.5]));
+  expectPosition(4, [1.5, 3.5]);
+  store.controls.cancel(true);
+
+  /**
+   * Setup: Start editing the vertices of a line string
+   */
+  store.features.importFeatures(
+    [
+      lineString([
+        [0, 0],
+        [1, 0],
+        [2, 1],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [edited] = store.features.features;
+  store.features.toggleMultiSelectFeature(edited.$modelId);
+  store.controls.toggleMode(InteractionMode.EditVertices);
+  store.controls.toggleConstrainingDrawing();
+
+  /**
+   * Test: A dragged vertex is constrained relative to the vertices before it
+   */
+  store.controls.dragPosition([1.9, 1.2], edited.$modelId, 2);
+  const dragged = edited.geojson.geometry.coordinates[2] as Position;
+  expect(dragged[0]).toBeCloseTo(1, 7);
+  expect(dragged[1]).toBeCloseTo(1.2, 7);
+});
+
+test('multi-vertex selection', () => {
+  /**
+   * Setup: Start editing the vertices of a line string
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      lineString([
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [3, 0],
+        [4, 0],
+      ]),
+    ],
+    { replace: true }
+  );
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const [line] = store.features.features;
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  store.controls.toggleMode(InteractionMode.EditVertices);
+  const pressVertex = (index: number) => {
+    store.controls.onPressHotGeometry({
+      features: [
+        point(line.geojson.geometry.coordinates[index] as Position, {
+          rnmgeID: line.$modelId,
+          rnmgeIndex: index,
+          rnmgeStage: FeatureLifecycleStage.EditShape,
+          rnmgeRole: CoordinateRole.LineInner,
+        }),
+      ],
+      coordinates: { latitude: 0, longitude: 0 },
+      point: { x: 0, y: 0 },
+    });
+  };
+
+  /**
+   * Test: Touching vertices adds them to the selection
+   */
+  store.controls.toggleVertexSelectionMode();
+  expect(store.controls.vertexSelectionMode).toBe('multiple');
+  pressVertex(1);
+  pressVertex(3);
+  expect(toJS(store.controls.selectedVertexIndices)).toStrictEqual([1, 3]);
+  expect(store.controls.selectedVertex?.index).toBe(3);
+  expect(
+    store.features.draggablePositions.filter(
+      (val) => val.role !== CoordinateRole.EdgeMidpoint
+    ).length
+  ).toBe(2);
+
+  /**
+   * Test: Dragging one selected vertex moves all of them in one step
+   */
+  store.controls.dragPosition([1, 1], line.$modelId, 1);
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [1, 1],
+    [2, 0],
+    [3, 1],
+    [4, 0],
+  ]);
+  store.features.undo();
+  expect(toJS(line.geojson.geometry.coordinates[3])).toStrictEqual([3, 0]);
+
+  /**
+   * Test: A lasso adds the vertices it encloses to the selection,
+   * and a lasso that is too short deselects all vertices
+   */
+  store.controls.toggleVertexSelectionMode();
+  expect(store.controls.isCapturingStrokes).toBe(true);
+  store.controls.handleStroke([
+    [-0.5, -1],
+    [0.5, -1],
+    [0.5, 1],
+    [-0.5, 1],
+  ]);
+  expect(toJS(store.controls.selectedVertexIndices)).toStrictEqual([1, 3, 0]);
+  store.controls.handleStroke([[0, 0]]);
+  expect(store.controls.hasSelectedVertex).toBe(false);
+  store.controls.handleStroke([
+    [1.5, -1],
+    [4.5, -1],
+    [4.5, 1],
+    [1.5, 1],
+  ]);
+  expect(toJS(store.controls.selectedVertexIndices)).toStrictEqual([2, 3, 4]);
+
+  /**
+   * Test: Deleting removes all selected vertices that can be removed, in one step
+   */
+  expect(store.controls.canDelete).toBe(true);
+  store.controls.delete();
+  expect(toJS(line.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [1, 0],
+  ]);
+  expect(store.controls.hasSelectedVertex).toBe(false);
+  store.features.undo();
+  expect(line.geojson.geometry.coordinates.length).toBe(5);
+});
+
+test('record track', () => {
+  /**
+   * Setup: A simulated source of positions
+   */
+  let send: TrackPositionCb | null = null;
+  const unsubscribe = jest.fn(() => {
+    send = null;
+  });
+  const provider: PositionProvider = {
+    subscribe: (callback) => {
+      send = callback;
+      return unsubscribe;
+    },
+  };
+  const walk = (latitudes: Array<number>, start: number) => {
+    latitudes.forEach((latitude, i) => {
+      send?.({ coordinates: [0, latitude], timestamp: start + i * 1000 });
+    });
+  };
+  const store = new RootModel({});
+  store.tracking.setProvider(provider);
+  store.tracking.setOptions({ minDistance: 10 });
+
+  /**
+   * Test: Recording is only possible in the track recording mode
+   */
+  store.tracking.start();
+  expect(store.tracking.isRecording).toBe(false);
+  store.controls.toggleMode(InteractionMode.RecordTrack);
+  store.tracking.start();
+  expect(store.tracking.isRecording).toBe(true);
+
+  /**
+   * Test: Positions that are too close to the previous vertex are skipped
+   */
+  walk([0, 0.00001, 0.001, 0.002], 0);
+  const [track] = store.features.features;
+  expect(toJS(track.geojson.geometry.coordinates)).toStrictEqual([
+    [0, 0],
+    [0, 0.001],
+    [0, 0.002],
+  ]);
+
+  /**
+   * Test: No positions are received while recording is paused
+   */
+  store.tracking.pause();
+  expect(unsubscribe).toHaveBeenCalledTimes(1);
+  expect(send).toBeNull();
+  store.tracking.toggleRecording();
+  walk([0.003], 10000);
+  expect(track.geojson.geometry.coordinates.length).toBe(4);
+
+  /**
+   * Test: Each vertex can be undone, and the track can be finished
+   */
+  store.controls.undo();
+  expect(track.geojson.geometry.coordinates.length).toBe(3);
+  store.controls.openPage();
+  expect(store.controls.isPageOpen).toBe(true);
+  walk([0.004], 20000);
+  expect(track.geojson.geometry.coordinates.length).toBe(3);
+
+  /**
+   * Test: Leaving the mode stops recording
+   */
+  store.controls.cancel(true);
+  store.controls.cancel(true);
+  expect(store.features.features.length).toBe(0);
+  store.controls.toggleMode(InteractionMode.DrawPoint);
+  expect(store.tracking.isRecording).toBe(false);
+  expect(unsubscribe).toHaveBeenCalledTimes(2);
+});
+
+/**
+ * Test designating a clipping boundary, clipping selected polygons manually,
+ * and clipping new polygons automatically when they are saved
+ */
+test('clipping', () => {
+  /**
+   * Setup: Create a boundary, a polygon inside the boundary,
+   * and a polygon that extends outside the boundary and overlaps the other polygon
+   */
+  const square = (west: number, south: number, east: number, north: number) =>
+    polygon([
+      [
+        [west, south],
+        [east, south],
+        [east, north],
+        [west, north],
+        [west, south],
+      ],
+    ]);
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [square(0, 0, 10, 10), square(0, 0, 4, 10), square(2, 2, 12, 8)],
+    { replace: true }
+  );
+  const [boundary, neighbour, target] = store.features.features;
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+
+  /**
+   * Test: A single selected polygon can be designated as the boundary
+   */
+  expect(store.controls.canToggleClipBoundary).toBe(false);
+  store.features.toggleMultiSelectFeature(boundary.$modelId);
+  expect(store.controls.canToggleClipBoundary).toBe(true);
+  store.controls.toggleClipBoundary();
+  expect(store.controls.clipBoundaryID).toBe(boundary.$modelId);
+  expect(store.controls.isClipBoundarySelected).toBe(true);
+  expect(store.features.canClipSelected).toBe(false);
+  store.features.toggleMultiSelectFeature(target.$modelId);
+  expect(store.controls.canToggleClipBoundary).toBe(false);
+  expect(store.features.canClipSelected).toBe(true);
+  store.features.toggleMultiSelectFeature(boundary.$modelId);
+
+  /**
+   * Test: The selected polygon is clipped to the boundary,
+   * and its overlap with the other polygon is removed in a single undo step
+   */
+  store.controls.clip();
+  expect(bbox(target.geojson.geometry)).toStrictEqual([4, 2, 10, 8]);
+  expect(bbox(boundary.geojson.geometry)).toStrictEqual([0, 0, 10, 10]);
+  expect(bbox(neighbour.geojson.geometry)).toStrictEqual([0, 0, 4, 10]);
+  store.features.undo();
+  expect(bbox(target.geojson.geometry)).toStrictEqual([2, 2, 12, 8]);
+  expect(store.features.canUndo).toBe(false);
+
+  /**
+   * Test: A new polygon is not clipped unless automatic clipping is enabled
+   */
+  const drawRectangle = (
+    west: number,
+    south: number,
+    east: number,
+    north: number
+  ) => {
+    store.controls.cancel(true);
+    store.controls.cancel(true);
+    store.controls.toggleMode(InteractionMode.DrawPolygon);
+    [
+      [west, south],
+      [east, south],
+      [east, north],
+      [west, north],
+    ].forEach((coordinates) => store.handleMapPress(point(coordinates)));
+    store.controls.confirm();
+    store.controls.confirm();
+    expect(store.features.hasNewFeature).toBe(false);
+    return store.features.features[store.features.features.length - 1];
+  };
+  let drawn = drawRectangle(6, 8.2, 14, 8.5);
+  expect(bbox(drawn.geojson.geometry)).toStrictEqual([6, 8.2, 14, 8.5]);
+
+  /**
+   * Test: A new polygon is clipped to the boundary
+   */
+  store.controls.setClipping({
+    clipToBoundary: true,
+    subtractNeighbours: true,
+  });
+  drawn = drawRectangle(6, 8.6, 14, 8.9);
+  expect(drawn.geojson.geometry.type).toBe('Polygon');
+  expect(bbox(drawn.geojson.geometry)).toStrictEqual([6, 8.6, 10, 8.9]);
+
+  /**
+   * Test: A new polygon is divided in two by a neighbour,
+   * but the boundary is not subtracted from it
+   */
+  store.controls.setClipping({ subtractNeighbours: true });
+  drawn = drawRectangle(-2, 9, 6, 9.5);
+  expect(drawn.geojson.geometry.type).toBe('MultiPolygon');
+  expect(bbox(drawn.geojson.geometry)).toStrictEqual([-2, 9, 6, 9.5]);
+});
+
+/**
+ * Test converting selected features between geometry types,
+ * checking that properties are kept, and that each conversion can be undone
+ */
+test('convertSelected()', () => {
+  /**
+   * Setup: Create a polyline, a polygon, and three points
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      lineString(
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+        ],
+        { name: 'line' }
+      ),
+      polygon(
+        [
+          [
+            [2, 0],
+            [3, 0],
+            [3, 1],
+            [2, 0],
+          ],
+        ],
+        { name: 'polygon' }
+      ),
+      point([4, 0], { name: 'a' }),
+      point([5, 0], { name: 'b' }),
+      point([5, 1], { name: 'c' }),
+    ],
+    { replace: true }
+  );
+  const ids = store.features.features.map((val) => val.$modelId);
+  const [line, area, a, b, c] = store.features.features;
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  const expectUndo = () => {
+    store.features.undo();
+    expect(store.features.features.map((val) => val.$modelId)).toStrictEqual(
+      ids
+    );
+    expect(store.features.canUndo).toBe(false);
+    store.features.deselectAll();
+  };
+
+  /**
+   * Test: A polyline is closed into a polygon
+   */
+  expect(store.features.selectedConversions).toStrictEqual([]);
+  store.features.toggleMultiSelectFeature(line.$modelId);
+  expect(store.features.selectedConversions).toStrictEqual(['closeLine']);
+  store.controls.convert('closeLine');
+  let converted = store.features.features[0];
+  expect(converted.finalType).toBe('Polygon');
+  expect(converted.stage).toBe(FeatureLifecycleStage.SelectMultiple);
+  expect(toJS(converted.geojson.geometry.coordinates)).toStrictEqual([
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ]);
+  expect(toJS(converted.geojson.properties)).toStrictEqual({ name: 'line' });
+  expectUndo();
+
+  /**
+   * Test: A polygon is opened into a polyline
+   */
+  store.features.toggleMultiSelectFeature(area.$modelId);
+  expect(store.features.selectedConversions).toStrictEqual(['openPolygon']);
+  store.controls.convert('closeLine');
+  expect(store.features.canUndo).toBe(false);
+  store.controls.convert('openPolygon');
+  converted = store.features.features[1];
+  expect(converted.finalType).toBe('LineString');
+  expect(converted.geojson.geometry.coordinates).toHaveLength(4);
+  expect(toJS(converted.geojson.properties)).toStrictEqual({ name: 'polygon' });
+  expectUndo();
+
+  /**
+   * Test: Points are joined in the order in which they were selected
+   */
+  [c, a, b].forEach((val) =>
+    store.features.toggleMultiSelectFeature(val.$modelId)
+  );
+  expect(store.features.selectedConversions).toStrictEqual([
+    'joinPoints',
+    'convexHull',
+  ]);
+  const mergeMetadata = jest.fn((features: Array<EditableFeature>) => ({
+    name: features.map((val) => val.properties?.name).join(''),
+  }));
+  store.controls.convert('joinPoints', mergeMetadata);
+  expect(store.features.features).toHaveLength(3);
+  converted = store.features.features[2];
+  expect(converted.finalType).toBe('LineString');
+  expect(toJS(converted.geojson.geometry.coordinates)).toStrictEqual([
+    [5, 1],
+    [4, 0],
+    [5, 0],
+  ]);
+  expect(toJS(converted.geojson.properties)).toStrictEqual({ name: 'cab' });
+  expectUndo();
+
+  /**
+   * Test: Points are enclosed in their convex hull
+   */
+  [a, b, c].forEach((val) =>
+    store.features.toggleMultiSelectFeature(val.$modelId)
+  );
+  store.controls.convert('convexHull');
+  converted = store.features.features[2];
+  expect(converted.finalType).toBe('Polygon');
+  expect(converted.geojson.geometry.coordinates[0]).toHaveLength(4);
+  expect(toJS(converted.geojson.properties)).toStrictEqual({ name: 'a' });
+  expectUndo();
+});
+
+/**
+ * Test generating a grid of plots inside a polygon, checking that the plots are
+ * previewed, and then created with metadata and their positions in the grid
+ */
+test('generatePlots()', () => {
+  /**
+   * Setup: Create a polygon, 40 metres wide and 20 metres high, and a point
+   */
+  const size = 1 / METERS_PER_DEGREE;
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      polygon(
+        [
+          [
+            [0, 0],
+            [40 * size, 0],
+            [40 * size, 20 * size],
+            [0, 20 * size],
+            [0, 0],
+          ],
+        ],
+        { name: 'field' }
+      ),
+      point([50 * size, 0]),
+    ],
+    { replace: true }
+  );
+  const [field, marker] = store.features.features;
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+
+  /**
+   * Test: Plots can only be generated in a single selected polygon
+   */
+  store.features.toggleMultiSelectFeature(marker.$modelId);
+  expect(store.features.oneSelectedAreaID).toBeNull();
+  store.features.toggleMultiSelectFeature(marker.$modelId);
+  store.features.toggleMultiSelectFeature(field.$modelId);
+  expect(store.features.oneSelectedAreaID).toBe(field.$modelId);
+
+  /**
+   * Test: The grid is previewed, and changes with the grid options
+   */
+  store.controls.toggleMode(InteractionMode.GeneratePlots);
+  expect(store.controls.mode).toBe(InteractionMode.GeneratePlots);
+  expect(store.features.plotGridCells).toHaveLength(8);
+  store.controls.setPlotWidth(20);
+  expect(store.features.plotGridCells).toHaveLength(4);
+  // The polygon and the plots
+  expect(
+    store.features.hotFeatures.features.filter(
+      (val) => val.geometry.type === 'Polygon'
+    )
+  ).toHaveLength(5);
+  expect(store.features.features).toHaveLength(2);
+
+  /**
+   * Test: The plots are created after their metadata is entered
+   */
+  store.controls.confirm();
+  expect(store.controls.isPageOpen).toBe(true);
+  store.controls.setPendingMetadata({ trial: 'A' });
+  store.controls.confirm();
+  expect(store.controls.isPageOpen).toBe(false);
+  expect(store.controls.mode).toBe(InteractionMode.SelectMultiple);
+  expect(store.features.features).toHaveLength(6);
+  expect(store.features.features[0]).toBe(field);
+  expect(store.features.features[5]).toBe(marker);
+  expect(
+    store.features.features
+      .slice(1, 5)
+      .map((val) => toJS(val.geojson.properties))
+  ).toStrictEqual([
+    { trial: 'A', row: 1, column: 1 },
+    { trial: 'A', row: 1, column: 2 },
+    { trial: 'A', row: 2, column: 1 },
+    { trial: 'A', row: 2, column: 2 },
+  ]);
+  expect(bbox(store.features.features[1].geojson)[0]).toBeCloseTo(0, 10);
+  expect(toJS(field.geojson.properties)).toStrictEqual({ name: 'field' });
+
+  /**
+   * Test: The positions of the plots can be stored in other metadata fields,
+   * or not stored, leaving the metadata entered for the plots unchanged
+   */
+  store.controls.setPlotIndexKeys({ row: 'plotRow', column: null });
+  if (field.stage !== FeatureLifecycleStage.SelectMultiple) {
+    store.features.toggleMultiSelectFeature(field.$modelId);
+  }
+  store.controls.toggleMode(InteractionMode.GeneratePlots);
+  store.controls.confirm();
+  store.controls.setPendingMetadata({ trial: 'B', row: 'north' });
+  store.controls.confirm();
+  expect(store.features.features).toHaveLength(10);
+  expect(toJS(store.features.features[1].geojson.properties)).toStrictEqual({
+    trial: 'B',
+    row: 'north',
+    plotRow: 1,
+  });
+  store.controls.setPlotIndexKeys({ row: undefined, column: undefined });
+  expect(store.controls.plotRowKey).toBe('row');
+  expect(store.controls.plotColumnKey).toBe('column');
+});
+
+/**
+ * Test selecting features using a box or a lasso, and combining them
+ * with the features that are already selected
+ */
+test('selectFeaturesInLasso()', () => {
+  /**
+   * Setup: Create a row of points, a polyline crossing the row,
+   * and a polygon containing a point
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      ...range(5).map((val) => point([val, 0])),
+      lineString([
+        [2.5, -1],
+        [2.5, 1],
+      ]),
+      polygon([
+        [
+          [10, 10],
+          [12, 10],
+          [12, 12],
+          [10, 10],
+        ],
+      ]),
+    ],
+    { replace: true }
+  );
+  const ids = store.features.features.map((val) => val.$modelId);
+  const selectedIDs = () =>
+    store.features.features
+      .filter((val) => val.stage === FeatureLifecycleStage.SelectMultiple)
+      .map((val) => val.$modelId);
+  /**
+   * A box around the first three points, and part of the polyline
+   */
+  const box = [
+    [-0.5, -0.5],
+    [2.6, -0.5],
+    [2.6, 0.5],
+    [-0.5, 0.5],
+  ];
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  expect(store.controls.isCapturingStrokes).toBe(false);
+
+  /**
+   * Test: Features intersecting the box are selected
+   */
+  store.controls.toggleFeatureSelectionMode();
+  expect(store.controls.featureSelectionMode).toBe('box');
+  expect(store.controls.isCapturingStrokes).toBe(true);
+  store.controls.handleStroke(box);
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[1], ids[2], ids[5]]);
+
+  /**
+   * Test: Replacing the selection, with a lasso that does not touch the polygon
+   */
+  store.controls.toggleFeatureSelectionMode();
+  expect(store.controls.featureSelectionMode).toBe('lasso');
+  store.controls.handleStroke([
+    [3.5, -0.5],
+    [4.5, -0.5],
+    [4.5, 0.5],
+  ]);
+  expect(selectedIDs()).toStrictEqual([ids[4]]);
+
+  /**
+   * Test: Adding to the selection, with a lasso inside the polygon
+   */
+  store.controls.toggleSelectionOperation();
+  expect(store.controls.selectionOperation).toBe('add');
+  store.controls.handleStroke([
+    [11.5, 10.5],
+    [11.8, 10.5],
+    [11.8, 10.8],
+  ]);
+  store.controls.handleStroke(box);
+  expect(selectedIDs()).toStrictEqual([
+    ids[0],
+    ids[1],
+    ids[2],
+    ids[4],
+    ids[5],
+    ids[6],
+  ]);
+
+  /**
+   * Test: Removing from the selection, and a stroke that is too short
+   * to enclose an area
+   */
+  store.controls.toggleSelectionOperation();
+  expect(store.controls.selectionOperation).toBe('subtract');
+  store.controls.handleStroke(box.slice(1, 3));
+  expect(selectedIDs()).toHaveLength(6);
+  store.controls.handleStroke(box.slice(1));
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[1], ids[4], ids[6]]);
+
+  /**
+   * Test: A stroke that is too short to enclose an area
+   * deselects all features when replacing the selection
+   */
+  store.controls.toggleSelectionOperation();
+  store.controls.handleStroke([[0, 0]]);
+  expect(selectedIDs()).toStrictEqual([]);
+  expect(store.features.canUndo).toBe(false);
+});
+
+/**
+ * Test selecting features by predicate, selecting all features, and inverting
+ * the selection, and opening and closing the page for selecting features
+ */
+test('selectFeatures(), selectAll(), and invertSelection()', () => {
+  /**
+   * Setup: Create points with different metadata
+   */
+  const store = new RootModel({});
+  store.features.importFeatures(
+    range(4).map((val) => point([val, 0], { index: val })),
+    { replace: true }
+  );
+  const ids = store.features.features.map((val) => val.$modelId);
+  const selectedIDs = () =>
+    store.features.features
+      .filter((val) => val.stage === FeatureLifecycleStage.SelectMultiple)
+      .map((val) => val.$modelId);
+  const isEven: FeaturePredicate = (feature) =>
+    feature.properties?.index % 2 === 0;
+
+  /**
+   * Test: Multiple selection mode is entered from single selection mode
+   */
+  expect(store.controls.mode).toBe(InteractionMode.SelectSingle);
+  expect(store.controls.selectFeatures(isEven)).toBe(true);
+  expect(store.controls.mode).toBe(InteractionMode.SelectMultiple);
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[2]]);
+
+  /**
+   * Test: Selections are combined, inverted, and replaced
+   */
+  store.controls.selectFeatures(
+    (feature) => feature.properties!.index === 1,
+    'add'
+  );
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[1], ids[2]]);
+  store.controls.selectFeatures(isEven, 'subtract');
+  expect(selectedIDs()).toStrictEqual([ids[1]]);
+  expect(store.controls.invertSelection()).toBe(true);
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[2], ids[3]]);
+  expect(store.controls.selectAll()).toBe(true);
+  expect(selectedIDs()).toStrictEqual(ids);
+  expect(store.features.canUndo).toBe(false);
+
+  /**
+   * Test: The page for selecting features closes after features are selected
+   */
+  store.controls.openPage();
+  expect(store.controls.isPageOpen).toBe(true);
+  store.controls.cancel();
+  expect(store.controls.isPageOpen).toBe(false);
+  store.controls.openPage();
+  store.controls.selectFeatures(isEven);
+  expect(store.controls.isPageOpen).toBe(false);
+  expect(selectedIDs()).toStrictEqual([ids[0], ids[2]]);
+
+  /**
+   * Test: Selected features can be edited in bulk
+   */
+  store.controls.delete();
+  expect(store.features.features.map((val) => val.$modelId)).toStrictEqual([
+    ids[1],
+    ids[3],
+  ]);
+  store.controls.cancel(true);
+
+  /**
+   * Test: Features cannot be selected while drawing
+   */
+  store.controls.toggleMode(InteractionMode.DrawPolygon);
+  expect(store.controls.selectAll()).toBe(false);
+  expect(store.controls.mode).toBe(InteractionMode.DrawPolygon);
+  expect(selectedIDs()).toStrictEqual([]);
+});
+
+/**
+ * Test that previews of editing operations do not look for a single feature
+ * being edited when several features are being edited at once
+ */
+test('previews while editing multiple features', () => {
+  /**
+   * Setup: Drag two points
+   */
+  const store = new RootModel({});
+  store.features.importFeatures([point([0, 0]), point([1, 1])], {
+    replace: true,
+  });
+  store.controls.toggleMode(InteractionMode.SelectMultiple);
+  store.features.features.forEach((val) =>
+    store.features.toggleMultiSelectFeature(val.$modelId)
+  );
+  store.controls.toggleMode(InteractionMode.DragPoint);
+  expect(store.controls.mode).toBe(InteractionMode.DragPoint);
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  /**
+   * Test: There is no preview of resampling, and no warning
+   */
+  expect(store.features.resamplePreview).toBeUndefined();
+  expect(store.features.canResample).toBe(false);
+  expect(warn).not.toHaveBeenCalled();
+
+  /**
+   * Test: There are no constrained drawing guides while drawing is not constrained,
+   * and no warning
+   */
+  expect(
+    store.features.hotFeatures.features.filter(
+      (val) => val.geometry.type === 'LineString'
+    )
+  ).toHaveLength(0);
+  expect(warn).not.toHaveBeenCalled();
+  warn.mockRestore();
+});
+
+/**
+ * Test that features with geometry collections are imported as one feature
+ * per geometry, and that the import is reported as inexact even when
+ * the number of features does not change
+ */
+test('importGeometry() with geometry collections', async () => {
+  const geometries = [
+    point([0, 0]).geometry,
+    lineString([
+      [0, 0],
+      [1, 1],
+    ]).geometry,
+  ];
+  const store = new RootModel({});
+  const result = await importGeometry(
+    store,
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'GeometryCollection', geometries },
+          properties: { name: 'collection' },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'GeometryCollection', geometries: [] },
+          properties: { name: 'empty' },
+        },
+      ],
+    },
+    { replace: true, strict: true, validate: true }
+  );
+  expect(result).toStrictEqual({ errors: [], exact: false });
+  expect(store.features.features).toHaveLength(2);
+  store.features.features.forEach((val, index) => {
+    expect(toJS(val.geojson.geometry)).toStrictEqual(geometries[index]);
+    expect(toJS(val.geojson.properties)).toStrictEqual({ name: 'collection' });
+  });
+});
+
+/**
+ * Test that circles remain circles when they are exported and imported again,
+ * and when they are copied and pasted
+ */
+test('export and import of semantic shapes', async () => {
+  /**
+   * Setup: Import a circle
+   */
+  const shape = { type: 'Circle' as const, center: [0, 0], radius: 1 };
+  const store = new RootModel({});
+  store.features.importFeatures(
+    [
+      circle(shape.center, shape.radius, {
+        properties: { name: 'pond', [SEMANTIC_SHAPE_KEY]: shape },
+      }),
+    ],
+    { replace: true }
+  );
+  const [pond] = store.features.features;
+  expect(pond.semanticType).toBe('Circle');
+  expect(toJS(pond.semanticShape)).toStrictEqual(shape);
+  expect(toJS(pond.geojson.properties)).toStrictEqual({ name: 'pond' });
+
+  /**
+   * Test: The circle is exported with its semantic properties
+   */
+  const exported = store.geojson;
+  expect(exported.features[0].properties).toStrictEqual({
+    name: 'pond',
+    [SEMANTIC_SHAPE_KEY]: shape,
+  });
+
+  /**
+   * Test: The exported circle is imported as a circle
+   */
+  const other = new RootModel({});
+  const result = await importGeometry(other, exported, {
+    replace: true,
+    strict: true,
+    validate: true,
+  });
+  expect(result).toStrictEqual({ errors: [], exact: true });
+  const [imported] = other.features.features;
+  expect(imported.semanticType).toBe('Circle');
+  expect(toJS(imported.geojson.properties)).toStrictEqual({ name: 'pond' });
+  expect(other.geojson).toStrictEqual(exported);
+
+  /**
+   * Test: Semantic properties that do not match the geometry,
+   * or that describe shapes with no area, are discarded
+   */
+  const exportedPond = exported.features[0];
+  const mismatched = [
+    point([1, 1], { [SEMANTIC_SHAPE_KEY]: shape }),
+    {
+      ...exportedPond,
+      properties: { [SEMANTIC_SHAPE_KEY]: { ...shape, radius: 2 } },
+    },
+    {
+      ...exportedPond,
+      properties: { [SEMANTIC_SHAPE_KEY]: { ...shape, radius: 0 } },
+    },
+    {
+      ...exportedPond,
+      properties: {
+        [SEMANTIC_SHAPE_KEY]: {
+          type: 'Rectangle',
+          corners: [
+            [0, 0],
+            [0, 0],
+          ],
+        },
+      },
+    },
+  ];
+  await expect(
+    importGeometry(
+      other,
+      { type: 'FeatureCollection', features: mismatched },
+      { replace: false, strict: true, validate: true }
+    )
+  ).rejects.toThrow(SEMANTIC_SHAPE_KEY);
+  const invalid = await importGeometry(
+    other,
+    { type: 'FeatureCollection', features: mismatched },
+    { replace: false, strict: false, validate: true }
+  );
+  expect(invalid.errors).toHaveLength(4);
+  expect(invalid.exact).toBe(false);
+  expect(other.features.features).toHaveLength(5);
+  expect(
+    other.features.features.slice(1).map((val) => val.semanticType)
+  ).toStrictEqual(['Point', 'Polygon', 'Polygon', 'Polygon']);
+  other.features.features.slice(1).forEach((val) => {
+    expect(toJS(val.geojson.properties)).toStrictEqual({});
+  });
+  // Unvalidated features are checked in the same way
+  other.features.importFeatures(cloneDeep(mismatched.slice(1, 2)), {
+    replace: false,
+  });
+  expect(other.features.features[5].semanticType).toBe('Polygon');
+  other.features.importFeatures([cloneDeep(exportedPond)], { replace: false });
+  expect(other.features.features[6].semanticType).toBe('Circle');
+
+  /**
+   * Test: Pasted copies of the circle are circles, moved south-east
+   */
+  other.controls.toggleMode(InteractionMode.SelectMultiple);
+  other.features.toggleMultiSelectFeature(imported.$modelId);
+  other.controls.copy();
+  other.controls.paste();
+  const pasted = other.features.features[7];
+  expect(pasted.semanticType).toBe('Circle');
+  expect(toJS(pasted.geojson.properties)).toStrictEqual({ name: 'pond' });
+  const center = (pasted.semanticShape as CircleShape).center;
+  expect(center[0]).toBeGreaterThan(0);
+  expect(center[1]).toBeLessThan(0);
+
+  /**
+   * Test: A copy pasted at a different latitude is the circle described
+   * by its semantic properties
+   */
+  other.controls.togglePastingAtLocation();
+  other.handleMapPress(point([10, 60]));
+  const placed = other.features.features[8];
+  const placedShape = placed.semanticShape as CircleShape;
+  expect(placedShape.center[0]).toBeCloseTo(10);
+  expect(placedShape.center[1]).toBeCloseTo(60);
+  expect(placedShape.radius).toBe(shape.radius);
+  expect(readSemanticShape(placed.exportGeoJSON)).toStrictEqual(
+    toJS(placedShape)
+  );
+});
@@ -1,13 +1,22 @@
 import { toJS } from 'mobx';
-import { point, lineString, polygon } from '@turf/helpers';
+import {
+  point,
+  lineString,
+  polygon,
+  multiPoint,
+  multiLineString,
+  multiPolygon,
+} from '@turf/helpers';
 import cloneDeep from 'lodash/cloneDeep';
 import type { Position } from 'geojson';
 
 import { FeatureModel } from '../../state/FeatureModel';
 import {
+  CoordinateRole,
   EditableGeometryType,
   FeatureLifecycleStage,
 } from '../../type/geometry';
+import type { CircleShape } from '../../type/geometry';
 
 /**
  * Make a point with the desired eventual geometry type.
@@ -482,3 +491,642 @@ test.each([
     expect(p.geojson.geometry.coordinates).toStrictEqual([expected]);
   }
 );
+
+/**
+ * Make a four-vertex polygon containing a four-vertex hole.
+ */
+function makePolygonWithHole() {
+  return new FeatureModel({
+    stage: FeatureLifecycleStage.EditShape,
+    geojson: polygon([
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+      [
+        [2, 2],
+        [2, 4],
+        [4, 4],
+        [4, 2],
+        [2, 2],
+      ],
+    ]),
+    finalType: 'Polygon',
+  });
+}
+
+/**
+ * Move vertices of a hole, including the first vertex of the hole
+ */
+test.each([
+  [4, 0],
+  [5, 1],
+  [7, 3],
+] as Array<[number, number]>)(
+  'dragPosition on a polygon hole',
+  (index, holeIndex) => {
+    const p = makePolygonWithHole();
+    p.dragPosition([3, 3], index);
+    const hole = toJS(p.geojson.geometry.coordinates[1]) as Array<Position>;
+    expect(hole[holeIndex]).toStrictEqual([3, 3]);
+    expect(hole[0]).toStrictEqual(hole[hole.length - 1]);
+    expect(hole.length).toStrictEqual(5);
+  }
+);
+
+/**
+ * Split edges of the exterior boundary or of the hole, whichever is closest
+ */
+test.each([
+  [[5, 0.5], 0, 1],
+  [[3, 2.5], 1, 4],
+  [[1.5, 3], 1, 1],
+] as Array<[Position, number, number]>)(
+  'addVertexToNearestSegment on a polygon with a hole',
+  (position, ringIndex, vertexIndex) => {
+    const p = makePolygonWithHole();
+    p.addVertexToNearestSegment(position);
+    const rings = toJS(p.geojson.geometry.coordinates) as Array<
+      Array<Position>
+    >;
+    expect(rings[ringIndex].length).toStrictEqual(6);
+    expect(rings[1 - ringIndex].length).toStrictEqual(5);
+    expect(rings[ringIndex][0]).toStrictEqual(
+      rings[ringIndex][rings[ringIndex].length - 1]
+    );
+    // The new vertex is on the edge nearest to the position
+    const vertex = rings[ringIndex][vertexIndex];
+    if (ringIndex === 0) {
+      expect(vertex[1]).toBeCloseTo(0);
+    } else if (vertexIndex === 4) {
+      expect(vertex[1]).toBeCloseTo(2);
+    } else {
+      expect(vertex[0]).toBeCloseTo(2);
+    }
+  }
+);
+
+/**
+ * Remove the vertices of a hole, which removes the hole
+ * when the hole would degenerate
+ */
+test('removeVertex on a polygon hole', () => {
+  const p = makePolygonWithHole();
+  p.removeVertex(0);
+  // The exterior boundary cannot lose more vertices
+  expect(p.canRemoveVertexAt(0)).toStrictEqual(false);
+  p.removeVertex(0);
+  expect(
+    (p.geojson.geometry.coordinates[0] as Array<Position>).length
+  ).toStrictEqual(4);
+  // Hole vertex indices follow the three vertices of the exterior boundary
+  expect(p.canRemoveVertexAt(3)).toStrictEqual(true);
+  p.removeVertex(3);
+  expect(toJS(p.geojson.geometry.coordinates[1])).toStrictEqual([
+    [2, 4],
+    [4, 4],
+    [4, 2],
+    [2, 4],
+  ]);
+  p.removeVertex(4);
+  expect(p.geojson.geometry.coordinates.length).toStrictEqual(1);
+  expect(p.canRemoveVertices).toStrictEqual(false);
+});
+
+/**
+ * Remove several vertices at once, including all of the vertices of a hole
+ */
+test('removeVertices on a polygon with a hole', () => {
+  const p = makePolygonWithHole();
+  /**
+   * Later vertices are removed first, so the first two vertices
+   * of the exterior boundary are kept, as the boundary would degenerate
+   */
+  p.removeVertices([0, 6, 5, 4, 1, 2]);
+  expect(toJS(p.geojson.geometry.coordinates)).toStrictEqual([
+    [
+      [0, 0],
+      [10, 0],
+      [0, 10],
+      [0, 0],
+    ],
+  ]);
+});
+
+/**
+ * Find the vertices inside a polygon
+ */
+test('verticesInPolygon', () => {
+  const p = makePolygonWithHole();
+  expect(
+    p.verticesInPolygon(
+      polygon([
+        [
+          [-1, -1],
+          [5, -1],
+          [5, 5],
+          [-1, 5],
+          [-1, -1],
+        ],
+      ]).geometry
+    )
+  ).toStrictEqual([0, 4, 5, 6, 7]);
+});
+
+/**
+ * Draw and close a hole
+ */
+test('closeHole', () => {
+  const p = makePolygonWithHole();
+  const hole = [
+    [6, 6],
+    [6, 8],
+    [8, 8],
+  ];
+  p.addHoleVertex(hole[0]);
+  p.addHoleVertex(hole[1]);
+  // Duplicate vertices are ignored
+  p.addHoleVertex([2, 2]);
+  p.addHoleVertex(hole[1]);
+  expect(p.canCloseHole).toStrictEqual(false);
+  p.closeHole();
+  expect(p.geojson.geometry.coordinates.length).toStrictEqual(2);
+  p.addHoleVertex(hole[2]);
+  expect(p.canCloseHole).toStrictEqual(true);
+  expect(
+    p.hotFeatures
+      .filter((f) => f.geometry.type === 'Point')
+      .map((f) => f.properties.rnmgeIndex)
+  ).toStrictEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  p.closeHole();
+  expect(toJS(p.geojson.geometry.coordinates[2])).toStrictEqual(
+    hole.concat([hole[0]])
+  );
+  expect(p.holeDraft.length).toStrictEqual(0);
+});
+
+/**
+ * Make a multi-point feature with three points
+ */
+function makeMultiPoint() {
+  return new FeatureModel({
+    stage: FeatureLifecycleStage.EditShape,
+    geojson: multiPoint([
+      [0, 0],
+      [5, 5],
+      [10, 10],
+    ]),
+    finalType: 'MultiPoint',
+  });
+}
+
+/**
+ * Make a multi-polyline feature with two three-vertex polylines
+ */
+function makeMultiLineString() {
+  return new FeatureModel({
+    stage: FeatureLifecycleStage.EditShape,
+    geojson: multiLineString([
+      [
+        [0, 0],
+        [0, 5],
+        [0, 10],
+      ],
+      [
+        [10, 0],
+        [10, 5],
+        [10, 10],
+      ],
+    ]),
+    finalType: 'MultiLineString',
+  });
+}
+
+/**
+ * Make a multi-polygon feature with two polygons,
+ * the first of which has a hole
+ */
+function makeMultiPolygon() {
+  return new FeatureModel({
+    stage: FeatureLifecycleStage.EditShape,
+    geojson: multiPolygon([
+      [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+        [
+          [2, 2],
+          [2, 4],
+          [4, 4],
+          [4, 2],
+          [2, 2],
+        ],
+      ],
+      [
+        [
+          [20, 0],
+          [30, 0],
+          [30, 10],
+          [20, 0],
+        ],
+      ],
+    ]),
+    finalType: 'MultiPolygon',
+  });
+}
+
+/**
+ * Move vertices of multi-geometry features, where vertices are numbered
+ * consecutively across parts and rings
+ */
+test.each([
+  [
+    makeMultiPoint,
+    2,
+    [
+      [0, 0],
+      [5, 5],
+      [-1, -1],
+    ],
+  ],
+  [
+    makeMultiLineString,
+    3,
+    [
+      [
+        [0, 0],
+        [0, 5],
+        [0, 10],
+      ],
+      [
+        [-1, -1],
+        [10, 5],
+        [10, 10],
+      ],
+    ],
+  ],
+  [
+    makeMultiPolygon,
+    4,
+    [
+      [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+        [
+          [-1, -1],
+          [2, 4],
+          [4, 4],
+          [4, 2],
+          [-1, -1],
+        ],
+      ],
+      [
+        [
+          [20, 0],
+          [30, 0],
+          [30, 10],
+          [20, 0],
+        ],
+      ],
+    ],
+  ],
+])('dragPosition on a multi-geometry feature %#', (make, index, expected) => {
+  const p = make();
+  p.dragPosition([-1, -1], index);
+  expect(toJS(p.geojson.geometry.coordinates)).toStrictEqual(expected);
+});
+
+/**
+ * Split the edge of the nearest part
+ */
+test('addVertexToNearestSegment on a multi-polyline', () => {
+  const p = makeMultiLineString();
+  p.addVertexToNearestSegment([11, 7]);
+  const line = toJS(p.geojson.geometry.coordinates[1]) as Array<Position>;
+  expect(line.length).toStrictEqual(4);
+  // The new vertex is placed on the edge
+  expect(line[2][0]).toBeCloseTo(10);
+  expect(line[2][1]).toBeCloseTo(7, 1);
+  expect(
+    (p.geojson.geometry.coordinates[0] as Array<Position>).length
+  ).toStrictEqual(3);
+});
+
+/**
+ * Insert vertices into edges, given the index of the vertex at the start of the edge
+ */
+test.each([
+  [
+    () => makeTriplet('LineString'),
+    1,
+    [
+      [-1, -2],
+      [1, 2],
+      [-1, -1],
+      [3, 4],
+    ],
+  ],
+  // The last edge of a linear ring ends at the duplicate first position
+  [
+    () => makeTriplet('Polygon'),
+    2,
+    [
+      [
+        [-1, -2],
+        [1, 2],
+        [3, 4],
+        [-1, -1],
+        [-1, -2],
+      ],
+    ],
+  ],
+  [
+    makeMultiLineString,
+    3,
+    [
+      [
+        [0, 0],
+        [0, 5],
+        [0, 10],
+      ],
+      [
+        [10, 0],
+        [-1, -1],
+        [10, 5],
+        [10, 10],
+      ],
+    ],
+  ],
+])('splitEdge %#', (make, index, expected) => {
+  const p = make();
+  p.splitEdge([-1, -1], index);
+  expect(toJS(p.geojson.geometry.coordinates)).toStrictEqual(expected);
+});
+
+/**
+ * The last vertex of a line string does not start an edge
+ */
+test('splitEdge at the end of a line string', () => {
+  const p = makeTriplet('LineString');
+  expect(() => p.splitEdge([-1, -1], 2)).toThrow();
+});
+
+/**
+ * Remove vertices from parts of multi-geometry features
+ */
+test('removeVertex on a multi-polyline', () => {
+  const p = makeMultiLineString();
+  p.removeVertex(4);
+  expect(toJS(p.geojson.geometry.coordinates[1])).toStrictEqual([
+    [10, 0],
+    [10, 10],
+  ]);
+  // Polylines cannot have fewer than two vertices
+  expect(p.canRemoveVertexAt(3)).toStrictEqual(false);
+  expect(p.canRemoveVertexAt(0)).toStrictEqual(true);
+});
+
+/**
+ * Remove parts of multi-geometry features, but not the last part
+ */
+test.each([
+  [makeMultiPoint, 1, 3],
+  [makeMultiLineString, 4, 2],
+  [makeMultiPolygon, 9, 2],
+])('removePart %#', (make, vertexIndex, partCount) => {
+  const p = make();
+  expect(p.isMultiFeature).toStrictEqual(true);
+  expect(p.partCount).toStrictEqual(partCount);
+  const partIndex = p.partIndexOfVertex(vertexIndex);
+  p.removePart(partIndex);
+  expect(p.partCount).toStrictEqual(partCount - 1);
+  while (p.canRemovePart) {
+    p.removePart(0);
+  }
+  expect(p.partCount).toStrictEqual(1);
+});
+
+/**
+ * Find the part closest to a position
+ */
+test.each([
+  [makeMultiPoint, [9, 9], 2],
+  [makeMultiLineString, [8, 1], 1],
+  // Inside the hole of the first polygon
+  [makeMultiPolygon, [3, 3], 0],
+  [makeMultiPolygon, [25, 1], 1],
+  [makeMultiPolygon, [25, 12], 1],
+])('partIndexNearPosition %#', (make, position, expected) => {
+  const p = make();
+  expect(p.partIndexNearPosition(position)).toStrictEqual(expected);
+});
+
+/**
+ * Draw and close new parts
+ */
+test.each([
+  [makeMultiPoint, 1, 3],
+  [makeMultiLineString, 2, 7],
+  [makeMultiPolygon, 3, 13],
+])('closePart %#', (make, vertexCount, lastIndex) => {
+  const p = make();
+  const partCount = p.partCount;
+  const vertices = [
+    [40, 40],
+    [40, 50],
+    [50, 50],
+  ].slice(0, vertexCount);
+  vertices.forEach((vertex) => {
+    expect(p.canClosePart).toStrictEqual(false);
+    p.addPartVertex(vertex);
+  });
+  if (vertexCount > 1) {
+    expect(p.canClosePart).toStrictEqual(true);
+    p.closePart();
+  }
+  expect(p.partCount).toStrictEqual(partCount + 1);
+  expect(p.partDraft.length).toStrictEqual(0);
+  expect(p.partIndexOfVertex(lastIndex)).toStrictEqual(partCount);
+});
+
+/**
+ * Multi-point features are rendered as separate point features
+ */
+test('coldPointFeatures of a multi-point', () => {
+  const p = makeMultiPoint();
+  p.setStage(FeatureLifecycleStage.View);
+  expect(
+    p.coldPointFeatures.map((f) => [
+      f.geometry.coordinates,
+      f.properties.rnmgeIndex,
+    ])
+  ).toStrictEqual([
+    [[0, 0], 0],
+    [[5, 5], 1],
+    [[10, 10], 2],
+  ]);
+  expect(p.coldNonPointFeatures.length).toStrictEqual(0);
+});
+
+/**
+ * Make a circle or a rectangle that has not yet been given a second point
+ * @param type The semantic type of the shape
+ */
+function makeSemanticShape(type: 'Circle' | 'Rectangle') {
+  return new FeatureModel({
+    stage: FeatureLifecycleStage.NewShape,
+    geojson: point([0, 0]),
+    finalType: 'Polygon',
+    semanticShape:
+      type === 'Circle'
+        ? { type, center: [0, 0], radius: 0 }
+        : {
+            type,
+            corners: [
+              [0, 0],
+              [0, 0],
+            ],
+          },
+  });
+}
+
+/**
+ * The second point of a circle or rectangle turns it into a polygon,
+ * unless the shape would have no area
+ */
+test.each([
+  ['Circle' as const, [0, 1], 65],
+  ['Rectangle' as const, [2, 1], 5],
+  ['Rectangle' as const, [0, 1], 0],
+])('addVertex to a %s', (type, vertex, ringLength) => {
+  const p = makeSemanticShape(type);
+  expect(p.hasHandles).toStrictEqual(true);
+  expect(p.semanticType).toStrictEqual(type);
+  p.addVertex(vertex);
+  if (ringLength > 0) {
+    expect(p.isCompleteFeature).toStrictEqual(true);
+    expect(
+      (p.geojson.geometry.coordinates[0] as Array<Position>).length
+    ).toStrictEqual(ringLength);
+  } else {
+    expect(p.geojson.geometry.type).toStrictEqual('Point');
+  }
+  expect(p.canRemoveVertices).toStrictEqual(false);
+});
+
+/**
+ * Resize a rectangle by dragging its corners
+ */
+test.each([
+  [
+    2,
+    [3, 4],
+    [
+      [0, 0],
+      [3, 0],
+      [3, 4],
+      [0, 4],
+      [0, 0],
+    ],
+  ],
+  [
+    0,
+    [1, -1],
+    [
+      [1, -1],
+      [2, -1],
+      [2, 1],
+      [1, 1],
+      [1, -1],
+    ],
+  ],
+  // The rectangle would have no area
+  [
+    1,
+    [0, 1],
+    [
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [0, 1],
+      [0, 0],
+    ],
+  ],
+])('dragPosition on a rectangle corner %i', (index, position, expected) => {
+  const p = makeSemanticShape('Rectangle');
+  p.addVertex([2, 1]);
+  p.setStage(FeatureLifecycleStage.EditShape);
+  expect(p.draggablePositions.map((val) => val.role)).toStrictEqual(
+    Array(4).fill(CoordinateRole.RectangleCorner)
+  );
+  p.dragPosition(position, index);
+  expect(toJS(p.geojson.geometry.coordinates[0])).toStrictEqual(expected);
+});
+
+/**
+ * Move a circle by dragging its centre, and resize it by dragging its other handle
+ */
+test('dragPosition on a circle', () => {
+  const p = makeSemanticShape('Circle');
+  p.addVertex([0, 1]);
+  p.setStage(FeatureLifecycleStage.EditShape);
+  const radius = (p.semanticShape as CircleShape).radius;
+  expect(p.draggablePositions.map((val) => val.role)).toStrictEqual([
+    CoordinateRole.CircleCenter,
+    CoordinateRole.CircleRadius,
+  ]);
+
+  p.dragPosition([5, 5], 0);
+  expect(toJS(p.semanticShape)).toStrictEqual({
+    type: 'Circle',
+    center: [5, 5],
+    radius,
+  });
+  const handle = p.draggablePositions[1].coordinates;
+  expect(handle[0]).toBeGreaterThan(5);
+  expect(handle[1]).toBeCloseTo(5);
+
+  p.dragPosition([5, 7], 1);
+  expect((p.semanticShape as CircleShape).radius).toBeCloseTo(radius * 2, 0);
+  // Vertices cannot be added to circles
+  p.addVertexToNearestSegment([5, 9]);
+  expect(
+    (p.geojson.geometry.coordinates[0] as Array<Position>).length
+  ).toStrictEqual(65);
+});
+
+/**
+ * Test that only features being edited are checked for validity
+ */
+test.each([
+  [FeatureLifecycleStage.EditShape, false],
+  [FeatureLifecycleStage.NewShape, false],
+  [FeatureLifecycleStage.View, true],
+])('geometryProblems of a bow-tie polygon in stage %s', (stage, isValid) => {
+  const feature = new FeatureModel({
+    stage,
+    geojson: polygon([
+      [
+        [0, 0],
+        [1, 1],
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ],
+    ]),
+    finalType: 'Polygon',
+  });
+  expect(feature.geometryProblems.length === 0).toBe(isValid);
+});
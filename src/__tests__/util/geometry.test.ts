@@ -1,6 +1,57 @@
-import { lineString, polygon } from '@turf/helpers';
+import area from '@turf/area';
+import distance from '@turf/distance';
+import {
+  lineString,
+  multiLineString,
+  multiPolygon,
+  point,
+  polygon,
+} from '@turf/helpers';
 
+import { bufferGeometry, offsetLine } from '../../util/geometry/buffer';
+import { clipPolygon } from '../../util/geometry/clip';
+import {
+  closeLine,
+  convexHull,
+  joinPoints,
+  openPolygon,
+} from '../../util/geometry/convert';
+import {
+  formatPosition,
+  fromUtm,
+  parsePosition,
+  toUtm,
+} from '../../util/geometry/coordinates';
 import { orderShapes } from '../../util/geometry/display';
+import {
+  constrainPosition,
+  constraintGuides,
+} from '../../util/geometry/constraints';
+import {
+  combineMeasurements,
+  measureGeometry,
+} from '../../util/geometry/measure';
+import { findSnapTarget, metersPerPixel } from '../../util/geometry/snapping';
+import { mergePolygons } from '../../util/geometry/merge';
+import {
+  countPositions,
+  resampleGeometry,
+  simplifyPlanar,
+} from '../../util/geometry/simplify';
+import { plotGrid } from '../../util/geometry/plots';
+import { splitGeometry } from '../../util/geometry/split';
+import { shouldRecordPosition } from '../../util/geometry/track';
+import {
+  applyTransform,
+  featuresCenter,
+  METERS_PER_DEGREE,
+  rotationAngle,
+  scaleFactor,
+  southEastOffset,
+  translateFeatures,
+} from '../../util/geometry/transform';
+import { findGeometryProblems } from '../../util/geometry/validation';
+import { GeometryProblem } from '../../type/geometry';
 import { listsToSets } from '../test_helpers/collections';
 
 /**
@@ -307,3 +358,1411 @@ test.each([
   const actual = listsToSets(orderShapes(elements));
   expect(actual).toStrictEqual(expected);
 });
+
+/**
+ * A square roughly 111 metres on each side, at the equator
+ */
+const SNAPPING_SQUARE = polygon([
+  [
+    [0, 0],
+    [0.001, 0],
+    [0.001, 0.001],
+    [0, 0.001],
+    [0, 0],
+  ],
+]);
+
+/**
+ * Test snapping to vertices, to edges, and to nothing
+ */
+test.each([
+  // Near a vertex
+  [[0.00001, 0.00001], 5, [0, 0]],
+  // Closer to an edge than to a vertex, but vertices take priority
+  [[0.00003, 0.000001], 5, [0, 0]],
+  // Near an edge only
+  [[0.0005, 0.00001], 5, [0.0005, 0]],
+  // Too far from the polygon
+  [[0.0005, 0.0005], 5, null],
+  // Snapping disabled
+  [[0.00001, 0.00001], 0, null],
+])(
+  'findSnapTarget for position %j with tolerance %d',
+  (position, tolerance, expected) => {
+    const actual = findSnapTarget(
+      position,
+      [SNAPPING_SQUARE, point([1, 1])],
+      tolerance
+    );
+    if (expected) {
+      expect(actual).not.toBeNull();
+      expect(actual![0]).toBeCloseTo(expected[0], 8);
+      expect(actual![1]).toBeCloseTo(expected[1], 8);
+    } else {
+      expect(actual).toBeNull();
+    }
+  }
+);
+
+/**
+ * Test conversion of screen distances to ground distances
+ */
+test.each([
+  [0, 0, 78271.517],
+  [0, 1, 39135.758],
+  [60, 0, 39135.758],
+])(
+  'metersPerPixel at latitude %d and zoom level %d',
+  (latitude, zoomLevel, expected) => {
+    expect(metersPerPixel(latitude, zoomLevel)).toBeCloseTo(expected, 2);
+  }
+);
+
+/**
+ * Test detection of invalid geometry
+ */
+test.each([
+  // Valid geometry
+  [point([0, 0]).geometry, []],
+  [
+    lineString([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ]).geometry,
+    [],
+  ],
+  [SNAPPING_SQUARE.geometry, []],
+  // A bow-tie polygon
+  [
+    polygon([
+      [
+        [0, 0],
+        [1, 1],
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ],
+    ]).geometry,
+    [GeometryProblem.SelfIntersection],
+  ],
+  // A line string that crosses itself
+  [
+    lineString([
+      [0, 0],
+      [1, 1],
+      [1, 0],
+      [0, 1],
+    ]).geometry,
+    [GeometryProblem.SelfIntersection],
+  ],
+  // A hole that crosses the exterior boundary of a polygon
+  [
+    polygon([
+      [
+        [0, 0],
+        [2, 0],
+        [2, 2],
+        [0, 2],
+        [0, 0],
+      ],
+      [
+        [1, 1],
+        [3, 1],
+        [3, 1.5],
+        [1, 1],
+      ],
+    ]).geometry,
+    [GeometryProblem.SelfIntersection],
+  ],
+  // Duplicate consecutive vertices
+  [
+    lineString([
+      [0, 0],
+      [1, 0],
+      [1, 0],
+      [1, 1],
+    ]).geometry,
+    [GeometryProblem.DuplicateVertices],
+  ],
+  // A polygon whose vertices are all on a line
+  [
+    polygon([
+      [
+        [0, 0],
+        [1, 0],
+        [2, 0],
+        [0, 0],
+      ],
+    ]).geometry,
+    [GeometryProblem.ZeroAreaRing],
+  ],
+  // A multi-polygon with one polygon that has only two distinct vertices
+  [
+    multiPolygon([
+      SNAPPING_SQUARE.geometry.coordinates,
+      [
+        [
+          [2, 2],
+          [3, 3],
+          [3, 3],
+          [2, 2],
+        ],
+      ],
+    ]).geometry,
+    [GeometryProblem.DuplicateVertices, GeometryProblem.ZeroAreaRing],
+  ],
+])('findGeometryProblems for geometry %j', (geometry, expected) => {
+  expect(findGeometryProblems(geometry)).toStrictEqual(expected);
+});
+
+/**
+ * A unit square for testing geometry splitting
+ */
+const SPLIT_SQUARE = polygon([
+  [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+    [0, 0],
+  ],
+]);
+
+/**
+ * Test splitting geometry with cut lines, checking the number of pieces,
+ * and checking that no area is lost or gained when splitting polygons
+ */
+test.each([
+  // A cut line across a square
+  [
+    SPLIT_SQUARE.geometry,
+    [
+      [0.5, -1],
+      [0.5, 2],
+    ],
+    2,
+  ],
+  // A cut line that ends inside a square
+  [
+    SPLIT_SQUARE.geometry,
+    [
+      [0.5, -1],
+      [0.5, 0.5],
+    ],
+    null,
+  ],
+  // A cut line through two opposite corners of a square
+  [
+    SPLIT_SQUARE.geometry,
+    [
+      [-1, -1],
+      [2, 2],
+    ],
+    2,
+  ],
+  // A cut line that crosses the same edge of a square twice
+  [
+    SPLIT_SQUARE.geometry,
+    [
+      [0.25, -1],
+      [0.25, 0.5],
+      [0.75, 0.5],
+      [0.75, -1],
+    ],
+    2,
+  ],
+  // A cut line across a square with a hole
+  [
+    polygon([
+      [
+        [0, 0],
+        [4, 0],
+        [4, 4],
+        [0, 4],
+        [0, 0],
+      ],
+      [
+        [1, 1],
+        [1, 3],
+        [3, 3],
+        [3, 1],
+        [1, 1],
+      ],
+    ]).geometry,
+    [
+      [2, -1],
+      [2, 5],
+    ],
+    2,
+  ],
+  // A cut line that crosses one of two squares
+  [
+    multiPolygon([
+      SPLIT_SQUARE.geometry.coordinates,
+      [
+        [
+          [2, 2],
+          [3, 2],
+          [3, 3],
+          [2, 3],
+          [2, 2],
+        ],
+      ],
+    ]).geometry,
+    [
+      [0.5, -1],
+      [0.5, 2],
+    ],
+    3,
+  ],
+  // A cut line that crosses a polyline twice
+  [
+    lineString([
+      [0, 0],
+      [2, 0],
+      [2, 2],
+    ]).geometry,
+    [
+      [1, -1],
+      [1, 1],
+      [3, 1],
+    ],
+    3,
+  ],
+  // A cut line through a vertex of a polyline
+  [
+    lineString([
+      [0, 0],
+      [2, 0],
+      [2, 2],
+    ]).geometry,
+    [
+      [3, -1],
+      [1, 1],
+    ],
+    2,
+  ],
+  // A cut line that touches the end of a polyline
+  [
+    lineString([
+      [0, 0],
+      [2, 0],
+    ]).geometry,
+    [
+      [2, -1],
+      [2, 1],
+    ],
+    null,
+  ],
+  // A cut line that crosses one of two polylines
+  [
+    multiLineString([
+      [
+        [0, 0],
+        [2, 0],
+      ],
+      [
+        [0, 2],
+        [2, 2],
+      ],
+    ]).geometry,
+    [
+      [1, -1],
+      [1, 1],
+    ],
+    3,
+  ],
+  // Points cannot be split
+  [
+    point([0, 0]).geometry,
+    [
+      [-1, -1],
+      [1, 1],
+    ],
+    null,
+  ],
+])(
+  'splitGeometry for geometry %j and cut line %j',
+  (geometry, cutLine, count) => {
+    const pieces = splitGeometry(geometry, cutLine);
+    if (count === null) {
+      expect(pieces).toBeNull();
+    } else {
+      expect(pieces).toHaveLength(count);
+      if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+        const totalArea = (pieces ?? []).reduce(
+          (sum, piece) => sum + area(piece),
+          0
+        );
+        expect(totalArea).toBeCloseTo(area(geometry), 0);
+      }
+    }
+  }
+);
+
+/**
+ * Test merging polygons, checking the type of the result and its area
+ */
+test.each([
+  // Two squares that share an edge
+  [
+    [
+      SPLIT_SQUARE.geometry,
+      polygon([
+        [
+          [1, 0],
+          [2, 0],
+          [2, 1],
+          [1, 1],
+          [1, 0],
+        ],
+      ]).geometry,
+    ],
+    'Polygon',
+    2,
+  ],
+  // Two overlapping squares
+  [
+    [
+      SPLIT_SQUARE.geometry,
+      polygon([
+        [
+          [0.5, 0],
+          [1.5, 0],
+          [1.5, 1],
+          [0.5, 1],
+          [0.5, 0],
+        ],
+      ]).geometry,
+    ],
+    'Polygon',
+    1.5,
+  ],
+  // Two separate squares
+  [
+    [
+      SPLIT_SQUARE.geometry,
+      polygon([
+        [
+          [2, 0],
+          [3, 0],
+          [3, 1],
+          [2, 1],
+          [2, 0],
+        ],
+      ]).geometry,
+    ],
+    'MultiPolygon',
+    2,
+  ],
+])('mergePolygons for geometry %j', (geometries, type, squares) => {
+  const merged = mergePolygons(geometries);
+  expect(merged?.type).toBe(type);
+  expect(area(merged!) / area(SPLIT_SQUARE)).toBeCloseTo(squares, 2);
+});
+
+/**
+ * A rectangle covering the right half of {@link SPLIT_SQUARE} and extending beyond it
+ */
+const CLIP_RECTANGLE = polygon([
+  [
+    [0.5, -1],
+    [2, -1],
+    [2, 2],
+    [0.5, 2],
+    [0.5, -1],
+  ],
+]);
+
+/**
+ * A square containing {@link SPLIT_SQUARE}
+ */
+const CLIP_ENVELOPE = polygon([
+  [
+    [-1, -1],
+    [2, -1],
+    [2, 2],
+    [-1, 2],
+    [-1, -1],
+  ],
+]);
+
+/**
+ * A strip across the middle of {@link SPLIT_SQUARE}
+ */
+const CLIP_STRIP = polygon([
+  [
+    [0.4, -1],
+    [0.6, -1],
+    [0.6, 2],
+    [0.4, 2],
+    [0.4, -1],
+  ],
+]);
+
+/**
+ * Test clipping a square to boundaries and removing its overlaps with other polygons,
+ * checking the type of the result, and its area in multiples of the square's area
+ */
+test.each([
+  // Nothing to clip
+  [null, [], 'Polygon', 1],
+  // A boundary containing the square
+  [CLIP_ENVELOPE.geometry, [], 'Polygon', 1],
+  // A boundary containing half of the square
+  [CLIP_RECTANGLE.geometry, [], 'Polygon', 0.5],
+  // A boundary that does not intersect the square
+  [
+    polygon([
+      [
+        [2, 2],
+        [3, 2],
+        [3, 3],
+        [2, 3],
+        [2, 2],
+      ],
+    ]).geometry,
+    [],
+    null,
+    0,
+  ],
+  // A neighbour dividing the square in two
+  [null, [CLIP_STRIP.geometry], 'MultiPolygon', 0.8],
+  // A boundary and a neighbour
+  [CLIP_RECTANGLE.geometry, [CLIP_STRIP.geometry], 'Polygon', 0.4],
+  // Neighbours covering most of the square
+  [null, [CLIP_RECTANGLE.geometry, CLIP_STRIP.geometry], 'Polygon', 0.4],
+  // A neighbour covering the square
+  [null, [CLIP_ENVELOPE.geometry], null, 0],
+])(
+  'clipPolygon with boundary %j and neighbours %j',
+  (boundary, neighbours, type, squares) => {
+    const geometry = SPLIT_SQUARE.geometry;
+    const clipped = clipPolygon(geometry, boundary, neighbours);
+    if (type === null) {
+      expect(clipped).toBeNull();
+      return;
+    }
+    expect(clipped?.type).toBe(type);
+    expect(area(clipped!) / area(SPLIT_SQUARE)).toBeCloseTo(squares, 2);
+    // Unchanged geometry is returned as-is
+    expect(clipped === geometry).toBe(squares === 1);
+  }
+);
+
+/**
+ * Test closing line strings into polygons
+ */
+test.each([
+  // An open line string
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ],
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ],
+  // A line string that ends at its first vertex
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ],
+  // Too few distinct vertices
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [0, 0],
+    ],
+    null,
+  ],
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 0],
+    ],
+    null,
+  ],
+])('closeLine for coordinates %j', (coordinates, ring) => {
+  const closed = closeLine(lineString(coordinates).geometry);
+  if (ring) {
+    expect(closed).toStrictEqual({ type: 'Polygon', coordinates: [ring] });
+  } else {
+    expect(closed).toBeNull();
+  }
+});
+
+/**
+ * Test opening polygons into line strings, with and without holes
+ */
+test.each([
+  [SPLIT_SQUARE.geometry, 'LineString'],
+  [
+    polygon([
+      ...SPLIT_SQUARE.geometry.coordinates,
+      [
+        [0.25, 0.25],
+        [0.25, 0.75],
+        [0.75, 0.75],
+        [0.25, 0.25],
+      ],
+    ]).geometry,
+    'MultiLineString',
+  ],
+])('openPolygon for geometry %j', (geometry, type) => {
+  const opened = openPolygon(geometry);
+  expect(opened.type).toBe(type);
+  if (opened.type === 'LineString') {
+    expect(opened.coordinates).toStrictEqual(geometry.coordinates[0]);
+  } else {
+    expect(opened.coordinates).toStrictEqual(geometry.coordinates);
+  }
+});
+
+/**
+ * Test joining points into line strings and polygons
+ */
+test.each([
+  // Too few points
+  [[[0, 0]], false, false],
+  [
+    [
+      [0, 0],
+      [1, 0],
+    ],
+    true,
+    false,
+  ],
+  // Points on a line
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ],
+    true,
+    false,
+  ],
+  // Points around an interior point
+  [
+    [
+      [0, 0],
+      [1, 0],
+      [0.25, 0.25],
+      [1, 1],
+      [0, 1],
+    ],
+    true,
+    true,
+  ],
+])(
+  'joinPoints and convexHull for coordinates %j',
+  (coordinates, canJoin, canEnclose) => {
+    const points = coordinates.map((val) => point(val).geometry);
+    const line = joinPoints(points);
+    if (canJoin) {
+      expect(line?.coordinates).toStrictEqual(coordinates);
+    } else {
+      expect(line).toBeNull();
+    }
+    const hull = convexHull(points);
+    if (canEnclose) {
+      // The interior point is not a vertex of the hull
+      expect(hull?.coordinates[0]).toHaveLength(5);
+      expect(area(hull!)).toBeCloseTo(area(SPLIT_SQUARE), 2);
+    } else {
+      expect(hull).toBeNull();
+    }
+  }
+);
+
+/**
+ * A rectangle, 100 metres from west to east, and 50 metres from south to north
+ */
+const PLOT_FIELD = polygon([
+  [
+    [0, 0],
+    [100 / METERS_PER_DEGREE, 0],
+    [100 / METERS_PER_DEGREE, 50 / METERS_PER_DEGREE],
+    [0, 50 / METERS_PER_DEGREE],
+    [0, 0],
+  ],
+]);
+
+/**
+ * Test dividing a rectangle into grids of plots, checking the numbers of rows and columns,
+ * and the total area of the plots in multiples of the rectangle's area
+ */
+test.each([
+  // Plots that fit exactly
+  [{ width: 10, height: 10, rotation: 0, rowGap: 0, columnGap: 0 }, 5, 10, 1],
+  // Gaps, with the last row clipped to the rectangle
+  [
+    { width: 10, height: 10, rotation: 0, rowGap: 5, columnGap: 5 },
+    4,
+    7,
+    (70 * 35) / 5000,
+  ],
+  // A rotated grid
+  [{ width: 10, height: 10, rotation: 90, rowGap: 0, columnGap: 0 }, 10, 5, 1],
+  [{ width: 10, height: 5, rotation: 45, rowGap: 0, columnGap: 0 }, 22, 11, 1],
+])('plotGrid with options %j', (options, rows, columns, fraction) => {
+  const cells = plotGrid(PLOT_FIELD.geometry, options)!;
+  expect(Math.max(...cells.map((val) => val.row))).toBe(rows);
+  expect(Math.max(...cells.map((val) => val.column))).toBe(columns);
+  expect(Math.min(...cells.map((val) => val.row))).toBe(1);
+  expect(Math.min(...cells.map((val) => val.column))).toBe(1);
+  // Each plot is in a different position in the grid
+  expect(new Set(cells.map((val) => `${val.row},${val.column}`)).size).toBe(
+    cells.length
+  );
+  const total = cells.reduce((sum, val) => sum + area(val.geometry), 0);
+  expect(total / area(PLOT_FIELD)).toBeCloseTo(fraction, 2);
+});
+
+/**
+ * Test that grids of plots are not generated from invalid options,
+ * or if they would have too many plots
+ */
+test('plotGrid with invalid or excessive options', () => {
+  const options = {
+    width: 10,
+    height: 10,
+    rotation: 0,
+    rowGap: 0,
+    columnGap: 0,
+  };
+  expect(plotGrid(PLOT_FIELD.geometry, { ...options, width: 0 })).toStrictEqual(
+    []
+  );
+  expect(
+    plotGrid(PLOT_FIELD.geometry, { ...options, rowGap: -1 })
+  ).toStrictEqual([]);
+  expect(
+    plotGrid(PLOT_FIELD.geometry, { ...options, width: 1, height: 1 })
+  ).toBeNull();
+});
+
+/**
+ * Test that translated copies of features are moved, do not share data
+ * with the original features, and do not have GeoJSON identifiers
+ */
+test('translateFeatures', () => {
+  const original = { ...SPLIT_SQUARE, id: 'square' };
+  const [copy] = translateFeatures([original], [1, 2]);
+  expect(copy.geometry.coordinates).toStrictEqual([
+    [
+      [1, 2],
+      [2, 2],
+      [2, 3],
+      [1, 3],
+      [1, 2],
+    ],
+  ]);
+  expect(copy.id).toBeUndefined();
+  expect(original.geometry.coordinates[0][0]).toStrictEqual([0, 0]);
+  expect(featuresCenter([original, copy])).toStrictEqual([1, 1.5]);
+});
+
+/**
+ * Test that offsets move positions south-east by equal ground distances
+ */
+test.each([[0], [45], [-60]])('southEastOffset at latitude %d', (latitude) => {
+  const [dx, dy] = southEastOffset(100, latitude);
+  const origin = [10, latitude];
+  expect(dx).toBeGreaterThan(0);
+  expect(dy).toBeLessThan(0);
+  expect(
+    distance(origin, [origin[0] + dx, origin[1]], { units: 'meters' })
+  ).toBeCloseTo(100, -1);
+  expect(
+    distance(origin, [origin[0], origin[1] + dy], { units: 'meters' })
+  ).toBeCloseTo(100, -1);
+});
+
+/**
+ * Test that rotations and scale factors computed from handle positions
+ * move the handles to their new positions, away from the equator as well
+ */
+test.each([
+  // Quarter turn
+  [
+    [0, 0],
+    [0, 1],
+    [-1, 0],
+  ],
+  // Half turn
+  [
+    [10, 50],
+    [10, 51],
+    [10, 49],
+  ],
+  // Rotation and enlargement
+  [
+    [10, 60],
+    [11, 61],
+    [9, 62],
+  ],
+  // Reduction
+  [
+    [-20, -40],
+    [-19, -40],
+    [-19.5, -40],
+  ],
+])('applyTransform pivoting about %p from %p to %p', (pivot, from, to) => {
+  const transform = {
+    pivot,
+    rotation: rotationAngle(pivot, from, to),
+    scale: scaleFactor(pivot, from, to),
+    translation: [0, 0],
+  };
+  const moved = applyTransform(from, transform);
+  expect(moved[0]).toBeCloseTo(to[0]);
+  expect(moved[1]).toBeCloseTo(to[1]);
+  expect(applyTransform(pivot, transform)).toStrictEqual(pivot);
+});
+
+/**
+ * Test that transformations preserve altitudes and apply translations last
+ */
+test('applyTransform with a translation', () => {
+  expect(
+    applyTransform([1, 0, 100], {
+      pivot: [0, 0],
+      rotation: 90,
+      scale: 2,
+      translation: [5, 5],
+    }).map((val) => Math.round(val * 1e9) / 1e9)
+  ).toStrictEqual([5, 7, 100]);
+});
+
+/**
+ * Test Douglas-Peucker simplification of traced paths
+ */
+test.each([
+  // Too short to simplify, with a duplicate point
+  [
+    [
+      [0, 0],
+      [0, 0],
+      [1, 1],
+    ],
+    1,
+    [
+      [0, 0],
+      [1, 1],
+    ],
+  ],
+  // Small deviations are removed
+  [
+    [
+      [0, 0],
+      [1, 0.1],
+      [2, -0.1],
+      [3, 0],
+    ],
+    0.5,
+    [
+      [0, 0],
+      [3, 0],
+    ],
+  ],
+  // Small deviations are kept when the tolerance is zero, but collinear points are not
+  [
+    [
+      [0, 0],
+      [1, 0.1],
+      [2, 0.2],
+      [3, 0],
+    ],
+    0,
+    [
+      [0, 0],
+      [2, 0.2],
+      [3, 0],
+    ],
+  ],
+  // Corners are kept
+  [
+    [
+      [0, 0],
+      [1, 0.1],
+      [2, 0],
+      [1.9, 1],
+      [2, 2],
+      [1, 2.1],
+      [0, 2],
+    ],
+    0.5,
+    [
+      [0, 0],
+      [2, 0],
+      [2, 2],
+      [0, 2],
+    ],
+  ],
+])('simplifyPlanar(%p, %d)', (positions, tolerance, expected) => {
+  expect(simplifyPlanar(positions, tolerance)).toStrictEqual(expected);
+});
+
+/**
+ * Test simplifying and densifying line strings and polygons, with distances in metres
+ */
+test.each([
+  // A wiggle of about 1 m is removed with a tolerance of 5 m
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0.00001],
+      [0.002, 0],
+    ]).geometry,
+    'simplify' as const,
+    5,
+    [
+      [0, 0],
+      [0.002, 0],
+    ],
+  ],
+  // A wiggle of about 1 m is kept with a tolerance of 0.5 m
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0.00001],
+      [0.002, 0],
+    ]).geometry,
+    'simplify' as const,
+    0.5,
+    [
+      [0, 0],
+      [0.001, 0.00001],
+      [0.002, 0],
+    ],
+  ],
+  // An edge of about 222 m is split into three edges no longer than 100 m
+  [
+    lineString([
+      [0, 0],
+      [0.002, 0],
+    ]).geometry,
+    'densify' as const,
+    100,
+    [
+      [0, 0],
+      [0.002 / 3, 0],
+      [0.004 / 3, 0],
+      [0.002, 0],
+    ],
+  ],
+])(
+  'resampleGeometry(%p, %s, %d)',
+  (geometry, method, resampleDistance, expected) => {
+    const original = JSON.parse(JSON.stringify(geometry));
+    const result = resampleGeometry(geometry, method, resampleDistance);
+    expect(result.coordinates).toStrictEqual(expected);
+    expect(geometry).toStrictEqual(original);
+  }
+);
+
+/**
+ * Test that simplified polygons keep enough vertices to enclose an area
+ */
+test('resampleGeometry on a small polygon', () => {
+  const square = polygon([
+    [
+      [0, 0],
+      [0.00001, 0],
+      [0.00001, 0.00001],
+      [0, 0.00001],
+      [0, 0],
+    ],
+  ]).geometry;
+  expect(resampleGeometry(square, 'simplify', 100)).toStrictEqual(square);
+  const densified = resampleGeometry(SPLIT_SQUARE.geometry, 'densify', 50000);
+  expect(countPositions(densified)).toBe(13);
+  expect(densified.coordinates[0]).toContainEqual([1, 1]);
+});
+
+/**
+ * Test buffering shapes by distances in metres
+ */
+test.each([
+  // A circle with a radius of 10 m
+  [point([0, 0]).geometry, 10, Math.PI * 100],
+  // A corridor 20 m wide along a line about 111 m long, with rounded ends
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0],
+    ]).geometry,
+    10,
+    20 * 0.001 * METERS_PER_DEGREE + Math.PI * 100,
+  ],
+])('bufferGeometry(%p, %d)', (geometry, bufferDistance, expectedArea) => {
+  const result = bufferGeometry(geometry, bufferDistance);
+  expect(result).not.toBeNull();
+  // Curves are approximated by line segments
+  expect(area(result!)).toBeGreaterThan(expectedArea * 0.97);
+  expect(area(result!)).toBeLessThan(expectedArea * 1.01);
+});
+
+/**
+ * Test shrinking polygons, including until nothing is left
+ */
+test('bufferGeometry with negative distances', () => {
+  const shrunk = bufferGeometry(SPLIT_SQUARE.geometry, -10);
+  expect(shrunk).not.toBeNull();
+  expect(area(shrunk!)).toBeLessThan(area(SPLIT_SQUARE));
+  const square = polygon([
+    [
+      [0, 0],
+      [0.0001, 0],
+      [0.0001, 0.0001],
+      [0, 0.0001],
+      [0, 0],
+    ],
+  ]).geometry;
+  expect(bufferGeometry(square, -10)).toBeNull();
+});
+
+/**
+ * The change in latitude corresponding to 10 m
+ */
+const TEN_METERS = 10 / METERS_PER_DEGREE;
+
+/**
+ * Test offsetting lines by distances in metres, at the equator
+ */
+test.each([
+  // A line going east, offset to its left (north)
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0],
+    ]).geometry,
+    10,
+    [
+      [0, TEN_METERS],
+      [0.001, TEN_METERS],
+    ],
+  ],
+  // A line going east, offset to its right (south)
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0],
+    ]).geometry,
+    -10,
+    [
+      [0, -TEN_METERS],
+      [0.001, -TEN_METERS],
+    ],
+  ],
+  // A line turning left, offset to the inside of the corner
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0],
+      [0.001, 0.001],
+    ]).geometry,
+    10,
+    [
+      [0, TEN_METERS],
+      [0.001 - TEN_METERS, TEN_METERS],
+      [0.001 - TEN_METERS, 0.001],
+    ],
+  ],
+  // A line doubling back on itself, offset to the outside of the corner, which is bevelled
+  [
+    multiLineString([
+      [
+        [0, 0],
+        [0.001, 0],
+        [0, 0],
+      ],
+    ]).geometry,
+    -10,
+    [
+      [
+        [0, -TEN_METERS],
+        [0.001, -TEN_METERS],
+        [0.001, TEN_METERS],
+        [0, TEN_METERS],
+      ],
+    ],
+  ],
+])('offsetLine(%p, %d)', (geometry, offsetDistance, expected) => {
+  const result = offsetLine(geometry, offsetDistance);
+  expect(result?.type).toBe(geometry.type);
+  const actual = (result?.coordinates ?? []).flat(2) as Array<number>;
+  const expectedFlat = expected.flat(2) as Array<number>;
+  expect(actual).toHaveLength(expectedFlat.length);
+  actual.forEach((val, index) => {
+    expect(val).toBeCloseTo(expectedFlat[index], 10);
+  });
+});
+
+/**
+ * The length of one thousandth of a degree of longitude at the equator, in metres
+ */
+const EQUATOR_EDGE = 0.001 * METERS_PER_DEGREE;
+
+/**
+ * Test measuring geometry at the equator
+ */
+test.each([
+  [point([0, 0]).geometry, { length: null, area: null, perimeter: null }],
+  [
+    lineString([
+      [0, 0],
+      [0.001, 0],
+      [0.002, 0],
+    ]).geometry,
+    { length: 2 * EQUATOR_EDGE, area: null, perimeter: null },
+  ],
+  [
+    multiLineString([
+      [
+        [0, 0],
+        [0.001, 0],
+      ],
+      [
+        [0, 0.001],
+        [0.001, 0.001],
+      ],
+    ]).geometry,
+    { length: 2 * EQUATOR_EDGE, area: null, perimeter: null },
+  ],
+  // A square with a square hole, with a quarter of the area of the square
+  [
+    polygon([
+      [
+        [0, 0],
+        [0.002, 0],
+        [0.002, 0.002],
+        [0, 0.002],
+        [0, 0],
+      ],
+      [
+        [0.0005, 0.0005],
+        [0.0005, 0.0015],
+        [0.0015, 0.0015],
+        [0.0015, 0.0005],
+        [0.0005, 0.0005],
+      ],
+    ]).geometry,
+    {
+      length: null,
+      area: 3 * EQUATOR_EDGE * EQUATOR_EDGE,
+      perimeter: 12 * EQUATOR_EDGE,
+    },
+  ],
+])('measureGeometry(%p)', (geometry, expected) => {
+  const result = measureGeometry(geometry);
+  (['length', 'area', 'perimeter'] as const).forEach((key) => {
+    const value = expected[key];
+    if (value === null) {
+      expect(result[key]).toBeNull();
+    } else {
+      expect(result[key]! / value).toBeCloseTo(1, 2);
+    }
+  });
+});
+
+/**
+ * Test adding up the measurements of several shapes
+ */
+test('combineMeasurements', () => {
+  expect(combineMeasurements([])).toBeNull();
+  expect(
+    combineMeasurements([
+      { segmentLength: null, length: 10, area: null, perimeter: null },
+      { segmentLength: 3, length: null, area: 100, perimeter: 40 },
+      { segmentLength: 5, length: 2, area: 50, perimeter: 30 },
+    ])
+  ).toStrictEqual({ segmentLength: 3, length: 12, area: 150, perimeter: 70 });
+});
+
+/**
+ * Test converting positions to UTM coordinates, including positions on central meridians,
+ * where the easting is 500 km and the northing is the scaled length of the meridian arc
+ */
+test.each([
+  [[3, 0], { zone: 31, north: true, easting: 500000, northing: 0 }],
+  [[9, 60], { zone: 32, north: true, easting: 500000, northing: 6651411.19 }],
+  [
+    [-75, -60],
+    {
+      zone: 18,
+      north: false,
+      easting: 500000,
+      northing: 10000000 - 6651411.19,
+    },
+  ],
+])('toUtm(%p)', (position, expected) => {
+  const result = toUtm(position)!;
+  expect(result.zone).toBe(expected.zone);
+  expect(result.north).toBe(expected.north);
+  expect(result.easting).toBeCloseTo(expected.easting, 1);
+  expect(result.northing).toBeCloseTo(expected.northing, 0);
+});
+
+/**
+ * Test converting positions to UTM coordinates and back
+ */
+test.each([
+  [-75.6972, 45.4215],
+  [151.2093, -33.8688],
+  [-0.1276, 51.5072],
+  [179.9, 83.9],
+])('fromUtm(toUtm([%d, %d]))', (longitude, latitude) => {
+  const [resultLongitude, resultLatitude] = fromUtm(
+    toUtm([longitude, latitude])!
+  );
+  expect(resultLongitude).toBeCloseTo(longitude, 7);
+  expect(resultLatitude).toBeCloseTo(latitude, 7);
+});
+
+/**
+ * Test presenting positions in different formats
+ */
+test.each([
+  [[-75.6972, 45.4215], 'decimal', '45.421500, -75.697200'],
+  [[-75.6972, 45.4215], 'dms', '45°25\'17.4"N 75°41\'49.9"W'],
+  [[151.2093, -33.8688], 'dms', '33°52\'7.7"S 151°12\'33.5"E'],
+  // Seconds that round up to 60 are carried over to the minutes
+  [[0.99999999, 0], 'dms', '0°0\'0.0"N 1°0\'0.0"E'],
+  [[3, 0], 'utm', '31N 500000.00 0.00'],
+  [[0, 85], 'utm', null],
+] as const)('formatPosition(%p, %p)', (position, format, expected) => {
+  expect(formatPosition([...position], format)).toBe(expected);
+});
+
+/**
+ * Test reading positions in different formats
+ */
+test.each([
+  ['45.4215, -75.6972', 'decimal', [-75.6972, 45.4215]],
+  [' 45.4215 -75.6972 ', 'decimal', [-75.6972, 45.4215]],
+  ['95, 10', 'decimal', null],
+  ['45.4215', 'decimal', null],
+  ['45°25\'17.4"N 75°41\'49.9"W', 'dms', [-75.69719, 45.4215]],
+  ['75 41 49.9 W, 45 25 17.4 N', 'dms', [-75.69719, 45.4215]],
+  ['45.4215N 75.6972W', 'dms', [-75.6972, 45.4215]],
+  ["45°61'N 75°W", 'dms', null],
+  ['45°N 46°S', 'dms', null],
+  ['45°N 75°W 1', 'dms', null],
+  ['31N 500000 0', 'utm', [3, 0]],
+  ['31n 500000.00, 0.00', 'utm', [3, 0]],
+  ['31I 500000 0', 'utm', null],
+  ['61N 500000 0', 'utm', null],
+] as const)('parsePosition(%p, %p)', (text, format, expected) => {
+  const result = parsePosition(text, format);
+  if (expected === null) {
+    expect(result).toBeNull();
+  } else {
+    expect(result![0]).toBeCloseTo(expected[0], 5);
+    expect(result![1]).toBeCloseTo(expected[1], 5);
+  }
+});
+
+/**
+ * Test constraining the positions of vertices being drawn, near the equator
+ * where a degree of longitude and a degree of latitude have the same length
+ */
+test.each([
+  // Perpendicular to the previous edge, which heads east
+  [[1, 0.1], [-1, 0], { angle: 'right', bearing: null, length: null }, [1, 0]],
+  [[0.1, 1], [-1, 0], { angle: 'right', bearing: null, length: null }, [0, 1]],
+  // Relative to north if there is no previous edge
+  [
+    [1, 0.9],
+    null,
+    { angle: 'diagonal', bearing: null, length: null },
+    [0.95, 0.95],
+  ],
+  // A locked bearing allows the vertex to be on either side of the previous vertex
+  [[0.2, -1], [-1, 0], { angle: 'right', bearing: 0, length: null }, [0, -1]],
+  [
+    [3, 4],
+    null,
+    { angle: 'none', bearing: null, length: METERS_PER_DEGREE },
+    [0.6, 0.8],
+  ],
+  [
+    [2, 0.1],
+    [-1, 0],
+    { angle: 'right', bearing: null, length: METERS_PER_DEGREE },
+    [1, 0],
+  ],
+  [
+    [-2, 0.1],
+    null,
+    { angle: 'none', bearing: 90, length: METERS_PER_DEGREE },
+    [-1, 0],
+  ],
+] as const)(
+  'constrainPosition(%p) relative to [0, 0] after %p with %p',
+  (position, beforePrevious, constraints, expected) => {
+    const result = constrainPosition(
+      [...position],
+      {
+        previous: [0, 0],
+        beforePrevious: beforePrevious ? [...beforePrevious] : undefined,
+      },
+      constraints
+    );
+    expect(result[0]).toBeCloseTo(expected[0], 7);
+    expect(result[1]).toBeCloseTo(expected[1], 7);
+  }
+);
+
+/**
+ * Test creating guide lines for constrained drawing
+ */
+test.each([
+  [{ angle: 'none', bearing: null, length: 10 }, []],
+  [
+    { angle: 'none', bearing: 90, length: null },
+    [
+      [
+        [-1, 0],
+        [1, 0],
+      ],
+    ],
+  ],
+  [
+    { angle: 'right', bearing: null, length: null },
+    [
+      [
+        [0, 0],
+        [1, 0],
+      ],
+      [
+        [0, 0],
+        [0, -1],
+      ],
+      [
+        [0, 0],
+        [-1, 0],
+      ],
+      [
+        [0, 0],
+        [0, 1],
+      ],
+    ],
+  ],
+  [
+    { angle: 'right', bearing: null, length: METERS_PER_DEGREE / 2 },
+    [
+      [
+        [0, 0],
+        [0.5, 0],
+      ],
+      [
+        [0, 0],
+        [0, -0.5],
+      ],
+      [
+        [0, 0],
+        [-0.5, 0],
+      ],
+      [
+        [0, 0],
+        [0, 0.5],
+      ],
+    ],
+  ],
+] as const)('constraintGuides(%p)', (constraints, expected) => {
+  const result = constraintGuides(
+    { previous: [0, 0], beforePrevious: [-1, 0] },
+    constraints,
+    METERS_PER_DEGREE
+  );
+  expect(result.length).toBe(expected.length);
+  result.forEach((line, i) => {
+    line.forEach((position, j) => {
+      expect(position[0]).toBeCloseTo(expected[i][j][0], 7);
+      expect(position[1]).toBeCloseTo(expected[i][j][1], 7);
+    });
+  });
+});
+
+/**
+ * Test filtering the positions that become vertices of a recorded track
+ */
+test.each([
+  [{ coordinates: [0, 0.001], timestamp: 1000 }, null, {}, true],
+  [{ coordinates: [0, 0.001], timestamp: 1000 }, [0, 0], {}, true],
+  [
+    { coordinates: [0, 0.001], timestamp: 1000 },
+    [0, 0],
+    { minDistance: 100 },
+    true,
+  ],
+  [
+    { coordinates: [0, 0.0001], timestamp: 1000 },
+    [0, 0],
+    { minDistance: 100 },
+    false,
+  ],
+  [
+    { coordinates: [0, 0.001], timestamp: 500 },
+    [0, 0],
+    { minInterval: 1000 },
+    false,
+  ],
+  [
+    { coordinates: [0, 0.001], timestamp: 1000 },
+    [0, 0],
+    { minInterval: 1000 },
+    true,
+  ],
+  [
+    { coordinates: [0, 0.001], timestamp: 1000, accuracy: 20 },
+    null,
+    { maxAccuracy: 10 },
+    false,
+  ],
+  [
+    { coordinates: [0, 0.001], timestamp: 1000, accuracy: 5 },
+    [0, 0],
+    { maxAccuracy: 10 },
+    true,
+  ],
+  // Positions of unknown accuracy are accepted
+  [
+    { coordinates: [0, 0.001], timestamp: 1000 },
+    [0, 0],
+    { maxAccuracy: 10 },
+    true,
+  ],
+])(
+  'shouldRecordPosition(%p) after %p with %p',
+  (position, previous, options, expected) => {
+    expect(
+      shouldRecordPosition(
+        position,
+        previous ? { coordinates: previous, timestamp: 0 } : null,
+        options
+      )
+    ).toBe(expected);
+  }
+);
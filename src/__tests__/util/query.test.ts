@@ -0,0 +1,109 @@
+import { lineString, point, polygon } from '@turf/helpers';
+
+import type { EditableFeature } from '../../type/geometry';
+import type { FeatureQuery } from '../../type/query';
+import { compareValues, queryPredicate } from '../../util/query';
+import { METERS_PER_DEGREE } from '../../util/geometry/transform';
+
+/**
+ * Test comparing values of features with values in query conditions
+ */
+test.each([
+  ['wheat', '==', 'wheat', true],
+  ['wheat', '!=', 'wheat', false],
+  ['Winter wheat', 'contains', 'WHEAT', true],
+  [5, '>', 4, true],
+  ['5', '>', 4, true],
+  [5, '<=', 4, false],
+  ['ten', '>', 4, false],
+  ['ten', '!=', 4, true],
+  [true, '==', true, true],
+  ['true', '==', true, true],
+  [false, '!=', true, true],
+  [0, '==', 0, true],
+  [undefined, '==', 'wheat', false],
+  [undefined, '!=', 'wheat', true],
+  ['', '==', '', false],
+] as const)(
+  'compareValues(%p, %p, %p)',
+  (actual, operator, expected, result) => {
+    expect(compareValues(actual, operator, expected)).toBe(result);
+  }
+);
+
+/**
+ * A polygon with an area of one hectare, a polyline 100 metres long, and a point
+ */
+const size = 100 / METERS_PER_DEGREE;
+const QUERY_FEATURES = [
+  polygon(
+    [
+      [
+        [0, 0],
+        [size, 0],
+        [size, size],
+        [0, size],
+        [0, 0],
+      ],
+    ],
+    { crop: 'wheat', year: 2020 }
+  ),
+  lineString(
+    [
+      [0, 0],
+      [size, 0],
+    ],
+    { crop: 'barley', year: 2021 }
+  ),
+  point([0, 0], { crop: 'wheat' }),
+] as Array<EditableFeature>;
+
+/**
+ * Test finding features that match queries, returning the indices of the matching features
+ */
+test.each([
+  [{ conditions: [] }, [0, 1, 2]],
+  [{ conditions: [], geometryTypes: ['Point', 'LineString'] }, [1, 2]],
+  [
+    { conditions: [{ property: 'crop', operator: '==', value: 'wheat' }] },
+    [0, 2],
+  ],
+  [
+    {
+      conditions: [
+        { property: 'crop', operator: '==', value: 'wheat' },
+        { measurement: 'area', operator: '>', value: 5000 },
+      ],
+    },
+    [0],
+  ],
+  [
+    {
+      conditions: [
+        { property: 'crop', operator: '==', value: 'wheat' },
+        { measurement: 'area', operator: '>', value: 50000 },
+      ],
+    },
+    [],
+  ],
+  [
+    {
+      conditions: [
+        { property: 'year', operator: '>=', value: 2021 },
+        { measurement: 'area', operator: '>', value: 5000 },
+      ],
+      match: 'any',
+    },
+    [0, 1],
+  ],
+  [{ conditions: [{ measurement: 'length', operator: '<', value: 101 }] }, [1]],
+  [{ conditions: [{ property: 'year', operator: '!=', value: 2020 }] }, [1, 2]],
+] as Array<[FeatureQuery, Array<number>]>)(
+  'queryPredicate(%j)',
+  (query, indices) => {
+    const predicate = queryPredicate(query);
+    expect(
+      QUERY_FEATURES.flatMap((val, index) => (predicate(val) ? [index] : []))
+    ).toStrictEqual(indices);
+  }
+);
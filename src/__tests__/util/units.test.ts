@@ -0,0 +1,31 @@
+import { formatArea, formatLength } from '../../util/units';
+
+/**
+ * Test presenting lengths in different systems of units
+ */
+test.each([
+  [0, 'metric', '0.00 m'],
+  [12.345, 'metric', '12.3 m'],
+  [999, 'metric', '999 m'],
+  [1500, 'metric', '1.50 km'],
+  [1500, 'hectares', '1.50 km'],
+  [3.048, 'imperial', '10.0 ft'],
+  [1609.344, 'imperial', '1.00 mi'],
+  [1609.344 * 20, 'acres', '20.0 mi'],
+] as const)('formatLength(%d, %p)', (meters, units, expected) => {
+  expect(formatLength(meters, units)).toBe(expected);
+});
+
+/**
+ * Test presenting areas in different systems of units
+ */
+test.each([
+  [250, 'metric', '250 m²'],
+  [2.5e6, 'metric', '2.50 km²'],
+  [25000, 'hectares', '2.50 ha'],
+  [0.09290304 * 50, 'imperial', '50.0 ft²'],
+  [2589988.110336 * 3, 'imperial', '3.00 mi²'],
+  [4046.8564224 * 150, 'acres', '150 ac'],
+] as const)('formatArea(%d, %p)', (squareMeters, units, expected) => {
+  expect(formatArea(squareMeters, units)).toBe(expected);
+});
@@ -4,10 +4,11 @@
  */
 import { Observer } from 'mobx-react-lite';
 import { action } from 'mobx';
-import { forwardRef, useContext, useMemo } from 'react';
+import { forwardRef, useContext, useEffect, useMemo, useRef } from 'react';
 import type { ReactNode, Ref } from 'react';
 import { StyleSheet } from 'react-native';
-import MapboxGL, { MapViewProps } from '@rnmapbox/maps';
+import MapboxGL, { MapViewProps, RegionPayload } from '@rnmapbox/maps';
+import type { Feature, Point } from 'geojson';
 
 import { DraggablePoints } from './geometry/DraggablePoints';
 import { ColdGeometry } from './geometry/ColdGeometry';
@@ -17,9 +18,19 @@ import { StoreContext } from '../state/StoreContext';
 import { useEventHandlers } from '../hooks/useEventHandlers';
 import type { Event } from '../type/events';
 import type { StyleGeneratorMap } from '../type/style';
+import type { SnappingOptions } from '../type/snapping';
+import type {
+  ClippingOptions,
+  InvalidGeometryPolicy,
+  MeasurementUnits,
+  PlotIndexKeys,
+} from '../type/geometry';
+import type { PositionProvider, TrackRecordingOptions } from '../type/tracking';
 import { defaultStyleGeneratorMap } from '../util/defaultStyleGenerators';
+import { loadZoomLevel } from '../util/geometry/snapping';
 import { StyleContext } from './StyleContext';
 import { CameraController } from './event/CameraController';
+import { FreehandCapture } from './event/FreehandCapture';
 import type { CameraControls } from './event/CameraController';
 import type { ShapeComparator } from './geometry/ColdGeometry';
 import type { GeometryIORef } from './geometry/GeometryIO';
@@ -60,12 +71,80 @@ export interface GeometryEditorProps {
    * Functions for giving hints to the Mapbox `Camera`
    */
   readonly cameraControls?: CameraControls;
+  /**
+   * Options for snapping new and dragged vertices to the vertices and edges
+   * of nearby features that are not being edited.
+   * Snapping is disabled if this prop is not provided.
+   */
+  readonly snapping?: SnappingOptions;
+  /**
+   * Whether dragging a vertex of a shape also moves the vertices of other shapes
+   * that are at exactly the same position, so that shapes sharing boundaries
+   * remain free of gaps and overlaps. Defaults to `false`.
+   *
+   * Each drag operation is a single step in the undo history,
+   * regardless of the number of shapes that it changes.
+   */
+  readonly topologicalEditing?: boolean;
+  /**
+   * Options for clipping new polygons, when they are saved, to the polygon that
+   * the user has designated as the boundary, and for removing their overlaps
+   * with existing polygons. New polygons are not clipped if this prop is not provided.
+   *
+   * The user can clip selected polygons in the same way at any time,
+   * regardless of the value of this prop.
+   */
+  readonly clipping?: ClippingOptions;
+  /**
+   * What to do when the user attempts to save a shape that is invalid,
+   * such as a polygon with edges that cross each other. Defaults to `'allow'`.
+   *
+   * Regardless of the value of this prop, shapes being edited are checked for validity
+   * as they are edited, and the results are available for styling through the
+   * `rnmgeValid` property of `RenderProperties`.
+   */
+  readonly invalidGeometryPolicy?: InvalidGeometryPolicy;
+  /**
+   * The maximum distance, in screen pixels, by which a polyline traced
+   * in freehand drawing mode may deviate from the path traced by the user.
+   * Larger values produce polylines with fewer vertices. Defaults to `5`.
+   */
+  readonly freehandTolerance?: number;
+  /**
+   * The system of units in which measurements of the shapes being drawn or edited
+   * are initially presented to the user. Defaults to `'metric'`.
+   * The user can switch to other systems of units while editing.
+   */
+  readonly measurementUnits?: MeasurementUnits;
+  /**
+   * The metadata fields in which the row and column indices of plots generated
+   * inside a polygon are stored. Defaults to the `row` and `column` fields.
+   * Fields that are used by the metadata schema of the plots should not be chosen,
+   * as the values entered for them would be replaced by the indices.
+   */
+  readonly plotIndexKeys?: PlotIndexKeys;
+  /**
+   * A source of positions, such as the device's location services,
+   * from which the user can record the vertices of new polylines and polygons,
+   * such as by walking around the boundary of an area.
+   * The track recording editing mode is unavailable if this prop is not provided.
+   */
+  readonly positionProvider?: PositionProvider;
+  /**
+   * Options for filtering the positions that become vertices of recorded tracks
+   */
+  readonly trackRecording?: TrackRecordingOptions;
   /**
    * Additional child elements to render as children of the map
    */
   readonly children?: ReactNode;
 }
 
+/**
+ * The default value of {@link GeometryEditorProps.freehandTolerance}
+ */
+const DEFAULT_FREEHAND_TOLERANCE = 5;
+
 /**
  * @ignore
  */
@@ -93,11 +172,144 @@ function GeometryEditorComponent(
     shapeComparator,
     aboveLayerID,
     mapProps = {},
+    snapping,
     styleGenerators = defaultStyleGeneratorMap,
+    topologicalEditing = false,
+    clipping,
+    invalidGeometryPolicy = 'allow',
+    freehandTolerance = DEFAULT_FREEHAND_TOLERANCE,
+    measurementUnits = 'metric',
+    plotIndexKeys,
+    positionProvider,
+    trackRecording,
   } = props;
-  const { style: mapStyle, onPress: outerOnPress, ...restMapProps } = mapProps;
+  const {
+    style: mapStyle,
+    onPress: outerOnPress,
+    onRegionDidChange: outerOnRegionDidChange,
+    onDidFinishLoadingMap: outerOnDidFinishLoadingMap,
+    ...restMapProps
+  } = mapProps;
 
   const store = useContext(StoreContext);
+  const mapRef = useRef<MapboxGL.MapView>(null);
+  /**
+   * Forward snapping settings to the store
+   */
+  const snappingTolerance = snapping?.tolerance;
+  const snappingUnits = snapping?.units;
+  useEffect(() => {
+    action('geometry_editor_snapping_options', () => {
+      if (snappingTolerance === undefined) {
+        store.snapping.setOptions(undefined);
+      } else {
+        store.snapping.setOptions({
+          tolerance: snappingTolerance,
+          units: snappingUnits,
+        });
+      }
+    })();
+  }, [store, snappingTolerance, snappingUnits]);
+  /**
+   * Forward topological editing settings to the store
+   */
+  useEffect(() => {
+    action('geometry_editor_topological_editing', () => {
+      store.controls.setTopologicalEditing(topologicalEditing);
+    })();
+  }, [store, topologicalEditing]);
+  /**
+   * Forward clipping settings to the store
+   */
+  const clipToBoundary = clipping?.clipToBoundary;
+  const subtractNeighbours = clipping?.subtractNeighbours;
+  useEffect(() => {
+    action('geometry_editor_clipping', () => {
+      store.controls.setClipping({ clipToBoundary, subtractNeighbours });
+    })();
+  }, [store, clipToBoundary, subtractNeighbours]);
+  /**
+   * Forward geometry validation settings to the store
+   */
+  useEffect(() => {
+    action('geometry_editor_invalid_geometry_policy', () => {
+      store.controls.setInvalidGeometryPolicy(invalidGeometryPolicy);
+    })();
+  }, [store, invalidGeometryPolicy]);
+  /**
+   * Forward measurement settings to the store
+   */
+  useEffect(() => {
+    action('geometry_editor_measurement_units', () => {
+      store.controls.setMeasurementUnits(measurementUnits);
+    })();
+  }, [store, measurementUnits]);
+  /**
+   * Forward plot generation settings to the store
+   */
+  const plotRowKey = plotIndexKeys?.row;
+  const plotColumnKey = plotIndexKeys?.column;
+  useEffect(() => {
+    action('geometry_editor_plot_index_keys', () => {
+      store.controls.setPlotIndexKeys({
+        row: plotRowKey,
+        column: plotColumnKey,
+      });
+    })();
+  }, [store, plotRowKey, plotColumnKey]);
+  /**
+   * Forward track recording settings to the store, and stop receiving positions
+   * from the position provider when it changes or when this component unmounts
+   */
+  const trackMinDistance = trackRecording?.minDistance;
+  const trackMaxAccuracy = trackRecording?.maxAccuracy;
+  const trackMinInterval = trackRecording?.minInterval;
+  useEffect(() => {
+    action('geometry_editor_track_recording_options', () => {
+      store.tracking.setOptions({
+        minDistance: trackMinDistance,
+        maxAccuracy: trackMaxAccuracy,
+        minInterval: trackMinInterval,
+      });
+    })();
+  }, [store, trackMinDistance, trackMaxAccuracy, trackMinInterval]);
+  useEffect(() => {
+    action('geometry_editor_position_provider', () => {
+      store.tracking.setProvider(positionProvider ?? null);
+    })();
+    return action('geometry_editor_position_provider_cleanup', () => {
+      store.tracking.setProvider(null);
+    });
+  }, [store, positionProvider]);
+  /**
+   * Track the map zoom level, which is needed for snapping tolerances
+   * measured in pixels
+   */
+  const onRegionDidChange = useMemo(
+    () =>
+      action(
+        'geometry_editor_region_did_change',
+        (feature: Feature<Point, RegionPayload>) => {
+          store.snapping.setZoomLevel(feature.properties.zoomLevel);
+          outerOnRegionDidChange?.(feature);
+        }
+      ),
+    [store, outerOnRegionDidChange]
+  );
+  /**
+   * Read the initial map zoom level, as the region of the map
+   * may not change until the user moves the map
+   */
+  const onDidFinishLoadingMap = useMemo(
+    () => () => {
+      const map = mapRef.current;
+      if (map) {
+        loadZoomLevel(store.snapping, map);
+      }
+      outerOnDidFinishLoadingMap?.();
+    },
+    [store, outerOnDidFinishLoadingMap]
+  );
   /**
    * A touch callback for the map that will add a new point
    */
@@ -127,8 +339,11 @@ function GeometryEditorComponent(
       {cameraController}
       <GeometryIO ref={ref} />
       <MapboxGL.MapView
+        ref={mapRef}
         style={[styles.map, mapStyle]}
         onPress={onPress}
+        onRegionDidChange={onRegionDidChange}
+        onDidFinishLoadingMap={onDidFinishLoadingMap}
         {...restMapProps}
       >
         <StyleContext.Provider value={{ styleGenerators }}>
@@ -141,6 +356,7 @@ function GeometryEditorComponent(
           <DraggablePoints />
         </StyleContext.Provider>
       </MapboxGL.MapView>
+      <FreehandCapture mapRef={mapRef} tolerance={freehandTolerance} />
     </>
   );
 }
@@ -5,7 +5,7 @@
 import { forwardRef } from 'react';
 
 import type { Ref } from 'react';
-import { View } from 'react-native';
+import { StyleSheet, View } from 'react-native';
 import type { ViewStyle } from 'react-native';
 import { Provider as PaperProvider } from 'react-native-paper';
 import type { DefaultTheme } from 'react-native-paper';
@@ -16,13 +16,20 @@ import { StoreProvider } from '../state/StoreProvider';
 import { ActionToolbox } from './ui/control/ActionToolbox';
 import { ModeToolbox } from './ui/control/ModeToolbox';
 import { ConfirmationDialog } from './ui/ConfirmationDialog';
+import { DrawingConstraintsPanel } from './ui/DrawingConstraintsPanel';
+import { PlotGridPanel } from './ui/PlotGridPanel';
+import { MeasurementOverlay } from './ui/MeasurementOverlay';
+import { VertexInspector } from './ui/VertexInspector';
 import { MetadataContext } from './ui/metadata/MetadataContext';
 import { MetadataPreview } from './geometry/MetadataPreview';
 import { MetadataEditorProvider } from './ui/metadata/MetadataEditorProvider';
 import { defaultMetadataSchemaGeneratorMap } from '../util/metadata/schema';
 import { PageController } from './ui/page/PageController';
 import { InteractionNotifier } from './event/InteractionNotifier';
-import type { MetadataSchemaGeneratorMap } from '../type/metadata';
+import type {
+  MergeMetadataCb,
+  MetadataSchemaGeneratorMap,
+} from '../type/metadata';
 import type { PageProps } from '../type/ui';
 import type { InteractionEventProps } from '../type/ui';
 import type { GeometryIORef } from './geometry/GeometryIO';
@@ -45,6 +52,13 @@ export interface GeometryEditorUIProps extends GeometryEditorProps {
    * Functions that will generate schemas for geometry metadata view/editing forms.
    */
   readonly metadataSchemaGeneratorMap?: MetadataSchemaGeneratorMap;
+  /**
+   * A function that decides the metadata of a feature created by merging
+   * selected polygons, or by joining selected points into a polyline or a polygon.
+   * If not provided, the new feature receives a copy of the metadata of the first
+   * of the selected features.
+   */
+  readonly mergeMetadata?: MergeMetadataCb;
   /**
    * Callbacks that notify the client application when the library is displaying
    * full-page content, and that allow the client application to force
@@ -57,6 +71,17 @@ export interface GeometryEditorUIProps extends GeometryEditorProps {
   readonly interactionEventProps?: InteractionEventProps;
 }
 
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  panels: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+  },
+});
+
 /**
  * A component that renders an editing user interface
  * in addition to the underlying core geometry editing library.
@@ -75,6 +100,7 @@ function _GeometryEditorUI(
     metadataSchemaGeneratorMap = defaultMetadataSchemaGeneratorMap,
     pageProps,
     interactionEventProps,
+    mergeMetadata,
     ...restProps
   } = props;
 
@@ -87,8 +113,14 @@ function _GeometryEditorUI(
               <MetadataPreview />
               {props.children}
             </_GeometryEditor>
+            <MeasurementOverlay />
+            <View style={styles.panels} pointerEvents="box-none">
+              <VertexInspector />
+              <DrawingConstraintsPanel />
+              <PlotGridPanel />
+            </View>
             <ModeToolbox />
-            <ActionToolbox />
+            <ActionToolbox mergeMetadata={mergeMetadata} />
             <MetadataEditorProvider>
               <PageController pageProps={pageProps} />
             </MetadataEditorProvider>
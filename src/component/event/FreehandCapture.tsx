@@ -0,0 +1,122 @@
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { useContext, useMemo, useRef } from 'react';
+import type { RefObject } from 'react';
+import { PanResponder, StyleSheet, View } from 'react-native';
+import type { GestureResponderEvent } from 'react-native';
+import type MapboxGL from '@rnmapbox/maps';
+import type { Position } from 'geojson';
+
+import { InteractionMode } from '../../state/ControlsModel';
+import { StoreContext } from '../../state/StoreContext';
+import { simplifyPlanar } from '../../util/geometry/simplify';
+
+/**
+ * Render properties for {@link FreehandCapture}
+ */
+interface FreehandCaptureProps {
+  /**
+   * The map on which lines are traced, which must fill the same area as this component
+   */
+  readonly mapRef: RefObject<MapboxGL.MapView>;
+  /**
+   * The maximum distance, in screen pixels, by which the simplified line
+   * may deviate from the path traced by the user
+   */
+  readonly tolerance: number;
+}
+
+/**
+ * Retrieve the screen position of a touch relative to the component that was touched
+ * @param e The touch event
+ */
+function touchPosition(e: GestureResponderEvent): Position {
+  return [e.nativeEvent.locationX, e.nativeEvent.locationY];
+}
+
+/**
+ * Retrieve the corners of the rectangle whose opposite corners are the start
+ * and end of a path, in screen coordinates
+ * @param path The path, which must have at least one position
+ */
+function boxCorners(path: Array<Position>): Array<Position> {
+  const [x0, y0] = path[0];
+  const [x1, y1] = path[path.length - 1];
+  return [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+  ];
+}
+
+/**
+ * A component that covers the map while a polyline, a lasso, or a box is being traced,
+ * records each drag gesture, and passes a simplified version of the traced path,
+ * or the corners of the box, to {@link ControlsModel.handleStroke} when the gesture ends.
+ *
+ * The map cannot be panned or zoomed while this component is covering it.
+ *
+ * @param props Render properties
+ * @return Renderable React node
+ */
+function _FreehandCapture({ mapRef, tolerance }: FreehandCaptureProps) {
+  const { controls } = useContext(StoreContext);
+  /**
+   * Screen positions of the gesture in progress
+   */
+  const stroke = useRef<Array<Position>>([]);
+
+  const panResponder = useMemo(() => {
+    /**
+     * Convert the gesture to map coordinates, once the gesture has been simplified,
+     * so that fewer positions need to be converted
+     */
+    const finishStroke = () => {
+      const points =
+        controls.mode === InteractionMode.SelectMultiple &&
+        controls.featureSelectionMode === 'box' &&
+        stroke.current.length > 0
+          ? boxCorners(stroke.current)
+          : simplifyPlanar(stroke.current, tolerance);
+      stroke.current = [];
+      const map = mapRef.current;
+      if (!map || points.length === 0) {
+        return;
+      }
+      Promise.all(points.map((val) => map.getCoordinateFromView(val)))
+        .then(
+          action('freehand_capture_stroke', (positions: Array<Position>) => {
+            controls.handleStroke(positions);
+          })
+        )
+        .catch((err) => {
+          console.warn(
+            `Failed to convert the traced line to map coordinates: ${err}`
+          );
+        });
+    };
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (e) => {
+        stroke.current = [touchPosition(e)];
+      },
+      onPanResponderMove: (e) => {
+        stroke.current.push(touchPosition(e));
+      },
+      onPanResponderRelease: finishStroke,
+      onPanResponderTerminate: finishStroke,
+    });
+  }, [controls, mapRef, tolerance]);
+
+  if (!controls.isCapturingStrokes || controls.isPageOpen) {
+    return null;
+  }
+  return <View style={StyleSheet.absoluteFill} {...panResponder.panHandlers} />;
+}
+
+/**
+ * Renderable MobX wrapper for {@link _FreehandCapture}
+ */
+export const FreehandCapture = observer(_FreehandCapture);
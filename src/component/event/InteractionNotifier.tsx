@@ -13,11 +13,13 @@ import type { InteractionEventProps } from '../../type/ui';
  */
 function _InteractionNotifier({
   onEditingStatus,
+  onMeasurement,
   children,
 }: InteractionEventProps & { readonly children?: ReactNode }) {
-  const { controls } = useContext(StoreContext);
+  const { controls, features } = useContext(StoreContext);
 
   const isEditing = controls.isEditing;
+  const measurement = features.measurement;
 
   /**
    * Pass events to the event callbacks
@@ -25,6 +27,9 @@ function _InteractionNotifier({
   useEffect(() => {
     onEditingStatus?.(isEditing);
   }, [onEditingStatus, isEditing]);
+  useEffect(() => {
+    onMeasurement?.(measurement);
+  }, [onMeasurement, measurement]);
 
   /**
    * This component has nothing meaningful to render, and is just used to integrate
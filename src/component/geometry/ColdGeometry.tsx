@@ -6,13 +6,14 @@ import cloneDeep from 'lodash/cloneDeep';
 import type { OnPressEvent } from '@rnmapbox/maps';
 import type { Expression } from '@rnmapbox/maps';
 import type { FillLayerStyle, LineLayerStyle } from '@rnmapbox/maps';
-import type { Feature, LineString, Polygon } from 'geojson';
+import type { Feature } from 'geojson';
 
 import { StoreContext } from '../../state/StoreContext';
 import { StyleContext } from '../StyleContext';
 import { orderShapes } from '../../util/geometry/display';
 import { NONPOINT_ZINDEX_PROPERTY } from '../../util/interaction';
 import type {
+  NonPointGeometry,
   RenderNonPointFeatureCollection,
   RenderProperties,
 } from '../../type/geometry';
@@ -22,7 +23,7 @@ import type { Comparator } from '../../util/collections';
  * A comparison function for ordering geometry
  */
 export type ShapeComparator = Comparator<
-  Feature<Polygon | LineString, RenderProperties>
+  Feature<NonPointGeometry, RenderProperties>
 >;
 
 /**
@@ -122,7 +123,13 @@ function NonPointLayers({
         aboveLayerID={aboveLayerID}
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['<=', ['get', NONPOINT_ZINDEX_PROPERTY], 0],
         ]}
         style={fillLayerStyle}
@@ -132,7 +139,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons0"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['<=', ['get', NONPOINT_ZINDEX_PROPERTY], 0],
         ]}
         style={lineLayerStyle}
@@ -142,7 +155,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings0"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 1],
         ]}
         style={fillLayerStyle}
@@ -152,7 +171,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons1"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 1],
         ]}
         style={lineLayerStyle}
@@ -162,7 +187,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings1"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 2],
         ]}
         style={fillLayerStyle}
@@ -172,7 +203,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons2"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 2],
         ]}
         style={lineLayerStyle}
@@ -182,7 +219,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings2"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 3],
         ]}
         style={fillLayerStyle}
@@ -192,7 +235,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons3"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 3],
         ]}
         style={lineLayerStyle}
@@ -202,7 +251,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings3"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 4],
         ]}
         style={fillLayerStyle}
@@ -212,7 +267,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons4"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 4],
         ]}
         style={lineLayerStyle}
@@ -222,7 +283,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings4"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 5],
         ]}
         style={fillLayerStyle}
@@ -232,7 +299,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons5"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 5],
         ]}
         style={lineLayerStyle}
@@ -242,7 +315,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings5"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 6],
         ]}
         style={fillLayerStyle}
@@ -252,7 +331,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons6"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 6],
         ]}
         style={lineLayerStyle}
@@ -262,7 +347,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings6"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 7],
         ]}
         style={fillLayerStyle}
@@ -272,7 +363,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons7"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 7],
         ]}
         style={lineLayerStyle}
@@ -282,7 +379,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings7"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 8],
         ]}
         style={fillLayerStyle}
@@ -292,7 +395,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons8"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 8],
         ]}
         style={lineLayerStyle}
@@ -302,7 +411,13 @@ function NonPointLayers({
         aboveLayerID="cold_linestrings8"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'Polygon'],
+          [
+            'match',
+            ['geometry-type'],
+            ['Polygon', 'MultiPolygon'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 9],
         ]}
         style={fillLayerStyle}
@@ -312,7 +427,13 @@ function NonPointLayers({
         aboveLayerID="cold_polygons9"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', NONPOINT_ZINDEX_PROPERTY], 9],
         ]}
         style={lineLayerStyle}
@@ -8,6 +8,7 @@ import MapboxGL from '@rnmapbox/maps';
 import { StoreContext } from '../../state/StoreContext';
 import { StyleContext } from '../StyleContext';
 import type { PointAnnotationPayload } from '../../type/events';
+import { CoordinateRole } from '../../type/geometry';
 import type { DraggablePointStyle } from '../../type/style';
 
 /**
@@ -53,9 +54,10 @@ function _SinglePoint(props: {
   const { controls, features } = useContext(StoreContext);
   const { index: inputIndex } = props;
   const draggablePosition = features.draggablePositions[inputIndex];
+  const isEdgeMidpoint = draggablePosition.role === CoordinateRole.EdgeMidpoint;
   const isSelected =
-    controls.selectedVertex?.index === draggablePosition.index &&
-    controls.selectedVertex?.id === draggablePosition.id;
+    !isEdgeMidpoint &&
+    controls.isVertexSelected(draggablePosition.id, draggablePosition.index);
   // Layer ID for Mapbox
   const id = `pointAnnotation${inputIndex}`;
   /**
@@ -69,19 +71,28 @@ function _SinglePoint(props: {
     [controls]
   );
   /**
-   * When the point is dragged, its new coordinates need to be saved to the store
+   * When the point is dragged, its new coordinates need to be saved to the store.
+   * Dragging the midpoint of an edge inserts a new vertex where the midpoint is dropped.
    */
   const onDragEndWithIndex = useMemo(
     () =>
       action('draggable_points_drag_end', (e: PointAnnotationPayload) => {
-        features.dragPosition(
-          e.geometry.coordinates,
-          draggablePosition.id,
-          draggablePosition.index
-        );
+        if (isEdgeMidpoint) {
+          controls.dragEdgeMidpoint(
+            e.geometry.coordinates,
+            draggablePosition.id,
+            draggablePosition.index
+          );
+        } else {
+          controls.dragPosition(
+            e.geometry.coordinates,
+            draggablePosition.id,
+            draggablePosition.index
+          );
+        }
         controls.endDrag();
       }),
-    [controls, features, draggablePosition]
+    [controls, draggablePosition, isEdgeMidpoint]
   );
 
   /**
@@ -92,9 +103,15 @@ function _SinglePoint(props: {
 
   /**
    * Dynamic styling depending on whether the point is a selected vertex
+   * or the midpoint of an edge
    */
   let protoStyle: DraggablePointStyle | null = null;
-  if (isSelected) {
+  if (isEdgeMidpoint) {
+    protoStyle = styleGenerators.edgeMidpoint(
+      draggablePosition.role,
+      draggablePosition.feature
+    );
+  } else if (isSelected) {
     protoStyle = styleGenerators.selectedVertex(
       draggablePosition.role,
       draggablePosition.feature
@@ -134,7 +151,39 @@ function _SinglePoint(props: {
 const SinglePoint = observer(_SinglePoint);
 
 /**
- * Renders a list of draggable points on a map
+ * A renderer for the position to which a vertex was most recently snapped
+ * @return Renderable React node
+ */
+function _SnapTarget() {
+  const { snapping } = useContext(StoreContext);
+  const { styleGenerators } = useContext(StyleContext);
+  if (!snapping.snapTarget) {
+    return null;
+  }
+  /**
+   * The snap target is only a visual cue, so it is not draggable
+   */
+  return (
+    <MapboxGL.PointAnnotation
+      id="snapTargetAnnotation"
+      coordinate={toJS(snapping.snapTarget)}
+      draggable={false}
+    >
+      <View
+        style={pointStyleToPointAnnotationStyle(styleGenerators.snapTarget())}
+      />
+    </MapboxGL.PointAnnotation>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _SnapTarget}
+ */
+const SnapTarget = observer(_SnapTarget);
+
+/**
+ * Renders a list of draggable points on a map, together with
+ * the position to which a vertex was most recently snapped
  * @return Renderable React node
  */
 function _DraggablePoints() {
@@ -150,7 +199,12 @@ function _DraggablePoints() {
     ),
     []
   );
-  return <>{features.draggablePositions.map(renderSinglePoint)}</>;
+  return (
+    <>
+      {features.draggablePositions.map(renderSinglePoint)}
+      <SnapTarget />
+    </>
+  );
 }
 
 /**
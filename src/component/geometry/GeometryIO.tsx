@@ -3,9 +3,24 @@ import type { ReactNode, Ref } from 'react';
 import type { FeatureCollection } from 'geojson';
 
 import { StoreContext } from '../../state/StoreContext';
-import { exportGeometry, importGeometry } from '../../util/geometry/io';
+import {
+  exportClipboard,
+  exportGeometry,
+  importGeometry,
+} from '../../util/geometry/io';
 import type { GeometryImportError } from '../../util/geometry/io';
-import type { EditableGeometry } from '../../type/geometry';
+import {
+  invertGeometrySelection,
+  selectAllGeometry,
+  selectGeometry,
+  selectGeometryByType,
+} from '../../util/query';
+import type {
+  EditableGeometry,
+  EditableGeometryType,
+  SelectionOperation,
+} from '../../type/geometry';
+import type { FeaturePredicate, FeatureQuery } from '../../type/query';
 
 /**
  * Options controlling geometry import
@@ -48,7 +63,8 @@ export interface GeometryImportResult {
 }
 
 /**
- * Methods for importing and exporting GeoJSON feature collections
+ * Methods for importing and exporting GeoJSON feature collections,
+ * and for selecting features
  */
 export interface GeometryIORef {
   /**
@@ -64,8 +80,15 @@ export interface GeometryIORef {
    *   (https://tools.ietf.org/html/rfc7946#appendix-B.1).
    *   If any are present that do not follow the right-hand rule,
    *   an exception will be thrown.
-   * - Holes in polygons are not supported. (Holes will presently
-   *   be stripped from polygons if `options.strict` is `false`.)
+   *
+   * Holes in polygons are preserved, and can be edited.
+   * Multi-geometry features (`MultiPoint`, `MultiLineString`, and `MultiPolygon`)
+   * are preserved, and can be edited. Features with `GeometryCollection`
+   * geometry are split into one feature per geometry in the collection.
+   * Polygons with a {@link SEMANTIC_SHAPE_KEY} metadata field (see {@link export})
+   * are edited as circles or rectangles, provided that the field describes a circle
+   * or rectangle that has an area, and that the polygon matches the circle or rectangle.
+   * Otherwise, the field is removed, and the feature is edited as an ordinary shape.
    *
    * @param features The feature collection
    * @param options Options for customizing the import behaviour
@@ -84,15 +107,88 @@ export interface GeometryIORef {
    * The caller might want to avoid calling this function during an active
    * editing session.
    *
+   * Circles and rectangles are exported as the polygons that represent them.
+   * Their semantic properties, such as the radius of a circle, are exported in
+   * the reserved {@link SEMANTIC_SHAPE_KEY} metadata field (GeoJSON `"properties"`),
+   * so that they are edited using handles again when they are imported.
+   * The field is removed from the metadata of imported features.
+   *
    * @return A feature collection containing a deep copy of all features
    *         managed by this library.
    */
   export: () => Promise<FeatureCollection<EditableGeometry>>;
+
+  /**
+   * A function for exporting the features that the user has copied, or most recently
+   * pasted, as a GeoJSON feature collection
+   *
+   * As with {@link export}, circles and rectangles are exported as the polygons
+   * that represent them, together with their semantic properties.
+   *
+   * @return A feature collection containing a deep copy of the features on the
+   *         library's clipboard. The collection is empty if the user has not
+   *         copied any features.
+   */
+  exportClipboard: () => Promise<FeatureCollection<EditableGeometry>>;
+
+  /**
+   * A function for selecting features that match a query, such as features
+   * with given metadata values, or features larger than a given area
+   *
+   * The selected features are put into the same state as features that the user
+   * has selected in multiple selection mode, so the user can then delete, copy,
+   * merge, or otherwise edit them together. The library enters multiple selection
+   * mode if it is in single selection mode. Features cannot be selected while
+   * the user is drawing or editing features.
+   *
+   * @param query A query, or a function that is given a copy of each feature,
+   *              and returns whether the feature is to be selected
+   * @param operation Whether the matching features replace the selected features
+   *                  (`'replace'`, the default), are added to the selected features
+   *                  (`'add'`), or are deselected (`'subtract'`)
+   * @return The number of selected features after the operation.
+   *         The promise is rejected if features cannot be selected
+   *         in the current editing mode.
+   */
+  select: (
+    query: FeatureQuery | FeaturePredicate,
+    operation?: SelectionOperation
+  ) => Promise<number>;
+
+  /**
+   * A function for selecting features by the types of their geometry.
+   * Circles and rectangles have the type `'Polygon'`.
+   *
+   * Refer to the documentation of {@link select} for the meanings of
+   * `operation` and of the returned value.
+   *
+   * @param types The types of geometry of the features to select
+   * @param operation How the matching features are combined with the selected features
+   */
+  selectByType: (
+    types: Array<EditableGeometryType>,
+    operation?: SelectionOperation
+  ) => Promise<number>;
+
+  /**
+   * A function for selecting all features
+   *
+   * Refer to the documentation of {@link select} for the meaning of the returned value.
+   */
+  selectAll: () => Promise<number>;
+
+  /**
+   * A function for selecting the features that are not selected,
+   * and deselecting the features that are selected
+   *
+   * Refer to the documentation of {@link select} for the meaning of the returned value.
+   */
+  invertSelection: () => Promise<number>;
 }
 
 /**
  * A component that exposes a React ref with methods for importing
- * and exporting GeoJSON feature collections.
+ * and exporting GeoJSON feature collections, and for selecting features.
  *
  * @param props Render properties
  * @param ref React ref to which import and export methods are attached
@@ -109,6 +205,17 @@ function GeometryIOComponent(
       import: (features: FeatureCollection, options: GeometryImportOptions) =>
         importGeometry(store, features, options),
       export: () => exportGeometry(store),
+      exportClipboard: () => exportClipboard(store),
+      select: (
+        query: FeatureQuery | FeaturePredicate,
+        operation?: SelectionOperation
+      ) => selectGeometry(store, query, operation),
+      selectByType: (
+        types: Array<EditableGeometryType>,
+        operation?: SelectionOperation
+      ) => selectGeometryByType(store, types, operation),
+      selectAll: () => selectAllGeometry(store),
+      invertSelection: () => invertGeometrySelection(store),
     }),
     [store]
   );
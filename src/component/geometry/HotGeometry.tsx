@@ -41,7 +41,13 @@ function _HotGeometry() {
       <MapboxGL.FillLayer
         id="hot_polygons"
         aboveLayerID={COLD_POINTS_CLUSTERS_COUNT_LAYER_ID}
-        filter={['==', ['geometry-type'], 'Polygon']}
+        filter={[
+          'match',
+          ['geometry-type'],
+          ['Polygon', 'MultiPolygon'],
+          true,
+          false,
+        ]}
         style={styleGenerators.polygon()}
       />
       <MapboxGL.LineLayer
@@ -49,7 +55,13 @@ function _HotGeometry() {
         aboveLayerID="hot_polygons"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['==', ['get', 'rnmgeRole'], LineStringRole.LineStringFeature],
         ]}
         style={styleGenerators.polyline()}
@@ -59,7 +71,13 @@ function _HotGeometry() {
         aboveLayerID="hot_linestrings"
         filter={[
           'all',
-          ['==', ['geometry-type'], 'LineString'],
+          [
+            'match',
+            ['geometry-type'],
+            ['LineString', 'MultiLineString'],
+            true,
+            false,
+          ],
           ['!=', ['get', 'rnmgeRole'], LineStringRole.LineStringFeature],
         ]}
         style={styleGenerators.edge()}
@@ -4,6 +4,7 @@ import { observer } from 'mobx-react-lite';
 import { Paragraph, Button, Portal, Dialog } from 'react-native-paper';
 
 import { StoreContext } from '../../state/StoreContext';
+import { ConfirmationReason } from '../../state/ConfirmationModel';
 
 /**
  * A component that renders a confirmation dialog requesting that the user
@@ -44,6 +45,19 @@ function _ConfirmationDialog({
   const visible =
     !!controls.confirmation && controls.isPageOpen === visibleIfPageOpen;
 
+  /**
+   * Some confirmation dialogs only provide information, and are not questions
+   */
+  let actions = (
+    <>
+      <Button onPress={onConfirm}>Yes</Button>
+      <Button onPress={onDismiss}>No</Button>
+    </>
+  );
+  if (controls.confirmation?.reason === ConfirmationReason.InvalidGeometry) {
+    actions = <Button onPress={onConfirm}>OK</Button>;
+  }
+
   /**
    * Conditionally-visible confirmation dialog
    */
@@ -54,10 +68,7 @@ function _ConfirmationDialog({
         <Dialog.Content>
           <Paragraph>{controls.confirmation?.message}</Paragraph>
         </Dialog.Content>
-        <Dialog.Actions>
-          <Button onPress={onConfirm}>Yes</Button>
-          <Button onPress={onDismiss}>No</Button>
-        </Dialog.Actions>
+        <Dialog.Actions>{actions}</Dialog.Actions>
       </Dialog>
     </Portal>
   );
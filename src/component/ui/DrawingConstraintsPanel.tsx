@@ -0,0 +1,141 @@
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Button, Card, HelperText, TextInput } from 'react-native-paper';
+
+import { StoreContext } from '../../state/StoreContext';
+import type { AngleConstraint } from '../../type/geometry';
+import { minDimensionPercentageToDP } from '../../util/dimensions';
+
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  card: {
+    margin: 8,
+    width: minDimensionPercentageToDP('60'),
+  },
+});
+
+/**
+ * Retrieve the label of an angle constraint
+ * @param angle The angle constraint
+ */
+function angleConstraintLabel(angle: AngleConstraint): string {
+  switch (angle) {
+    case 'none':
+      return 'Free';
+    case 'right':
+      return '90°';
+    case 'diagonal':
+      return '45°';
+  }
+}
+
+/**
+ * A component that lets the user choose how the directions and lengths of edges
+ * are constrained when vertices are drawn or dragged: the angles between edges,
+ * whether the bearing of edges is locked, and the length of the next edge.
+ *
+ * Nothing is rendered if constrained drawing is turned off, or is not
+ * possible in the current editing mode.
+ */
+function _DrawingConstraintsPanel() {
+  const { controls } = useContext(StoreContext);
+  const length = controls.fixedSegmentLength;
+
+  /**
+   * The length entered by the user, which is reset whenever the length is
+   * applied or cleared
+   */
+  const [text, setText] = useState(length === null ? '' : `${length}`);
+  const [isInvalid, setIsInvalid] = useState(false);
+  useEffect(() => {
+    setText(length === null ? '' : `${length}`);
+    setIsInvalid(false);
+  }, [length]);
+
+  // Button press callbacks
+  const onAngle = useMemo(
+    () =>
+      action('drawing_constraints_angle_press', () => {
+        controls.toggleAngleConstraint();
+      }),
+    [controls]
+  );
+  const onBearing = useMemo(
+    () =>
+      action('drawing_constraints_bearing_press', () => {
+        controls.toggleBearingLock();
+      }),
+    [controls]
+  );
+  const onApply = useMemo(
+    () =>
+      action('drawing_constraints_length_press', () => {
+        if (text.trim() === '') {
+          controls.setFixedSegmentLength(null);
+          return;
+        }
+        const value = Number(text);
+        if (Number.isFinite(value) && value > 0) {
+          controls.setFixedSegmentLength(value);
+        } else {
+          setIsInvalid(true);
+        }
+      }),
+    [controls, text]
+  );
+
+  if (
+    !controls.isConstrainingDrawing ||
+    !controls.canConstrainDrawing ||
+    controls.isPageOpen
+  ) {
+    return null;
+  }
+  const bearing = controls.lockedBearing;
+  return (
+    <Card elevation={5} style={styles.card}>
+      <Card.Content>
+        <TextInput
+          value={text}
+          dense
+          mode="outlined"
+          label="Next edge length (m)"
+          keyboardType="numeric"
+          error={isInvalid}
+          onChangeText={(value) => {
+            setText(value);
+            setIsInvalid(false);
+          }}
+          onSubmitEditing={onApply}
+        />
+        <HelperText type="error" padding="none" visible={isInvalid}>
+          Enter a length greater than zero, or nothing to draw freely
+        </HelperText>
+      </Card.Content>
+      <Card.Actions>
+        <Button compact icon="angle-right" onPress={onAngle}>
+          {angleConstraintLabel(controls.angleConstraint)}
+        </Button>
+        <Button
+          compact
+          icon={bearing === null ? 'lock-open-variant-outline' : 'lock'}
+          onPress={onBearing}
+        >
+          {bearing === null ? 'Bearing' : `${bearing.toFixed(1)}°`}
+        </Button>
+        <Button compact onPress={onApply}>
+          Apply
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _DrawingConstraintsPanel}
+ */
+export const DrawingConstraintsPanel = observer(_DrawingConstraintsPanel);
@@ -0,0 +1,83 @@
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { useContext, useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Caption, Surface, TouchableRipple } from 'react-native-paper';
+
+import { StoreContext } from '../../state/StoreContext';
+import { formatArea, formatLength } from '../../util/units';
+
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    margin: 8,
+    borderRadius: 4,
+    elevation: 4,
+  },
+  content: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+});
+
+/**
+ * A component that displays the lengths, areas, and perimeters of the shapes
+ * that are being drawn or edited, and the length of the edge that is being
+ * drawn or edited. Pressing the component switches to the next system of units.
+ *
+ * Nothing is rendered if no shapes are being drawn or edited.
+ */
+function _MeasurementOverlay() {
+  const { controls, features } = useContext(StoreContext);
+  // Press callback
+  const onPress = useMemo(
+    () =>
+      action('measurement_overlay_press', () => {
+        controls.toggleMeasurementUnits();
+      }),
+    [controls]
+  );
+
+  const measurement = features.measurement;
+  if (!measurement || controls.isPageOpen) {
+    return null;
+  }
+  const units = controls.measurementUnits;
+  const lines: Array<string> = [];
+  if (measurement.segmentLength !== null) {
+    lines.push(`Segment: ${formatLength(measurement.segmentLength, units)}`);
+  }
+  if (measurement.length !== null) {
+    lines.push(`Length: ${formatLength(measurement.length, units)}`);
+  }
+  if (measurement.area !== null) {
+    lines.push(`Area: ${formatArea(measurement.area, units)}`);
+  }
+  if (measurement.perimeter !== null) {
+    lines.push(`Perimeter: ${formatLength(measurement.perimeter, units)}`);
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+  return (
+    <Surface style={styles.overlay}>
+      <TouchableRipple style={styles.content} onPress={onPress}>
+        <View>
+          {lines.map((line) => (
+            <Caption key={line}>{line}</Caption>
+          ))}
+        </View>
+      </TouchableRipple>
+    </Surface>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _MeasurementOverlay}
+ */
+export const MeasurementOverlay = observer(_MeasurementOverlay);
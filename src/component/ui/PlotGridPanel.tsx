@@ -0,0 +1,173 @@
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { Button, Card, HelperText, TextInput } from 'react-native-paper';
+
+import { StoreContext } from '../../state/StoreContext';
+import type { PlotGridOptions } from '../../type/geometry';
+import { MAX_PLOT_GRID_CELLS } from '../../util/geometry/plots';
+import { minDimensionPercentageToDP } from '../../util/dimensions';
+
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  card: {
+    margin: 8,
+    width: minDimensionPercentageToDP('60'),
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  field: {
+    flex: 1,
+    marginHorizontal: 2,
+  },
+});
+
+/**
+ * Text entered by the user for each grid option
+ */
+type PlotGridText = { [K in keyof PlotGridOptions]: string };
+
+/**
+ * Convert grid options to text to show in text inputs
+ * @param options The grid options
+ */
+function toText(options: PlotGridOptions): PlotGridText {
+  return {
+    width: `${options.width}`,
+    height: `${options.height}`,
+    rotation: `${options.rotation}`,
+    rowGap: `${options.rowGap}`,
+    columnGap: `${options.columnGap}`,
+  };
+}
+
+/**
+ * Parse grid options entered by the user
+ * @param text The text entered by the user
+ * @return The grid options, or `null` if the plot dimensions are not greater than zero,
+ *         or the rotation or gaps are not numbers, or the gaps are negative
+ */
+function fromText(text: PlotGridText): PlotGridOptions | null {
+  const options = {
+    width: Number(text.width),
+    height: Number(text.height),
+    rotation: Number(text.rotation),
+    rowGap: Number(text.rowGap),
+    columnGap: Number(text.columnGap),
+  };
+  if (
+    Object.values(text).some((val) => val.trim() === '') ||
+    !Object.values(options).every((val) => Number.isFinite(val)) ||
+    !(options.width > 0 && options.height > 0) ||
+    options.rowGap < 0 ||
+    options.columnGap < 0
+  ) {
+    return null;
+  }
+  return options;
+}
+
+/**
+ * A component that lets the user choose the size, orientation, and spacing
+ * of the plots in a grid of plots generated inside a polygon.
+ *
+ * Nothing is rendered outside of {@link InteractionMode.GeneratePlots} mode,
+ * or while the user is entering metadata for the plots.
+ */
+function _PlotGridPanel() {
+  const { controls, features } = useContext(StoreContext);
+  const options = controls.plotGridOptions;
+
+  /**
+   * The options entered by the user, which are reset whenever the options are applied
+   */
+  const [text, setText] = useState(toText(options));
+  const [isInvalid, setIsInvalid] = useState(false);
+  useEffect(() => {
+    setText(toText(options));
+    setIsInvalid(false);
+  }, [options]);
+
+  // Button press callbacks
+  const onApply = useMemo(
+    () =>
+      action('plot_grid_apply_press', () => {
+        const parsed = fromText(text);
+        if (parsed) {
+          controls.setPlotWidth(parsed.width);
+          controls.setPlotHeight(parsed.height);
+          controls.setPlotRotation(parsed.rotation);
+          controls.setPlotRowGap(parsed.rowGap);
+          controls.setPlotColumnGap(parsed.columnGap);
+        } else {
+          setIsInvalid(true);
+        }
+      }),
+    [controls, text]
+  );
+
+  if (!controls.hasPlotGridMode || controls.isPageOpen) {
+    return null;
+  }
+
+  /**
+   * Render a text input for one of the grid options
+   * @param key The grid option
+   * @param label The label of the text input
+   */
+  const renderInput = (key: keyof PlotGridOptions, label: string) => (
+    <TextInput
+      style={styles.field}
+      value={text[key]}
+      dense
+      mode="outlined"
+      label={label}
+      keyboardType="numeric"
+      error={isInvalid}
+      onChangeText={(value) => {
+        setText({ ...text, [key]: value });
+        setIsInvalid(false);
+      }}
+      onSubmitEditing={onApply}
+    />
+  );
+  const isTooLarge = features.plotGridCells === null;
+  return (
+    <Card elevation={5} style={styles.card}>
+      <Card.Content>
+        <View style={styles.row}>
+          {renderInput('width', 'Width (m)')}
+          {renderInput('height', 'Height (m)')}
+          {renderInput('rotation', 'Rotation (°)')}
+        </View>
+        <View style={styles.row}>
+          {renderInput('columnGap', 'Column gap (m)')}
+          {renderInput('rowGap', 'Row gap (m)')}
+        </View>
+        <HelperText
+          type="error"
+          padding="none"
+          visible={isInvalid || isTooLarge}
+        >
+          {isInvalid
+            ? 'Enter sizes greater than zero, and gaps of zero or more'
+            : `The grid cannot have more than ${MAX_PLOT_GRID_CELLS} plots`}
+        </HelperText>
+      </Card.Content>
+      <Card.Actions>
+        <Button compact onPress={onApply}>
+          Apply
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _PlotGridPanel}
+ */
+export const PlotGridPanel = observer(_PlotGridPanel);
@@ -0,0 +1,156 @@
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { useContext, useEffect, useMemo, useState } from 'react';
+import { StyleSheet } from 'react-native';
+import { Button, Card, HelperText, TextInput } from 'react-native-paper';
+
+import { StoreContext } from '../../state/StoreContext';
+import type { CoordinateFormat } from '../../type/geometry';
+import { minDimensionPercentageToDP } from '../../util/dimensions';
+import { formatPosition, parsePosition } from '../../util/geometry/coordinates';
+
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  card: {
+    margin: 8,
+    width: minDimensionPercentageToDP('60'),
+  },
+});
+
+/**
+ * Retrieve the label of a coordinate format
+ * @param format The coordinate format
+ */
+function coordinateFormatLabel(format: CoordinateFormat): string {
+  switch (format) {
+    case 'decimal':
+      return 'DD';
+    case 'dms':
+      return 'DMS';
+    case 'utm':
+      return 'UTM';
+  }
+}
+
+/**
+ * Retrieve an example of a coordinate in a format, to show to the user
+ * when they enter an invalid coordinate
+ * @param format The coordinate format
+ */
+function coordinateFormatExample(format: CoordinateFormat): string {
+  switch (format) {
+    case 'decimal':
+      return 'Enter a latitude and longitude, such as 45.4215, -75.6972';
+    case 'dms':
+      return `Enter a latitude and longitude, such as 45°25'17.4"N 75°41'49.9"W`;
+    case 'utm':
+      return 'Enter a zone, easting, and northing, such as 18T 445331 5030035';
+  }
+}
+
+/**
+ * A component that shows the coordinates of the selected vertex of the shape
+ * whose vertices are being edited, and that lets the user move the vertex
+ * by entering new coordinates, or select the previous or next vertex.
+ *
+ * Nothing is rendered if no vertex is selected.
+ */
+function _VertexInspector() {
+  const { controls } = useContext(StoreContext);
+  const position = controls.selectedVertexPosition;
+  const format = controls.coordinateFormat;
+  const formatted = position ? formatPosition(position, format) : null;
+
+  /**
+   * The coordinates entered by the user, which are reset whenever
+   * the vertex moves or the format changes
+   */
+  const [text, setText] = useState(formatted ?? '');
+  const [isInvalid, setIsInvalid] = useState(false);
+  useEffect(() => {
+    setText(formatted ?? '');
+    setIsInvalid(false);
+  }, [formatted]);
+
+  // Button press callbacks
+  const onPrevious = useMemo(
+    () =>
+      action('vertex_inspector_previous_press', () => {
+        controls.selectAdjacentVertex(false);
+      }),
+    [controls]
+  );
+  const onNext = useMemo(
+    () =>
+      action('vertex_inspector_next_press', () => {
+        controls.selectAdjacentVertex(true);
+      }),
+    [controls]
+  );
+  const onFormat = useMemo(
+    () =>
+      action('vertex_inspector_format_press', () => {
+        controls.toggleCoordinateFormat();
+      }),
+    [controls]
+  );
+  const onApply = useMemo(
+    () =>
+      action('vertex_inspector_apply_press', () => {
+        const newPosition = parsePosition(text, format);
+        if (newPosition) {
+          controls.moveSelectedVertex(newPosition);
+        } else {
+          setIsInvalid(true);
+        }
+      }),
+    [controls, text, format]
+  );
+
+  if (!position || controls.isPageOpen) {
+    return null;
+  }
+  return (
+    <Card elevation={5} style={styles.card}>
+      <Card.Content>
+        <TextInput
+          value={text}
+          dense
+          mode="outlined"
+          label={`Vertex (${coordinateFormatLabel(format)})`}
+          placeholder={formatted === null ? 'Outside the UTM system' : ''}
+          error={isInvalid}
+          onChangeText={(value) => {
+            setText(value);
+            setIsInvalid(false);
+          }}
+          onSubmitEditing={onApply}
+        />
+        <HelperText type="error" padding="none" visible={isInvalid}>
+          {coordinateFormatExample(format)}
+        </HelperText>
+      </Card.Content>
+      <Card.Actions>
+        <Button compact icon="chevron-left" onPress={onPrevious}>
+          Prev
+        </Button>
+        <Button compact icon="chevron-right" onPress={onNext}>
+          Next
+        </Button>
+        <Button compact onPress={onFormat}>
+          {coordinateFormatLabel(format)}
+        </Button>
+        <Button compact onPress={onApply}>
+          Apply
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _VertexInspector}
+ */
+export const VertexInspector = observer(_VertexInspector);
@@ -4,14 +4,38 @@ import { StyleSheet } from 'react-native';
 import { Surface } from 'react-native-paper';
 
 import {
+  BufferControl,
+  BufferDistanceControl,
+  BufferMethodControl,
+  BufferUnitsControl,
+  ClipBoundaryControl,
+  ClipControl,
+  ConvertControl,
+  ConstrainDrawingControl,
+  CopyControl,
   DeleteControl,
+  DuplicateControl,
+  ExtendFromStartControl,
+  FeatureQueryControl,
+  FeatureSelectionModeControl,
   FinishControl,
+  MergeControl,
+  PasteControl,
+  RecordControl,
   RollbackControl,
   RedoControl,
+  ResampleControl,
+  ResampleDistanceControl,
+  ResampleMethodControl,
+  SelectionOperationControl,
+  SplitControl,
+  TrackTypeControl,
   UndoControl,
+  VertexSelectionModeControl,
 } from './actionControls';
 import { StoreContext } from '../../../state/StoreContext';
 import { InteractionMode } from '../../../state/ControlsModel';
+import type { MergeMetadataCb } from '../../../type/metadata';
 
 /**
  * @ignore
@@ -44,8 +68,18 @@ function TopToolbox() {
 /**
  * A set of action buttons, the contents of which depend on the current
  * user interface state. In some cases, nothing will be rendered.
+ *
+ * @param props Rendering props
  */
-function _ActionToolbox() {
+function _ActionToolbox({
+  mergeMetadata,
+}: {
+  /**
+   * A function that decides the metadata of features created by merging
+   * other features
+   */
+  readonly mergeMetadata?: MergeMetadataCb;
+}) {
   const { controls, features } = useContext(StoreContext);
 
   let bottomToolbox = null;
@@ -55,8 +89,26 @@ function _ActionToolbox() {
     case InteractionMode.DrawPoint:
       break;
     case InteractionMode.DragPoint:
+    case InteractionMode.DrawHole:
+    case InteractionMode.DrawPart:
+    case InteractionMode.DrawCircle:
     case InteractionMode.DrawPolygon:
     case InteractionMode.DrawPolyline:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          {features.canUndoOrRedo && <RedoControl />}
+          {features.canUndoOrRedo && <UndoControl />}
+          <ConstrainDrawingControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.DrawFreehand:
+    case InteractionMode.DrawRectangle:
+    case InteractionMode.RemovePart:
+    case InteractionMode.TransformShape:
       if (features.canUndoOrRedo) {
         bottomToolbox = (
           <Surface style={styles.bottomToolbox}>
@@ -73,25 +125,133 @@ function _ActionToolbox() {
           <RedoControl />
           <UndoControl />
           <DeleteControl />
+          <VertexSelectionModeControl />
+          <ConstrainDrawingControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.RecordTrack:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          {features.canUndoOrRedo && <RedoControl />}
+          {features.canUndoOrRedo && <UndoControl />}
+          <TrackTypeControl />
+          <RecordControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.ExtendLine:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          <RedoControl />
+          <UndoControl />
+          <ExtendFromStartControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.SplitShape:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          <RedoControl />
+          <UndoControl />
+          <SplitControl />
         </Surface>
       );
       if (features.canUndoOrRedo) {
         topToolbox = <TopToolbox />;
       }
       break;
+    case InteractionMode.ResampleShape:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          <RedoControl />
+          <UndoControl />
+          <ResampleMethodControl />
+          <ResampleDistanceControl increase={false} />
+          <ResampleDistanceControl increase={true} />
+          <ResampleControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.BufferShape:
+      bottomToolbox = (
+        <Surface style={styles.bottomToolbox}>
+          <RedoControl />
+          <UndoControl />
+          <BufferMethodControl />
+          <BufferUnitsControl />
+          <BufferDistanceControl increase={false} />
+          <BufferDistanceControl increase={true} />
+          <BufferControl />
+        </Surface>
+      );
+      if (features.canUndoOrRedo) {
+        topToolbox = <TopToolbox />;
+      }
+      break;
+    case InteractionMode.GeneratePlots:
+      topToolbox = <TopToolbox />;
+      break;
     case InteractionMode.SelectMultiple:
-    case InteractionMode.SelectSingle:
-      if (controls.canDelete || features.canUndo) {
+    case InteractionMode.SelectSingle: {
+      const isMultiple = controls.mode === InteractionMode.SelectMultiple;
+      const canEdit =
+        controls.canDelete || controls.canPaste || features.canUndo;
+      // The way of selecting features can always be changed in multiple selection mode
+      if (canEdit || isMultiple) {
         bottomToolbox = (
           <Surface style={styles.bottomToolbox}>
-            <UndoControl />
-            <DeleteControl />
+            {canEdit && (
+              <>
+                <UndoControl />
+                <CopyControl />
+                {isMultiple && (
+                  <>
+                    <PasteControl />
+                    <DuplicateControl />
+                    <MergeControl mergeMetadata={mergeMetadata} />
+                    <ClipBoundaryControl />
+                    <ClipControl />
+                    {features.selectedConversions.map((conversion) => (
+                      <ConvertControl
+                        key={conversion}
+                        conversion={conversion}
+                        mergeMetadata={mergeMetadata}
+                      />
+                    ))}
+                  </>
+                )}
+                <DeleteControl />
+              </>
+            )}
+            {isMultiple && (
+              <>
+                <FeatureQueryControl />
+                <FeatureSelectionModeControl />
+                {controls.featureSelectionMode !== 'tap' && (
+                  <SelectionOperationControl />
+                )}
+              </>
+            )}
           </Surface>
         );
         if (features.canUndo) {
           topToolbox = <TopToolbox />;
         }
       }
+    }
   }
 
   return (
@@ -4,11 +4,24 @@ import { StyleSheet } from 'react-native';
 import { Surface } from 'react-native-paper';
 
 import {
+  BufferShapeControl,
+  GeneratePlotsControl,
+  DrawCircleControl,
+  DrawFreehandControl,
+  RecordTrackControl,
+  DrawHoleControl,
+  DrawPartControl,
   DrawPointControl,
   DrawPolygonControl,
   DrawPolylineControl,
+  DrawRectangleControl,
+  ExtendLineControl,
+  RemovePartControl,
+  ResampleShapeControl,
   ShapeEditControl,
+  SplitShapeControl,
   SelectControl,
+  TransformShapeControl,
 } from './modeControls';
 import { InteractionMode } from '../../../state/ControlsModel';
 import { StoreContext } from '../../../state/StoreContext';
@@ -32,7 +45,20 @@ export function ModeToolboxButtons() {
       <DrawPointControl />
       <DrawPolygonControl />
       <DrawPolylineControl />
+      <DrawFreehandControl />
+      <RecordTrackControl />
+      <DrawCircleControl />
+      <DrawRectangleControl />
       <ShapeEditControl />
+      <ExtendLineControl />
+      <DrawHoleControl />
+      <DrawPartControl />
+      <RemovePartControl />
+      <SplitShapeControl />
+      <TransformShapeControl />
+      <ResampleShapeControl />
+      <BufferShapeControl />
+      <GeneratePlotsControl />
       <SelectControl />
     </Surface>
   );
@@ -50,9 +76,22 @@ export function _ModeToolbox() {
   if (!features.canUndo || !features.canRedo) {
     switch (controls.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.DrawCircle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.EditVertices:
+      case InteractionMode.ExtendLine:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
         if (features.cannotUndoAndRedo) {
           toolbox = <ModeToolboxButtons />;
         }
@@ -5,6 +5,14 @@ import { action } from 'mobx';
 import { ActionButton } from '../../util/ActionButton';
 import { StoreContext } from '../../../state/StoreContext';
 import { InteractionMode } from '../../../state/ControlsModel';
+import type { MergeMetadataCb } from '../../../type/metadata';
+import type {
+  FeatureSelectionMode,
+  GeometryConversion,
+  SelectionOperation,
+  VertexSelectionMode,
+} from '../../../type/geometry';
+import { lengthUnitsSymbol } from '../../../util/units';
 
 /**
  * A component that renders a redo control
@@ -84,6 +92,822 @@ function _DeleteControl() {
  */
 export const DeleteControl = observer(_DeleteControl);
 
+/**
+ * A component that renders a control for copying selected features
+ */
+function _CopyControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('copy_control_press', () => {
+        controls.copy();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="content-copy"
+      disabled={!controls.canCopy}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _CopyControl}
+ */
+export const CopyControl = observer(_CopyControl);
+
+/**
+ * A component that renders a control for pasting copied features.
+ * A press pastes the features next to the features that were copied,
+ * whereas a long press lets the user choose where to paste the features
+ * by touching the map.
+ */
+function _PasteControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('paste_control_press', () => {
+        if (controls.isPastingAtLocation) {
+          controls.togglePastingAtLocation();
+        } else {
+          controls.paste();
+        }
+      }),
+    [controls]
+  );
+  // Button long press callback
+  const onLongPress = useMemo(
+    () =>
+      action('paste_control_long_press', () => {
+        controls.togglePastingAtLocation();
+      }),
+    [controls]
+  );
+
+  // Indicate when the user is expected to touch the map
+  let icon = 'content-paste';
+  if (controls.isPastingAtLocation) {
+    icon = 'map-marker-plus';
+  }
+
+  return (
+    <ActionButton
+      icon={icon}
+      disabled={!controls.canPaste}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _PasteControl}
+ */
+export const PasteControl = observer(_PasteControl);
+
+/**
+ * A component that renders a control for duplicating selected features
+ */
+function _DuplicateControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('duplicate_control_press', () => {
+        controls.duplicate();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="content-duplicate"
+      disabled={!controls.canDuplicate}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _DuplicateControl}
+ */
+export const DuplicateControl = observer(_DuplicateControl);
+
+/**
+ * A component that renders a control for merging selected polygons
+ *
+ * @param props Rendering props
+ */
+function _MergeControl({
+  mergeMetadata,
+}: {
+  /**
+   * A function that decides the metadata of the merged feature
+   */
+  readonly mergeMetadata?: MergeMetadataCb;
+}) {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('merge_control_press', () => {
+        controls.merge(mergeMetadata);
+      }),
+    [controls, mergeMetadata]
+  );
+
+  return (
+    <ActionButton
+      icon="vector-union"
+      disabled={!features.canMergeSelected}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _MergeControl}
+ */
+export const MergeControl = observer(_MergeControl);
+
+/**
+ * Retrieve the icon of the control for a geometry conversion
+ * @param conversion The conversion
+ */
+function conversionIcon(conversion: GeometryConversion): string {
+  switch (conversion) {
+    case 'closeLine':
+      return 'vector-polygon';
+    case 'openPolygon':
+      return 'vector-polyline';
+    case 'joinPoints':
+      return 'vector-line';
+    case 'convexHull':
+      return 'shape-polygon-plus';
+  }
+}
+
+/**
+ * A component that renders a control for converting the selected features
+ * into a feature of a different geometry type
+ *
+ * @param props Rendering props
+ */
+function _ConvertControl({
+  conversion,
+  mergeMetadata,
+}: {
+  /**
+   * The conversion to apply
+   */
+  readonly conversion: GeometryConversion;
+  /**
+   * A function that decides the metadata of a feature created from multiple features
+   */
+  readonly mergeMetadata?: MergeMetadataCb;
+}) {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('convert_control_press', () => {
+        controls.convert(conversion, mergeMetadata);
+      }),
+    [controls, conversion, mergeMetadata]
+  );
+
+  return (
+    <ActionButton
+      icon={conversionIcon(conversion)}
+      disabled={!features.selectedConversions.includes(conversion)}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ConvertControl}
+ */
+export const ConvertControl = observer(_ConvertControl);
+
+/**
+ * A component that renders a control for designating the selected polygon
+ * as the boundary to which other polygons are clipped
+ */
+function _ClipBoundaryControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('clip_boundary_control_press', () => {
+        controls.toggleClipBoundary();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={controls.isClipBoundarySelected ? 'fence' : 'crop-free'}
+      disabled={!controls.canToggleClipBoundary}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ClipBoundaryControl}
+ */
+export const ClipBoundaryControl = observer(_ClipBoundaryControl);
+
+/**
+ * A component that renders a control for clipping the selected polygons
+ * to the boundary and removing their overlaps with other polygons
+ */
+function _ClipControl() {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('clip_control_press', () => {
+        controls.clip();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="vector-difference"
+      disabled={!features.canClipSelected}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ClipControl}
+ */
+export const ClipControl = observer(_ClipControl);
+
+/**
+ * A component that renders a control for splitting shapes along a cut line
+ */
+function _SplitControl() {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('split_control_press', () => {
+        controls.split();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="content-cut"
+      disabled={!features.canSplit}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _SplitControl}
+ */
+export const SplitControl = observer(_SplitControl);
+
+/**
+ * A component that renders a control for switching between extending
+ * a polyline from its first vertex and from its last vertex
+ */
+function _ExtendFromStartControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('extend_from_start_control_press', () => {
+        controls.toggleExtendFromStart();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={controls.extendFromStart ? 'ray-start-arrow' : 'ray-end-arrow'}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ExtendFromStartControl}
+ */
+export const ExtendFromStartControl = observer(_ExtendFromStartControl);
+
+/**
+ * A component that renders a control for pausing, or for starting or resuming,
+ * the recording of a track
+ */
+function _RecordControl() {
+  const { tracking } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('record_control_press', () => {
+        tracking.toggleRecording();
+      }),
+    [tracking]
+  );
+
+  return (
+    <ActionButton
+      icon={tracking.isRecording ? 'pause' : 'record'}
+      label={tracking.isRecording ? 'Pause' : 'Record'}
+      disabled={!tracking.hasProvider}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _RecordControl}
+ */
+export const RecordControl = observer(_RecordControl);
+
+/**
+ * A component that renders a control for switching between recording
+ * tracks as polylines and as polygons. The type of a track cannot be changed
+ * once recording has started.
+ */
+function _TrackTypeControl() {
+  const { features, tracking } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('track_type_control_press', () => {
+        tracking.setTrackType(
+          tracking.trackType === 'LineString' ? 'Polygon' : 'LineString'
+        );
+      }),
+    [tracking]
+  );
+
+  return (
+    <ActionButton
+      icon={
+        tracking.trackType === 'LineString'
+          ? 'vector-polyline'
+          : 'vector-polygon'
+      }
+      disabled={features.hasNewFeature}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _TrackTypeControl}
+ */
+export const TrackTypeControl = observer(_TrackTypeControl);
+
+/**
+ * Retrieve the icon for a way of selecting vertices
+ * @param mode The way of selecting vertices
+ */
+function vertexSelectionModeIcon(mode: VertexSelectionMode): string {
+  switch (mode) {
+    case 'single':
+      return 'cursor-default-click';
+    case 'multiple':
+      return 'selection-multiple';
+    case 'lasso':
+      return 'lasso';
+  }
+}
+
+/**
+ * A component that renders a control for switching between selecting
+ * single vertices, multiple vertices, and vertices inside a lasso
+ */
+function _VertexSelectionModeControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('vertex_selection_mode_control_press', () => {
+        controls.toggleVertexSelectionMode();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={vertexSelectionModeIcon(controls.vertexSelectionMode)}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _VertexSelectionModeControl}
+ */
+export const VertexSelectionModeControl = observer(_VertexSelectionModeControl);
+
+/**
+ * Retrieve the icon for a way of selecting features
+ * @param mode The way of selecting features
+ */
+function featureSelectionModeIcon(mode: FeatureSelectionMode): string {
+  switch (mode) {
+    case 'tap':
+      return 'cursor-default-click';
+    case 'box':
+      return 'selection-drag';
+    case 'lasso':
+      return 'lasso';
+  }
+}
+
+/**
+ * A component that renders a control for switching between selecting
+ * features by touching them, and selecting features inside a box or a lasso
+ */
+function _FeatureSelectionModeControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('feature_selection_mode_control_press', () => {
+        controls.toggleFeatureSelectionMode();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={featureSelectionModeIcon(controls.featureSelectionMode)}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _FeatureSelectionModeControl}
+ */
+export const FeatureSelectionModeControl = observer(
+  _FeatureSelectionModeControl
+);
+
+/**
+ * A component that renders a control for opening the page for selecting
+ * features by their metadata and geometry
+ */
+function _FeatureQueryControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('feature_query_control_press', () => {
+        controls.openPage();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton icon="filter-variant" disabled={false} onPress={onPress} />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _FeatureQueryControl}
+ */
+export const FeatureQueryControl = observer(_FeatureQueryControl);
+
+/**
+ * Retrieve the icon for a way of combining features selected using a box
+ * or a lasso with features that are already selected
+ * @param operation The way of combining features
+ */
+function selectionOperationIcon(operation: SelectionOperation): string {
+  switch (operation) {
+    case 'replace':
+      return 'selection';
+    case 'add':
+      return 'plus-box-multiple-outline';
+    case 'subtract':
+      return 'minus-box-multiple-outline';
+  }
+}
+
+/**
+ * A component that renders a control for switching between replacing the selection,
+ * adding to the selection, and removing from the selection, when selecting
+ * features using a box or a lasso
+ */
+function _SelectionOperationControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('selection_operation_control_press', () => {
+        controls.toggleSelectionOperation();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={selectionOperationIcon(controls.selectionOperation)}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _SelectionOperationControl}
+ */
+export const SelectionOperationControl = observer(_SelectionOperationControl);
+
+/**
+ * A component that renders a control for turning constrained drawing on or off
+ * (see {@link ControlsModel.isConstrainingDrawing})
+ */
+function _ConstrainDrawingControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('constrain_drawing_control_press', () => {
+        controls.toggleConstrainingDrawing();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={controls.isConstrainingDrawing ? 'ruler-square' : 'draw'}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ConstrainDrawingControl}
+ */
+export const ConstrainDrawingControl = observer(_ConstrainDrawingControl);
+
+/**
+ * A component that renders a control for switching between
+ * simplifying and densifying shapes
+ */
+function _ResampleMethodControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('resample_method_control_press', () => {
+        controls.toggleResampleMethod();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon={
+        controls.resampleMethod === 'simplify'
+          ? 'vector-polyline-minus'
+          : 'vector-polyline-plus'
+      }
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ResampleMethodControl}
+ */
+export const ResampleMethodControl = observer(_ResampleMethodControl);
+
+/**
+ * A component that renders a control for increasing or decreasing
+ * the distance used to simplify or densify shapes
+ *
+ * @param props Rendering props
+ */
+function _ResampleDistanceControl({
+  increase,
+}: {
+  /**
+   * Whether the control increases (`true`) or decreases (`false`) the distance
+   */
+  readonly increase: boolean;
+}) {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('resample_distance_control_press', () => {
+        controls.stepResampleDistance(increase);
+      }),
+    [controls, increase]
+  );
+
+  return (
+    <ActionButton
+      icon={increase ? 'plus' : 'minus'}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ResampleDistanceControl}
+ */
+export const ResampleDistanceControl = observer(_ResampleDistanceControl);
+
+/**
+ * A component that renders a control for applying the simplification
+ * or densification that is being previewed, labelled with the distance used
+ */
+function _ResampleControl() {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('resample_control_press', () => {
+        controls.resample();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="check-outline"
+      label={`${controls.resampleDistance} m`}
+      disabled={!features.canResample}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _ResampleControl}
+ */
+export const ResampleControl = observer(_ResampleControl);
+
+/**
+ * A component that renders a control for switching between creating polygons
+ * around shapes and creating lines to the left or right of lines
+ */
+function _BufferMethodControl() {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('buffer_method_control_press', () => {
+        controls.toggleBufferMethod();
+      }),
+    [controls]
+  );
+
+  let icon = 'border-outside';
+  switch (controls.bufferMethod) {
+    case 'buffer':
+      break;
+    case 'offsetLeft':
+      icon = 'format-horizontal-align-left';
+      break;
+    case 'offsetRight':
+      icon = 'format-horizontal-align-right';
+      break;
+  }
+
+  return (
+    <ActionButton
+      icon={icon}
+      disabled={!features.canOffsetEditableFeatures}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _BufferMethodControl}
+ */
+export const BufferMethodControl = observer(_BufferMethodControl);
+
+/**
+ * A component that renders a control for changing the units
+ * of the distance at which new shapes are created
+ */
+function _BufferUnitsControl() {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('buffer_units_control_press', () => {
+        controls.toggleBufferUnits();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="ruler"
+      label={lengthUnitsSymbol(controls.bufferUnits)}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _BufferUnitsControl}
+ */
+export const BufferUnitsControl = observer(_BufferUnitsControl);
+
+/**
+ * A component that renders a control for increasing or decreasing
+ * the distance at which new shapes are created
+ *
+ * @param props Rendering props
+ */
+function _BufferDistanceControl({
+  increase,
+}: {
+  /**
+   * Whether the control increases (`true`) or decreases (`false`) the distance
+   */
+  readonly increase: boolean;
+}) {
+  const { controls } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('buffer_distance_control_press', () => {
+        controls.stepBufferDistance(increase);
+      }),
+    [controls, increase]
+  );
+
+  return (
+    <ActionButton
+      icon={increase ? 'plus' : 'minus'}
+      disabled={false}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _BufferDistanceControl}
+ */
+export const BufferDistanceControl = observer(_BufferDistanceControl);
+
+/**
+ * A component that renders a control for creating the shapes
+ * that are being previewed, labelled with the distance used
+ */
+function _BufferControl() {
+  const { controls, features } = useContext(StoreContext);
+  // Button press callback
+  const onPress = useMemo(
+    () =>
+      action('buffer_control_press', () => {
+        controls.buffer();
+      }),
+    [controls]
+  );
+
+  return (
+    <ActionButton
+      icon="check-outline"
+      label={`${controls.bufferDistance} ${lengthUnitsSymbol(
+        controls.bufferUnits
+      )}`}
+      disabled={!features.canBuffer}
+      onPress={onPress}
+    />
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _BufferControl}
+ */
+export const BufferControl = observer(_BufferControl);
+
 /**
  * A component that renders a finish control for saving
  * all changes at the end of a self-contained editing task.
@@ -105,12 +929,28 @@ function _FinishControl() {
   let disabled = features.cannotUndoAndRedo;
   switch (controls.mode) {
     case InteractionMode.DragPoint:
+    case InteractionMode.DrawHole:
+    case InteractionMode.DrawPart:
     case InteractionMode.DrawPoint:
     case InteractionMode.EditVertices:
+    case InteractionMode.ExtendLine:
     case InteractionMode.EditMetadata:
+    case InteractionMode.RemovePart:
+    case InteractionMode.SplitShape:
+    case InteractionMode.TransformShape:
+    case InteractionMode.ResampleShape:
+    case InteractionMode.BufferShape:
+      break;
+    case InteractionMode.GeneratePlots:
+      // There are no changes before the plots are created
+      disabled = !features.canGeneratePlots;
       break;
+    case InteractionMode.DrawCircle:
     case InteractionMode.DrawPolygon:
     case InteractionMode.DrawPolyline:
+    case InteractionMode.DrawFreehand:
+    case InteractionMode.RecordTrack:
+    case InteractionMode.DrawRectangle:
       // Complex shapes cannot be saved until they are well-formed
       disabled = disabled || !features.hasCompleteNewFeature;
       break;
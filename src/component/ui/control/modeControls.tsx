@@ -5,6 +5,23 @@ import { ToggleButton } from 'react-native-paper';
 
 import { InteractionMode } from '../../../state/ControlsModel';
 import { StoreContext } from '../../../state/StoreContext';
+import type { FeatureListModel } from '../../../state/FeatureListModel';
+
+/**
+ * Editing modes that have dedicated toggle buttons, and which should therefore
+ * not be treated as shape editing modes by {@link ShapeEditControl}
+ */
+const FEATURE_MODES = [
+  InteractionMode.ExtendLine,
+  InteractionMode.DrawHole,
+  InteractionMode.DrawPart,
+  InteractionMode.RemovePart,
+  InteractionMode.SplitShape,
+  InteractionMode.TransformShape,
+  InteractionMode.ResampleShape,
+  InteractionMode.BufferShape,
+  InteractionMode.GeneratePlots,
+];
 
 /**
  * Create a toggle button that enables and disables an editing mode
@@ -60,6 +77,49 @@ export const DrawPolylineControl = makeModeControl(
   InteractionMode.DrawPolyline,
   'vector-polyline-plus'
 );
+/**
+ * Freehand polyline drawing editing mode control button
+ */
+export const DrawFreehandControl = makeModeControl(
+  InteractionMode.DrawFreehand,
+  'gesture'
+);
+/**
+ * Track recording editing mode control button, which is always rendered
+ */
+const RecordTrackModeControl = makeModeControl(
+  InteractionMode.RecordTrack,
+  'map-marker-path'
+);
+/**
+ * A component that renders a track recording editing mode control button,
+ * if there is a source of positions from which to record tracks
+ */
+function _RecordTrackControl() {
+  const { tracking } = useContext(StoreContext);
+  if (!tracking.hasProvider) {
+    return null;
+  }
+  return <RecordTrackModeControl />;
+}
+/**
+ * Renderable MobX wrapper for {@link _RecordTrackControl}
+ */
+export const RecordTrackControl = observer(_RecordTrackControl);
+/**
+ * Circle drawing editing mode control button
+ */
+export const DrawCircleControl = makeModeControl(
+  InteractionMode.DrawCircle,
+  'circle-outline'
+);
+/**
+ * Rectangle drawing editing mode control button
+ */
+export const DrawRectangleControl = makeModeControl(
+  InteractionMode.DrawRectangle,
+  'rectangle-outline'
+);
 /**
  * Multi-selection editing mode control button
  */
@@ -97,7 +157,10 @@ function _ShapeEditControl() {
       nextMode = InteractionMode.EditVertices;
       enabled = true;
     }
-  } else if (controls.hasShapeModificationMode) {
+  } else if (
+    controls.hasShapeModificationMode &&
+    !FEATURE_MODES.includes(controls.mode)
+  ) {
     enabled = true;
   }
 
@@ -114,7 +177,10 @@ function _ShapeEditControl() {
     [controls, nextMode]
   );
   let status: 'unchecked' | 'checked' = 'unchecked';
-  if (controls.hasShapeModificationMode) {
+  if (
+    controls.hasShapeModificationMode &&
+    !FEATURE_MODES.includes(controls.mode)
+  ) {
     status = 'checked';
   }
 
@@ -132,3 +198,146 @@ function _ShapeEditControl() {
  * Renderable MobX wrapper for {@link _ShapeEditControl}
  */
 export const ShapeEditControl = observer(_ShapeEditControl);
+
+/**
+ * Create a toggle button that enables and disables an editing mode
+ * that modifies a single selected feature.
+ *
+ * When the controller is in a selection mode, the button activates the
+ * editing mode if the selected features allow it.
+ * Otherwise the button is disabled.
+ *
+ * When the controller is in the editing mode, the button acts as a cancel button.
+ *
+ * @param mode The editing mode
+ * @param icon The icon to apply to the toggle button
+ * @param canActivate A function that determines whether the selected features
+ *                    allow the editing mode to be activated
+ * @return A React component for rendering an editing mode toggle button
+ */
+function makeFeatureModeControl(
+  mode: InteractionMode,
+  icon: string,
+  canActivate: (features: FeatureListModel) => boolean
+) {
+  return observer(() => {
+    const { controls, features } = useContext(StoreContext);
+
+    // Button enabled/disabled state
+    let enabled = false;
+    const isActive = controls.mode === mode;
+    if (controls.hasSelectionMode) {
+      enabled = canActivate(features);
+    } else if (isActive) {
+      enabled = true;
+    }
+
+    // Button press handler
+    const onPress = useMemo(
+      () =>
+        action('feature_mode_control_press', () => {
+          if (isActive) {
+            controls.cancel();
+          } else {
+            controls.toggleMode(mode);
+          }
+        }),
+      [controls, isActive]
+    );
+    let status: 'unchecked' | 'checked' = 'unchecked';
+    if (isActive) {
+      status = 'checked';
+    }
+
+    return (
+      <ToggleButton
+        icon={icon}
+        onPress={onPress}
+        disabled={!enabled}
+        status={status}
+      />
+    );
+  });
+}
+
+/**
+ * Hole drawing editing mode control button,
+ * enabled when a single polygon is selected
+ */
+export const DrawHoleControl = makeFeatureModeControl(
+  InteractionMode.DrawHole,
+  'vector-difference-ab',
+  (features) => features.hasOneSelectedPolygonOnly
+);
+/**
+ * Multi-geometry part drawing editing mode control button,
+ * enabled when a single multi-geometry feature is selected
+ */
+export const DrawPartControl = makeFeatureModeControl(
+  InteractionMode.DrawPart,
+  'vector-square-plus',
+  (features) => features.hasOneSelectedMultiFeatureOnly
+);
+/**
+ * Multi-geometry part removal editing mode control button,
+ * enabled when a single multi-geometry feature is selected
+ */
+export const RemovePartControl = makeFeatureModeControl(
+  InteractionMode.RemovePart,
+  'vector-square-remove',
+  (features) => features.hasOneSelectedMultiFeatureOnly
+);
+/**
+ * Polyline extension editing mode control button,
+ * enabled when a single line string is selected
+ */
+export const ExtendLineControl = makeFeatureModeControl(
+  InteractionMode.ExtendLine,
+  'arrow-expand-horizontal',
+  (features) => features.hasOneSelectedLineStringOnly
+);
+/**
+ * Shape splitting editing mode control button,
+ * enabled when a single line string, polygon, or multi-geometry feature is selected
+ */
+export const SplitShapeControl = makeFeatureModeControl(
+  InteractionMode.SplitShape,
+  'content-cut',
+  (features) => features.hasOneSelectedComplexShapeOnly
+);
+/**
+ * Shape transformation editing mode control button,
+ * enabled when at least one feature is selected
+ */
+export const TransformShapeControl = makeFeatureModeControl(
+  InteractionMode.TransformShape,
+  'arrow-all',
+  (features) => features.selectedFeaturesCount > 0
+);
+/**
+ * Shape simplification and densification editing mode control button,
+ * enabled when a single line string, polygon, multi-line string, or multi-polygon is selected
+ */
+export const ResampleShapeControl = makeFeatureModeControl(
+  InteractionMode.ResampleShape,
+  'vector-polyline-edit',
+  (features) => features.canResampleSelected
+);
+/**
+ * Buffering and line offsetting editing mode control button,
+ * enabled when at least one feature is selected
+ */
+export const BufferShapeControl = makeFeatureModeControl(
+  InteractionMode.BufferShape,
+  'border-outside',
+  (features) => features.selectedFeaturesCount > 0
+);
+/**
+ * Plot grid generation editing mode control button,
+ * enabled when a single polygon or multi-polygon is selected
+ */
+export const GeneratePlotsControl = makeFeatureModeControl(
+  InteractionMode.GeneratePlots,
+  'grid',
+  (features) => !!features.oneSelectedAreaID
+);
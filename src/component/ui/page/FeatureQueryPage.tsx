@@ -0,0 +1,539 @@
+import { useContext, useMemo, useState } from 'react';
+import { action } from 'mobx';
+import { observer } from 'mobx-react-lite';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Button,
+  Card,
+  Chip,
+  HelperText,
+  IconButton,
+  Menu,
+  Switch,
+  TextInput,
+  Title,
+} from 'react-native-paper';
+import filter from 'lodash/filter';
+import flatten from 'lodash/flatten';
+import uniqBy from 'lodash/uniqBy';
+
+import { StoreContext } from '../../../state/StoreContext';
+import { MetadataContext } from '../metadata/MetadataContext';
+import { FieldType } from '../../../type/metadata';
+import type {
+  EnumFieldDescription,
+  MetadataFormFieldDescription,
+  NewMetadataSchemaGenerator,
+} from '../../../type/metadata';
+import type {
+  EditableGeometryType,
+  SelectionOperation,
+  SemanticGeometryType,
+} from '../../../type/geometry';
+import type { QueryCondition, QueryOperator } from '../../../type/query';
+import { makeMetadataFormStarter } from '../../../util/metadata/schema';
+import { queryPredicate } from '../../../util/query';
+
+/**
+ * @ignore
+ */
+const styles = StyleSheet.create({
+  card: {
+    flex: 1,
+  },
+  cardContent: {
+    height: '90%',
+  },
+  cardActions: {
+    height: '10%',
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+  },
+  chip: {
+    margin: 2,
+  },
+  value: {
+    flex: 1,
+  },
+});
+
+/**
+ * The types of geometry for which the metadata schema is searched for fields
+ */
+const SCHEMA_GEOMETRY_TYPES: Array<SemanticGeometryType> = [
+  'Point',
+  'LineString',
+  'Polygon',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiPolygon',
+  'Circle',
+  'Rectangle',
+];
+
+/**
+ * The types of geometry by which the user can filter features
+ */
+const QUERY_GEOMETRY_TYPES: Array<EditableGeometryType> = [
+  'Point',
+  'LineString',
+  'Polygon',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiPolygon',
+];
+
+/**
+ * The number of square metres in a hectare
+ */
+const SQUARE_METERS_PER_HECTARE = 10000;
+
+/**
+ * Something about a feature that the user can query
+ */
+interface QueryField {
+  /**
+   * The name of the field shown to the user
+   */
+  readonly label: string;
+  /**
+   * The type of values of the field
+   */
+  readonly type: FieldType;
+  /**
+   * The possible values of an enum field
+   */
+  readonly options?: Array<string>;
+  /**
+   * Create a query condition on the field
+   * @param operator The comparison
+   * @param value The value entered by the user
+   * @return The condition, or `null` if the value is not valid
+   */
+  readonly toCondition: (
+    operator: QueryOperator,
+    value: string | boolean
+  ) => QueryCondition | null;
+}
+
+/**
+ * A condition being entered by the user
+ */
+interface DraftCondition {
+  /**
+   * The index of the queried field in the list of fields
+   */
+  readonly field: number;
+  /**
+   * The comparison
+   */
+  readonly operator: QueryOperator;
+  /**
+   * The value entered by the user
+   */
+  readonly value: string | boolean;
+}
+
+/**
+ * Retrieve the comparisons that can be made with values of a field
+ * @param type The type of values of the field
+ */
+function fieldOperators(type: FieldType): Array<QueryOperator> {
+  switch (type) {
+    case FieldType.Boolean:
+    case FieldType.Enum:
+      return ['==', '!='];
+    case FieldType.Number:
+      return ['==', '!=', '<', '<=', '>', '>='];
+    case FieldType.String:
+      return ['==', '!=', 'contains'];
+  }
+}
+
+/**
+ * Parse a number entered by the user
+ * @param value The text entered by the user
+ * @return The number, or `null` if the text is not a number
+ */
+function parseNumber(value: string | boolean): number | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  const result = Number(value);
+  return Number.isFinite(result) ? result : null;
+}
+
+/**
+ * Retrieve the fields that the user can query: the area and length of features,
+ * and the viewable metadata fields of all types of features, according to
+ * the metadata schemas for new features
+ *
+ * @param generator The metadata schema generator for new features
+ */
+function queryFields(generator: NewMetadataSchemaGenerator): Array<QueryField> {
+  const schemaFields = uniqBy(
+    filter(
+      flatten(
+        SCHEMA_GEOMETRY_TYPES.map(
+          (type) =>
+            makeMetadataFormStarter(generator(type)).formStructure.fields
+        )
+      ),
+      (val: MetadataFormFieldDescription) => val.attributes.permissions.view
+    ),
+    (val) => val.key
+  );
+  return [
+    {
+      label: 'Area (ha)',
+      type: FieldType.Number,
+      toCondition: (operator, value) => {
+        const area = parseNumber(value);
+        return area === null || operator === 'contains'
+          ? null
+          : {
+              measurement: 'area',
+              operator,
+              value: area * SQUARE_METERS_PER_HECTARE,
+            };
+      },
+    },
+    {
+      label: 'Length (m)',
+      type: FieldType.Number,
+      toCondition: (operator, value) => {
+        const length = parseNumber(value);
+        return length === null || operator === 'contains'
+          ? null
+          : { measurement: 'length', operator, value: length };
+      },
+    },
+    ...schemaFields.map(
+      (field): QueryField => ({
+        label: field.label,
+        type: field.type,
+        options: (field as EnumFieldDescription).options,
+        toCondition: (operator, value) => {
+          if (field.type === FieldType.Number) {
+            const number = parseNumber(value);
+            return number === null
+              ? null
+              : { property: field.key, operator, value: number };
+          }
+          return value === '' ? null : { property: field.key, operator, value };
+        },
+      })
+    ),
+  ];
+}
+
+/**
+ * A dropdown menu for choosing one of several options
+ * @param props Render properties
+ */
+function Dropdown({
+  label,
+  options,
+  onSelect,
+}: {
+  /**
+   * The label of the button that opens the menu
+   */
+  readonly label: string;
+  /**
+   * The options
+   */
+  readonly options: Array<string>;
+  /**
+   * A function that is given the index of the option that the user chose
+   */
+  readonly onSelect: (index: number) => void;
+}) {
+  const [visible, setVisible] = useState(false);
+  return (
+    <Menu
+      visible={visible}
+      onDismiss={() => setVisible(false)}
+      anchor={
+        <Button compact uppercase={false} onPress={() => setVisible(true)}>
+          {label}
+        </Button>
+      }
+    >
+      {options.map((option, index) => (
+        <Menu.Item
+          key={index}
+          title={option}
+          onPress={() => {
+            setVisible(false);
+            onSelect(index);
+          }}
+        />
+      ))}
+    </Menu>
+  );
+}
+
+/**
+ * A component for editing a condition of a query
+ * @param props Render properties
+ */
+function ConditionRow({
+  fields,
+  condition,
+  onChange,
+  onRemove,
+}: {
+  /**
+   * The fields that can be queried
+   */
+  readonly fields: Array<QueryField>;
+  /**
+   * The condition
+   */
+  readonly condition: DraftCondition;
+  /**
+   * A function that is given the edited condition
+   */
+  readonly onChange: (condition: DraftCondition) => void;
+  /**
+   * A function that removes the condition from the query
+   */
+  readonly onRemove: () => void;
+}) {
+  const field = fields[condition.field];
+  const operators = fieldOperators(field.type);
+  let valueInput = null;
+  switch (field.type) {
+    case FieldType.Boolean:
+      valueInput = (
+        <Switch
+          value={!!condition.value}
+          onValueChange={(value) => onChange({ ...condition, value })}
+        />
+      );
+      break;
+    case FieldType.Enum:
+      valueInput = (
+        <Dropdown
+          label={condition.value === '' ? 'Value' : `${condition.value}`}
+          options={field.options ?? []}
+          onSelect={(index) =>
+            onChange({ ...condition, value: field.options![index] })
+          }
+        />
+      );
+      break;
+    case FieldType.Number:
+    case FieldType.String:
+      valueInput = (
+        <TextInput
+          style={styles.value}
+          value={`${condition.value}`}
+          dense
+          mode="outlined"
+          label="Value"
+          keyboardType={field.type === FieldType.Number ? 'numeric' : 'default'}
+          onChangeText={(value) => onChange({ ...condition, value })}
+        />
+      );
+      break;
+  }
+  return (
+    <View style={styles.row}>
+      <Dropdown
+        label={field.label}
+        options={fields.map((val) => val.label)}
+        onSelect={(index) =>
+          onChange({
+            field: index,
+            operator: '==',
+            value: fields[index].type === FieldType.Boolean ? true : '',
+          })
+        }
+      />
+      <Dropdown
+        label={condition.operator}
+        options={operators}
+        onSelect={(index) =>
+          onChange({ ...condition, operator: operators[index] })
+        }
+      />
+      {valueInput}
+      <IconButton icon="close" onPress={onRemove} />
+    </View>
+  );
+}
+
+/**
+ * Retrieve a description of a way of combining selected features
+ * @param operation The way of combining features
+ */
+function selectionOperationLabel(operation: SelectionOperation): string {
+  switch (operation) {
+    case 'replace':
+      return 'Replace selection';
+    case 'add':
+      return 'Add to selection';
+    case 'subtract':
+      return 'Remove from selection';
+  }
+}
+
+/**
+ * A component that renders a page for selecting features by their metadata,
+ * area, length, and geometry type, and for selecting all features or
+ * inverting the selection. The metadata fields that can be queried come from
+ * the metadata schemas for new features.
+ */
+function _FeatureQueryPage() {
+  const { controls } = useContext(StoreContext);
+  const { newGeometry } = useContext(MetadataContext);
+  const fields = useMemo(() => queryFields(newGeometry), [newGeometry]);
+
+  const [conditions, setConditions] = useState<Array<DraftCondition>>([]);
+  const [match, setMatch] = useState<'all' | 'any'>('all');
+  const [types, setTypes] = useState<Array<EditableGeometryType>>([]);
+
+  /**
+   * The conditions of the query, or `null` if any of them are invalid
+   */
+  const queryConditions = useMemo(() => {
+    const result = conditions.map((val) =>
+      fields[val.field].toCondition(val.operator, val.value)
+    );
+    return result.every((val) => !!val)
+      ? (result as Array<QueryCondition>)
+      : null;
+  }, [conditions, fields]);
+
+  // Button press callbacks
+  const onSelect = useMemo(
+    () =>
+      action('feature_query_select', () => {
+        if (queryConditions) {
+          controls.selectFeatures(
+            queryPredicate({
+              conditions: queryConditions,
+              match,
+              geometryTypes: types,
+            }),
+            controls.selectionOperation
+          );
+        }
+      }),
+    [controls, queryConditions, match, types]
+  );
+  const onSelectAll = useMemo(
+    () =>
+      action('feature_query_select_all', () => {
+        controls.selectAll();
+      }),
+    [controls]
+  );
+  const onInvert = useMemo(
+    () =>
+      action('feature_query_invert', () => {
+        controls.invertSelection();
+      }),
+    [controls]
+  );
+  const onOperation = useMemo(
+    () =>
+      action('feature_query_operation', () => {
+        controls.toggleSelectionOperation();
+      }),
+    [controls]
+  );
+  const onDismiss = useMemo(
+    () =>
+      action('feature_query_close', () => {
+        controls.cancel();
+      }),
+    [controls]
+  );
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content style={styles.cardContent}>
+        <ScrollView>
+          <Title>Select features</Title>
+          <View style={styles.row}>
+            {QUERY_GEOMETRY_TYPES.map((type) => (
+              <Chip
+                key={type}
+                style={styles.chip}
+                selected={types.includes(type)}
+                onPress={() =>
+                  setTypes(
+                    types.includes(type)
+                      ? types.filter((val) => val !== type)
+                      : [...types, type]
+                  )
+                }
+              >
+                {type}
+              </Chip>
+            ))}
+          </View>
+          {conditions.map((condition, index) => (
+            <ConditionRow
+              key={index}
+              fields={fields}
+              condition={condition}
+              onChange={(value) =>
+                setConditions(
+                  conditions.map((val, i) => (i === index ? value : val))
+                )
+              }
+              onRemove={() =>
+                setConditions(conditions.filter((_val, i) => i !== index))
+              }
+            />
+          ))}
+          <HelperText type="error" padding="none" visible={!queryConditions}>
+            Enter a value for each condition
+          </HelperText>
+          <View style={styles.row}>
+            <Button
+              icon="plus"
+              onPress={() =>
+                setConditions([
+                  ...conditions,
+                  { field: 0, operator: '>', value: '' },
+                ])
+              }
+            >
+              Condition
+            </Button>
+            <Button
+              onPress={() => setMatch(match === 'all' ? 'any' : 'all')}
+              disabled={conditions.length < 2}
+            >
+              {match === 'all' ? 'Match all' : 'Match any'}
+            </Button>
+          </View>
+          <Button onPress={onOperation}>
+            {selectionOperationLabel(controls.selectionOperation)}
+          </Button>
+        </ScrollView>
+      </Card.Content>
+      <Card.Actions style={styles.cardActions}>
+        <Button onPress={onSelect} disabled={!queryConditions}>
+          Select
+        </Button>
+        <Button onPress={onSelectAll}>All</Button>
+        <Button onPress={onInvert}>Invert</Button>
+        <Button onPress={onDismiss}>Close</Button>
+      </Card.Actions>
+    </Card>
+  );
+}
+
+/**
+ * Renderable MobX wrapper for {@link _FeatureQueryPage}
+ */
+export const FeatureQueryPage = observer(_FeatureQueryPage);
@@ -7,6 +7,7 @@ import { InteractionMode } from '../../../state/ControlsModel';
 import { MetadataEditorConsumer } from '../metadata/MetadataEditorConsumer';
 import { MetadataView } from '../metadata/MetadataView';
 import { DefaultContent } from './DefaultContent';
+import { FeatureQueryPage } from './FeatureQueryPage';
 import { ConfirmationPage } from './ConfirmationPage';
 
 /**
@@ -37,15 +38,29 @@ function _PageContent() {
   if (isPageOpen) {
     switch (controls.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
       case InteractionMode.EditVertices:
+      case InteractionMode.ExtendLine:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
         break;
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
+      case InteractionMode.DrawRectangle:
+      case InteractionMode.GeneratePlots:
       case InteractionMode.EditMetadata:
         content = <MetadataEditorConsumer />;
         break;
       case InteractionMode.SelectMultiple:
+        content = <FeatureQueryPage />;
         break;
       case InteractionMode.SelectSingle:
         content = <MetadataView />;
@@ -52,7 +52,7 @@ export function useMetadata(use: MetadataInteraction): {
   contextExists: boolean;
 } {
   // Input data sources
-  const { controls, features } = useContext(StoreContext);
+  const { controls, features, tracking } = useContext(StoreContext);
   const { newGeometry, existingGeometry } = useContext(MetadataContext);
 
   // Any existing metadata
@@ -67,15 +67,26 @@ export function useMetadata(use: MetadataInteraction): {
   if (use === MetadataInteraction.Create) {
     let type: SemanticGeometryType = 'Point';
     switch (controls.mode) {
+      case InteractionMode.DrawCircle:
+        type = 'Circle';
+        break;
       case InteractionMode.DrawPoint:
         type = 'Point';
         break;
       case InteractionMode.DrawPolygon:
+      case InteractionMode.GeneratePlots:
         type = 'Polygon';
         break;
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
         type = 'LineString';
         break;
+      case InteractionMode.DrawRectangle:
+        type = 'Rectangle';
+        break;
+      case InteractionMode.RecordTrack:
+        type = tracking.trackType;
+        break;
       default:
         throw new Error(
           `The current editing mode is ${controls.mode}, but the current metadata interaction is ${use}.`
@@ -92,29 +103,37 @@ export function useMetadata(use: MetadataInteraction): {
       case 'Point':
         contextExists = features.hasCompleteNewFeature;
         break;
+      case 'Circle':
       case 'Polygon':
       case 'LineString':
+      case 'Rectangle':
         contextExists = features.canUndoOrRedo;
         break;
     }
+    if (controls.mode === InteractionMode.GeneratePlots) {
+      // Plots are only created after their metadata is created
+      contextExists = controls.isPageOpen;
+    }
   } else {
     /**
      * Obtain any feature providing metadata for rendering
      */
     let feature: EditableFeature | undefined;
+    let type: SemanticGeometryType | undefined;
     switch (use) {
       case MetadataInteraction.Edit:
         feature = toJS(features.draftMetadataGeoJSON);
+        type = features.draftMetadataSemanticType;
         break;
       case MetadataInteraction.ViewDetails:
       case MetadataInteraction.ViewPreview:
         feature = toJS(features.focusedFeature?.geojson);
+        type = features.focusedFeature?.semanticType;
         break;
     }
 
-    if (feature) {
-      // TODO: Update the semantic type in the future if it no longer matches the geometry type
-      schemaSource = existingGeometry(feature.geometry.type, feature);
+    if (feature && type) {
+      schemaSource = existingGeometry(type, feature);
       // Metadata associated with the feature
       data = feature.properties;
       contextExists = true;
@@ -40,24 +40,56 @@ export {
 } from './util/defaultStyleGenerators';
 export { validateMetadata } from './util/metadata/schema';
 export { compareShapesByOverlap } from './util/geometry/display';
+export { formatArea, formatLength } from './util/units';
+export { formatPosition, parsePosition } from './util/geometry/coordinates';
+export { SEMANTIC_SHAPE_KEY } from './util/geometry/semantic';
 
+export type { SnappingOptions, SnappingUnits } from './type/snapping';
+export type {
+  PositionProvider,
+  TrackPosition,
+  TrackPositionCb,
+  TrackRecordingOptions,
+} from './type/tracking';
+export type {
+  FeaturePredicate,
+  FeatureQuery,
+  MeasurementCondition,
+  PropertyCondition,
+  QueryCondition,
+  QueryOperator,
+} from './type/query';
 export type { CameraControls } from './component/event/CameraController';
 export type {
+  CircleShape,
+  ClippingOptions,
+  CoordinateFormat,
   EditableFeature,
   EditableGeometry,
   EditableGeometryType,
+  GeometryConversion,
+  InvalidGeometryPolicy,
+  Measurement,
+  MeasurementUnits,
+  NonPointGeometry,
+  PlotIndexKeys,
+  RectangleShape,
   RenderFeature,
   RenderProperties,
+  SelectionOperation,
   SemanticGeometryType,
+  SemanticShape,
 } from './type/geometry';
 export {
   CoordinateRole,
   LineStringRole,
   GeometryRole,
+  GeometryProblem,
   FeatureLifecycleStage,
 } from './type/geometry';
 export type {
   FieldAttributes,
+  MergeMetadataCb,
   Metadata,
   MetadataAttributes,
   MetadataSchema,
@@ -73,11 +105,13 @@ export type {
   DraggablePointStyleGenerator,
   LineLayerStyleGenerator,
   PolygonLayerStyleGenerator,
+  SnapTargetStyleGenerator,
   StyleGeneratorMap,
 } from './type/style';
 export type {
   EditingStatusCb,
   InteractionEventProps,
+  MeasurementCb,
   PageProps,
   PageOpenCb,
   PageCloseCb,
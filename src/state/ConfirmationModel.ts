@@ -21,6 +21,16 @@ export enum ConfirmationReason {
    * The user is being asked whether or not they wish to discard changes
    */
   Discard = 'DISCARD',
+  /**
+   * The user is being informed that the geometry being edited is invalid,
+   * and must be corrected before it can be saved
+   */
+  InvalidGeometry = 'INVALID_GEOMETRY',
+  /**
+   * The user is being asked whether or not they wish to save new geometry
+   * that is invalid
+   */
+  SaveInvalidGeometry = 'SAVE_INVALID_GEOMETRY',
 }
 
 /**
@@ -1,30 +1,83 @@
 import { computed, toJS } from 'mobx';
+import cloneDeep from 'lodash/cloneDeep';
+import uniq from 'lodash/uniq';
 import { model, Model, modelAction, prop } from 'mobx-keystone';
 import type { OnPressEvent } from '@rnmapbox/maps';
 import type { Position, GeoJsonProperties } from 'geojson';
 
 import { eventPosition, pickTopmostFeature } from '../util/interaction';
+import { describeGeometryProblems } from '../util/geometry/validation';
+import { metersPerPixel } from '../util/geometry/snapping';
+import { hasConstraints, planarBearing } from '../util/geometry/constraints';
+import {
+  featuresCenter,
+  southEastOffset,
+  translateFeatures,
+} from '../util/geometry/transform';
 import { ConfirmationModel, ConfirmationReason } from './ConfirmationModel';
 import { DelayedLockModel } from './util/DelayedLockModel';
-import { featureListContext } from './ModelContexts';
+import {
+  featureListContext,
+  snappingContext,
+  trackingContext,
+} from './ModelContexts';
 import { MetadataInteraction } from '../type/metadata';
+import type { MergeMetadataCb } from '../type/metadata';
 import type { MapPressPayload } from '../type/events';
 import {
   CoordinateRole,
   FeatureLifecycleStage,
-  LineStringRole,
   RnmgeID,
 } from '../type/geometry';
-import type { EditableFeature } from '../type/geometry';
+import type {
+  BufferMethod,
+  ClippingOptions,
+  EditableFeature,
+  FeatureSelectionMode,
+  GeometryConversion,
+  InvalidGeometryPolicy,
+  AngleConstraint,
+  CoordinateFormat,
+  DrawingConstraints,
+  LengthUnits,
+  MeasurementUnits,
+  PlotGridOptions,
+  PlotIndexKeys,
+  ResampleMethod,
+  SelectionOperation,
+  SemanticShape,
+  VertexSelectionMode,
+} from '../type/geometry';
+import type { FeaturePredicate } from '../type/query';
 
 /**
  * Possible geometry editing modes
  */
 export enum InteractionMode {
+  /**
+   * Create polygons around existing shapes, or lines parallel to existing lines
+   */
+  BufferShape = 'BUFFERSHAPE',
   /**
    * Reposition point geometry
    */
   DragPoint = 'DRAGPOINT',
+  /**
+   * Draw a new circle, which is stored as a polygon
+   */
+  DrawCircle = 'DRAWCIRCLE',
+  /**
+   * Draw a new polyline (line string) by tracing it with a finger
+   */
+  DrawFreehand = 'DRAWFREEHAND',
+  /**
+   * Draw a hole in an existing polygon
+   */
+  DrawHole = 'DRAWHOLE',
+  /**
+   * Draw a new part of an existing multi-geometry feature
+   */
+  DrawPart = 'DRAWPART',
   /**
    * Draw new point features
    */
@@ -37,6 +90,10 @@ export enum InteractionMode {
    * Draw a new polyline (line string)
    */
   DrawPolyline = 'DRAWPOLYLINE',
+  /**
+   * Draw a new rectangle, which is stored as a polygon
+   */
+  DrawRectangle = 'DRAWRECTANGLE',
   /**
    * Edit metadata associated with a shape
    */
@@ -45,6 +102,27 @@ export enum InteractionMode {
    * Edit compound shape vertices
    */
   EditVertices = 'EDITVERTICES',
+  /**
+   * Add vertices to either end of an existing polyline (line string)
+   */
+  ExtendLine = 'EXTENDLINE',
+  /**
+   * Divide an existing polygon into a grid of rectangular plots
+   */
+  GeneratePlots = 'GENERATEPLOTS',
+  /**
+   * Draw a new polyline (line string) or polygon from a stream of positions,
+   * such as the positions of a GPS receiver
+   */
+  RecordTrack = 'RECORDTRACK',
+  /**
+   * Remove parts from an existing multi-geometry feature
+   */
+  RemovePart = 'REMOVEPART',
+  /**
+   * Simplify or densify an existing line string or polygon
+   */
+  ResampleShape = 'RESAMPLESHAPE',
   /**
    * Add shapes to the set of shapes selected for editing
    */
@@ -54,6 +132,14 @@ export enum InteractionMode {
    * the active shape for future editing
    */
   SelectSingle = 'SELECTSINGLE',
+  /**
+   * Split an existing shape into multiple shapes by drawing a cut line across it
+   */
+  SplitShape = 'SPLITSHAPE',
+  /**
+   * Move, rotate, and scale existing shapes as a whole using handles
+   */
+  TransformShape = 'TRANSFORMSHAPE',
 }
 
 /**
@@ -104,7 +190,17 @@ function selectionModeToSelectionStage(
  */
 function isShapeModificationMode(mode: InteractionMode) {
   return (
-    mode === InteractionMode.DragPoint || mode === InteractionMode.EditVertices
+    mode === InteractionMode.DragPoint ||
+    mode === InteractionMode.DrawHole ||
+    mode === InteractionMode.DrawPart ||
+    mode === InteractionMode.EditVertices ||
+    mode === InteractionMode.ExtendLine ||
+    mode === InteractionMode.RemovePart ||
+    mode === InteractionMode.SplitShape ||
+    mode === InteractionMode.TransformShape ||
+    mode === InteractionMode.ResampleShape ||
+    mode === InteractionMode.BufferShape ||
+    mode === InteractionMode.GeneratePlots
   );
 }
 
@@ -113,6 +209,135 @@ function isShapeModificationMode(mode: InteractionMode) {
  */
 const DEFAULT_INTERACTION_MODE = InteractionMode.SelectSingle;
 
+/**
+ * The title of confirmation dialogs about invalid geometry
+ */
+const INVALID_GEOMETRY_TITLE = 'Invalid shape';
+
+/**
+ * The screen distance, in pixels, in each of the east and south directions,
+ * by which pasted and duplicated features are moved from the original features
+ */
+const PASTE_OFFSET_PIXELS = 20;
+
+/**
+ * The ground distance, in metres, in each of the east and south directions,
+ * by which pasted and duplicated features are moved from the original features
+ * when the map zoom level is unknown
+ */
+const PASTE_OFFSET_METERS = 10;
+
+/**
+ * The default value of {@link ControlsModel.resampleDistance}, in metres
+ */
+const DEFAULT_RESAMPLE_DISTANCE = 5;
+
+/**
+ * The values that {@link ControlsModel.stepResampleDistance} chooses between, in metres
+ */
+const RESAMPLE_DISTANCE_STEPS = [
+  0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000,
+];
+
+/**
+ * The default value of {@link ControlsModel.bufferDistance}
+ */
+const DEFAULT_BUFFER_DISTANCE = 10;
+
+/**
+ * The default values of {@link ControlsModel.plotWidth} and {@link ControlsModel.plotHeight},
+ * in metres
+ */
+const DEFAULT_PLOT_SIZE = 10;
+
+/**
+ * The values that {@link ControlsModel.stepBufferDistance} chooses between,
+ * in the units given by {@link ControlsModel.bufferUnits}
+ */
+const BUFFER_DISTANCE_STEPS = [
+  0.1, 0.2, 0.5, 1, 2, 3, 5, 10, 15, 20, 30, 50, 100, 200, 500, 1000,
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleBufferUnits} cycles through units
+ */
+const BUFFER_UNITS: Array<LengthUnits> = [
+  'meters',
+  'feet',
+  'kilometers',
+  'miles',
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleMeasurementUnits} cycles through systems of units
+ */
+const MEASUREMENT_UNITS: Array<MeasurementUnits> = [
+  'metric',
+  'hectares',
+  'imperial',
+  'acres',
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleVertexSelectionMode} cycles through
+ * ways of selecting vertices
+ */
+const VERTEX_SELECTION_MODES: Array<VertexSelectionMode> = [
+  'single',
+  'multiple',
+  'lasso',
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleFeatureSelectionMode} cycles through
+ * ways of selecting features
+ */
+const FEATURE_SELECTION_MODES: Array<FeatureSelectionMode> = [
+  'tap',
+  'box',
+  'lasso',
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleSelectionOperation} cycles through
+ * ways of combining features selected using a box or a lasso with selected features
+ */
+const SELECTION_OPERATIONS: Array<SelectionOperation> = [
+  'replace',
+  'add',
+  'subtract',
+];
+
+/**
+ * The order in which {@link ControlsModel.toggleAngleConstraint} cycles through angle constraints
+ */
+const ANGLE_CONSTRAINTS: Array<AngleConstraint> = ['none', 'right', 'diagonal'];
+
+/**
+ * The order in which {@link ControlsModel.toggleCoordinateFormat} cycles through formats
+ */
+const COORDINATE_FORMATS: Array<CoordinateFormat> = ['decimal', 'dms', 'utm'];
+
+/**
+ * Find the next larger or smaller value in a series of round numbers
+ *
+ * @param value The current value
+ * @param steps The series, in increasing order
+ * @param increase Whether to find a larger (`true`) or smaller (`false`) value
+ * @return The next value, or the current value if there is no such value in the series
+ */
+function stepValue(
+  value: number,
+  steps: Array<number>,
+  increase: boolean
+): number {
+  if (increase) {
+    return steps.find((val) => val > value) ?? value;
+  } else {
+    return [...steps].reverse().find((val) => val < value) ?? value;
+  }
+}
+
 /**
  * State of geometry editing controls and functions
  * for applying control actions
@@ -147,6 +372,115 @@ export class ControlsModel extends Model({
    * Geometry metadata to be saved.
    */
   pendingMetadata: prop<GeoJsonProperties>(() => null).withSetter(),
+  /**
+   * Whether dragging a vertex of a shape also moves the vertices of other shapes
+   * that are at the same position, to preserve shared boundaries between shapes
+   */
+  topologicalEditing: prop<boolean>(false).withSetter(),
+  /**
+   * What to do when the user confirms the creation or modification of invalid geometry
+   */
+  invalidGeometryPolicy: prop<InvalidGeometryPolicy>('allow').withSetter(),
+  /**
+   * The ID of the {@link FeatureModel} that the user has designated as the boundary
+   * to which other polygons are clipped, if any
+   */
+  clipBoundaryID: prop<RnmgeID | null>(null).withSetter(),
+  /**
+   * See {@link ClippingOptions.clipToBoundary}
+   */
+  clipToBoundary: prop<boolean>(false),
+  /**
+   * See {@link ClippingOptions.subtractNeighbours}
+   */
+  subtractNeighbours: prop<boolean>(false),
+  /**
+   * Copies of the features that the user most recently copied or pasted
+   */
+  clipboard: prop<Array<EditableFeature>>(() => []),
+  /**
+   * Whether the next touch on the map will paste the contents of {@link clipboard}
+   * at the location touched
+   */
+  isPastingAtLocation: prop<boolean>(false),
+  /**
+   * Whether new vertices are added before the first vertex (`true`),
+   * or after the last vertex (`false`), of a polyline that is being extended
+   */
+  extendFromStart: prop<boolean>(false).withSetter(),
+  /**
+   * Whether the {@link resample} action simplifies or densifies shapes
+   */
+  resampleMethod: prop<ResampleMethod>('simplify').withSetter(),
+  /**
+   * The simplification tolerance, or the maximum edge length for densification,
+   * used by the {@link resample} action, in metres
+   */
+  resampleDistance: prop<number>(DEFAULT_RESAMPLE_DISTANCE).withSetter(),
+  /**
+   * Whether the {@link buffer} action creates polygons around shapes,
+   * or lines parallel to lines
+   */
+  bufferMethod: prop<BufferMethod>('buffer').withSetter(),
+  /**
+   * The distance used by the {@link buffer} action, in {@link bufferUnits}
+   */
+  bufferDistance: prop<number>(DEFAULT_BUFFER_DISTANCE).withSetter(),
+  /**
+   * The units of {@link bufferDistance}
+   */
+  bufferUnits: prop<LengthUnits>('meters').withSetter(),
+  /**
+   * See {@link PlotGridOptions.width}
+   */
+  plotWidth: prop<number>(DEFAULT_PLOT_SIZE).withSetter(),
+  /**
+   * See {@link PlotGridOptions.height}
+   */
+  plotHeight: prop<number>(DEFAULT_PLOT_SIZE).withSetter(),
+  /**
+   * See {@link PlotGridOptions.rotation}
+   */
+  plotRotation: prop<number>(0).withSetter(),
+  /**
+   * See {@link PlotGridOptions.rowGap}
+   */
+  plotRowGap: prop<number>(0).withSetter(),
+  /**
+   * See {@link PlotGridOptions.columnGap}
+   */
+  plotColumnGap: prop<number>(0).withSetter(),
+  /**
+   * The metadata fields in which the positions of generated plots are stored
+   */
+  plotIndexKeys: prop<PlotIndexKeys>(() => ({})),
+  /**
+   * The system of units in which measurements of shapes are presented to the user
+   */
+  measurementUnits: prop<MeasurementUnits>('metric').withSetter(),
+  /**
+   * The format in which the user views and enters the coordinates of the selected vertex
+   */
+  coordinateFormat: prop<CoordinateFormat>('decimal').withSetter(),
+  /**
+   * Whether the positions of vertices that are drawn or dragged are constrained
+   * (see {@link drawingConstraints})
+   */
+  isConstrainingDrawing: prop<boolean>(false).withSetter(),
+  /**
+   * The angles to which the directions of constrained edges are snapped
+   */
+  angleConstraint: prop<AngleConstraint>('none').withSetter(),
+  /**
+   * The bearing, in degrees clockwise from north, along which constrained vertices
+   * are placed relative to the previous vertex, or `null` if it is not locked
+   */
+  lockedBearing: prop<number | null>(null).withSetter(),
+  /**
+   * The length, in metres, of the next constrained edge, or `null` if it is not fixed.
+   * It is cleared once a vertex has been drawn or dragged.
+   */
+  fixedSegmentLength: prop<number | null>(null).withSetter(),
   /**
    * A lock that prevents touch events from being handled while the user is dragging
    * something on the map. For some reason, a fast drag action on Android sometimes
@@ -166,6 +500,39 @@ export class ControlsModel extends Model({
      */
     index: number;
   } | null>(() => null),
+  /**
+   * The indices of all selected vertices, which belong to the same feature as
+   * {@link selectedVertex}, the most recently selected vertex
+   */
+  selectedVertexIndices: prop<Array<number>>(() => []),
+  /**
+   * How touching or tracing around vertices selects them
+   */
+  vertexSelectionMode: prop<VertexSelectionMode>('single').withSetter(),
+  /**
+   * How touching or tracing around features selects them in
+   * {@link InteractionMode.SelectMultiple} mode
+   */
+  featureSelectionMode: prop<FeatureSelectionMode>('tap').withSetter(),
+  /**
+   * How features selected using a box or a lasso are combined with
+   * features that are already selected
+   */
+  selectionOperation: prop<SelectionOperation>('replace').withSetter(),
+  /**
+   * Information about the vertex that was most recently dragged,
+   * if no vertex has been deselected since (see {@link deselectVertex})
+   */
+  draggedVertex: prop<{
+    /**
+     * The ID of the {@link FeatureModel} to which the vertex belongs
+     */
+    id: RnmgeID;
+    /**
+     * The index of the vertex in the feature
+     */
+    index: number;
+  } | null>(() => null),
 }) {
   /**
    * Retrieve the {@link MetadataInteraction} corresponding to current user interface state
@@ -174,11 +541,24 @@ export class ControlsModel extends Model({
   get metadataInteraction(): MetadataInteraction {
     switch (this.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
       case InteractionMode.EditVertices:
+      case InteractionMode.ExtendLine:
         break;
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
+      case InteractionMode.GeneratePlots:
         return MetadataInteraction.Create;
       case InteractionMode.EditMetadata:
         return MetadataInteraction.Edit;
@@ -210,6 +590,88 @@ export class ControlsModel extends Model({
     return isShapeModificationMode(this.mode);
   }
 
+  /**
+   * Return whether the vertices of a shape are being edited
+   */
+  @computed
+  get hasEditVerticesMode() {
+    return this.mode === InteractionMode.EditVertices;
+  }
+
+  /**
+   * Return whether a polyline is being extended from one of its ends
+   */
+  @computed
+  get hasExtendLineMode() {
+    return this.mode === InteractionMode.ExtendLine;
+  }
+
+  /**
+   * Return whether whole features are being moved, rotated, or scaled
+   */
+  @computed
+  get hasTransformMode() {
+    return this.mode === InteractionMode.TransformShape;
+  }
+
+  /**
+   * Return whether a line string or polygon is being simplified or densified
+   */
+  @computed
+  get hasResampleMode() {
+    return this.mode === InteractionMode.ResampleShape;
+  }
+
+  /**
+   * Return whether new shapes are being created at a distance from existing shapes
+   */
+  @computed
+  get hasBufferMode() {
+    return this.mode === InteractionMode.BufferShape;
+  }
+
+  /**
+   * Return whether a polygon is being divided into a grid of plots
+   */
+  @computed
+  get hasPlotGridMode() {
+    return this.mode === InteractionMode.GeneratePlots;
+  }
+
+  /**
+   * The layout of the grid of plots into which a polygon is being divided
+   */
+  @computed
+  get plotGridOptions(): PlotGridOptions {
+    return {
+      width: this.plotWidth,
+      height: this.plotHeight,
+      rotation: this.plotRotation,
+      rowGap: this.plotRowGap,
+      columnGap: this.plotColumnGap,
+    };
+  }
+
+  /**
+   * The key of the metadata field that stores the row indices of generated plots,
+   * or `null` if the row indices are not stored (see {@link PlotIndexKeys.row})
+   */
+  @computed
+  get plotRowKey(): string | null {
+    const { row } = this.plotIndexKeys;
+    return row === undefined ? 'row' : row;
+  }
+
+  /**
+   * The key of the metadata field that stores the column indices of generated plots,
+   * or `null` if the column indices are not stored (see {@link PlotIndexKeys.column})
+   */
+  @computed
+  get plotColumnKey(): string | null {
+    const { column } = this.plotIndexKeys;
+    return column === undefined ? 'column' : column;
+  }
+
   /**
    * Return whether there is a selected vertex
    */
@@ -218,6 +680,93 @@ export class ControlsModel extends Model({
     return !!this.selectedVertex;
   }
 
+  /**
+   * Whether the vertex is selected
+   *
+   * @param id Feature ID
+   * @param index The index of the vertex in the feature
+   */
+  isVertexSelected(id: RnmgeID, index: number): boolean {
+    return (
+      this.selectedVertex?.id === id &&
+      this.selectedVertexIndices.includes(index)
+    );
+  }
+
+  /**
+   * Whether traced strokes are captured instead of the map being panned or zoomed,
+   * to draw a freehand polyline, or to select vertices with a lasso,
+   * or to select features with a box or a lasso
+   */
+  @computed
+  get isCapturingStrokes(): boolean {
+    switch (this.mode) {
+      case InteractionMode.DrawFreehand:
+        return true;
+      case InteractionMode.EditVertices:
+        return this.vertexSelectionMode === 'lasso';
+      case InteractionMode.SelectMultiple:
+        return this.featureSelectionMode !== 'tap';
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Retrieve the position of the selected vertex, or `undefined` if no vertex is selected,
+   * or if the selected vertex is a handle of a shape that is edited using handles
+   */
+  @computed
+  get selectedVertexPosition(): Position | undefined {
+    if (!this.selectedVertex) {
+      return undefined;
+    }
+    const { id, index } = this.selectedVertex;
+    return featureListContext.get(this)?.findFeature(id)?.vertexPosition(index);
+  }
+
+  /**
+   * Retrieve the constraints on the positions of vertices that are drawn or dragged,
+   * or `null` if drawing is not constrained in the current editing mode,
+   * or if no constraints are set
+   */
+  @computed
+  get drawingConstraints(): DrawingConstraints | null {
+    if (!this.isConstrainingDrawing || !this.canConstrainDrawing) {
+      return null;
+    }
+    const constraints = {
+      angle: this.angleConstraint,
+      bearing: this.lockedBearing,
+      length: this.fixedSegmentLength,
+    };
+    return hasConstraints(constraints) ? constraints : null;
+  }
+
+  /**
+   * Whether the positions of vertices can be constrained in the current editing mode
+   */
+  @computed
+  get canConstrainDrawing(): boolean {
+    switch (this.mode) {
+      case InteractionMode.DrawPolygon:
+      case InteractionMode.DrawPolyline:
+      case InteractionMode.EditVertices:
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Retrieve the vertex at the end of the edge whose length is measured:
+   * the selected vertex, or otherwise the vertex that was most recently dragged
+   */
+  @computed
+  get measuredVertex() {
+    return this.selectedVertex ?? this.draggedVertex;
+  }
+
   /**
    * Return whether the {@link delete} action can be performed
    */
@@ -226,7 +775,12 @@ export class ControlsModel extends Model({
     const features = featureListContext.get(this);
     switch (this.mode) {
       case InteractionMode.EditVertices:
-        return this.hasSelectedVertex && features?.canRemoveVertex;
+        return (
+          this.hasSelectedVertex &&
+          this.selectedVertexIndices.some((index) =>
+            features?.canRemoveVertexAt(index)
+          )
+        );
       case InteractionMode.SelectMultiple:
       case InteractionMode.SelectSingle: {
         let count = features?.selectedFeaturesCount;
@@ -237,9 +791,22 @@ export class ControlsModel extends Model({
         }
       }
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
+      case InteractionMode.ExtendLine:
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
       case InteractionMode.EditMetadata:
         return false;
     }
@@ -259,10 +826,23 @@ export class ControlsModel extends Model({
         case InteractionMode.SelectSingle:
           return features.canUndo;
         case InteractionMode.EditVertices:
+        case InteractionMode.ExtendLine:
         case InteractionMode.DragPoint:
+        case InteractionMode.DrawHole:
+        case InteractionMode.DrawPart:
+        case InteractionMode.RemovePart:
+        case InteractionMode.SplitShape:
+        case InteractionMode.TransformShape:
+        case InteractionMode.ResampleShape:
+        case InteractionMode.BufferShape:
+        case InteractionMode.GeneratePlots:
         case InteractionMode.DrawPoint:
+        case InteractionMode.DrawCircle:
+        case InteractionMode.DrawRectangle:
         case InteractionMode.DrawPolygon:
         case InteractionMode.DrawPolyline:
+        case InteractionMode.DrawFreehand:
+        case InteractionMode.RecordTrack:
         case InteractionMode.EditMetadata:
           return true;
       }
@@ -325,15 +905,32 @@ export class ControlsModel extends Model({
     // Execute cleanup actions specific to individual outgoing editing modes
     switch (this.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
       case InteractionMode.EditVertices:
+      case InteractionMode.ExtendLine:
+        if (this.mode === InteractionMode.SplitShape) {
+          // Discard any cut line that was not used
+          features?.discardCutLine();
+        }
         // Select the features that were being edited
         if (isSelectionMode(mode)) {
           features?.editableToSelected(selectionModeToSelectionStage(mode));
         }
         break;
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
         break;
       case InteractionMode.EditMetadata:
         features?.draftMetadataToSelected();
@@ -381,6 +978,10 @@ export class ControlsModel extends Model({
 
     this.deselectVertex();
 
+    trackingContext.get(this)?.pause();
+
+    this.isPastingAtLocation = false;
+
     this.draggingLock.unlockNow();
 
     // Change the editing mode
@@ -393,13 +994,45 @@ export class ControlsModel extends Model({
         case InteractionMode.DragPoint:
           features?.selectedPointsToEditable();
           break;
+        case InteractionMode.DrawHole:
+          features?.selectedPolygonToEditable();
+          break;
+        case InteractionMode.DrawPart:
+        case InteractionMode.RemovePart:
+          features?.selectedMultiFeatureToEditable();
+          break;
         case InteractionMode.DrawPoint:
+        case InteractionMode.DrawCircle:
+        case InteractionMode.DrawRectangle:
         case InteractionMode.DrawPolygon:
         case InteractionMode.DrawPolyline:
+        case InteractionMode.DrawFreehand:
+        case InteractionMode.RecordTrack:
           break;
         case InteractionMode.EditVertices:
+        case InteractionMode.SplitShape:
+          features?.selectedComplexShapeToEditable();
+          break;
+        case InteractionMode.ExtendLine:
+          features?.selectedLineStringToEditable();
+          this.extendFromStart = false;
+          break;
+        case InteractionMode.TransformShape:
+          features?.selectedToEditable();
+          break;
+        case InteractionMode.ResampleShape:
           features?.selectedComplexShapeToEditable();
           break;
+        case InteractionMode.BufferShape:
+          features?.selectedToEditable();
+          // Lines cannot be offset from other types of shapes
+          if (!features?.canOffsetEditableFeatures) {
+            this.bufferMethod = 'buffer';
+          }
+          break;
+        case InteractionMode.GeneratePlots:
+          features?.selectedAreaToEditable();
+          break;
         case InteractionMode.EditMetadata:
           features?.selectedToEditMetadata();
           break;
@@ -436,11 +1069,25 @@ export class ControlsModel extends Model({
           id,
           index,
         };
+        this.selectedVertexIndices = [index];
         break;
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
+      case InteractionMode.ExtendLine:
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
       case InteractionMode.EditMetadata:
       case InteractionMode.SelectMultiple:
       case InteractionMode.SelectSingle:
@@ -454,12 +1101,219 @@ export class ControlsModel extends Model({
   @modelAction
   deselectVertex() {
     this.selectedVertex = null;
+    this.selectedVertexIndices = [];
+    this.draggedVertex = null;
   }
 
   /**
-   * Save a copy of `pendingMetadata` to the {@link FeatureListModel}
-   * and clear both `pendingMetadata` and `isDirty`.
-   */
+   * Add vertices to the selected vertices, or select only the vertices
+   * if the selected vertices belong to a different feature.
+   * The last vertex becomes the most recently selected vertex ({@link selectedVertex}).
+   *
+   * @param id Feature ID
+   * @param indices The indices of the vertices in the feature
+   */
+  @modelAction
+  addSelectedVertices(id: RnmgeID, indices: Array<number>) {
+    if (this.mode !== InteractionMode.EditVertices) {
+      console.warn(
+        `Vertices cannot be selected in the current editing mode, ${this.mode}.`
+      );
+      return;
+    }
+    if (indices.length === 0) {
+      return;
+    }
+    const previous =
+      this.selectedVertex?.id === id ? this.selectedVertexIndices : [];
+    this.selectedVertex = { id, index: indices[indices.length - 1] };
+    this.selectedVertexIndices = uniq([...previous, ...indices]);
+  }
+
+  /**
+   * Switch to the next way of selecting vertices
+   */
+  @modelAction
+  toggleVertexSelectionMode() {
+    this.vertexSelectionMode =
+      VERTEX_SELECTION_MODES[
+        (VERTEX_SELECTION_MODES.indexOf(this.vertexSelectionMode) + 1) %
+          VERTEX_SELECTION_MODES.length
+      ];
+  }
+
+  /**
+   * Select the vertices of the shape being edited that are enclosed by a lasso,
+   * in addition to any vertices that are already selected.
+   * A lasso that is too short to enclose an area deselects all vertices instead.
+   *
+   * @param lasso The positions along the lasso, which is closed automatically
+   */
+  @modelAction
+  selectVerticesInLasso(lasso: Array<Position>) {
+    if (this.mode !== InteractionMode.EditVertices) {
+      console.warn(
+        `Vertices cannot be selected in the current editing mode, ${this.mode}.`
+      );
+      return;
+    }
+    if (lasso.length < 3) {
+      this.deselectVertex();
+      return;
+    }
+    const result = featureListContext.get(this)?.verticesInLasso(lasso);
+    if (result) {
+      this.addSelectedVertices(result.id, result.indices);
+    } else {
+      console.warn('There is no feature whose vertices are being edited.');
+    }
+  }
+
+  /**
+   * Switch to the next way of selecting features
+   */
+  @modelAction
+  toggleFeatureSelectionMode() {
+    this.featureSelectionMode =
+      FEATURE_SELECTION_MODES[
+        (FEATURE_SELECTION_MODES.indexOf(this.featureSelectionMode) + 1) %
+          FEATURE_SELECTION_MODES.length
+      ];
+  }
+
+  /**
+   * Switch to the next way of combining features selected using a box or a lasso
+   * with features that are already selected
+   */
+  @modelAction
+  toggleSelectionOperation() {
+    this.selectionOperation =
+      SELECTION_OPERATIONS[
+        (SELECTION_OPERATIONS.indexOf(this.selectionOperation) + 1) %
+          SELECTION_OPERATIONS.length
+      ];
+  }
+
+  /**
+   * Select or deselect the features that intersect a box or a lasso,
+   * depending on {@link selectionOperation}
+   *
+   * @param lasso The positions along the lasso, or the corners of the box,
+   *              which are joined into a loop automatically
+   */
+  @modelAction
+  selectFeaturesInLasso(lasso: Array<Position>) {
+    if (this.mode !== InteractionMode.SelectMultiple) {
+      console.warn(
+        `Features cannot be selected using a lasso in the current editing mode, ${this.mode}.`
+      );
+      return;
+    }
+    featureListContext
+      .get(this)
+      ?.selectFeaturesInLasso(lasso, this.selectionOperation);
+  }
+
+  /**
+   * Enter {@link InteractionMode.SelectMultiple} mode from the default
+   * selection mode, if it is not the current mode
+   *
+   * @return Whether the current editing mode is {@link InteractionMode.SelectMultiple}
+   */
+  @modelAction
+  private enterMultipleSelection(): boolean {
+    if (this.mode === InteractionMode.SelectSingle && !this.isPageOpen) {
+      this.toggleMode(InteractionMode.SelectMultiple);
+    }
+    if (this.mode !== InteractionMode.SelectMultiple) {
+      console.warn(
+        `Features cannot be selected in the current editing mode, ${this.mode}.`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Select or deselect the features that match a predicate, entering
+   * {@link InteractionMode.SelectMultiple} mode if necessary,
+   * and close the feature query page, if it is open
+   *
+   * @param predicate A function that decides which features match
+   * @param operation How the features that match are combined with
+   *                  the features that are already selected
+   * @return Whether features could be selected in the current editing mode
+   */
+  @modelAction
+  selectFeatures(
+    predicate: FeaturePredicate,
+    operation: SelectionOperation = 'replace'
+  ): boolean {
+    if (!this.enterMultipleSelection()) {
+      return false;
+    }
+    featureListContext.get(this)?.selectWhere(predicate, operation);
+    // Return to the map to show the selected features
+    this.isPageOpen = false;
+    return true;
+  }
+
+  /**
+   * Select all features, entering {@link InteractionMode.SelectMultiple} mode if necessary
+   *
+   * @return Whether features could be selected in the current editing mode
+   */
+  @modelAction
+  selectAll(): boolean {
+    return this.selectFeatures(() => true);
+  }
+
+  /**
+   * Select the features that are not selected, and deselect the features that are
+   * selected, entering {@link InteractionMode.SelectMultiple} mode if necessary,
+   * and close the feature query page, if it is open
+   *
+   * @return Whether features could be selected in the current editing mode
+   */
+  @modelAction
+  invertSelection(): boolean {
+    if (!this.enterMultipleSelection()) {
+      return false;
+    }
+    featureListContext.get(this)?.invertSelection();
+    this.isPageOpen = false;
+    return true;
+  }
+
+  /**
+   * Respond to a stroke traced by the user while strokes are being captured
+   * (see {@link isCapturingStrokes})
+   *
+   * @param positions The positions along the stroke
+   */
+  @modelAction
+  handleStroke(positions: Array<Position>) {
+    switch (this.mode) {
+      case InteractionMode.DrawFreehand:
+        this.addFreehandStroke(positions);
+        break;
+      case InteractionMode.EditVertices:
+        this.selectVerticesInLasso(positions);
+        break;
+      case InteractionMode.SelectMultiple:
+        this.selectFeaturesInLasso(positions);
+        break;
+      default:
+        console.warn(
+          `Traced strokes are not used in the current editing mode, ${this.mode}.`
+        );
+    }
+  }
+
+  /**
+   * Save a copy of `pendingMetadata` to the {@link FeatureListModel}
+   * and clear both `pendingMetadata` and `isDirty`.
+   */
   @modelAction
   private saveMetadata() {
     if (this.pendingMetadata) {
@@ -485,6 +1339,44 @@ export class ControlsModel extends Model({
     this.isDirty = false;
   }
 
+  /**
+   * Open a confirmation dialog if the geometry being created or edited is invalid,
+   * depending on {@link invalidGeometryPolicy}
+   *
+   * @param warning The question to ask if the user is allowed to save invalid geometry
+   * @param warningReason The reason for the confirmation dialog that asks `warning`
+   * @return Whether a confirmation dialog was opened, in which case the operation
+   *         being confirmed should not proceed yet
+   */
+  private confirmInvalidGeometry(
+    warning: string,
+    warningReason: ConfirmationReason
+  ): boolean {
+    const problems = featureListContext.get(this)?.hotFeatureProblems ?? [];
+    if (problems.length === 0) {
+      return false;
+    }
+    const description = describeGeometryProblems(problems);
+    switch (this.invalidGeometryPolicy) {
+      case 'allow':
+        return false;
+      case 'warn':
+        this.confirmation = new ConfirmationModel({
+          title: INVALID_GEOMETRY_TITLE,
+          message: `${description} ${warning}`,
+          reason: warningReason,
+        });
+        return true;
+      case 'block':
+        this.confirmation = new ConfirmationModel({
+          title: INVALID_GEOMETRY_TITLE,
+          message: `${description} Please correct the shape before saving it.`,
+          reason: ConfirmationReason.InvalidGeometry,
+        });
+        return true;
+    }
+  }
+
   /**
    * Confirm the current commit or cancel operation
    * This function is also used as a "Done" button callback
@@ -508,6 +1400,11 @@ export class ControlsModel extends Model({
 
     if (this.confirmation) {
       // This is a state change to a confirmation dialog
+      if (this.confirmation.reason === ConfirmationReason.InvalidGeometry) {
+        // The user has acknowledged that the geometry needs to be corrected
+        this.confirmation = null;
+        return;
+      }
       switch (this.mode) {
         case InteractionMode.DrawPoint:
           // Discard the new point and close the metadata creation page
@@ -515,12 +1412,22 @@ export class ControlsModel extends Model({
           this.clearMetadata();
           this.isPageOpen = false;
           break;
+        case InteractionMode.DrawCircle:
+        case InteractionMode.DrawRectangle:
         case InteractionMode.DrawPolygon:
         case InteractionMode.DrawPolyline:
+        case InteractionMode.DrawFreehand:
+        case InteractionMode.RecordTrack:
           if (this.isPageOpen) {
             console.warn(
               `A confirmation dialog should not be open when a page is open in editing mode ${this.mode}.`
             );
+          } else if (
+            this.confirmation.reason === ConfirmationReason.SaveInvalidGeometry
+          ) {
+            // User is choosing to save invalid geometry, and is ready to enter metadata
+            this.confirmation = null;
+            this.openPage();
           } else {
             // User is confirming a cancel dialog while drawing the shape
             features?.rollbackEditingSession();
@@ -533,6 +1440,7 @@ export class ControlsModel extends Model({
         case InteractionMode.EditMetadata:
           switch (this.confirmation.reason) {
             case ConfirmationReason.Basic:
+            case ConfirmationReason.SaveInvalidGeometry:
               console.warn(
                 `Unexpected confirmation reason, ${this.confirmation.reason}, for editing mode ${this.mode}.`
               );
@@ -547,11 +1455,21 @@ export class ControlsModel extends Model({
           this.setDefaultMode();
           break;
         case InteractionMode.DragPoint:
+        case InteractionMode.DrawHole:
+        case InteractionMode.DrawPart:
+        case InteractionMode.RemovePart:
+        case InteractionMode.SplitShape:
+        case InteractionMode.TransformShape:
+        case InteractionMode.ResampleShape:
+        case InteractionMode.BufferShape:
+        case InteractionMode.GeneratePlots:
         case InteractionMode.EditVertices:
+        case InteractionMode.ExtendLine:
         case InteractionMode.SelectMultiple:
         case InteractionMode.SelectSingle:
           switch (this.confirmation.reason) {
             case ConfirmationReason.Basic:
+            case ConfirmationReason.SaveInvalidGeometry:
               console.warn(
                 `Unexpected confirmation reason, ${this.confirmation.reason}, for editing mode ${this.mode}.`
               );
@@ -581,8 +1499,12 @@ export class ControlsModel extends Model({
           features?.confirmNewFeatures();
           this.isPageOpen = false;
           break;
+        case InteractionMode.DrawCircle:
+        case InteractionMode.DrawRectangle:
         case InteractionMode.DrawPolygon:
         case InteractionMode.DrawPolyline:
+        case InteractionMode.DrawFreehand:
+        case InteractionMode.RecordTrack:
           if (this.isPageOpen) {
             // User has finished entering metadata
             this.saveMetadata();
@@ -592,11 +1514,29 @@ export class ControlsModel extends Model({
             this.isPageOpen = false;
             // The user can only draw one shape before returning to view mode
             this.setDefaultMode();
-          } else {
+          } else if (
+            !this.confirmInvalidGeometry(
+              'Do you wish to save it anyway?',
+              ConfirmationReason.SaveInvalidGeometry
+            )
+          ) {
             // User is ready to enter metadata
             this.openPage(); // Open the metadata creation page
           }
           break;
+        case InteractionMode.GeneratePlots:
+          if (this.isPageOpen) {
+            // User has finished entering metadata
+            features?.generatePlots(toJS(this.pendingMetadata));
+            this.clearMetadata();
+            features?.clearHistory();
+            this.isPageOpen = false;
+            this.exitShapeModificationMode();
+          } else {
+            // User is ready to enter metadata
+            this.openPage();
+          }
+          break;
         case InteractionMode.EditMetadata:
           if (!force && this.isDirty) {
             this.confirmation = new ConfirmationModel({
@@ -608,20 +1548,49 @@ export class ControlsModel extends Model({
           }
           break;
         case InteractionMode.DragPoint:
+        case InteractionMode.DrawHole:
+        case InteractionMode.DrawPart:
+        case InteractionMode.RemovePart:
+        case InteractionMode.SplitShape:
+        case InteractionMode.TransformShape:
+        case InteractionMode.ResampleShape:
+        case InteractionMode.BufferShape:
         case InteractionMode.EditVertices:
+        case InteractionMode.ExtendLine:
+          if (
+            this.mode === InteractionMode.DrawHole &&
+            features?.canCloseHole
+          ) {
+            // Save any hole that the user has not explicitly closed
+            features.closeHole();
+          } else if (
+            this.mode === InteractionMode.DrawPart &&
+            features?.canClosePart
+          ) {
+            // Save any part that the user has not explicitly closed
+            features.closePart();
+          }
           if (features?.canUndoOrRedo) {
-            this.confirmation = new ConfirmationModel({
-              message:
-                'Do you wish to save changes and clear the editing history?',
-              reason: ConfirmationReason.Commit,
-            });
+            if (
+              !this.confirmInvalidGeometry(
+                'Do you wish to save changes anyway and clear the editing history?',
+                ConfirmationReason.Commit
+              )
+            ) {
+              this.confirmation = new ConfirmationModel({
+                message:
+                  'Do you wish to save changes and clear the editing history?',
+                reason: ConfirmationReason.Commit,
+              });
+            }
           } else {
             console.warn(`There are no actions to confirm.`);
           }
           break;
         case InteractionMode.SelectMultiple:
         case InteractionMode.SelectSingle:
-          if (this.mode === InteractionMode.SelectSingle && this.isPageOpen) {
+          if (this.isPageOpen) {
+            // Close the metadata details view or the feature query page
             this.isPageOpen = false;
           } else if (features?.canUndo) {
             this.confirmation = new ConfirmationModel({
@@ -662,22 +1631,41 @@ export class ControlsModel extends Model({
             message: 'Discard this point and its details?',
           });
           break;
+        case InteractionMode.DrawCircle:
+        case InteractionMode.DrawRectangle:
         case InteractionMode.DrawPolygon:
         case InteractionMode.DrawPolyline:
+        case InteractionMode.DrawFreehand:
+        case InteractionMode.RecordTrack:
           if (this.isPageOpen) {
             // User goes back to drawing from metadata entry
             this.isPageOpen = false;
           } else {
             // User is cancelling the entire drawing operation and metadata entry
             if (features?.canUndo) {
-              if (this.mode === InteractionMode.DrawPolygon) {
+              if (this.mode === InteractionMode.DrawCircle) {
+                this.confirmation = new ConfirmationModel({
+                  message: 'Discard this circle?',
+                });
+              } else if (this.mode === InteractionMode.DrawPolygon) {
                 this.confirmation = new ConfirmationModel({
                   message: 'Discard this polygon?',
                 });
-              } else if (this.mode === InteractionMode.DrawPolyline) {
+              } else if (this.mode === InteractionMode.DrawRectangle) {
+                this.confirmation = new ConfirmationModel({
+                  message: 'Discard this rectangle?',
+                });
+              } else if (
+                this.mode === InteractionMode.DrawPolyline ||
+                this.mode === InteractionMode.DrawFreehand
+              ) {
                 this.confirmation = new ConfirmationModel({
                   message: 'Discard this polyline?',
                 });
+              } else if (this.mode === InteractionMode.RecordTrack) {
+                this.confirmation = new ConfirmationModel({
+                  message: 'Discard this track?',
+                });
               } else {
                 throw new Error(
                   `There is no branch for the current editing mode, ${this.mode}, for customizing the confirmation dialog.`
@@ -702,8 +1690,26 @@ export class ControlsModel extends Model({
             this.setDefaultMode();
           }
           break;
+        case InteractionMode.GeneratePlots:
+          if (this.isPageOpen) {
+            // User goes back to adjusting the grid from metadata entry
+            this.clearMetadata();
+            this.isPageOpen = false;
+          } else {
+            // Nothing has been created
+            this.exitShapeModificationMode();
+          }
+          break;
         case InteractionMode.DragPoint:
+        case InteractionMode.DrawHole:
+        case InteractionMode.DrawPart:
+        case InteractionMode.RemovePart:
+        case InteractionMode.SplitShape:
+        case InteractionMode.TransformShape:
+        case InteractionMode.ResampleShape:
+        case InteractionMode.BufferShape:
         case InteractionMode.EditVertices:
+        case InteractionMode.ExtendLine:
           if (features?.canUndo) {
             this.confirmation = new ConfirmationModel({
               message: 'Discard all changes and clear the editing history?',
@@ -721,7 +1727,8 @@ export class ControlsModel extends Model({
           break;
         case InteractionMode.SelectMultiple:
         case InteractionMode.SelectSingle:
-          if (this.mode === InteractionMode.SelectSingle && this.isPageOpen) {
+          if (this.isPageOpen) {
+            // Close the metadata details view or the feature query page
             this.isPageOpen = false;
           } else if (features?.canUndo) {
             this.confirmation = new ConfirmationModel({
@@ -742,21 +1749,385 @@ export class ControlsModel extends Model({
   }
 
   /**
-   * Move from a shape modification mode back to a selection mode
+   * Move from a shape modification mode back to a selection mode
+   */
+  @modelAction
+  private exitShapeModificationMode() {
+    if (this.hasShapeModificationMode) {
+      if (!isSelectionMode(this.prevMode)) {
+        console.warn(
+          `Mode ${this.mode} did not follow a selection mode, but followed ${this.prevMode}.`
+        );
+        this.toggleMode(InteractionMode.SelectMultiple);
+      } else {
+        this.toggleMode(this.prevMode);
+      }
+    } else {
+      console.warn(`Unexpected mode ${this.mode}.`);
+    }
+  }
+
+  /**
+   * Whether the {@link copy} action can be performed
+   */
+  @computed
+  get canCopy(): boolean {
+    return (
+      this.hasSelectionMode &&
+      !!featureListContext.get(this)?.selectedFeaturesCount
+    );
+  }
+
+  /**
+   * Whether the {@link paste} action can be performed
+   */
+  @computed
+  get canPaste(): boolean {
+    return (
+      this.mode === InteractionMode.SelectMultiple && this.clipboard.length > 0
+    );
+  }
+
+  /**
+   * Whether the {@link duplicate} action can be performed
+   */
+  @computed
+  get canDuplicate(): boolean {
+    return this.mode === InteractionMode.SelectMultiple && this.canCopy;
+  }
+
+  /**
+   * Copy the selected features to {@link clipboard}
+   */
+  @modelAction
+  copy() {
+    const features = featureListContext.get(this);
+    if (features && this.canCopy) {
+      this.clipboard = cloneDeep(features.selectedGeoJSON);
+    } else {
+      console.warn(`There are no selected features to copy.`);
+    }
+  }
+
+  /**
+   * Compute the change in longitude and latitude by which to move copies of features
+   * so that they appear next to the original features
+   * @param features The features to be copied
+   */
+  private pasteOffset(features: Array<EditableFeature>): Position {
+    const latitude = featuresCenter(features)[1];
+    const zoomLevel = snappingContext.get(this)?.zoomLevel;
+    let distance = PASTE_OFFSET_METERS;
+    if (typeof zoomLevel === 'number') {
+      distance = PASTE_OFFSET_PIXELS * metersPerPixel(latitude, zoomLevel);
+    }
+    return southEastOffset(distance, latitude);
+  }
+
+  /**
+   * Add copies of the features in {@link clipboard} to the map, and select them.
+   * The copies replace the contents of the clipboard, so that pasting repeatedly
+   * creates a series of copies.
+   *
+   * @param position The location at which to centre the copies. If not provided,
+   *                 the copies will be placed next to the features that were copied.
+   */
+  @modelAction
+  paste(position?: Position) {
+    this.isPastingAtLocation = false;
+    const features = featureListContext.get(this);
+    if (!features || !this.canPaste) {
+      console.warn(`There are no features to paste.`);
+      return;
+    }
+    const clipboard = toJS(this.clipboard);
+    let delta: Position;
+    if (position) {
+      const center = featuresCenter(clipboard);
+      delta = [position[0] - center[0], position[1] - center[1]];
+    } else {
+      delta = this.pasteOffset(clipboard);
+    }
+    const copies = translateFeatures(clipboard, delta);
+    features.pasteFeatures(cloneDeep(copies));
+    this.clipboard = copies;
+  }
+
+  /**
+   * Toggle whether the next touch on the map will paste the contents of {@link clipboard}
+   * at the location touched
+   */
+  @modelAction
+  togglePastingAtLocation() {
+    if (this.isPastingAtLocation) {
+      this.isPastingAtLocation = false;
+    } else if (this.canPaste) {
+      this.isPastingAtLocation = true;
+    } else {
+      console.warn(`There are no features to paste.`);
+    }
+  }
+
+  /**
+   * Add copies of the selected features next to them, and select the copies.
+   * The contents of {@link clipboard} are not affected.
+   */
+  @modelAction
+  duplicate() {
+    const features = featureListContext.get(this);
+    if (!features || !this.canDuplicate) {
+      console.warn(`There are no selected features to duplicate.`);
+      return;
+    }
+    const selected = features.selectedGeoJSON;
+    features.pasteFeatures(
+      translateFeatures(selected, this.pasteOffset(selected))
+    );
+  }
+
+  /**
+   * Merge the selected polygons into a single feature
+   * @param mergeMetadata A function that decides the metadata of the merged feature.
+   *                      See {@link FeatureListModel.mergeSelected}
+   */
+  @modelAction
+  merge(mergeMetadata?: MergeMetadataCb) {
+    if (this.mode === InteractionMode.SelectMultiple) {
+      featureListContext.get(this)?.mergeSelected(mergeMetadata);
+    } else {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a merge action.`
+      );
+    }
+  }
+
+  /**
+   * Convert the selected features into a feature of a different geometry type
+   * @param conversion The conversion to apply
+   * @param mergeMetadata A function that decides the metadata of a feature created
+   *                      from multiple features. See {@link FeatureListModel.convertSelected}
+   */
+  @modelAction
+  convert(conversion: GeometryConversion, mergeMetadata?: MergeMetadataCb) {
+    if (this.mode === InteractionMode.SelectMultiple) {
+      featureListContext.get(this)?.convertSelected(conversion, mergeMetadata);
+    } else {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a convert action.`
+      );
+    }
+  }
+
+  /**
+   * Update the settings for clipping new polygons when they are saved
+   * @param options New clipping settings, or `undefined` to disable clipping
+   */
+  @modelAction
+  setClipping(options?: ClippingOptions) {
+    this.clipToBoundary = options?.clipToBoundary ?? false;
+    this.subtractNeighbours = options?.subtractNeighbours ?? false;
+  }
+
+  /**
+   * Update the metadata fields in which the positions of generated plots are stored
+   * @param keys New metadata field keys, or `undefined` to use the default keys
+   */
+  @modelAction
+  setPlotIndexKeys(keys?: PlotIndexKeys) {
+    this.plotIndexKeys = { ...keys };
+  }
+
+  /**
+   * Whether the single selected feature is a polygon that can be designated
+   * as the clipping boundary, or is the clipping boundary
+   */
+  @computed
+  get canToggleClipBoundary(): boolean {
+    return (
+      this.mode === InteractionMode.SelectMultiple &&
+      !!featureListContext.get(this)?.oneSelectedAreaID
+    );
+  }
+
+  /**
+   * Whether the single selected feature is the clipping boundary
+   */
+  @computed
+  get isClipBoundarySelected(): boolean {
+    return (
+      this.canToggleClipBoundary &&
+      featureListContext.get(this)!.oneSelectedAreaID === this.clipBoundaryID
+    );
+  }
+
+  /**
+   * Designate the single selected polygon as the boundary to which other polygons
+   * are clipped, or stop using it as the boundary if it is already the boundary
+   */
+  @modelAction
+  toggleClipBoundary() {
+    if (!this.canToggleClipBoundary) {
+      console.warn(
+        'Only a single selected polygon can be designated as the clipping boundary.'
+      );
+      return;
+    }
+    if (this.isClipBoundarySelected) {
+      this.clipBoundaryID = null;
+    } else {
+      this.clipBoundaryID = featureListContext.get(this)!.oneSelectedAreaID;
+    }
+  }
+
+  /**
+   * Clip the selected polygons to the clipping boundary and remove
+   * the parts of them that overlap other polygons
+   */
+  @modelAction
+  clip() {
+    if (this.mode === InteractionMode.SelectMultiple) {
+      featureListContext.get(this)?.clipSelected();
+    } else {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a clip action.`
+      );
+    }
+  }
+
+  /**
+   * Split the shapes being edited along the cut line
+   */
+  @modelAction
+  split() {
+    if (this.mode === InteractionMode.SplitShape) {
+      featureListContext.get(this)?.splitEditableFeatures();
+    } else {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a split action.`
+      );
+    }
+  }
+
+  /**
+   * Switch between extending a polyline from its first vertex and from its last vertex
+   */
+  @modelAction
+  toggleExtendFromStart() {
+    this.extendFromStart = !this.extendFromStart;
+  }
+
+  /**
+   * Switch between simplifying and densifying shapes
+   */
+  @modelAction
+  toggleResampleMethod() {
+    this.resampleMethod =
+      this.resampleMethod === 'simplify' ? 'densify' : 'simplify';
+  }
+
+  /**
+   * Change {@link resampleDistance} to the next larger or smaller value
+   * in a series of round numbers
+   *
+   * @param increase Whether to increase (`true`) or decrease (`false`) the distance
+   */
+  @modelAction
+  stepResampleDistance(increase: boolean) {
+    this.resampleDistance = stepValue(
+      this.resampleDistance,
+      RESAMPLE_DISTANCE_STEPS,
+      increase
+    );
+  }
+
+  /**
+   * Simplify or densify the shape being edited, depending on {@link resampleMethod}
+   * and {@link resampleDistance}
+   */
+  @modelAction
+  resample() {
+    if (this.mode === InteractionMode.ResampleShape) {
+      featureListContext.get(this)?.resampleEditableFeature();
+    } else {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a resample action.`
+      );
+    }
+  }
+
+  /**
+   * Switch to the next way of creating shapes at a distance from the shapes being edited.
+   * Lines can only be offset if all of the shapes being edited are lines.
+   */
+  @modelAction
+  toggleBufferMethod() {
+    if (!featureListContext.get(this)?.canOffsetEditableFeatures) {
+      this.bufferMethod = 'buffer';
+      return;
+    }
+    switch (this.bufferMethod) {
+      case 'buffer':
+        this.bufferMethod = 'offsetLeft';
+        break;
+      case 'offsetLeft':
+        this.bufferMethod = 'offsetRight';
+        break;
+      case 'offsetRight':
+        this.bufferMethod = 'buffer';
+        break;
+    }
+  }
+
+  /**
+   * Change {@link bufferDistance} to the next larger or smaller value
+   * in a series of round numbers
+   *
+   * @param increase Whether to increase (`true`) or decrease (`false`) the distance
+   */
+  @modelAction
+  stepBufferDistance(increase: boolean) {
+    this.bufferDistance = stepValue(
+      this.bufferDistance,
+      BUFFER_DISTANCE_STEPS,
+      increase
+    );
+  }
+
+  /**
+   * Switch to the next units of {@link bufferDistance}, without changing its numerical value
+   */
+  @modelAction
+  toggleBufferUnits() {
+    this.bufferUnits =
+      BUFFER_UNITS[
+        (BUFFER_UNITS.indexOf(this.bufferUnits) + 1) % BUFFER_UNITS.length
+      ];
+  }
+
+  /**
+   * Switch to the next system of units in which measurements of shapes are presented
+   */
+  @modelAction
+  toggleMeasurementUnits() {
+    this.measurementUnits =
+      MEASUREMENT_UNITS[
+        (MEASUREMENT_UNITS.indexOf(this.measurementUnits) + 1) %
+          MEASUREMENT_UNITS.length
+      ];
+  }
+
+  /**
+   * Create new shapes at a distance from the shapes being edited,
+   * depending on {@link bufferMethod}, {@link bufferDistance}, and {@link bufferUnits}
    */
   @modelAction
-  private exitShapeModificationMode() {
-    if (this.hasShapeModificationMode) {
-      if (!isSelectionMode(this.prevMode)) {
-        console.warn(
-          `Mode ${this.mode} did not follow a selection mode, but followed ${this.prevMode}.`
-        );
-        this.toggleMode(InteractionMode.SelectMultiple);
-      } else {
-        this.toggleMode(this.prevMode);
-      }
+  buffer() {
+    if (this.mode === InteractionMode.BufferShape) {
+      featureListContext.get(this)?.bufferEditableFeatures();
     } else {
-      console.warn(`Unexpected mode ${this.mode}.`);
+      console.warn(
+        `The current editing mode, ${this.mode}, does not have a buffer action.`
+      );
     }
   }
 
@@ -796,15 +2167,35 @@ export class ControlsModel extends Model({
 
     switch (this.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
       case InteractionMode.EditVertices:
+      case InteractionMode.ExtendLine:
         console.warn(`The current editing mode, ${this.mode}, has no pages.`);
         break;
+      case InteractionMode.GeneratePlots:
+        // Open the metadata creation page for the plots
+        if (featureListContext.get(this)?.canGeneratePlots) {
+          this.isPageOpen = true;
+        } else {
+          console.warn(`There are no plots for which to add metadata.`);
+        }
+        break;
       case InteractionMode.DrawPoint:
         // Open metadata creation page
         this.isPageOpen = true;
         break;
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
         // Open metadata creation page if the shape is complete
         if (featureListContext.get(this)?.hasCompleteNewFeature) {
           this.isPageOpen = true;
@@ -821,7 +2212,8 @@ export class ControlsModel extends Model({
         );
         break;
       case InteractionMode.SelectMultiple:
-        console.warn(`TODO: For future use selecting overlapping geometry.`);
+        // Open the page for selecting features by their metadata and geometry
+        this.isPageOpen = true;
         break;
       case InteractionMode.SelectSingle:
         // Open metadata details view
@@ -855,7 +2247,7 @@ export class ControlsModel extends Model({
     switch (this.mode) {
       case InteractionMode.EditVertices:
         if (this.hasSelectedVertex) {
-          features?.removeVertex(this.selectedVertex?.index as number);
+          features?.removeVertex(toJS(this.selectedVertexIndices));
           this.deselectVertex();
         } else {
           console.warn(`No vertex is selected.`);
@@ -866,9 +2258,22 @@ export class ControlsModel extends Model({
         features?.deleteSelected();
         break;
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.DrawPart:
+      case InteractionMode.RemovePart:
+      case InteractionMode.SplitShape:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
+      case InteractionMode.ExtendLine:
       case InteractionMode.DrawPoint:
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
       case InteractionMode.DrawPolygon:
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
       case InteractionMode.EditMetadata:
         console.warn(
           `The current editing mode, ${this.mode} does not have a delete action.`
@@ -926,6 +2331,146 @@ export class ControlsModel extends Model({
     this.draggingLock.unlockAfterDelay(200);
   }
 
+  /**
+   * Select the vertex before or after the selected vertex in the same feature,
+   * wrapping around at the ends of the feature's list of vertices
+   *
+   * @param next Whether to select the next vertex (`true`) or the previous vertex (`false`)
+   */
+  @modelAction
+  selectAdjacentVertex(next: boolean) {
+    if (!this.selectedVertex) {
+      console.warn(`No vertex is selected.`);
+      return;
+    }
+    const { id, index } = this.selectedVertex;
+    const count = featureListContext.get(this)?.findFeature(id)?.vertexCount;
+    if (!count) {
+      console.warn(`No feature found with ID ${id}.`);
+      return;
+    }
+    this.selectVertex(id, (index + (next ? 1 : count - 1)) % count);
+  }
+
+  /**
+   * Move the selected vertex to an exact position, without snapping it to other features
+   *
+   * @param position The new position for the vertex
+   */
+  @modelAction
+  moveSelectedVertex(position: Position) {
+    if (!this.selectedVertex) {
+      console.warn(`No vertex is selected.`);
+      return;
+    }
+    const { id, index } = this.selectedVertex;
+    featureListContext.get(this)?.dragPosition(position, id, index, false);
+  }
+
+  /**
+   * Turn constraints on the positions of vertices that are drawn or dragged on or off
+   */
+  @modelAction
+  toggleConstrainingDrawing() {
+    this.isConstrainingDrawing = !this.isConstrainingDrawing;
+  }
+
+  /**
+   * Switch to the next angle constraint
+   */
+  @modelAction
+  toggleAngleConstraint() {
+    this.angleConstraint =
+      ANGLE_CONSTRAINTS[
+        (ANGLE_CONSTRAINTS.indexOf(this.angleConstraint) + 1) %
+          ANGLE_CONSTRAINTS.length
+      ];
+  }
+
+  /**
+   * Unlock the bearing of constrained vertices, if it is locked, or otherwise lock it
+   * to the bearing of the edge before the next vertex to be drawn, or before
+   * the selected vertex
+   */
+  @modelAction
+  toggleBearingLock() {
+    if (this.lockedBearing !== null) {
+      this.lockedBearing = null;
+      return;
+    }
+    const reference = featureListContext.get(this)?.constraintReference;
+    if (!reference?.beforePrevious) {
+      console.warn(`There is no edge whose bearing can be locked.`);
+      return;
+    }
+    this.lockedBearing = planarBearing(
+      reference.beforePrevious,
+      reference.previous
+    );
+  }
+
+  /**
+   * Switch to the next format for viewing and entering the coordinates of vertices
+   */
+  @modelAction
+  toggleCoordinateFormat() {
+    this.coordinateFormat =
+      COORDINATE_FORMATS[
+        (COORDINATE_FORMATS.indexOf(this.coordinateFormat) + 1) %
+          COORDINATE_FORMATS.length
+      ];
+  }
+
+  /**
+   * Re-position a point in a feature, and remember the point so that
+   * the length of an edge ending at the point can be measured
+   * (see {@link FeatureListModel.dragPosition}). If the point is one of several
+   * selected vertices, all of the selected vertices are moved together
+   * (see {@link FeatureListModel.dragVertices}).
+   *
+   * @param position The new position for the point
+   * @param id Feature ID
+   * @param index The index of the point or vertex in the feature
+   */
+  @modelAction
+  dragPosition(position: Position, id: RnmgeID, index: number) {
+    const features = featureListContext.get(this);
+    if (
+      this.selectedVertexIndices.length > 1 &&
+      this.isVertexSelected(id, index)
+    ) {
+      // Move all of the selected vertices together
+      features?.dragVertices(position, id, index, this.selectedVertexIndices);
+    } else {
+      features?.dragPosition(position, id, index);
+    }
+    this.draggedVertex = { id, index };
+    if (this.drawingConstraints) {
+      this.fixedSegmentLength = null;
+    }
+  }
+
+  /**
+   * Insert a vertex into an edge of the shape being edited, at the position
+   * to which the handle at the midpoint of the edge was dragged,
+   * and select the new vertex
+   *
+   * @param position The new position of the handle
+   * @param id The ID of the feature
+   * @param index The index of the vertex at the start of the edge
+   */
+  @modelAction
+  dragEdgeMidpoint(position: Position, id: RnmgeID, index: number) {
+    if (this.mode !== InteractionMode.EditVertices) {
+      console.warn(
+        `Vertices cannot be inserted by dragging edges in the current editing mode, ${this.mode}.`
+      );
+      return;
+    }
+    featureListContext.get(this)?.splitEdge(position, id, index);
+    this.selectVertex(id, index + 1);
+  }
+
   /**
    * Add a new point feature
    * @param coordinates The coordinates of the feature
@@ -943,23 +2488,37 @@ export class ControlsModel extends Model({
   }
 
   /**
-   * Add a new vertex to a shape, or as the first vertex of a new shape
+   * Add a new vertex to a shape, or as the first vertex of a new shape.
+   * For circles and rectangles, vertices after the first vertex
+   * respectively define the radius of the circle, or the second corner of the rectangle.
    * @param coordinates The coordinates of the vertex
    * @param finalType The type of shape to be created, if a new shape does not exist
    */
   @modelAction
   private addNewVertex(
     coordinates: Position,
-    finalType: 'LineString' | 'Polygon'
+    finalType: 'LineString' | 'Polygon' | SemanticShape['type']
   ) {
     const features = featureListContext.get(this);
     if (features) {
       if (features.hasNewFeature) {
         // Not the first vertex
         features.addVertex(coordinates);
+        if (this.drawingConstraints) {
+          this.fixedSegmentLength = null;
+        }
       } else {
         // Add the first vertex
-        features.addNewPoint(coordinates, finalType);
+        switch (finalType) {
+          case 'LineString':
+          case 'Polygon':
+            features.addNewPoint(coordinates, finalType);
+            break;
+          case 'Circle':
+          case 'Rectangle':
+            features.addNewSemanticShape(coordinates, finalType);
+            break;
+        }
       }
     }
   }
@@ -967,10 +2526,13 @@ export class ControlsModel extends Model({
   /**
    * Common error-checking and editing mode-independent control flow
    * for touch handler functions
+   * @param keepSelectedVertices Whether to continue handling the touch event
+   *                             even if vertices are selected, rather than
+   *                             just deselecting them
    * @return `true` if the touch event has been fully-handled
    */
   @modelAction
-  private onPressCommonHandling() {
+  private onPressCommonHandling(keepSelectedVertices: boolean = false) {
     if (this.draggingLock.isLocked) {
       return true;
     }
@@ -990,13 +2552,33 @@ export class ControlsModel extends Model({
      * If a vertex is selected, just deselect it rather than also performing
      * another action
      */
-    if (this.hasSelectedVertex) {
+    if (this.hasSelectedVertex && !keepSelectedVertices) {
       this.deselectVertex();
       return true;
     }
     return false;
   }
 
+  /**
+   * Add the vertices of a line traced by the user to the new polyline,
+   * or start a new polyline. See {@link FeatureListModel.addFreehandStroke}
+   *
+   * @param positions The vertices of the traced line, which should already be simplified
+   */
+  @modelAction
+  addFreehandStroke(positions: Array<Position>) {
+    if (this.mode !== InteractionMode.DrawFreehand) {
+      console.warn(
+        `The current editing mode, ${this.mode}, does not allow tracing lines.`
+      );
+      return;
+    }
+    if (this.onPressCommonHandling()) {
+      return;
+    }
+    featureListContext.get(this)?.addFreehandStroke(positions);
+  }
+
   /**
    * Touch event handler for geometry in the cold layer. See {@link ColdGeometry}
    *
@@ -1011,25 +2593,58 @@ export class ControlsModel extends Model({
 
     switch (this.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.RemovePart:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
       case InteractionMode.EditVertices:
         // Ignore - Editable geometry is not rendered in the cold layers
         break;
+      case InteractionMode.ExtendLine:
+        // The polyline can be extended on top of other features
+        features?.extendLine(eventPosition(e), this.extendFromStart);
+        break;
+      case InteractionMode.DrawPart:
+        // New parts can be drawn on top of other features
+        features?.addPartVertex(eventPosition(e));
+        break;
+      case InteractionMode.SplitShape:
+        // Cut lines can be drawn on top of other features
+        features?.addCutLineVertex(eventPosition(e));
+        break;
       case InteractionMode.DrawPoint:
         this.addNewPoint(eventPosition(e));
         break;
+      case InteractionMode.DrawCircle:
+        this.addNewVertex(eventPosition(e), 'Circle');
+        break;
       case InteractionMode.DrawPolygon:
         this.addNewVertex(eventPosition(e), 'Polygon');
         break;
       case InteractionMode.DrawPolyline:
         this.addNewVertex(eventPosition(e), 'LineString');
         break;
+      case InteractionMode.DrawFreehand:
+        // Ignore - Vertices are added by tracing strokes. See `addFreehandStroke()`
+        break;
+      case InteractionMode.RecordTrack:
+        // Ignore - Vertices are added from recorded positions. See `TrackingModel`
+        break;
+      case InteractionMode.DrawRectangle:
+        this.addNewVertex(eventPosition(e), 'Rectangle');
+        break;
       case InteractionMode.EditMetadata:
         // Ignore
         // This case shouldn't occur unless a metadata editing interface is slow to open
         break;
       case InteractionMode.SelectMultiple:
       case InteractionMode.SelectSingle:
-        if (features) {
+        if (this.isPastingAtLocation) {
+          // Copies can be pasted on top of other features
+          this.paste(eventPosition(e));
+        } else if (features) {
           let id = pickTopmostFeature(e, features);
           if (typeof id === 'string') {
             if (this.mode === InteractionMode.SelectMultiple) {
@@ -1054,7 +2669,15 @@ export class ControlsModel extends Model({
    */
   @modelAction
   onPressHotGeometry(e: OnPressEvent) {
-    if (this.onPressCommonHandling()) {
+    /**
+     * Touching a vertex while selecting multiple vertices adds it to the selection
+     */
+    if (
+      this.onPressCommonHandling(
+        this.mode === InteractionMode.EditVertices &&
+          this.vertexSelectionMode === 'multiple'
+      )
+    ) {
       return;
     }
     const features = featureListContext.get(this);
@@ -1065,6 +2688,10 @@ export class ControlsModel extends Model({
       case InteractionMode.EditMetadata:
       case InteractionMode.SelectMultiple:
       case InteractionMode.SelectSingle:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
         // Ignore the touch
         break;
       case InteractionMode.DrawPolygon:
@@ -1120,8 +2747,221 @@ export class ControlsModel extends Model({
         }
         break;
       case InteractionMode.DrawPolyline:
+      case InteractionMode.DrawFreehand:
         // Ignore the touch to avoid creating overlapping vertices or self-intersections in a polyline
         break;
+      case InteractionMode.RecordTrack:
+        // Ignore - Vertices are added from recorded positions. See `TrackingModel`
+        break;
+      case InteractionMode.DrawCircle:
+      case InteractionMode.DrawRectangle:
+        /**
+         * Touching the interior of the shape redefines the radius of the circle,
+         * or the second corner of the rectangle. Touching a handle has no effect.
+         */
+        if (e.features.length > 0) {
+          let handleTouched = false;
+          let shapeTouched = false;
+          for (let feature of e.features) {
+            const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+            if (id) {
+              if (
+                feature.properties?.rnmgeStage ===
+                FeatureLifecycleStage.NewShape
+              ) {
+                if (feature.geometry?.type === 'Point') {
+                  handleTouched = true;
+                } else if (feature.geometry) {
+                  shapeTouched = true;
+                }
+              } else {
+                console.warn(
+                  `Feature in the hot layer with lifecycle stage ${feature.properties?.rnmgeStage} encountered in editing mode ${this.mode}.`
+                );
+              }
+            }
+          }
+          if (shapeTouched && !handleTouched) {
+            this.addNewVertex(
+              eventPosition(e),
+              this.mode === InteractionMode.DrawCircle ? 'Circle' : 'Rectangle'
+            );
+          }
+        }
+        break;
+      case InteractionMode.DrawHole:
+        // Add new vertices to a hole in the polygon or close the hole
+        if (e.features.length > 0) {
+          /**
+           * Prevent creating overlapping vertices by ensuring, if the user
+           * touches the polygon to create a vertex in its interior, that
+           * a vertex is only created if the user has not also touched another vertex.
+           */
+          let vertexTouched = false;
+          let polygonTouched = false;
+          for (let feature of e.features) {
+            const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+            if (id) {
+              if (
+                feature.properties?.rnmgeStage ===
+                FeatureLifecycleStage.EditShape
+              ) {
+                if (feature.geometry?.type === 'Point') {
+                  vertexTouched = true;
+                  /**
+                   * If the first vertex of the hole was touched, and the hole is complete,
+                   * close the hole.
+                   */
+                  if (
+                    feature.properties?.rnmgeRole ===
+                      CoordinateRole.PolygonHoleStart &&
+                    features?.canCloseHole
+                  ) {
+                    features.closeHole();
+                  }
+                } else if (feature.geometry?.type === 'Polygon') {
+                  polygonTouched = true;
+                }
+              } else {
+                console.warn(
+                  `Feature in the hot layer with lifecycle stage ${feature.properties?.rnmgeStage} encountered in editing mode ${this.mode}.`
+                );
+              }
+            }
+          }
+          if (polygonTouched && !vertexTouched) {
+            // Holes are drawn inside the polygon
+            features?.addHoleVertex(eventPosition(e));
+          }
+        }
+        break;
+      case InteractionMode.DrawPart:
+        // Add new vertices to a new part, or close the part
+        if (e.features.length > 0) {
+          /**
+           * Prevent creating overlapping vertices by ensuring that a vertex
+           * is only created if the user has not also touched another vertex.
+           */
+          let vertexTouched = false;
+          let shapeTouched = false;
+          for (let feature of e.features) {
+            const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+            if (id) {
+              if (
+                feature.properties?.rnmgeStage ===
+                FeatureLifecycleStage.EditShape
+              ) {
+                if (feature.geometry?.type === 'Point') {
+                  vertexTouched = true;
+                  /**
+                   * If the first vertex of a new polygon part was touched,
+                   * and the part is complete, close the part.
+                   */
+                  if (
+                    feature.properties?.rnmgeRole ===
+                      CoordinateRole.PolygonStart &&
+                    features?.canClosePart
+                  ) {
+                    features.closePart();
+                  }
+                } else if (feature.geometry) {
+                  shapeTouched = true;
+                }
+              } else {
+                console.warn(
+                  `Feature in the hot layer with lifecycle stage ${feature.properties?.rnmgeStage} encountered in editing mode ${this.mode}.`
+                );
+              }
+            }
+          }
+          if (shapeTouched && !vertexTouched) {
+            // New parts can be drawn on top of existing parts
+            features?.addPartVertex(eventPosition(e));
+          }
+        }
+        break;
+      case InteractionMode.SplitShape:
+        // Add new vertices to the cut line
+        if (e.features.length > 0) {
+          /**
+           * Prevent creating overlapping vertices by ensuring that a vertex
+           * is only created if the user has not also touched another vertex.
+           */
+          let vertexTouched = false;
+          let shapeTouched = false;
+          for (let feature of e.features) {
+            const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+            if (id) {
+              if (
+                feature.properties?.rnmgeStage ===
+                  FeatureLifecycleStage.EditShape ||
+                feature.properties?.rnmgeStage ===
+                  FeatureLifecycleStage.NewShape
+              ) {
+                if (feature.geometry?.type === 'Point') {
+                  vertexTouched = true;
+                } else if (feature.geometry) {
+                  shapeTouched = true;
+                }
+              } else {
+                console.warn(
+                  `Feature in the hot layer with lifecycle stage ${feature.properties?.rnmgeStage} encountered in editing mode ${this.mode}.`
+                );
+              }
+            }
+          }
+          if (shapeTouched && !vertexTouched) {
+            // The cut line is drawn across the shapes being split
+            features?.addCutLineVertex(eventPosition(e));
+          }
+        }
+        break;
+      case InteractionMode.RemovePart:
+        // Remove the part that was touched
+        for (let feature of e.features) {
+          const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+          if (
+            id &&
+            feature.properties?.rnmgeStage === FeatureLifecycleStage.EditShape
+          ) {
+            if (
+              feature.geometry?.type === 'Point' &&
+              typeof feature.properties?.rnmgeIndex === 'number'
+            ) {
+              // Touched a vertex of the part
+              features?.removePartWithVertex(id, feature.properties.rnmgeIndex);
+              break;
+            } else if (feature.geometry) {
+              // Touched an edge or the interior of the part
+              features?.removePartNearPosition(id, eventPosition(e));
+              break;
+            }
+          }
+        }
+        break;
+      case InteractionMode.ExtendLine:
+        /**
+         * Touching the first or last vertex of the polyline chooses the end
+         * of the polyline at which vertices are added. Touching other parts
+         * of the polyline has no effect, to avoid creating overlapping vertices.
+         */
+        for (let feature of e.features) {
+          const id = feature?.properties?.rnmgeID; // Note that Mapbox clusters do not have this property
+          if (
+            id &&
+            feature.properties?.rnmgeStage === FeatureLifecycleStage.EditShape
+          ) {
+            const role = feature.properties?.rnmgeRole;
+            if (role === CoordinateRole.LineStart) {
+              this.extendFromStart = true;
+              break;
+            } else if (role === CoordinateRole.LineLast) {
+              this.extendFromStart = false;
+              break;
+            }
+          }
+        }
+        break;
       case InteractionMode.EditVertices:
         /**
          * Two possible actions can be performed:
@@ -1167,18 +3007,6 @@ export class ControlsModel extends Model({
                     }
                     vertexTouched = true;
                     break;
-                  } else if (
-                    feature.geometry?.type === 'LineString' ||
-                    feature.geometry?.type === 'Polygon'
-                  ) {
-                    // Filter out holes
-                    if (
-                      feature?.properties?.rnmgeRole ===
-                      LineStringRole.PolygonHole
-                    ) {
-                      shapeID = null;
-                      break;
-                    }
                   }
                 }
               } else {
@@ -1191,8 +3019,15 @@ export class ControlsModel extends Model({
           if (shapeID) {
             if (vertexTouched) {
               if (typeof vertexIndex === 'number') {
-                this.selectVertex(shapeID, vertexIndex);
+                if (this.vertexSelectionMode === 'multiple') {
+                  this.addSelectedVertices(shapeID, [vertexIndex]);
+                } else {
+                  this.selectVertex(shapeID, vertexIndex);
+                }
               }
+            } else if (this.hasSelectedVertex) {
+              // Touching elsewhere on the shape deselects all vertices
+              this.deselectVertex();
             } else {
               /**
                * We allow vertices to be added when the user touched the interior
@@ -1211,7 +3046,9 @@ export class ControlsModel extends Model({
                * is more difficult to implement, because world space to screen space
                * conversion functions are only accessible through the `MapboxGL.MapView` object.
                */
-              features?.addVertexToNearestSegment(point);
+              if (!features?.isEditingShapeWithHandles) {
+                features?.addVertexToNearestSegment(point);
+              }
             }
           }
         }
@@ -1233,21 +3070,51 @@ export class ControlsModel extends Model({
 
     switch (this.mode) {
       case InteractionMode.DragPoint:
+      case InteractionMode.DrawHole:
+      case InteractionMode.RemovePart:
+      case InteractionMode.TransformShape:
+      case InteractionMode.ResampleShape:
+      case InteractionMode.BufferShape:
+      case InteractionMode.GeneratePlots:
       case InteractionMode.EditVertices:
         return false; // Ignore
+      case InteractionMode.ExtendLine:
+        featureListContext
+          .get(this)
+          ?.extendLine(e.geometry.coordinates, this.extendFromStart);
+        return true;
+      case InteractionMode.DrawPart:
+        featureListContext.get(this)?.addPartVertex(e.geometry.coordinates);
+        return true;
+      case InteractionMode.SplitShape:
+        featureListContext.get(this)?.addCutLineVertex(e.geometry.coordinates);
+        return true;
       case InteractionMode.DrawPoint:
         // Draw a new point
         this.addNewPoint(e.geometry.coordinates);
         return true;
+      case InteractionMode.DrawCircle:
+        this.addNewVertex(e.geometry.coordinates, 'Circle');
+        return true;
       case InteractionMode.DrawPolygon:
         this.addNewVertex(e.geometry.coordinates, 'Polygon');
         return true;
       case InteractionMode.DrawPolyline:
         this.addNewVertex(e.geometry.coordinates, 'LineString');
         return true;
+      case InteractionMode.DrawFreehand:
+      case InteractionMode.RecordTrack:
+        return false; // Ignore
+      case InteractionMode.DrawRectangle:
+        this.addNewVertex(e.geometry.coordinates, 'Rectangle');
+        return true;
       case InteractionMode.EditMetadata:
         return false; // Ignore
       case InteractionMode.SelectMultiple:
+        if (this.isPastingAtLocation) {
+          this.paste(e.geometry.coordinates);
+          return true;
+        }
         return false; // Ignore
       case InteractionMode.SelectSingle:
         // Close all metadata preview annotations
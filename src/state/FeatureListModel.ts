@@ -8,26 +8,91 @@ import {
   UndoStore,
 } from 'mobx-keystone';
 import type { UndoManager } from 'mobx-keystone';
-import { point, featureCollection } from '@turf/helpers';
+import bbox from '@turf/bbox';
+import booleanDisjoint from '@turf/boolean-disjoint';
+import {
+  convertLength,
+  point,
+  polygon,
+  featureCollection,
+} from '@turf/helpers';
+import cloneDeep from 'lodash/cloneDeep';
 import difference from 'lodash/difference';
 import flatten from 'lodash/flatten';
 import filter from 'lodash/filter';
+import pull from 'lodash/pull';
 import remove from 'lodash/remove';
+import sortBy from 'lodash/sortBy';
 import every from 'lodash/every';
-import type { FeatureCollection, Position, GeoJsonProperties } from 'geojson';
+import uniq from 'lodash/uniq';
+import type {
+  FeatureCollection,
+  LineString,
+  MultiPolygon,
+  Point,
+  Polygon,
+  Position,
+  GeoJsonProperties,
+} from 'geojson';
 
 import { FeatureModel } from './FeatureModel';
+import { controlsContext, snappingContext } from './ModelContexts';
 import type {
   DraggablePosition,
   EditableFeature,
   EditableGeometry,
   EditableGeometryType,
+  GeometryConversion,
+  GeometryProblem,
+  Measurement,
+  RenderFeature,
   RenderFeatureCollection,
   RenderPointFeatureCollection,
   RenderNonPointFeatureCollection,
   RnmgeID,
+  SelectionOperation,
+  SemanticGeometryType,
+  SemanticShape,
+} from '../type/geometry';
+import type { FeaturePredicate } from '../type/query';
+import {
+  CoordinateRole,
+  FeatureLifecycleStage,
+  LineStringRole,
 } from '../type/geometry';
-import { FeatureLifecycleStage } from '../type/geometry';
+import { bufferGeometry, offsetLine } from '../util/geometry/buffer';
+import { clipPolygon } from '../util/geometry/clip';
+import {
+  closeLine,
+  convexHull,
+  joinPoints,
+  openPolygon,
+} from '../util/geometry/convert';
+import {
+  constrainPosition,
+  constraintGuides,
+} from '../util/geometry/constraints';
+import type { ConstraintReference } from '../util/geometry/constraints';
+import { findCenterForAnnotation } from '../util/geometry/display';
+import { combineMeasurements } from '../util/geometry/measure';
+import { mergePolygons } from '../util/geometry/merge';
+import { countPositions, resampleGeometry } from '../util/geometry/simplify';
+import { metersPerPixel } from '../util/geometry/snapping';
+import { plotGrid } from '../util/geometry/plots';
+import type { PlotCell } from '../util/geometry/plots';
+import {
+  hasSemanticShapeField,
+  readSemanticShape,
+  withSemanticShapeField,
+} from '../util/geometry/semantic';
+import { splitGeometry } from '../util/geometry/split';
+import {
+  featuresCenter,
+  rotationAngle,
+  scaleFactor,
+} from '../util/geometry/transform';
+import type { SimilarityTransform } from '../util/geometry/transform';
+import type { MergeMetadataCb } from '../type/metadata';
 
 /**
  * Whether or not the lifecycle stage involves selecting geometry
@@ -40,6 +105,55 @@ function isSelectionStage(stage: FeatureLifecycleStage) {
   );
 }
 
+/**
+ * Whether or not the feature is a polygon or a multi-polygon
+ * @param feature A feature
+ */
+function isAreaFeature(feature: FeatureModel) {
+  const type = feature.geojson.geometry.type;
+  return type === 'Polygon' || type === 'MultiPolygon';
+}
+
+/**
+ * Create a feature from a GeoJSON feature that was imported or pasted.
+ * A shape that is edited using handles is recreated from the semantic properties
+ * in its {@link SEMANTIC_SHAPE_KEY} metadata field, which is removed from its metadata.
+ *
+ * @param geojson The GeoJSON feature, which must not be shared with other parts of the state tree
+ * @param stage The lifecycle stage of the new feature
+ */
+function featureFromGeoJSON(
+  geojson: EditableFeature,
+  stage: FeatureLifecycleStage
+): FeatureModel {
+  return new FeatureModel({
+    stage,
+    geojson: hasSemanticShapeField(geojson)
+      ? { ...geojson, properties: withSemanticShapeField(geojson) }
+      : geojson,
+    finalType: geojson.geometry.type,
+    semanticShape: readSemanticShape(geojson),
+  });
+}
+
+/**
+ * The distance of the rotation and scaling handles from the features being transformed,
+ * as a fraction of the larger dimension of the features' bounding box
+ */
+const TRANSFORM_HANDLE_MARGIN = 0.2;
+
+/**
+ * The length of the guide lines for constrained drawing, in screen pixels,
+ * unless the length of the next edge is fixed
+ */
+const GUIDE_LENGTH_PIXELS = 200;
+
+/**
+ * The length of the guide lines for constrained drawing, in metres,
+ * when the map zoom level is unknown
+ */
+const DEFAULT_GUIDE_LENGTH = 100;
+
 /**
  * A collection of editable GeoJSON features
  */
@@ -63,6 +177,12 @@ export class FeatureListModel extends Model({
   undoData: prop<UndoStore>(() => new UndoStore({})),
 }) {
   private undoManager: UndoManager | null = null;
+  /**
+   * The IDs of features in the order in which they were added to the multiple selection
+   * (see {@link toggleMultiSelectFeature}). Only the relative order of the IDs
+   * of selected features is meaningful, so IDs may be out of date.
+   */
+  private multiSelectionOrder: Array<RnmgeID> = [];
   /**
    * Set up the undo history
    */
@@ -97,13 +217,9 @@ export class FeatureListModel extends Model({
     }
   ) {
     this.undoManager!.withoutUndo(() => {
-      let models = geojson.map((feature) => {
-        return new FeatureModel({
-          stage: FeatureLifecycleStage.View,
-          geojson: feature,
-          finalType: feature.geometry.type,
-        });
-      });
+      let models = geojson.map((feature) =>
+        featureFromGeoJSON(feature, FeatureLifecycleStage.View)
+      );
       if (options.replace) {
         // Overwrite features
         this.features = models;
@@ -116,25 +232,809 @@ export class FeatureListModel extends Model({
   }
 
   /**
-   * Re-position a point in a feature
+   * Snap a new or moved vertex to nearby features that are not being edited,
+   * if snapping is enabled
+   * @param position The position of the vertex
+   * @param exclude IDs of features that the vertex cannot snap to
+   * @return The position at which to place the vertex
+   */
+  private snapPosition(
+    position: Position,
+    exclude: Array<RnmgeID> = []
+  ): Position {
+    const snapping = snappingContext.get(this);
+    if (snapping) {
+      return snapping.snap(position, exclude);
+    }
+    return position;
+  }
+
+  /**
+   * Constrain the position of a new or moved vertex, if constrained drawing is enabled
+   * (see {@link ControlsModel.drawingConstraints})
+   * @param position The position of the vertex
+   * @param feature The feature containing the vertex
+   * @param index The index of the vertex in the feature, or `undefined` for a vertex
+   *              being added to the end of a new feature
+   * @return The constrained position of the vertex, or `null` if it is not constrained
+   */
+  private constrainVertex(
+    position: Position,
+    feature: FeatureModel,
+    index?: number
+  ): Position | null {
+    const constraints = controlsContext.get(this)?.drawingConstraints;
+    if (!constraints) {
+      return null;
+    }
+    const reference = feature.constraintReference(index);
+    if (!reference) {
+      return null;
+    }
+    return constrainPosition(position, reference, constraints);
+  }
+
+  /**
+   * The vertex that the next constrained vertex will be positioned relative to:
+   * the last vertex of a new feature that is being drawn, or the vertex before
+   * the selected vertex of a feature whose vertices are being edited
+   */
+  @computed
+  get constraintReference(): ConstraintReference | null {
+    const feature = this.rawGeometryEditableFeature;
+    if (!feature) {
+      return null;
+    }
+    if (feature.stage === FeatureLifecycleStage.NewShape) {
+      return feature.constraintReference();
+    }
+    const selectedVertex = controlsContext.get(this)?.selectedVertex;
+    if (selectedVertex?.id === feature.$modelId) {
+      return feature.constraintReference(selectedVertex.index);
+    }
+    return null;
+  }
+
+  /**
+   * Guide lines showing where constrained vertices can be placed,
+   * or `undefined` if drawing is not constrained
+   */
+  @computed
+  private get constraintGuideFeature(): RenderFeature | undefined {
+    const constraints = controlsContext.get(this)?.drawingConstraints;
+    if (!constraints) {
+      return undefined;
+    }
+    const reference = this.constraintReference;
+    if (!reference) {
+      return undefined;
+    }
+    const zoomLevel = snappingContext.get(this)?.zoomLevel;
+    const length =
+      typeof zoomLevel === 'number'
+        ? GUIDE_LENGTH_PIXELS * metersPerPixel(reference.previous[1], zoomLevel)
+        : DEFAULT_GUIDE_LENGTH;
+    const lines = constraintGuides(reference, constraints, length);
+    if (lines.length === 0) {
+      return undefined;
+    }
+    return {
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: lines },
+      properties: {
+        rnmgeID: this.$modelId,
+        rnmgeStage: FeatureLifecycleStage.View,
+        rnmgeRole: LineStringRole.Guide,
+        rnmgeIndex: -1,
+        rnmgeValid: true,
+      },
+    };
+  }
+
+  /**
+   * Find the features whose vertices should move together with a vertex
+   * that is being dragged, if topological editing is enabled.
+   *
+   * @param feature The feature containing the vertex being dragged
+   * @param index The index of the vertex in the feature
+   * @return `position` is the position of the vertex before it is moved, and `features`
+   *         are the features, not including `feature`, that have vertices at `position`
+   */
+  private featuresSharingVertex(
+    feature: FeatureModel,
+    index: number
+  ): { position?: Position; features: Array<FeatureModel> } {
+    if (
+      !controlsContext.get(this)?.topologicalEditing ||
+      feature.stage !== FeatureLifecycleStage.EditShape
+    ) {
+      return { features: [] };
+    }
+    const position = feature.vertexPosition(index);
+    if (!position) {
+      return { features: [] };
+    }
+    return {
+      position,
+      features: this.features.filter(
+        (val) =>
+          val !== feature &&
+          val.stage === FeatureLifecycleStage.View &&
+          !val.hasHandles &&
+          val.sharesVertex(position)
+      ),
+    };
+  }
+
+  /**
+   * Re-position a point in a feature.
+   *
+   * If topological editing is enabled (see {@link ControlsModel.topologicalEditing}),
+   * the vertices of other features that are at the same position as the point
+   * will be moved as well. All changes form a single step in the undo history.
+   *
+   * Dragging a handle for transforming whole features, which has the ID of this object,
+   * transforms all of the features being edited. See {@link transformHandles}
+   *
    * @param position The new position for the point
    * @param id Feature ID
    * @param index The index of the point or vertex in the feature
+   * @param snap Whether to constrain the position (see {@link ControlsModel.drawingConstraints}),
+   *             or otherwise snap it to nearby features, such as when
+   *             the position was chosen by dragging, rather than entered exactly
    */
   @modelAction
-  dragPosition(position: Position, id: RnmgeID, index: number) {
+  dragPosition(
+    position: Position,
+    id: RnmgeID,
+    index: number,
+    snap: boolean = true
+  ) {
+    if (id === this.$modelId) {
+      this.dragTransformHandle(position, index);
+      return;
+    }
     const feature = this.findFeature(id);
     if (feature) {
+      const { position: oldPosition, features: sharingFeatures } =
+        this.featuresSharingVertex(feature, index);
+      /**
+       * Vertices cannot snap back to the features that will be moved along with them
+       */
+      const newPosition = snap
+        ? this.constrainVertex(position, feature, index) ??
+          this.snapPosition(
+            position,
+            sharingFeatures.map((val) => val.$modelId)
+          )
+        : position;
       /**
        * Ask the feature to update the point, given the computed index
        * of the point in that feature.
        */
-      feature.dragPosition(position, index);
+      feature.dragPosition(newPosition, index);
+      sharingFeatures.forEach((val) => {
+        val.moveSharedVertices(oldPosition as Position, newPosition);
+      });
     } else {
       console.warn(`No feature found with ID ${id}.`);
     }
   }
 
+  /**
+   * Re-position several vertices of a feature together, by dragging one of them.
+   * The other vertices are moved by the same offset as the dragged vertex,
+   * after it is constrained or snapped (see {@link dragPosition}).
+   * All changes form a single step in the undo history.
+   *
+   * @param position The new position for the dragged vertex
+   * @param id Feature ID
+   * @param index The index of the dragged vertex in the feature
+   * @param indices The indices of the other vertices to move
+   */
+  @modelAction
+  dragVertices(
+    position: Position,
+    id: RnmgeID,
+    index: number,
+    indices: Array<number>
+  ) {
+    const feature = this.findFeature(id);
+    if (!feature) {
+      console.warn(`No feature found with ID ${id}.`);
+      return;
+    }
+    const oldPosition = feature.vertexPosition(index);
+    if (!oldPosition) {
+      console.warn(
+        `The feature with ID ${id} is a shape that is edited using handles.`
+      );
+      return;
+    }
+    const others = indices
+      .filter((val) => val !== index)
+      .map((val) => {
+        return { index: val, position: feature.vertexPosition(val) };
+      });
+    this.dragPosition(position, id, index);
+    const newPosition = feature.vertexPosition(index) as Position;
+    const offset = [
+      newPosition[0] - oldPosition[0],
+      newPosition[1] - oldPosition[1],
+    ];
+    others.forEach((val) => {
+      if (val.position) {
+        this.dragPosition(
+          [val.position[0] + offset[0], val.position[1] + offset[1]],
+          id,
+          val.index,
+          false
+        );
+      }
+    });
+  }
+
+  /**
+   * Find the vertices of the feature being edited that are enclosed by a lasso
+   *
+   * @param lasso The positions along the lasso, which is closed automatically.
+   *              There must be at least three positions.
+   * @return The ID of the feature and the indices of the enclosed vertices,
+   *         or `undefined` if no feature is being edited
+   */
+  verticesInLasso(
+    lasso: Array<Position>
+  ): { id: RnmgeID; indices: Array<number> } | undefined {
+    const feature = this.rawGeometryEditableFeature;
+    if (!feature) {
+      return undefined;
+    }
+    const area = polygon([[...lasso, lasso[0]]]).geometry;
+    return { id: feature.$modelId, indices: feature.verticesInPolygon(area) };
+  }
+
+  /**
+   * Select or deselect the features that intersect a lasso, or that are inside it,
+   * in addition to or instead of the features that are already selected.
+   * Only features that are not being edited can be selected or deselected.
+   * A lasso that is too short to enclose an area deselects all features
+   * if it replaces the selection, and otherwise has no effect.
+   *
+   * @param lasso The positions along the lasso, which is closed automatically
+   * @param operation How the features that intersect the lasso are combined with
+   *                  the features that are already selected
+   */
+  @modelAction
+  selectFeaturesInLasso(lasso: Array<Position>, operation: SelectionOperation) {
+    const area =
+      lasso.length < 3 ? null : polygon([[...lasso, lasso[0]]]).geometry;
+    this.applySelection(
+      (val) => !!area && !booleanDisjoint(toJS(val.geojson.geometry), area),
+      operation
+    );
+  }
+
+  /**
+   * Select or deselect the features that match a predicate, in addition to
+   * or instead of the features that are already selected.
+   * Only features that are not being edited can be selected or deselected.
+   *
+   * @param predicate A function that is given a copy of each feature
+   *                  that can be selected, and decides whether it matches
+   * @param operation How the features that match are combined with
+   *                  the features that are already selected
+   */
+  @modelAction
+  selectWhere(predicate: FeaturePredicate, operation: SelectionOperation) {
+    this.applySelection((val) => predicate(toJS(val.geojson)), operation);
+  }
+
+  /**
+   * Select the features that are not selected, and deselect the features
+   * that are selected. Features that are being edited are unaffected.
+   */
+  @modelAction
+  invertSelection() {
+    this.applySelection(
+      (val) => val.stage === FeatureLifecycleStage.View,
+      'replace'
+    );
+  }
+
+  /**
+   * Move features between the {@link FeatureLifecycleStage.View}
+   * and {@link FeatureLifecycleStage.SelectMultiple} stages, leaving features
+   * in other stages unaffected
+   *
+   * @param isMatch A function that decides whether a feature matches
+   * @param operation How the features that match are combined with
+   *                  the features that are already selected
+   */
+  private applySelection(
+    isMatch: (feature: FeatureModel) => boolean,
+    operation: SelectionOperation
+  ) {
+    this.undoManager!.withoutUndo(() => {
+      this.features.forEach((val) => {
+        if (
+          val.stage !== FeatureLifecycleStage.View &&
+          val.stage !== FeatureLifecycleStage.SelectMultiple
+        ) {
+          return;
+        }
+        const matches = isMatch(val);
+        const wasSelected = val.stage === FeatureLifecycleStage.SelectMultiple;
+        let isSelected = wasSelected;
+        switch (operation) {
+          case 'replace':
+            isSelected = matches;
+            break;
+          case 'add':
+            isSelected = wasSelected || matches;
+            break;
+          case 'subtract':
+            isSelected = wasSelected && !matches;
+            break;
+        }
+        if (isSelected && !wasSelected) {
+          val.stage = FeatureLifecycleStage.SelectMultiple;
+          this.multiSelectionOrder.push(val.$modelId);
+        } else if (!isSelected && wasSelected) {
+          val.stage = FeatureLifecycleStage.View;
+          pull(this.multiSelectionOrder, val.$modelId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Features whose entire geometry is being moved, rotated, or scaled
+   */
+  @computed
+  private get transformableFeatures(): Array<FeatureModel> {
+    if (!controlsContext.get(this)?.hasTransformMode) {
+      return [];
+    }
+    return filter(
+      this.features,
+      (val) => val.stage === FeatureLifecycleStage.EditShape
+    );
+  }
+
+  /**
+   * The handles used to move, rotate, and scale the features being transformed.
+   * The first handle moves the features, and is placed at the centre of the features.
+   * The second handle, above the features, rotates them about their centre.
+   * The third handle, at the top right of the features, scales them about their centre.
+   * Features that have no extent, such as a single point, only have the first handle.
+   *
+   * The handles refer to this object instead of to individual features,
+   * and to the first feature being transformed as their GeoJSON feature.
+   */
+  @computed
+  get transformHandles(): Array<DraggablePosition> {
+    const editable = this.transformableFeatures;
+    if (editable.length === 0) {
+      return [];
+    }
+    const geojson = editable.map((val) => toJS(val.geojson));
+    const center =
+      geojson.length === 1
+        ? findCenterForAnnotation(geojson[0])
+        : featuresCenter(geojson);
+    const handle = (coordinates: Position, role: CoordinateRole) => {
+      return {
+        coordinates,
+        role,
+        feature: geojson[0],
+        id: this.$modelId,
+      };
+    };
+    const handles = [handle([...center], CoordinateRole.TransformTranslate)];
+    const [west, south, east, north] = bbox(featureCollection(geojson));
+    const margin =
+      Math.max(east - west, north - south) * TRANSFORM_HANDLE_MARGIN;
+    if (margin > 0) {
+      handles.push(
+        handle([center[0], north + margin], CoordinateRole.TransformRotate),
+        handle([east + margin, north + margin], CoordinateRole.TransformScale)
+      );
+    }
+    return handles.map((val, index) => {
+      return { ...val, index };
+    });
+  }
+
+  /**
+   * Move, rotate, or scale all features being transformed by dragging one
+   * of the {@link transformHandles}. Rotation and scaling are performed
+   * about the position of the first handle.
+   * Throws an error if the index is out of range.
+   *
+   * @param position The new position of the handle
+   * @param index The index of the handle
+   */
+  private dragTransformHandle(position: Position, index: number) {
+    const handles = this.transformHandles;
+    if (index >= handles.length) {
+      throw new Error(
+        `Index ${index} into the transformation handles is not less than ${handles.length}.`
+      );
+    }
+    const pivot = handles[0].coordinates;
+    const { coordinates, role } = handles[index];
+    let transform: SimilarityTransform = {
+      pivot,
+      rotation: 0,
+      scale: 1,
+      translation: [0, 0],
+    };
+    switch (role) {
+      case CoordinateRole.TransformTranslate:
+        transform = {
+          ...transform,
+          translation: [position[0] - pivot[0], position[1] - pivot[1]],
+        };
+        break;
+      case CoordinateRole.TransformRotate:
+        transform = {
+          ...transform,
+          rotation: rotationAngle(pivot, coordinates, position),
+        };
+        break;
+      default: {
+        const scale = scaleFactor(pivot, coordinates, position);
+        if (scale <= 0) {
+          console.warn(`The features cannot be scaled to have no size.`);
+          return;
+        }
+        transform = { ...transform, scale };
+        break;
+      }
+    }
+    this.transformableFeatures.forEach((val) => {
+      val.transform(transform);
+    });
+  }
+
+  /**
+   * The geometry that the feature being edited would have if it was simplified
+   * or densified using the current settings of {@link ControlsModel},
+   * or `undefined` if the feature is not being simplified or densified
+   */
+  @computed
+  get resamplePreview(): EditableGeometry | undefined {
+    const controls = controlsContext.get(this);
+    // Only look for the feature being edited in the resampling mode
+    if (!controls?.hasResampleMode || controls.resampleDistance <= 0) {
+      return undefined;
+    }
+    const feature = this.rawGeometryEditableFeature;
+    if (!feature) {
+      return undefined;
+    }
+    return resampleGeometry(
+      toJS(feature.geojson.geometry),
+      controls.resampleMethod,
+      controls.resampleDistance
+    );
+  }
+
+  /**
+   * A temporary feature, which is not part of this collection, used to render
+   * {@link resamplePreview} as a new shape
+   */
+  @computed
+  private get resamplePreviewFeature(): FeatureModel | undefined {
+    const geometry = this.resamplePreview;
+    if (!geometry) {
+      return undefined;
+    }
+    const feature = this.rawGeometryEditableFeature;
+    if (!feature) {
+      return undefined;
+    }
+    return new FeatureModel({
+      stage: FeatureLifecycleStage.NewShape,
+      geojson: {
+        type: 'Feature',
+        geometry,
+        properties: toJS(feature.geojson.properties),
+      },
+      finalType: geometry.type,
+    });
+  }
+
+  /**
+   * Whether {@link resampleEditableFeature} would change the number of vertices
+   * of the feature being edited
+   */
+  @computed
+  get canResample(): boolean {
+    const geometry = this.resamplePreview;
+    if (!geometry) {
+      return false;
+    }
+    const feature = this.rawGeometryEditableFeature;
+    return (
+      !!feature &&
+      countPositions(geometry) !== countPositions(feature.geojson.geometry)
+    );
+  }
+
+  /**
+   * Replace the geometry of the feature being edited with {@link resamplePreview}
+   */
+  @modelAction
+  resampleEditableFeature() {
+    const geometry = this.resamplePreview;
+    if (!geometry || !this.canResample) {
+      console.warn('There are no changes to the number of vertices to apply.');
+      return;
+    }
+    this.rawGeometryEditableFeature!.replaceGeometry(cloneDeep(geometry));
+  }
+
+  /**
+   * Retrieve the features from which new shapes are to be created at a distance,
+   * which are all features being edited while {@link ControlsModel} is in a buffering mode
+   */
+  @computed
+  private get bufferableFeatures(): Array<FeatureModel> {
+    if (!controlsContext.get(this)?.hasBufferMode) {
+      return [];
+    }
+    return filter(
+      this.features,
+      (val) => val.stage === FeatureLifecycleStage.EditShape
+    );
+  }
+
+  /**
+   * Whether all features being buffered are line strings or multi-line strings,
+   * such that lines parallel to them can be created
+   */
+  @computed
+  get canOffsetEditableFeatures(): boolean {
+    const arr = this.bufferableFeatures;
+    return (
+      arr.length > 0 &&
+      every(
+        arr,
+        (val) =>
+          val.geojson.geometry.type === 'LineString' ||
+          val.geojson.geometry.type === 'MultiLineString'
+      )
+    );
+  }
+
+  /**
+   * The new shapes that would be created from the features being buffered,
+   * using the current settings of {@link ControlsModel}, paired with the features
+   * from which they would be created. Features that would produce an empty shape are omitted.
+   */
+  @computed
+  private get bufferResults(): Array<{
+    /**
+     * The feature from which the shape would be created
+     */
+    source: FeatureModel;
+    /**
+     * The new shape
+     */
+    geometry: EditableGeometry;
+  }> {
+    const controls = controlsContext.get(this);
+    if (!controls || controls.bufferDistance <= 0) {
+      return [];
+    }
+    const distance = convertLength(
+      controls.bufferDistance,
+      controls.bufferUnits,
+      'meters'
+    );
+    const results: Array<{ source: FeatureModel; geometry: EditableGeometry }> =
+      [];
+    this.bufferableFeatures.forEach((source) => {
+      const sourceGeometry = toJS(source.geojson.geometry);
+      let geometry: EditableGeometry | null = null;
+      switch (controls.bufferMethod) {
+        case 'buffer':
+          geometry = bufferGeometry(sourceGeometry, distance);
+          break;
+        case 'offsetLeft':
+        case 'offsetRight':
+          if (
+            sourceGeometry.type === 'LineString' ||
+            sourceGeometry.type === 'MultiLineString'
+          ) {
+            geometry = offsetLine(
+              sourceGeometry,
+              controls.bufferMethod === 'offsetLeft' ? distance : -distance
+            );
+          }
+          break;
+      }
+      if (geometry) {
+        results.push({ source, geometry });
+      }
+    });
+    return results;
+  }
+
+  /**
+   * The shapes that {@link bufferEditableFeatures} would create
+   */
+  @computed
+  get bufferPreview(): Array<EditableGeometry> {
+    return this.bufferResults.map((val) => val.geometry);
+  }
+
+  /**
+   * Temporary features, which are not part of this collection, used to render
+   * {@link bufferPreview} as new shapes
+   */
+  @computed
+  private get bufferPreviewFeatures(): Array<FeatureModel> {
+    return this.bufferResults.map(
+      ({ geometry }) =>
+        new FeatureModel({
+          stage: FeatureLifecycleStage.NewShape,
+          geojson: {
+            type: 'Feature',
+            geometry,
+            properties: {},
+          },
+          finalType: geometry.type,
+        })
+    );
+  }
+
+  /**
+   * Whether {@link bufferEditableFeatures} would create any shapes
+   */
+  @computed
+  get canBuffer(): boolean {
+    return this.bufferResults.length > 0;
+  }
+
+  /**
+   * Add the shapes in {@link bufferPreview} to the collection as new features,
+   * each placed after the feature from which it was created, and with a copy
+   * of that feature's properties. The new features are not selected or edited.
+   */
+  @modelAction
+  bufferEditableFeatures() {
+    const results = this.bufferResults;
+    if (results.length === 0) {
+      console.warn('There are no shapes to create.');
+      return;
+    }
+    this.features = flatten(
+      this.features.map((val) => {
+        const result = results.find(({ source }) => source === val);
+        if (!result) {
+          return [val];
+        }
+        return [
+          val,
+          new FeatureModel({
+            stage: FeatureLifecycleStage.View,
+            geojson: {
+              type: 'Feature',
+              // Copy the geometry, as positions cannot be shared between multiple parts of the state tree
+              geometry: cloneDeep(result.geometry),
+              properties: toJS(val.geojson.properties),
+            },
+            finalType: result.geometry.type,
+          }),
+        ];
+      })
+    );
+  }
+
+  /**
+   * Retrieve the polygon being divided into plots, which is the feature being edited
+   * while {@link ControlsModel} is in a plot grid generation mode
+   */
+  @computed
+  private get plotGridSource(): FeatureModel | undefined {
+    if (!controlsContext.get(this)?.hasPlotGridMode) {
+      return undefined;
+    }
+    const feature = this.rawGeometryEditableFeature;
+    return feature && isAreaFeature(feature) ? feature : undefined;
+  }
+
+  /**
+   * The plots into which the polygon being divided into plots would be divided,
+   * using the current settings of {@link ControlsModel}, or `null` if the grid
+   * would be too large to generate
+   */
+  @computed
+  get plotGridCells(): Array<PlotCell> | null {
+    const source = this.plotGridSource;
+    const controls = controlsContext.get(this);
+    if (!source || !controls) {
+      return [];
+    }
+    return plotGrid(
+      toJS(source.geojson.geometry as Polygon | MultiPolygon),
+      controls.plotGridOptions
+    );
+  }
+
+  /**
+   * Temporary features, which are not part of this collection, used to render
+   * {@link plotGridCells} as new shapes
+   */
+  @computed
+  private get plotGridPreviewFeatures(): Array<FeatureModel> {
+    return (this.plotGridCells ?? []).map(
+      ({ geometry }) =>
+        new FeatureModel({
+          stage: FeatureLifecycleStage.NewShape,
+          geojson: {
+            type: 'Feature',
+            geometry,
+            properties: {},
+          },
+          finalType: geometry.type,
+        })
+    );
+  }
+
+  /**
+   * Whether {@link generatePlots} would create any plots
+   */
+  @computed
+  get canGeneratePlots(): boolean {
+    return !!this.plotGridCells?.length;
+  }
+
+  /**
+   * Add the plots in {@link plotGridCells} to the collection as new features,
+   * placed after the polygon that was divided into plots.
+   * The new features are not selected or edited.
+   *
+   * @param metadata Properties to give to every plot, to which the row and column
+   *                 indices of the plot (see {@link PlotCell}) are added under the keys
+   *                 given by {@link ControlsModel.plotRowKey} and
+   *                 {@link ControlsModel.plotColumnKey}, unless the keys are `null`
+   */
+  @modelAction
+  generatePlots(metadata: GeoJsonProperties) {
+    const source = this.plotGridSource;
+    const cells = this.plotGridCells;
+    if (!source || !cells || cells.length === 0) {
+      console.warn('There are no plots to create.');
+      return;
+    }
+    const controls = controlsContext.get(this);
+    const rowKey = controls ? controls.plotRowKey : 'row';
+    const columnKey = controls ? controls.plotColumnKey : 'column';
+    const plots = cells.map(
+      ({ geometry, row, column }) =>
+        new FeatureModel({
+          stage: FeatureLifecycleStage.View,
+          geojson: {
+            type: 'Feature',
+            // Copy the geometry, as positions cannot be shared between multiple parts of the state tree
+            geometry: cloneDeep(geometry),
+            properties: {
+              ...metadata,
+              ...(rowKey === null ? {} : { [rowKey]: row }),
+              ...(columnKey === null ? {} : { [columnKey]: column }),
+            },
+          },
+          finalType: geometry.type,
+        })
+    );
+    this.features = flatten(
+      this.features.map((val) => (val === source ? [val, ...plots] : [val]))
+    );
+  }
+
   /**
    * Add a vertex to the feature currently being edited
    * @param vertex The new vertex for the feature
@@ -142,13 +1042,47 @@ export class FeatureListModel extends Model({
    */
   @modelAction
   addVertex(vertex: Position, index: number = -1) {
-    if (this.rawGeometryEditableFeature) {
-      this.rawGeometryEditableFeature.addVertex(vertex, index);
+    const feature = this.rawGeometryEditableFeature;
+    if (feature) {
+      /**
+       * Only vertices added to the end of a new feature are constrained
+       */
+      const constrained =
+        index === -1 && feature.stage === FeatureLifecycleStage.NewShape
+          ? this.constrainVertex(vertex, feature)
+          : null;
+      feature.addVertex(constrained ?? this.snapPosition(vertex), index);
     } else {
       console.warn('No editable features to modify.');
     }
   }
 
+  /**
+   * Whether the feature currently being edited is a shape that is
+   * edited using handles, rather than by adding, moving, or removing vertices
+   */
+  @computed
+  get isEditingShapeWithHandles(): boolean {
+    return !!this.rawGeometryEditableFeature?.hasHandles;
+  }
+
+  /**
+   * Add a vertex to either end of the line string currently being edited
+   * @param vertex The new vertex, which will be snapped to other features
+   *               if snapping is enabled
+   * @param fromStart Whether to add the vertex before the first vertex (`true`),
+   *                  or after the last vertex (`false`)
+   */
+  @modelAction
+  extendLine(vertex: Position, fromStart: boolean) {
+    const feature = this.rawGeometryEditableFeature;
+    if (feature?.geojson.geometry.type !== 'LineString') {
+      console.warn('There is no line string being edited.');
+      return;
+    }
+    feature.addVertex(this.snapPosition(vertex), fromStart ? 0 : -1);
+  }
+
   /**
    * Add a vertex to split an edge of the feature currently being edited
    * See {@link FeatureModel.addVertexToNearestSegment}
@@ -163,6 +1097,25 @@ export class FeatureListModel extends Model({
     }
   }
 
+  /**
+   * Add a vertex to a feature by splitting one of its edges.
+   * See {@link FeatureModel.splitEdge}
+   *
+   * @param position The position of the new vertex, which will be snapped to other
+   *                 features if snapping is enabled
+   * @param id Feature ID
+   * @param index The index of the vertex at the start of the edge in the feature
+   */
+  @modelAction
+  splitEdge(position: Position, id: RnmgeID, index: number) {
+    const feature = this.findFeature(id);
+    if (feature) {
+      feature.splitEdge(this.snapPosition(position), index);
+    } else {
+      console.warn(`No feature found with ID ${id}.`);
+    }
+  }
+
   /**
    * Whether there is a feature being edited, and that feature can have
    * vertices removed.
@@ -176,6 +1129,20 @@ export class FeatureListModel extends Model({
     }
   }
 
+  /**
+   * Whether there is a feature being edited, and that feature can have
+   * the vertex at the given index removed.
+   * See {@link FeatureModel.canRemoveVertexAt}
+   * @param index The index of the vertex in the feature
+   */
+  canRemoveVertexAt(index: number): boolean {
+    if (this.rawGeometryEditableFeature?.canRemoveVertexAt(index)) {
+      return true;
+    } else {
+      return false;
+    }
+  }
+
   /**
    * Delete a vertex from the feature currently being edited
    *
@@ -185,21 +1152,252 @@ export class FeatureListModel extends Model({
    * determines what types of features are used to create the list of points
    * currently being edited.
    *
-   * @param index The index of the vertex in the feature
+   * @param index The index of the vertex in the feature, or the indices of several
+   *              vertices to remove as a single change (see {@link FeatureModel.removeVertices})
    */
   @modelAction
-  removeVertex(index: number) {
+  removeVertex(index: number | Array<number>) {
     if (this.rawGeometryEditableFeature) {
       /**
        * Ask the feature to remove the vertex.
        * The feature will check whether vertex removal is possible.
        */
-      this.rawGeometryEditableFeature.removeVertex(index);
+      if (Array.isArray(index)) {
+        this.rawGeometryEditableFeature.removeVertices(index);
+      } else {
+        this.rawGeometryEditableFeature.removeVertex(index);
+      }
     } else {
       console.warn('There is no editable feature.');
     }
   }
 
+  /**
+   * Add a vertex to the hole being drawn in the feature currently being edited
+   * See {@link FeatureModel.addHoleVertex}
+   * @param vertex The new vertex for the hole
+   */
+  @modelAction
+  addHoleVertex(vertex: Position) {
+    if (this.rawGeometryEditableFeature) {
+      this.rawGeometryEditableFeature.addHoleVertex(this.snapPosition(vertex));
+    } else {
+      console.warn('No editable features to modify.');
+    }
+  }
+
+  /**
+   * Whether there is a feature being edited, and the hole being drawn
+   * in that feature can be closed.
+   */
+  @computed
+  get canCloseHole(): boolean {
+    if (this.rawGeometryEditableFeature?.canCloseHole) {
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  /**
+   * Close the hole being drawn in the feature currently being edited
+   * See {@link FeatureModel.closeHole}
+   */
+  @modelAction
+  closeHole() {
+    if (this.rawGeometryEditableFeature) {
+      this.rawGeometryEditableFeature.closeHole();
+    } else {
+      console.warn('No editable features to modify.');
+    }
+  }
+
+  /**
+   * Add a vertex to the part being drawn in the feature currently being edited
+   * See {@link FeatureModel.addPartVertex}
+   * @param vertex The new vertex for the part
+   */
+  @modelAction
+  addPartVertex(vertex: Position) {
+    if (this.rawGeometryEditableFeature) {
+      this.rawGeometryEditableFeature.addPartVertex(this.snapPosition(vertex));
+    } else {
+      console.warn('No editable features to modify.');
+    }
+  }
+
+  /**
+   * Whether there is a feature being edited, and the part being drawn
+   * in that feature can be closed.
+   */
+  @computed
+  get canClosePart(): boolean {
+    if (this.rawGeometryEditableFeature?.canClosePart) {
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  /**
+   * Close the part being drawn in the feature currently being edited
+   * See {@link FeatureModel.closePart}
+   */
+  @modelAction
+  closePart() {
+    if (this.rawGeometryEditableFeature) {
+      this.rawGeometryEditableFeature.closePart();
+    } else {
+      console.warn('No editable features to modify.');
+    }
+  }
+
+  /**
+   * Remove the part containing a vertex from a multi-geometry feature
+   * See {@link FeatureModel.removePart}
+   * @param id Feature ID
+   * @param index The index of the vertex in the feature
+   */
+  @modelAction
+  removePartWithVertex(id: RnmgeID, index: number) {
+    const feature = this.findFeature(id);
+    if (feature) {
+      feature.removePart(feature.partIndexOfVertex(index));
+    } else {
+      console.warn(`No feature found with ID ${id}.`);
+    }
+  }
+
+  /**
+   * Remove the part closest to a position from a multi-geometry feature
+   * See {@link FeatureModel.removePart}
+   * @param id Feature ID
+   * @param position The position
+   */
+  @modelAction
+  removePartNearPosition(id: RnmgeID, position: Position) {
+    const feature = this.findFeature(id);
+    if (feature) {
+      feature.removePart(feature.partIndexNearPosition(position));
+    } else {
+      console.warn(`No feature found with ID ${id}.`);
+    }
+  }
+
+  /**
+   * Add a vertex to the cut line that will be used to split the features being edited,
+   * or start a new cut line. The cut line is stored as a new polyline feature.
+   * See {@link splitEditableFeatures}
+   * @param vertex The new vertex for the cut line
+   */
+  @modelAction
+  addCutLineVertex(vertex: Position) {
+    const cutLine = this.rawNewFeature;
+    if (cutLine) {
+      cutLine.addVertex(this.snapPosition(vertex));
+    } else {
+      this.addNewPoint(vertex, 'LineString');
+    }
+  }
+
+  /**
+   * Compute the result of splitting the features being edited along the cut line
+   * @return `cutLine` is the cut line, and `pieces` maps the features that would be split
+   *         to the geometry of their pieces
+   */
+  @computed
+  private get splitResult(): {
+    cutLine?: FeatureModel;
+    pieces: Map<FeatureModel, Array<LineString | Polygon>>;
+  } {
+    const pieces = new Map<FeatureModel, Array<LineString | Polygon>>();
+    const cutLine = this.rawNewFeature;
+    if (!cutLine || !cutLine.isCompleteFeature) {
+      return { pieces };
+    }
+    const coordinates = toJS(
+      (cutLine.geojson.geometry as LineString).coordinates
+    );
+    this.features.forEach((val) => {
+      if (val.stage === FeatureLifecycleStage.EditShape) {
+        // Copy the geometry, as positions cannot be shared between multiple parts of the state tree
+        const result = splitGeometry(toJS(val.geojson.geometry), coordinates);
+        if (result) {
+          pieces.set(val, result);
+        }
+      }
+    });
+    return { cutLine, pieces };
+  }
+
+  /**
+   * Whether there is a cut line that divides at least one of the features being edited
+   */
+  @computed
+  get canSplit(): boolean {
+    return this.splitResult.pieces.size > 0;
+  }
+
+  /**
+   * Replace each feature being edited that is divided by the cut line
+   * with new features, one for each piece of the feature, and remove the cut line.
+   *
+   * Each piece is a single polygon or line string, even if the original feature
+   * was a multi-geometry feature, and receives a copy of the original feature's
+   * properties. Shapes that are edited using handles, such as circles,
+   * become ordinary polygons.
+   *
+   * All changes form a single step in the undo history.
+   */
+  @modelAction
+  splitEditableFeatures() {
+    const { cutLine, pieces } = this.splitResult;
+    if (pieces.size === 0) {
+      console.warn(
+        'The cut line does not divide any of the features being edited.'
+      );
+      return;
+    }
+    this.features = flatten(
+      this.features.map((val) => {
+        if (val === cutLine) {
+          return [];
+        }
+        const geometries = pieces.get(val);
+        if (!geometries) {
+          return [val];
+        }
+        return geometries.map(
+          (geometry) =>
+            new FeatureModel({
+              stage: FeatureLifecycleStage.EditShape,
+              geojson: {
+                type: 'Feature',
+                geometry,
+                properties: toJS(val.geojson.properties),
+              },
+              finalType: geometry.type,
+            })
+        );
+      })
+    );
+  }
+
+  /**
+   * Remove any cut line that has not been used to split features.
+   * The change is not recorded in the undo history, so this function should only
+   * be called at the end of a geometry modification session.
+   */
+  @modelAction
+  discardCutLine() {
+    this.undoManager!.withoutUndo(() => {
+      remove(
+        this.features,
+        (val) => val.stage === FeatureLifecycleStage.NewShape
+      );
+    });
+  }
+
   /**
    * Call this function to reset the undo/redo history at the end of
    * a geometry modification session.
@@ -207,12 +1405,16 @@ export class FeatureListModel extends Model({
    */
   @modelAction
   endEditingSession() {
+    snappingContext.get(this)?.clearSnapTarget();
     this.undoManager!.withoutUndo(() => {
       /**
        * Finalize all geometry
        * Note that this step is done before clearing the undo/redo history.
        */
       this.features.forEach((val, index) => {
+        // Incomplete holes and parts are discarded
+        val.discardHoleDraft();
+        val.discardPartDraft();
         if (!val.isCompleteFeature) {
           console.warn(
             `Feature at index ${index} with model ID ${val.$modelId} is not a complete ${val.finalType}.`
@@ -295,6 +1497,14 @@ export class FeatureListModel extends Model({
     return this.undoManager!.canUndo || this.undoManager!.canRedo;
   }
 
+  /**
+   * Problems that make the geometry of any features being created or edited invalid
+   */
+  @computed
+  get hotFeatureProblems(): Array<GeometryProblem> {
+    return uniq(flatten(this.features.map((val) => val.geometryProblems)));
+  }
+
   /**
    * Whether the undo and redo histories are both empty
    */
@@ -305,10 +1515,14 @@ export class FeatureListModel extends Model({
 
   /**
    * Computes the list of draggable points (points or vertices currently being edited)
-   * by concatenating the draggable points of all currently editable features.
+   * by concatenating the draggable points of all currently editable features,
+   * or the {@link transformHandles} while whole features are being transformed.
    */
   @computed
   get draggablePositions(): Array<DraggablePosition> {
+    if (controlsContext.get(this)?.hasTransformMode) {
+      return this.transformHandles;
+    }
     /**
      * Empty arrays will be removed by `flatten`.
      */
@@ -316,12 +1530,41 @@ export class FeatureListModel extends Model({
   }
 
   /**
-   * Returns any features that should be rendered in the "hot" map layer.
+   * Measurements of the features that are being drawn or edited
+   * (see {@link FeatureModel.measurement}), combined, or `null` if there
+   * are no such features
+   */
+  @computed
+  get measurement(): Measurement | null {
+    return combineMeasurements(
+      this.features
+        .map((val) => val.measurement)
+        .filter((val): val is Measurement => val !== null)
+    );
+  }
+
+  /**
+   * Returns any features that should be rendered in the "hot" map layer,
+   * including any preview of the result of {@link resampleEditableFeature}
+   * or {@link bufferEditableFeatures}, a preview of the plots created by
+   * {@link generatePlots}, and guide lines for constrained drawing
    */
   @computed
   get hotFeatures(): RenderFeatureCollection {
+    const previewFeatures = flatten(
+      [
+        this.resamplePreviewFeature,
+        ...this.bufferPreviewFeatures,
+        ...this.plotGridPreviewFeatures,
+      ].map((feature) => feature?.hotFeatures ?? [])
+    );
+    if (this.constraintGuideFeature) {
+      previewFeatures.push(this.constraintGuideFeature);
+    }
     return featureCollection(
-      flatten(this.features.map((feature) => feature.hotFeatures))
+      flatten(this.features.map((feature) => feature.hotFeatures)).concat(
+        previewFeatures
+      )
     );
   }
 
@@ -351,7 +1594,7 @@ export class FeatureListModel extends Model({
   @computed
   get allGeoJSON(): FeatureCollection<EditableGeometry> {
     return featureCollection(
-      this.features.map((feature) => feature.safeGeoJSON)
+      this.features.map((feature) => feature.exportGeoJSON)
     );
   }
 
@@ -364,11 +1607,12 @@ export class FeatureListModel extends Model({
    */
   @modelAction
   addNewPoint(position: Position, finalType: EditableGeometryType = 'Point') {
+    const snappedPosition = this.snapPosition(position);
     const internalAddPoint = () => {
       this.features.push(
         new FeatureModel({
           stage: FeatureLifecycleStage.NewShape,
-          geojson: point(position),
+          geojson: point(snappedPosition),
           finalType,
         })
       );
@@ -381,6 +1625,74 @@ export class FeatureListModel extends Model({
     }
   }
 
+  /**
+   * Add the vertices of a line traced by the user to the end of the new polyline,
+   * or start a new polyline with the vertices if there is no new polyline.
+   * Each traced line is a single step in the undo history.
+   * The vertices are not snapped to other features.
+   *
+   * @param positions The vertices of the traced line
+   * @param finalType The type of geometry to start if there is no new feature,
+   *                  such as a polygon when recording a track around an area
+   */
+  @modelAction
+  addFreehandStroke(
+    positions: Array<Position>,
+    finalType: 'LineString' | 'Polygon' = 'LineString'
+  ) {
+    if (positions.length === 0) {
+      console.warn('There are no vertices to add.');
+      return;
+    }
+    let vertices = positions;
+    let feature = this.rawNewFeature;
+    if (!feature) {
+      feature = new FeatureModel({
+        stage: FeatureLifecycleStage.NewShape,
+        geojson: point([...positions[0]]),
+        finalType,
+      });
+      this.features.push(feature);
+      vertices = positions.slice(1);
+    }
+    const newFeature = feature;
+    vertices.forEach((val) => {
+      newFeature.addVertex([...val]);
+    });
+  }
+
+  /**
+   * Add a new shape that is edited using handles, such as a circle,
+   * to the collection of features. The shape starts out as a point,
+   * and becomes a polygon when a second vertex is added.
+   * See {@link FeatureModel.addVertex}
+   *
+   * @param inputPosition The centre of a circle, or the first corner of a rectangle
+   * @param type The semantic type of the shape
+   */
+  @modelAction
+  addNewSemanticShape(inputPosition: Position, type: SemanticShape['type']) {
+    const position = this.snapPosition(inputPosition);
+    // Copy the position, as it cannot be shared between multiple parts of the state tree
+    let semanticShape: SemanticShape;
+    switch (type) {
+      case 'Circle':
+        semanticShape = { type, center: [...position], radius: 0 };
+        break;
+      case 'Rectangle':
+        semanticShape = { type, corners: [[...position], [...position]] };
+        break;
+    }
+    this.features.push(
+      new FeatureModel({
+        stage: FeatureLifecycleStage.NewShape,
+        geojson: point(position),
+        finalType: 'Polygon',
+        semanticShape,
+      })
+    );
+  }
+
   /**
    * Remove all new features
    */
@@ -450,6 +1762,17 @@ export class FeatureListModel extends Model({
           );
         }
         feature.stage = FeatureLifecycleStage.View;
+        const controls = controlsContext.get(this);
+        if (
+          controls &&
+          (controls.clipToBoundary || controls.subtractNeighbours)
+        ) {
+          this.clipFeatures(
+            [feature],
+            controls.clipToBoundary,
+            controls.subtractNeighbours
+          );
+        }
       } else {
         console.warn('There are no new features to confirm.');
       }
@@ -518,6 +1841,10 @@ export class FeatureListModel extends Model({
          * The ID of the corresponding {@link FeatureModel}
          */
         id: RnmgeID;
+        /**
+         * The semantic type of the feature
+         */
+        semanticType: SemanticGeometryType;
       }
     | undefined {
     const feature = this.rawFocusedFeature;
@@ -525,6 +1852,7 @@ export class FeatureListModel extends Model({
       return {
         geojson: toJS(feature.geojson),
         id: feature.$modelId,
+        semanticType: feature.semanticType,
       };
     }
     return undefined;
@@ -561,6 +1889,15 @@ export class FeatureListModel extends Model({
     return undefined;
   }
 
+  /**
+   * Retrieve the semantic type of any feature whose metadata is currently
+   * to be edited
+   */
+  @computed
+  get draftMetadataSemanticType(): SemanticGeometryType | undefined {
+    return this.draftMetadataFeature?.semanticType;
+  }
+
   /**
    * Update any metadata currently being edited
    *
@@ -609,8 +1946,10 @@ export class FeatureListModel extends Model({
     this.undoManager!.withoutUndo(() => {
       const feature = this.findFeature(id);
       if (feature) {
+        pull(this.multiSelectionOrder, id);
         if (feature.stage === FeatureLifecycleStage.View) {
           feature.stage = FeatureLifecycleStage.SelectMultiple;
+          this.multiSelectionOrder.push(id);
         } else if (feature.stage === FeatureLifecycleStage.SelectMultiple) {
           feature.stage = FeatureLifecycleStage.View;
         } else {
@@ -696,8 +2035,37 @@ export class FeatureListModel extends Model({
   }
 
   /**
-   * Whether there is one complex shape in a multiple selection mode,
-   * and no other features are selected
+   * Whether there is one line string, polygon, multi-line string, or multi-polygon
+   * in a multiple selection mode, and no other features are selected
+   */
+  @computed
+  get canResampleSelected() {
+    return (
+      this.hasOneSelectedComplexShapeOnly &&
+      this.rawSelectedFeatures[0].geojson.geometry.type !== 'MultiPoint'
+    );
+  }
+
+  /**
+   * Put all selected features into a geometry editing lifecycle stage,
+   * so that they can be moved, rotated, and scaled together
+   */
+  @modelAction
+  selectedToEditable() {
+    this.undoManager!.withoutUndo(() => {
+      if (this.selectedFeaturesCount > 0) {
+        this.rawSelectedFeatures.forEach((val) => {
+          val.stage = FeatureLifecycleStage.EditShape;
+        });
+      } else {
+        console.warn(`There are no selected features.`);
+      }
+    });
+  }
+
+  /**
+   * Whether there is one complex shape (a line string, polygon, or multi-geometry feature)
+   * in a multiple selection mode, and no other features are selected
    */
   @computed
   get hasOneSelectedComplexShapeOnly() {
@@ -705,7 +2073,8 @@ export class FeatureListModel extends Model({
     return (
       arr.length === 1 &&
       (arr[0].geojson.geometry.type === 'Polygon' ||
-        arr[0].geojson.geometry.type === 'LineString')
+        arr[0].geojson.geometry.type === 'LineString' ||
+        arr[0].isMultiFeature)
     );
   }
 
@@ -723,6 +2092,116 @@ export class FeatureListModel extends Model({
     });
   }
 
+  /**
+   * Whether there is one line string in a multiple selection mode,
+   * and no other features are selected
+   */
+  @computed
+  get hasOneSelectedLineStringOnly() {
+    let arr = this.rawSelectedFeatures;
+    return arr.length === 1 && arr[0].geojson.geometry.type === 'LineString';
+  }
+
+  /**
+   * Put a single selected line string into a geometry editing lifecycle stage
+   */
+  @modelAction
+  selectedLineStringToEditable() {
+    this.undoManager!.withoutUndo(() => {
+      if (this.hasOneSelectedLineStringOnly) {
+        this.rawSelectedFeatures[0].stage = FeatureLifecycleStage.EditShape;
+      } else {
+        console.warn(`There must be one and only one selected line string.`);
+      }
+    });
+  }
+
+  /**
+   * Whether there is one polygon in a multiple selection mode,
+   * and no other features are selected. Polygons that are edited using handles,
+   * such as circles, are excluded, because they cannot have holes.
+   */
+  @computed
+  get hasOneSelectedPolygonOnly() {
+    let arr = this.rawSelectedFeatures;
+    return (
+      arr.length === 1 &&
+      arr[0].geojson.geometry.type === 'Polygon' &&
+      !arr[0].hasHandles
+    );
+  }
+
+  /**
+   * Put a single selected polygon or multi-polygon, including shapes that are
+   * edited using handles, into a geometry editing lifecycle stage
+   */
+  @modelAction
+  selectedAreaToEditable() {
+    this.undoManager!.withoutUndo(() => {
+      const id = this.oneSelectedAreaID;
+      if (id) {
+        this.findFeature(id)!.stage = FeatureLifecycleStage.EditShape;
+      } else {
+        console.warn(
+          `There must be one and only one selected polygon or multi-polygon.`
+        );
+      }
+    });
+  }
+
+  /**
+   * Put a single selected polygon into a geometry editing lifecycle stage
+   */
+  @modelAction
+  selectedPolygonToEditable() {
+    this.undoManager!.withoutUndo(() => {
+      if (this.hasOneSelectedPolygonOnly) {
+        this.rawSelectedFeatures[0].stage = FeatureLifecycleStage.EditShape;
+      } else {
+        console.warn(`There must be one and only one selected polygon.`);
+      }
+    });
+  }
+
+  /**
+   * Whether there is one multi-geometry feature in a multiple selection mode,
+   * and no other features are selected
+   */
+  @computed
+  get hasOneSelectedMultiFeatureOnly() {
+    let arr = this.rawSelectedFeatures;
+    return arr.length === 1 && arr[0].isMultiFeature;
+  }
+
+  /**
+   * Whether there is a feature being edited, and that feature
+   * can have a part removed
+   */
+  @computed
+  get canRemovePart(): boolean {
+    if (this.rawGeometryEditableFeature?.canRemovePart) {
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  /**
+   * Put a single selected multi-geometry feature into a geometry editing lifecycle stage
+   */
+  @modelAction
+  selectedMultiFeatureToEditable() {
+    this.undoManager!.withoutUndo(() => {
+      if (this.hasOneSelectedMultiFeatureOnly) {
+        this.rawSelectedFeatures[0].stage = FeatureLifecycleStage.EditShape;
+      } else {
+        console.warn(
+          `There must be one and only one selected multi-geometry feature.`
+        );
+      }
+    });
+  }
+
   /**
    * Put features in a geometry editing lifecycle stage into a selected stage
    * @param stage The selection stage to apply
@@ -766,6 +2245,342 @@ export class FeatureListModel extends Model({
     });
   }
 
+  /**
+   * Returns a deep copy of all selected GeoJSON features
+   */
+  @computed
+  get selectedGeoJSON(): Array<EditableFeature> {
+    return this.rawSelectedFeatures.map((feature) => feature.exportGeoJSON);
+  }
+
+  /**
+   * Add copies of features to the collection, in a multiple selection stage,
+   * and deselect all other features. Copies of shapes that are edited using handles,
+   * such as circles, are edited using handles (see {@link FeatureModel.exportGeoJSON}).
+   *
+   * @param geojson The features to add, which must not be shared with other parts of the state tree
+   */
+  @modelAction
+  pasteFeatures(geojson: Array<EditableFeature>) {
+    this.deselectAll();
+    geojson.forEach((feature) => {
+      this.features.push(
+        featureFromGeoJSON(feature, FeatureLifecycleStage.SelectMultiple)
+      );
+    });
+  }
+
+  /**
+   * Whether there are multiple selected features, and all of them are
+   * polygons or multi-polygons, such that they can be merged together
+   */
+  @computed
+  get canMergeSelected(): boolean {
+    const arr = this.rawSelectedFeatures;
+    return (
+      arr.length > 1 &&
+      every(
+        arr,
+        (val) =>
+          val.geojson.geometry.type === 'Polygon' ||
+          val.geojson.geometry.type === 'MultiPolygon'
+      )
+    );
+  }
+
+  /**
+   * Replace the selected polygons with a single feature whose geometry is their union.
+   * The new feature is selected, and takes the place of the first selected feature
+   * in the collection. Shapes that are edited using handles, such as circles,
+   * become ordinary polygons.
+   *
+   * @param mergeMetadata A function that decides the properties of the new feature.
+   *                      If not provided, the new feature receives a copy of the
+   *                      properties of the first selected feature.
+   */
+  @modelAction
+  mergeSelected(mergeMetadata?: MergeMetadataCb) {
+    if (!this.canMergeSelected) {
+      console.warn(
+        `There must be multiple selected features, and they must all be polygons.`
+      );
+      return;
+    }
+    const selected = this.rawSelectedFeatures;
+    // Copy the geometry, as positions cannot be shared between multiple parts of the state tree
+    const geometry = mergePolygons(
+      selected.map((val) =>
+        toJS(val.geojson.geometry as Polygon | MultiPolygon)
+      )
+    );
+    if (!geometry) {
+      console.warn(`The union of the selected features is empty.`);
+      return;
+    }
+    let properties: GeoJsonProperties;
+    if (mergeMetadata) {
+      properties = mergeMetadata(selected.map((val) => val.safeGeoJSON));
+    } else {
+      properties = toJS(selected[0].geojson.properties);
+    }
+    const merged = new FeatureModel({
+      stage: selected[0].stage,
+      geojson: {
+        type: 'Feature',
+        geometry,
+        properties,
+      },
+      finalType: geometry.type,
+    });
+    this.replaceSelected(merged);
+  }
+
+  /**
+   * Replace all features in a selected lifecycle stage with a single feature,
+   * which takes the place of the first selected feature in the collection
+   *
+   * @param replacement The new feature
+   */
+  private replaceSelected(replacement: FeatureModel) {
+    const selected = this.rawSelectedFeatures;
+    this.features = flatten(
+      this.features.map((val) => {
+        if (val === selected[0]) {
+          return [replacement];
+        } else if (selected.includes(val)) {
+          return [];
+        }
+        return [val];
+      })
+    );
+  }
+
+  /**
+   * The conversions that can be applied to the features in a multiple selection mode
+   * (see {@link convertSelected}). A single polyline can be closed,
+   * a single polygon can be opened, and multiple points can be joined,
+   * or enclosed in their convex hull if they do not lie on a line.
+   */
+  @computed
+  get selectedConversions(): Array<GeometryConversion> {
+    const arr = this.rawSelectedFeatures;
+    if (
+      arr.length === 0 ||
+      arr.some((val) => val.stage !== FeatureLifecycleStage.SelectMultiple)
+    ) {
+      return [];
+    }
+    if (arr.length === 1) {
+      const geometry = arr[0].geojson.geometry;
+      if (geometry.type === 'LineString' && closeLine(toJS(geometry))) {
+        return ['closeLine'];
+      } else if (geometry.type === 'Polygon') {
+        return ['openPolygon'];
+      }
+    } else if (every(arr, (val) => val.geojson.geometry.type === 'Point')) {
+      if (convexHull(arr.map((val) => toJS(val.geojson.geometry as Point)))) {
+        return ['joinPoints', 'convexHull'];
+      }
+      return ['joinPoints'];
+    }
+    return [];
+  }
+
+  /**
+   * Replace the selected features with a single feature of a different geometry type.
+   * The new feature is selected, and takes the place of the first selected feature
+   * in the collection. Shapes that are edited using handles, such as circles,
+   * become ordinary polylines when they are opened.
+   *
+   * @param conversion The conversion to apply, which must be one of {@link selectedConversions}
+   * @param mergeMetadata A function that decides the properties of the new feature
+   *                      when it is created from multiple points. If not provided,
+   *                      or if the new feature is created from a single feature,
+   *                      the new feature receives a copy of the properties of the first
+   *                      selected feature.
+   */
+  @modelAction
+  convertSelected(
+    conversion: GeometryConversion,
+    mergeMetadata?: MergeMetadataCb
+  ) {
+    if (!this.selectedConversions.includes(conversion)) {
+      console.warn(
+        `The selected features cannot be converted using the ${conversion} conversion.`
+      );
+      return;
+    }
+    // Points are joined in the order in which they were selected
+    const selected = sortBy(this.rawSelectedFeatures, (val) => {
+      const index = this.multiSelectionOrder.indexOf(val.$modelId);
+      return index === -1 ? Infinity : index;
+    });
+    // Copy the geometry, as positions cannot be shared between multiple parts of the state tree
+    const geometries = selected.map((val) => toJS(val.geojson.geometry));
+    let geometry: EditableGeometry | null = null;
+    switch (conversion) {
+      case 'closeLine':
+        geometry = closeLine(geometries[0] as LineString);
+        break;
+      case 'openPolygon':
+        geometry = openPolygon(geometries[0] as Polygon);
+        break;
+      case 'joinPoints':
+        geometry = joinPoints(geometries as Array<Point>);
+        break;
+      case 'convexHull':
+        geometry = convexHull(geometries as Array<Point>);
+        break;
+    }
+    if (!geometry) {
+      return;
+    }
+    let properties: GeoJsonProperties;
+    if (mergeMetadata && selected.length > 1) {
+      properties = mergeMetadata(selected.map((val) => val.safeGeoJSON));
+    } else {
+      properties = toJS(selected[0].geojson.properties);
+    }
+    this.replaceSelected(
+      new FeatureModel({
+        stage: FeatureLifecycleStage.SelectMultiple,
+        geojson: {
+          type: 'Feature',
+          geometry,
+          properties,
+        },
+        finalType: geometry.type,
+      })
+    );
+  }
+
+  /**
+   * The ID of the selected feature, if there is one polygon or multi-polygon
+   * in a multiple selection mode, and no other features are selected
+   */
+  @computed
+  get oneSelectedAreaID(): RnmgeID | null {
+    const arr = this.rawSelectedFeatures;
+    if (
+      arr.length === 1 &&
+      arr[0].stage === FeatureLifecycleStage.SelectMultiple &&
+      isAreaFeature(arr[0])
+    ) {
+      return arr[0].$modelId;
+    }
+    return null;
+  }
+
+  /**
+   * Retrieve the polygon designated as the clipping boundary
+   * (see {@link ControlsModel.clipBoundaryID}), if it exists
+   */
+  @computed
+  private get clipBoundary(): FeatureModel | undefined {
+    const id = controlsContext.get(this)?.clipBoundaryID;
+    if (!id) {
+      return undefined;
+    }
+    return this.features.find(
+      (val) => val.$modelId === id && isAreaFeature(val)
+    );
+  }
+
+  /**
+   * Clip polygons to the clipping boundary and remove the parts of them
+   * that overlap other polygons. Polygons whose area would be entirely removed
+   * are left unchanged. Polygons that are divided into separate parts
+   * become multi-polygons, and shapes that are edited using handles,
+   * such as circles, become ordinary polygons if clipping changes them.
+   *
+   * @param targets The features to clip. Features that are not polygons,
+   *                and the clipping boundary itself, are ignored.
+   * @param toBoundary Whether to clip the features to the clipping boundary
+   * @param subtractNeighbours Whether to remove the parts of the features that
+   *                           overlap polygons other than the features and the
+   *                           clipping boundary
+   */
+  private clipFeatures(
+    targets: Array<FeatureModel>,
+    toBoundary: boolean,
+    subtractNeighbours: boolean
+  ) {
+    const clipBoundary = this.clipBoundary;
+    // Copy geometry, as positions cannot be shared between multiple parts of the state tree
+    const boundary =
+      toBoundary && clipBoundary
+        ? toJS(clipBoundary.geojson.geometry as Polygon | MultiPolygon)
+        : null;
+    const neighbours = subtractNeighbours
+      ? this.features
+          .filter(
+            (val) =>
+              isAreaFeature(val) &&
+              val !== clipBoundary &&
+              !targets.includes(val)
+          )
+          .map((val) => toJS(val.geojson.geometry as Polygon | MultiPolygon))
+      : [];
+    targets.forEach((feature) => {
+      if (feature === clipBoundary || !isAreaFeature(feature)) {
+        return;
+      }
+      const geometry = toJS(feature.geojson.geometry as Polygon | MultiPolygon);
+      const clipped = clipPolygon(geometry, boundary, neighbours);
+      if (!clipped) {
+        console.warn(
+          `Feature with model ID ${feature.$modelId} lies entirely outside the boundary or inside other polygons, and will not be clipped.`
+        );
+      } else if (clipped === geometry) {
+        return;
+      } else if (clipped.type === feature.geojson.geometry.type) {
+        feature.replaceGeometry(clipped);
+      } else {
+        this.features.splice(
+          this.features.indexOf(feature),
+          1,
+          new FeatureModel({
+            stage: feature.stage,
+            geojson: {
+              type: 'Feature',
+              geometry: clipped,
+              properties: toJS(feature.geojson.properties),
+            },
+            finalType: clipped.type,
+          })
+        );
+      }
+    });
+  }
+
+  /**
+   * Whether any selected features are polygons that can be clipped,
+   * other than the clipping boundary
+   */
+  @computed
+  get canClipSelected(): boolean {
+    const clipBoundary = this.clipBoundary;
+    return this.rawSelectedFeatures.some(
+      (val) => val !== clipBoundary && isAreaFeature(val)
+    );
+  }
+
+  /**
+   * Clip the selected polygons to the clipping boundary, if there is one,
+   * and remove the parts of them that overlap polygons that are not selected.
+   * See {@link clipFeatures} for details.
+   */
+  @modelAction
+  clipSelected() {
+    if (!this.canClipSelected) {
+      console.warn(
+        'There are no selected polygons to clip, other than the clipping boundary.'
+      );
+      return;
+    }
+    this.clipFeatures(this.rawSelectedFeatures, true, true);
+  }
+
   /**
    * Delete features in a selected lifecycle stage
    */
@@ -3,19 +3,31 @@ import { idProp, model, Model, modelAction, prop } from 'mobx-keystone';
 import filter from 'lodash/filter';
 import flatten from 'lodash/flatten';
 import reject from 'lodash/reject';
-import { point, lineString, polygon } from '@turf/helpers';
+import uniq from 'lodash/uniq';
+import { featureCollection, point, lineString, polygon } from '@turf/helpers';
 import rewind from '@turf/rewind';
 import type { Position, Point, LineString, Polygon, Feature } from 'geojson';
-import { coordReduce } from '@turf/meta';
+import { coordEach, coordReduce } from '@turf/meta';
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import destination from '@turf/destination';
+import distance from '@turf/distance';
+import nearestPoint from '@turf/nearest-point';
 import nearestPointOnLine from '@turf/nearest-point-on-line';
+import pointToLineDistance from '@turf/point-to-line-distance';
 
 import { controlsContext } from './ModelContexts';
 import type {
   DraggablePosition,
   EditableFeature,
+  EditableGeometry,
   EditableGeometryType,
+  GeometryProblem,
+  Measurement,
+  NonPointGeometry,
   RenderFeature,
   RenderProperties,
+  SemanticGeometryType,
+  SemanticShape,
 } from '../type/geometry';
 import {
   FeatureLifecycleStage,
@@ -24,6 +36,121 @@ import {
   GeometryRole,
 } from '../type/geometry';
 import { globalToLocalIndices } from '../util/collections';
+import {
+  isDegenerateSemanticShape,
+  semanticShapeToPolygon,
+  withSemanticShapeField,
+} from '../util/geometry/semantic';
+import { applyTransform } from '../util/geometry/transform';
+import type { SimilarityTransform } from '../util/geometry/transform';
+import { findGeometryProblems } from '../util/geometry/validation';
+import { measureGeometry, sequenceLength } from '../util/geometry/measure';
+import type { ConstraintReference } from '../util/geometry/constraints';
+
+/**
+ * The number of unique vertices in a linear ring
+ * @param ring The coordinates of the linear ring
+ * @return The length of the ring, excluding the duplicate position at the end of the ring
+ */
+function uniqueVertexCount(ring: Array<Position>) {
+  if (ring.length > 0) {
+    // Account for the duplicate position at the end of a linear ring
+    return ring.length - 1;
+  } else {
+    return 0;
+  }
+}
+
+/**
+ * Determine the geometrical role of a vertex of a line string
+ * @param index The index of the vertex in the line string
+ * @param length The number of vertices in the line string
+ */
+function lineStringVertexRole(index: number, length: number) {
+  let role = CoordinateRole.LineInner;
+  if (index === 0) {
+    role = CoordinateRole.LineStart;
+  } else if (index === 1 && length > 3) {
+    role = CoordinateRole.LineSecond;
+  } else if (index === length - 2 && length > 2) {
+    role = CoordinateRole.LineSecondLast;
+  } else if (index === length - 1 && length > 1) {
+    role = CoordinateRole.LineLast;
+  }
+  return role;
+}
+
+/**
+ * The bearing, in degrees, from the centre of a circle
+ * to the handle used to change the radius of the circle
+ */
+const CIRCLE_RADIUS_HANDLE_BEARING = 90;
+
+/**
+ * List the handles used to edit a shape
+ * @param shape The semantic properties of the shape
+ * @return The positions and roles of the handles. A degenerate shape has only one handle.
+ */
+function semanticShapeHandles(
+  shape: SemanticShape
+): Array<{ coordinates: Position; role: CoordinateRole }> {
+  switch (shape.type) {
+    case 'Circle': {
+      const result = [
+        { coordinates: shape.center, role: CoordinateRole.CircleCenter },
+      ];
+      if (!isDegenerateSemanticShape(shape)) {
+        result.push({
+          coordinates: destination(
+            shape.center,
+            shape.radius,
+            CIRCLE_RADIUS_HANDLE_BEARING,
+            { units: 'kilometers' }
+          ).geometry.coordinates,
+          role: CoordinateRole.CircleRadius,
+        });
+      }
+      return result;
+    }
+    case 'Rectangle':
+      if (isDegenerateSemanticShape(shape)) {
+        return [
+          {
+            coordinates: shape.corners[0],
+            role: CoordinateRole.RectangleCorner,
+          },
+        ];
+      }
+      // The corners are listed counterclockwise
+      return semanticShapeToPolygon(shape)[0]
+        .slice(0, -1)
+        .map((coordinates) => {
+          return { coordinates, role: CoordinateRole.RectangleCorner };
+        });
+  }
+}
+
+/**
+ * A sequence of vertices in a non-point feature, such as
+ * a line string, or a linear ring of a polygon
+ */
+interface VertexSequence {
+  /**
+   * The coordinates of the vertices. Linear rings include
+   * the duplicate position at the end of the ring.
+   */
+  coordinates: Array<Position>;
+  /**
+   * The index of the part of a multi-geometry feature that contains
+   * the sequence, or zero for a single geometry feature
+   */
+  part: number;
+  /**
+   * The index of the linear ring in its polygon, or `-1` for a line string.
+   * `0` denotes the exterior boundary of a polygon, whereas greater values denote holes.
+   */
+  ring: number;
+}
 
 /**
  * An editable GeoJSON feature
@@ -46,11 +173,151 @@ export class FeatureModel extends Model({
    * vertices, its `geojson` attribute will be a GeoJSON Point or LineString.
    */
   finalType: prop<EditableGeometryType>(),
+  /**
+   * The vertices of a hole that is being drawn in this feature, which must be a polygon.
+   * The vertices become a linear ring of the polygon when the hole is closed.
+   * See {@link closeHole}
+   */
+  holeDraft: prop<Array<Position>>(() => []),
+  /**
+   * The vertices of a part that is being drawn in this feature, which must be
+   * a multi-line string or a multi-polygon. The vertices become a new part of the feature
+   * when the part is closed. See {@link closePart}
+   */
+  partDraft: prop<Array<Position>>(() => []),
+  /**
+   * The semantic properties of a shape that is edited using handles,
+   * such as a circle or a rectangle, rather than by editing its vertices.
+   * `geojson` contains a polygon approximating the shape.
+   * `undefined` for other shapes.
+   */
+  semanticShape: prop<SemanticShape | undefined>(),
   /**
    * Unique identifier generated by mobx-keystone
    */
   $modelId: idProp,
 }) {
+  /**
+   * Helper function that lists the sequences of vertices in this feature,
+   * in the order in which their vertices are indexed.
+   * Returns an empty list for point and multi-point features.
+   *
+   * The coordinates arrays are not copies, and so can be modified to update this feature.
+   */
+  private get vertexSequences(): Array<VertexSequence> {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'MultiPoint':
+        return [];
+      case 'LineString':
+        return [
+          { coordinates: this.geojson.geometry.coordinates, part: 0, ring: -1 },
+        ];
+      case 'MultiLineString':
+        return this.geojson.geometry.coordinates.map((line, part) => {
+          return { coordinates: line, part, ring: -1 };
+        });
+      case 'Polygon':
+        return this.geojson.geometry.coordinates.map((coordinates, ring) => {
+          return { coordinates, part: 0, ring };
+        });
+      case 'MultiPolygon':
+        return flatten(
+          this.geojson.geometry.coordinates.map((rings, part) =>
+            rings.map((coordinates, ring) => {
+              return { coordinates, part, ring };
+            })
+          )
+        );
+    }
+  }
+
+  /**
+   * Find the sequence of vertices containing a vertex of this feature,
+   * which must be a non-point feature, and the index of the vertex in the sequence.
+   * Throws an error if the index is out of range.
+   *
+   * @param index The index of the vertex in this feature's list of vertices
+   * @return `sequence` is the sequence of vertices, and `innerIndex` is the index
+   *         of the vertex in the sequence.
+   */
+  private sequenceIndices(index: number) {
+    const sequences = this.vertexSequences;
+    const { innerIndex, outerIndex } = globalToLocalIndices(index, (i) => {
+      if (i >= sequences.length) {
+        return null;
+      }
+      if (sequences[i].ring < 0) {
+        return sequences[i].coordinates.length;
+      } else {
+        return uniqueVertexCount(sequences[i].coordinates);
+      }
+    });
+    return { innerIndex, sequence: sequences[outerIndex] };
+  }
+
+  /**
+   * Retrieve the linear rings of a polygon in this feature,
+   * which must be a polygon or a multi-polygon
+   * @param part The index of the polygon in a multi-polygon
+   */
+  private polygonRings(part: number): Array<Array<Position>> {
+    switch (this.geojson.geometry.type) {
+      case 'Polygon':
+        return this.geojson.geometry.coordinates;
+      case 'MultiPolygon':
+        return this.geojson.geometry.coordinates[part];
+      default:
+        throw new Error(
+          `A feature with geometry type ${this.geojson.geometry.type} has no linear rings.`
+        );
+    }
+  }
+
+  /**
+   * The total number of vertices in this feature, excluding the duplicate
+   * positions at the ends of linear rings and any vertices being drawn
+   */
+  @computed
+  get vertexCount(): number {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+        return 1;
+      case 'MultiPoint':
+        return this.geojson.geometry.coordinates.length;
+      default:
+        return this.vertexSequences.reduce((sum, sequence) => {
+          if (sequence.ring < 0) {
+            return sum + sequence.coordinates.length;
+          } else {
+            return sum + uniqueVertexCount(sequence.coordinates);
+          }
+        }, 0);
+    }
+  }
+
+  /**
+   * Whether the given position is exactly equal to an existing vertex
+   * of this feature, or of any hole or part being drawn in this feature.
+   *
+   * @param vertex The position to test
+   */
+  private hasVertex(vertex: Position) {
+    return (
+      coordReduce(
+        this.geojson,
+        (containsPoint, currentCoordinates) => {
+          return (
+            containsPoint || comparer.structural(currentCoordinates, vertex)
+          );
+        },
+        false
+      ) ||
+      this.holeDraft.some((val) => comparer.structural(val, vertex)) ||
+      this.partDraft.some((val) => comparer.structural(val, vertex))
+    );
+  }
+
   /**
    * Re-position a point or vertex in this feature.
    * Throws an error if the index is out of range.
@@ -69,6 +336,14 @@ export class FeatureModel extends Model({
       throw new Error(`Index ${index} is negative.`);
     }
 
+    /**
+     * Shapes that are edited using handles are reshaped as a whole
+     */
+    if (this.semanticShape) {
+      this.dragHandle(position, index);
+      return;
+    }
+
     /**
      * Update the point's coordinates
      */
@@ -87,42 +362,339 @@ export class FeatureModel extends Model({
         }
         this.geojson.geometry.coordinates.splice(index, 1, position);
         break;
-      case 'Polygon': {
+      case 'MultiPoint':
+        if (index >= this.geojson.geometry.coordinates.length) {
+          throw new Error(
+            `Index ${index} into multi-point feature is not less than ${this.geojson.geometry.coordinates.length}.`
+          );
+        }
+        this.geojson.geometry.coordinates.splice(index, 1, position);
+        break;
+      case 'Polygon':
+      case 'MultiLineString':
+      case 'MultiPolygon': {
         /**
-         * A polygon is composed of one or more linear rings.
-         * Find the index of the ring and the index of the point within the ring
+         * These shapes are composed of one or more line strings or linear rings.
+         * Find the sequence of vertices and the index of the point within the sequence
          * corresponding to `index`.
          * Throws an exception if `index` is out of range.
          */
-        const { innerIndex, outerIndex } = globalToLocalIndices(index, (i) => {
-          if (i >= this.geojson.geometry.coordinates.length) {
-            return null;
-          }
-          if (
-            (this.geojson.geometry.coordinates[i] as Array<Position>).length > 0
-          ) {
-            // Account for the duplicate position at the end of a linear ring
-            return (
-              (this.geojson.geometry.coordinates[i] as Array<Position>).length -
-              1
-            );
-          } else {
-            return 0;
-          }
-        });
+        const { innerIndex, sequence } = this.sequenceIndices(index);
         // Update the point's coordinates
-        this.geojson.geometry.coordinates[outerIndex].splice(
-          innerIndex,
-          1,
-          position
+        sequence.coordinates.splice(innerIndex, 1, position);
+        // Update the duplicate coordinate of a linear ring if needed
+        if (sequence.ring >= 0 && innerIndex === 0) {
+          sequence.coordinates.splice(-1, 1, position);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Retrieve the position of a point or vertex in this feature.
+   * Throws an error if the index is out of range.
+   *
+   * @param index The index of the point in this feature's list of points.
+   *              See {@link dragPosition}.
+   * @return A copy of the position, or `undefined` if this feature is a shape
+   *         that is edited using handles
+   */
+  vertexPosition(index: number): Position | undefined {
+    if (this.semanticShape) {
+      return undefined;
+    }
+    let position: Position | undefined;
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+        if (index === 0) {
+          position = this.geojson.geometry.coordinates;
+        }
+        break;
+      case 'LineString':
+      case 'MultiPoint':
+        position = this.geojson.geometry.coordinates[index];
+        break;
+      case 'Polygon':
+      case 'MultiLineString':
+      case 'MultiPolygon': {
+        const { innerIndex, sequence } = this.sequenceIndices(index);
+        position = sequence.coordinates[innerIndex];
+        break;
+      }
+    }
+    if (!position) {
+      throw new Error(
+        `Index ${index} is out of range for feature with ID ${this.$modelId}.`
+      );
+    }
+    return [...position];
+  }
+
+  /**
+   * Whether any point or vertex of this feature is exactly equal to the given position.
+   * Unlike {@link hasVertex}, this function ignores any hole or part being drawn.
+   *
+   * @param position The position to test
+   */
+  sharesVertex(position: Position): boolean {
+    return coordReduce(
+      this.geojson,
+      (containsPoint, currentCoordinates) => {
+        return (
+          containsPoint || comparer.structural(currentCoordinates, position)
         );
-        // Update the duplicate coordinate if needed
-        if (innerIndex === 0) {
-          this.geojson.geometry.coordinates[outerIndex].splice(-1, 1, position);
+      },
+      false as boolean
+    );
+  }
+
+  /**
+   * Move all points and vertices of this feature that are exactly equal to a given
+   * position, such as the vertices on a boundary shared with another feature.
+   * The duplicate positions at the ends of linear rings are moved as well.
+   *
+   * @param from The current position of the vertices
+   * @param to The new position of the vertices
+   */
+  @modelAction
+  moveSharedVertices(from: Position, to: Position) {
+    if (this.semanticShape) {
+      console.warn(
+        `Feature with ID ${this.$modelId} is edited using handles, so its vertices cannot be moved individually.`
+      );
+      return;
+    }
+    // Copy the position, as it cannot be shared between multiple parts of the state tree
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+        if (comparer.structural(this.geojson.geometry.coordinates, from)) {
+          this.geojson.geometry.coordinates = [...to];
         }
         break;
+      case 'MultiPoint':
+        this.moveSharedVerticesInSequence(
+          this.geojson.geometry.coordinates,
+          from,
+          to
+        );
+        break;
+      default:
+        this.vertexSequences.forEach((sequence) => {
+          this.moveSharedVerticesInSequence(sequence.coordinates, from, to);
+        });
+        break;
+    }
+  }
+
+  /**
+   * Helper function for {@link moveSharedVertices} that moves vertices
+   * in a single sequence of positions
+   *
+   * @param coordinates The sequence of positions to modify
+   * @param from The current position of the vertices
+   * @param to The new position of the vertices
+   */
+  private moveSharedVerticesInSequence(
+    coordinates: Array<Position>,
+    from: Position,
+    to: Position
+  ) {
+    coordinates.forEach((val, index) => {
+      if (comparer.structural(val, from)) {
+        coordinates.splice(index, 1, [...to]);
+      }
+    });
+  }
+
+  /**
+   * Replace the geometry of this feature with geometry of the same type,
+   * such as a simplified version of its current geometry.
+   * A shape that is edited using handles becomes an ordinary shape.
+   *
+   * @param geometry The new geometry, which must not be shared with other objects
+   */
+  @modelAction
+  replaceGeometry(geometry: EditableGeometry) {
+    if (geometry.type !== this.geojson.geometry.type) {
+      throw new Error(
+        `Geometry of type ${geometry.type} cannot replace the ${this.geojson.geometry.type} geometry of feature with ID ${this.$modelId}.`
+      );
+    }
+    this.semanticShape = undefined;
+    this.geojson.geometry = geometry;
+  }
+
+  /**
+   * Move, rotate, and scale this entire feature.
+   *
+   * Circles remain circles. Rectangles remain rectangles unless they are rotated,
+   * in which case they become ordinary polygons, because rectangles must be aligned
+   * with lines of longitude and latitude.
+   *
+   * @param transform The transformation to apply to all points and vertices
+   */
+  @modelAction
+  transform(transform: SimilarityTransform) {
+    if (this.semanticShape) {
+      const shape = this.semanticShape;
+      switch (shape.type) {
+        case 'Circle':
+          this.setSemanticShape({
+            ...shape,
+            center: applyTransform(toJS(shape.center), transform),
+            radius: shape.radius * transform.scale,
+          });
+          return;
+        case 'Rectangle':
+          if (transform.rotation === 0) {
+            this.setSemanticShape({
+              ...shape,
+              corners: [
+                applyTransform(toJS(shape.corners[0]), transform),
+                applyTransform(toJS(shape.corners[1]), transform),
+              ],
+            });
+            return;
+          }
+          this.semanticShape = undefined;
+          break;
       }
     }
+    coordEach(this.geojson, (coord) => {
+      coord.splice(0, coord.length, ...applyTransform(toJS(coord), transform));
+    });
+  }
+
+  /**
+   * Whether this feature is a shape that is edited using handles,
+   * such as a circle or a rectangle, rather than by editing its vertices
+   */
+  @computed
+  get hasHandles(): boolean {
+    return !!this.semanticShape;
+  }
+
+  /**
+   * The semantic type of this feature, which is the GeoJSON geometry type
+   * for features other than shapes that are edited using handles
+   */
+  @computed
+  get semanticType(): SemanticGeometryType {
+    if (this.semanticShape) {
+      return this.semanticShape.type;
+    }
+    return this.geojson.geometry.type;
+  }
+
+  /**
+   * Update the semantic properties of this feature, which must be a shape
+   * that is edited using handles, and update its geometry accordingly.
+   * A degenerate shape is represented by a point.
+   * @param shape The new semantic properties
+   */
+  private setSemanticShape(shape: SemanticShape) {
+    this.semanticShape = shape;
+    const options = {
+      bbox: toJS(this.geojson.bbox),
+      id: this.geojson.id,
+    };
+    if (isDegenerateSemanticShape(shape)) {
+      this.geojson = point(
+        [...semanticShapeHandles(shape)[0].coordinates],
+        toJS(this.geojson.properties),
+        options
+      );
+    } else {
+      this.geojson = polygon(
+        semanticShapeToPolygon(shape),
+        toJS(this.geojson.properties),
+        options
+      );
+    }
+  }
+
+  /**
+   * Move a handle of this feature, which must be a shape that is edited using handles.
+   * Dragging the centre of a circle moves the circle, whereas dragging the other handle
+   * of the circle changes its radius. Dragging a corner of a rectangle resizes
+   * the rectangle while keeping the opposite corner in place.
+   * Throws an error if the index is out of range.
+   * Does nothing if the shape would lose all of its area.
+   *
+   * @param position The new position of the handle
+   * @param index The index of the handle
+   */
+  private dragHandle(position: Position, index: number) {
+    const shape = this.semanticShape!;
+    const handles = semanticShapeHandles(shape);
+    if (index >= handles.length) {
+      throw new Error(
+        `Index ${index} into the handles of a ${shape.type} is not less than ${handles.length}.`
+      );
+    }
+    let newShape: SemanticShape;
+    switch (shape.type) {
+      case 'Circle':
+        if (index === 0) {
+          newShape = { ...shape, center: position };
+        } else {
+          newShape = {
+            ...shape,
+            radius: distance(shape.center, position, { units: 'kilometers' }),
+          };
+        }
+        break;
+      case 'Rectangle':
+        newShape = {
+          ...shape,
+          corners: [
+            toJS(handles[(index + 2) % handles.length].coordinates),
+            position,
+          ],
+        };
+        break;
+    }
+    if (isDegenerateSemanticShape(newShape)) {
+      console.warn(
+        `The ${shape.type} with ID ${this.$modelId} cannot be reshaped to have no area.`
+      );
+      return;
+    }
+    this.setSemanticShape(newShape);
+  }
+
+  /**
+   * Define the second point of this feature, which must be a shape that is edited
+   * using handles. See {@link addVertex}
+   *
+   * @param vertex A point on the boundary of a circle,
+   *               or the second corner of a rectangle
+   */
+  private addHandleVertex(vertex: Position) {
+    const shape = this.semanticShape!;
+    let newShape: SemanticShape;
+    switch (shape.type) {
+      case 'Circle':
+        newShape = {
+          ...shape,
+          radius: distance(shape.center, vertex, { units: 'kilometers' }),
+        };
+        break;
+      case 'Rectangle':
+        newShape = {
+          ...shape,
+          corners: [toJS(shape.corners[0]), vertex],
+        };
+        break;
+    }
+    if (isDegenerateSemanticShape(newShape)) {
+      console.warn(
+        `The vertex would give the ${shape.type} with ID ${this.$modelId} no area.`
+      );
+      return;
+    }
+    this.setSemanticShape(newShape);
   }
 
   /**
@@ -131,6 +703,10 @@ export class FeatureModel extends Model({
    * (`this.finalType`).
    * Does nothing if the vertex is exactly equal to an existing vertex.
    *
+   * For a shape that is edited using handles, the vertex defines the radius
+   * of a circle, or the corner of a rectangle opposite to the first corner,
+   * and `index` is ignored. The vertex is ignored if the shape would have no area.
+   *
    * @param vertex The new vertex
    * @param index The index at which to insert the vertex in this feature's list of vertices.
    *              The index is the index of the vertex after it is inserted.
@@ -149,17 +725,11 @@ export class FeatureModel extends Model({
       );
     }
     // Avoid duplicating an existing vertex
-    if (
-      coordReduce(
-        this.geojson,
-        (containsPoint, currentCoordinates) => {
-          return (
-            containsPoint || comparer.structural(currentCoordinates, vertex)
-          );
-        },
-        false
-      )
-    ) {
+    if (this.hasVertex(vertex)) {
+      return;
+    }
+    if (this.semanticShape) {
+      this.addHandleVertex(vertex);
       return;
     }
     /**
@@ -172,6 +742,12 @@ export class FeatureModel extends Model({
             throw new Error(
               `this.finalType is ${this.finalType}, so no vertices can be added`
             );
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
+            throw new Error(
+              `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
+            );
           case 'LineString':
           case 'Polygon':
             // Turn the point into a line
@@ -209,6 +785,9 @@ export class FeatureModel extends Model({
 
           switch (this.finalType) {
             case 'Point':
+            case 'MultiPoint':
+            case 'MultiLineString':
+            case 'MultiPolygon':
               throw new Error(
                 `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
               );
@@ -261,6 +840,12 @@ export class FeatureModel extends Model({
           }
         }
         break;
+      case 'MultiPoint':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        throw new Error(
+          `Vertices cannot be inserted by index into a feature with geometry type ${this.geojson.geometry.type}. Use addVertexToNearestSegment() or addPartVertex().`
+        );
     }
   }
 
@@ -274,12 +859,23 @@ export class FeatureModel extends Model({
    * For an incomplete line string, the vertex is always added after the single existing vertex
    * to create the first edge.
    * For a complete line string, the vertex always splits an interior edge.
+   * For a polygon, the vertex is added to whichever linear ring (exterior boundary or hole)
+   * has the closest edge. Similarly, for a multi-line string or a multi-polygon,
+   * the vertex is added to whichever part has the closest edge.
+   * Vertices cannot be added to multi-point features, which have no edges,
+   * or to shapes that are edited using handles.
    *
    * @param position The point that the new vertex will be closer to than any other point along
    *                 the shape's edges.
    */
   @modelAction
   addVertexToNearestSegment(position: Position) {
+    if (this.semanticShape) {
+      console.warn(
+        `Vertices cannot be added to the ${this.semanticShape.type} with ID ${this.$modelId}, which is edited using handles.`
+      );
+      return;
+    }
     /**
      * Add a vertex immediately to a point, or find the edges of a non-point shape
      */
@@ -292,10 +888,22 @@ export class FeatureModel extends Model({
       case 'LineString':
         lineFeature = this.geojson as Feature<LineString>;
         break;
+      case 'MultiPoint':
+        console.warn(
+          `A feature with geometry type ${this.geojson.geometry.type} has no edges to split.`
+        );
+        return;
       case 'Polygon':
-        // Note: Holes are ignored
+        if (this.geojson.geometry.coordinates.length > 1) {
+          this.addVertexToNearestSequenceSegment(position);
+          return;
+        }
         lineFeature = lineString(this.geojson.geometry.coordinates[0]);
         break;
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        this.addVertexToNearestSequenceSegment(position);
+        return;
     }
 
     // Find the point at which to insert the new vertex
@@ -316,6 +924,104 @@ export class FeatureModel extends Model({
     }
   }
 
+  /**
+   * Add a vertex to this feature in the middle of the sequence of vertices
+   * of an edge, so that it splits the edge into two edges.
+   * Throws an error if the index does not refer to the start of an edge.
+   * Does nothing if the vertex is exactly equal to an existing vertex,
+   * or if this feature is a shape that is edited using handles.
+   *
+   * @param vertex The new vertex, which does not need to lie on the edge
+   * @param index The index of the vertex at the start of the edge
+   *              in this feature's list of vertices. The new vertex will
+   *              have the following index.
+   */
+  @modelAction
+  splitEdge(vertex: Position, index: number) {
+    if (this.semanticShape) {
+      console.warn(
+        `Vertices cannot be added to the ${this.semanticShape.type} with ID ${this.$modelId}, which is edited using handles.`
+      );
+      return;
+    }
+    if (this.hasVertex(vertex)) {
+      return;
+    }
+    if (
+      this.geojson.geometry.type === 'Point' ||
+      this.geojson.geometry.type === 'MultiPoint'
+    ) {
+      throw new Error(
+        `A feature with geometry type ${this.geojson.geometry.type} has no edges to split.`
+      );
+    }
+    if (index < 0) {
+      throw new Error(`Index ${index} is negative.`);
+    }
+    const { innerIndex, sequence } = this.sequenceIndices(index);
+    // The last position of a linear ring is a duplicate, so the last vertex always starts an edge
+    if (innerIndex >= sequence.coordinates.length - 1) {
+      throw new Error(
+        `Vertex ${index} of the feature with ID ${this.$modelId} is not the start of an edge.`
+      );
+    }
+    sequence.coordinates.splice(innerIndex + 1, 0, vertex);
+  }
+
+  /**
+   * Helper function for {@link addVertexToNearestSegment} that handles polygons with holes,
+   * and multi-geometry features. Adds a vertex to the line string or linear ring
+   * with the edge that is closest to the given position.
+   *
+   * @param position The point that the new vertex will be closer to than any other point along
+   *                 the feature's edges.
+   */
+  private addVertexToNearestSequenceSegment(position: Position) {
+    const sequences = this.vertexSequences;
+    // Find the closest edge over all sequences of vertices
+    let nearest: {
+      sequence: number;
+      index: number;
+      coordinates: Position;
+    } | null = null;
+    let nearestDistance = Infinity;
+    for (
+      let sequenceIndex = 0;
+      sequenceIndex < sequences.length;
+      sequenceIndex++
+    ) {
+      const insertionPoint = nearestPointOnLine(
+        lineString(sequences[sequenceIndex].coordinates),
+        position
+      );
+      const { index, dist } = insertionPoint.properties;
+      if (
+        typeof index === 'number' &&
+        typeof dist === 'number' &&
+        dist < nearestDistance
+      ) {
+        nearestDistance = dist;
+        nearest = {
+          sequence: sequenceIndex,
+          index,
+          coordinates: insertionPoint.geometry.coordinates,
+        };
+      }
+    }
+    if (!nearest) {
+      console.warn(
+        'No index in insertionPoint to use for inserting a vertex into the shape.'
+      );
+      return;
+    }
+    const { sequence, index, coordinates } = nearest;
+    if (this.hasVertex(coordinates)) {
+      return;
+    }
+    // The new vertex splits an edge, so it never replaces the duplicate first coordinate of a linear ring
+    sequences[sequence].coordinates.splice(index + 1, 0, coordinates);
+  }
+
   /**
    * Remove a vertex from this feature.
    * Throws an error if this feature is of an inappropriate geometry type.
@@ -327,6 +1033,10 @@ export class FeatureModel extends Model({
    *              The length of a linear ring of coordinates is considered to be the number
    *              of unique vertices it contains, not the actual length of the coordinates array
    *              (which is one greater because of the duplicate of the first position).
+   *              Negative indices only refer to the exterior boundary of a polygon,
+   *              whereas non-negative indices can refer to the vertices of holes.
+   *              If a hole would degenerate without the vertex, the entire hole is removed.
+   *              Negative indices are not supported for multi-line strings and multi-polygons.
    */
   @modelAction
   removeVertex(index: number = -1) {
@@ -349,16 +1059,31 @@ export class FeatureModel extends Model({
       case 'Point':
         throw new Error(`No vertices can be removed from a point`);
       case 'LineString':
+      case 'MultiPoint':
         this.geojson.geometry.coordinates.splice(index, 1);
         break;
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        this.removeSequenceVertex(index);
+        break;
       case 'Polygon':
         {
+          if (this.isHoleVertexIndex(index)) {
+            this.removeSequenceVertex(index);
+            return;
+          }
           // Remove the point from the polygon's first linear ring
+          const len = this.geojson.geometry.coordinates[0].length;
+          if (len <= 4) {
+            console.warn(
+              `The exterior boundary of the feature with ID ${this.$modelId}, cannot lose vertices without degenerating.`
+            );
+            return;
+          }
           /**
            * Handle indices as described
            * in the function's interface documentation
            */
-          const len = this.geojson.geometry.coordinates[0].length;
           let finalIndex = index;
           let fixLast = false; // Whether to fix the duplicate first coordinate
           if (index <= -(len - 1)) {
@@ -391,6 +1116,176 @@ export class FeatureModel extends Model({
     }
   }
 
+  /**
+   * Remove several vertices from this feature as a single change.
+   * Vertices that cannot be removed without the feature degenerating
+   * (see {@link canRemoveVertexAt}) are kept.
+   *
+   * @param indices The indices of the vertices in this feature's list of vertices.
+   *                Negative indices are not supported.
+   */
+  @modelAction
+  removeVertices(indices: Array<number>) {
+    // Later vertices are removed first, so that earlier indices remain valid
+    const sorted = uniq(indices).sort((a, b) => b - a);
+    for (let i = 0; i < sorted.length; i++) {
+      const index = sorted[i];
+      if (!this.canRemoveVertexAt(index)) {
+        console.warn(
+          `The vertex at index ${index} of the feature with ID ${this.$modelId} cannot be removed without the feature degenerating.`
+        );
+        continue;
+      }
+      if (
+        this.geojson.geometry.type === 'Polygon' ||
+        this.geojson.geometry.type === 'MultiPolygon'
+      ) {
+        const { innerIndex, sequence } = this.sequenceIndices(index);
+        if (sequence.ring > 0 && sequence.coordinates.length <= 4) {
+          // The whole hole will be removed, including any other vertices of the hole
+          const start = index - innerIndex;
+          while (i + 1 < sorted.length && sorted[i + 1] >= start) {
+            i++;
+          }
+        }
+      }
+      this.removeVertex(index);
+    }
+  }
+
+  /**
+   * Find the vertices of this feature that are inside a polygon
+   *
+   * @param area The polygon
+   * @return The indices of the vertices in this feature's list of vertices,
+   *         or an empty list if this feature is a shape that is edited using handles
+   */
+  verticesInPolygon(area: Polygon): Array<number> {
+    if (this.semanticShape) {
+      return [];
+    }
+    const result: Array<number> = [];
+    for (let i = 0; i < this.vertexCount; i++) {
+      if (booleanPointInPolygon(this.vertexPosition(i) as Position, area)) {
+        result.push(i);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Helper function for {@link removeVertex} that handles the vertices of holes,
+   * and of multi-geometry features.
+   * Does nothing if the line string or polygon containing the vertex would degenerate.
+   *
+   * @param index The index of the vertex to remove in this feature's list of vertices.
+   *              Negative indices are not supported.
+   */
+  private removeSequenceVertex(index: number) {
+    if (index < 0) {
+      console.warn(
+        `Index ${index} is negative, but negative indices are not supported for a feature with geometry type ${this.geojson.geometry.type}.`
+      );
+      return;
+    }
+    const { innerIndex, sequence } = this.sequenceIndices(index);
+    if (!this.canRemoveSequenceVertex(sequence)) {
+      console.warn(
+        `The part of the feature with ID ${this.$modelId} containing the vertex at index ${index} cannot lose vertices without degenerating.`
+      );
+      return;
+    }
+    if (sequence.ring > 0 && sequence.coordinates.length <= 4) {
+      // The hole would degenerate, so remove it
+      this.polygonRings(sequence.part).splice(sequence.ring, 1);
+      return;
+    }
+    sequence.coordinates.splice(innerIndex, 1);
+    if (sequence.ring >= 0 && innerIndex === 0) {
+      // Fix the duplicate first coordinate
+      sequence.coordinates.splice(-1, 1, toJS(sequence.coordinates[0]));
+    }
+  }
+
+  /**
+   * Returns `true` if a vertex can be removed from the sequence of vertices.
+   * A vertex can always be removed from a hole, because a degenerate hole
+   * is removed entirely.
+   *
+   * @param sequence A sequence of vertices in this feature
+   */
+  private canRemoveSequenceVertex(sequence: VertexSequence) {
+    if (sequence.ring < 0) {
+      return sequence.coordinates.length > 2;
+    } else if (sequence.ring === 0) {
+      return sequence.coordinates.length > 4;
+    } else {
+      return true;
+    }
+  }
+
+  /**
+   * Add a vertex to the end of the hole that is being drawn in this feature.
+   * Does nothing if this feature is not a polygon, or if the vertex
+   * is exactly equal to an existing vertex.
+   *
+   * @param vertex The new vertex
+   */
+  @modelAction
+  addHoleVertex(vertex: Position) {
+    if (this.geojson.geometry.type !== 'Polygon') {
+      console.warn(
+        `Holes cannot be added to a feature with geometry type ${this.geojson.geometry.type}.`
+      );
+      return;
+    }
+    if (this.hasVertex(vertex)) {
+      return;
+    }
+    this.holeDraft.push(vertex);
+  }
+
+  /**
+   * Tests whether the hole that is being drawn in this feature has enough
+   * vertices to be closed.
+   */
+  @computed
+  get canCloseHole() {
+    return (
+      this.geojson.geometry.type === 'Polygon' && this.holeDraft.length >= 3
+    );
+  }
+
+  /**
+   * Convert the hole that is being drawn in this feature into a linear ring
+   * of this feature's polygon.
+   * Does nothing if the hole does not have enough vertices.
+   * See {@link canCloseHole}
+   */
+  @modelAction
+  closeHole() {
+    if (!this.canCloseHole) {
+      console.warn(
+        `The hole being drawn in the feature with ID ${this.$modelId} cannot be closed.`
+      );
+      return;
+    }
+    const ring = this.holeDraft.map((c) => toJS(c));
+    ring.push(ring[0]);
+    (this.geojson.geometry as Polygon).coordinates.push(ring);
+    this.holeDraft = [];
+  }
+
+  /**
+   * Discard any hole that is being drawn in this feature
+   */
+  @modelAction
+  discardHoleDraft() {
+    if (this.holeDraft.length > 0) {
+      this.holeDraft = [];
+    }
+  }
+
   /**
    * Helper function that lists the renderable coordinates of this
    * feature and determines their geometrical roles
@@ -416,6 +1311,12 @@ export class FeatureModel extends Model({
       role: CoordinateRole;
       index: number;
     }> = [];
+    if (this.semanticShape) {
+      // The handles of the shape take the place of its vertices
+      return semanticShapeHandles(this.semanticShape).map((val, index) => {
+        return { ...val, index };
+      });
+    }
     switch (this.geojson.geometry.type) {
       case 'Point':
         switch (this.finalType) {
@@ -449,11 +1350,20 @@ export class FeatureModel extends Model({
               },
             ];
             break;
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
+            throw new Error(
+              `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
+            );
         }
         break;
       case 'LineString':
         switch (this.finalType) {
           case 'Point':
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
             throw new Error(
               `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
             );
@@ -463,19 +1373,9 @@ export class FeatureModel extends Model({
           case 'LineString':
             result = this.geojson.geometry.coordinates.map(
               (val, index, arr) => {
-                let role = CoordinateRole.LineInner;
-                if (index === 0) {
-                  role = CoordinateRole.LineStart;
-                } else if (index === 1 && arr.length > 3) {
-                  role = CoordinateRole.LineSecond;
-                } else if (index === arr.length - 2 && arr.length > 2) {
-                  role = CoordinateRole.LineSecondLast;
-                } else if (index === arr.length - 1 && arr.length > 1) {
-                  role = CoordinateRole.LineLast;
-                }
                 return {
                   coordinates: val,
-                  role,
+                  role: lineStringVertexRole(index, arr.length),
                   index,
                 };
               }
@@ -553,14 +1453,101 @@ export class FeatureModel extends Model({
               return {
                 ...val,
                 index:
-                  (this.geojson.geometry.coordinates[0] as Position[]).length +
-                  index,
+                  uniqueVertexCount(
+                    this.geojson.geometry.coordinates[0] as Position[]
+                  ) + index,
               };
             });
             result = coordinates.concat(holeCoordinates);
           } else {
             result = coordinates;
           }
+          /**
+           * Any hole that is being drawn follows the vertices of the polygon
+           */
+          const draftStartIndex = this.vertexCount;
+          result = result.concat(
+            this.holeDraft.map((val, index, arr) => {
+              let role = CoordinateRole.PolygonHole;
+              if (index === 0) {
+                role = CoordinateRole.PolygonHoleStart;
+              } else if (index === arr.length - 1) {
+                role = CoordinateRole.PolygonHoleSecondLast;
+              }
+              return {
+                coordinates: val,
+                role,
+                index: draftStartIndex + index,
+              };
+            })
+          );
+        }
+        break;
+      /**
+       * Extract the points of a multi-point for display as circles
+       */
+      case 'MultiPoint':
+        result = this.geojson.geometry.coordinates.map((val, index) => {
+          return {
+            coordinates: val,
+            role: CoordinateRole.PointFeature,
+            index,
+          };
+        });
+        break;
+      /**
+       * Extract the vertices of a multi-line string or a multi-polygon for display as circles.
+       * Vertices are numbered consecutively across all parts.
+       */
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        {
+          let index = 0;
+          for (let sequence of this.vertexSequences) {
+            if (sequence.ring < 0) {
+              sequence.coordinates.forEach((val, i, arr) => {
+                result.push({
+                  coordinates: val,
+                  role: lineStringVertexRole(i, arr.length),
+                  index: index++,
+                });
+              });
+            } else {
+              // The last position in a GeoJSON linear ring is a repeat of the first, so exclude it
+              sequence.coordinates.slice(0, -1).forEach((val) => {
+                result.push({
+                  coordinates: val,
+                  role:
+                    sequence.ring === 0
+                      ? CoordinateRole.PolygonInner
+                      : CoordinateRole.PolygonHole,
+                  index: index++,
+                });
+              });
+            }
+          }
+          /**
+           * Any part that is being drawn follows the vertices of the existing parts
+           */
+          const isPolygon = this.geojson.geometry.type === 'MultiPolygon';
+          result = result.concat(
+            this.partDraft.map((val, i, arr) => {
+              let role: CoordinateRole = lineStringVertexRole(i, arr.length);
+              if (isPolygon) {
+                role = CoordinateRole.PolygonInner;
+                if (i === 0) {
+                  role = CoordinateRole.PolygonStart;
+                } else if (i === arr.length - 1) {
+                  role = CoordinateRole.PolygonSecondLast;
+                }
+              }
+              return {
+                coordinates: val,
+                role,
+                index: index + i,
+              };
+            })
+          );
         }
         break;
     }
@@ -594,6 +1581,9 @@ export class FeatureModel extends Model({
       case 'LineString':
         switch (this.finalType) {
           case 'Point':
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
             throw new Error(
               `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
             );
@@ -664,6 +1654,75 @@ export class FeatureModel extends Model({
           } else {
             result = edges;
           }
+          /**
+           * Any hole that is being drawn is open until it is closed,
+           * so its closing edge is treated as a special edge.
+           */
+          if (this.holeDraft.length > 1) {
+            result = result.concat([
+              {
+                coordinates: this.holeDraft,
+                role: LineStringRole.PolygonHole,
+              },
+            ]);
+          }
+          if (this.holeDraft.length > 2) {
+            result = result.concat([
+              {
+                coordinates: [
+                  this.holeDraft[this.holeDraft.length - 1],
+                  this.holeDraft[0],
+                ],
+                role: LineStringRole.PolygonHoleLast,
+              },
+            ]);
+          }
+        }
+        break;
+      // Multi-points have no line strings
+      case 'MultiPoint':
+        break;
+      /**
+       * Extract the line strings or edges from each part for better control
+       * over styling by displaying them separately.
+       */
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        {
+          result = this.vertexSequences.map((sequence) => {
+            let role = LineStringRole.LineStringFeature;
+            if (sequence.ring === 0) {
+              role = LineStringRole.PolygonInner;
+            } else if (sequence.ring > 0) {
+              role = LineStringRole.PolygonHole;
+            }
+            return { coordinates: sequence.coordinates, role };
+          });
+          /**
+           * Any part that is being drawn is shown in the same way as a new shape.
+           */
+          const isPolygon = this.geojson.geometry.type === 'MultiPolygon';
+          if (this.partDraft.length > 1) {
+            result = result.concat([
+              {
+                coordinates: this.partDraft,
+                role: isPolygon
+                  ? LineStringRole.PolygonInner
+                  : LineStringRole.LineStringFeature,
+              },
+            ]);
+          }
+          if (isPolygon && this.partDraft.length > 2) {
+            result = result.concat([
+              {
+                coordinates: [
+                  this.partDraft[this.partDraft.length - 1],
+                  this.partDraft[0],
+                ],
+                role: LineStringRole.PolygonLast,
+              },
+            ]);
+          }
         }
         break;
     }
@@ -685,18 +1744,21 @@ export class FeatureModel extends Model({
     if (this.geojson.geometry.type === 'Point') {
       return [];
     }
+    if (this.semanticShape && this.stage === FeatureLifecycleStage.EditShape) {
+      // Handles are draggable, and are therefore rendered in other layers
+      return [];
+    }
     if (this.isInHotStage) {
-      // Filter out any selected vertex
+      // Filter out any selected vertices
       const controls = controlsContext.get(this);
       let coordinatesData = this.coordinatesWithRoles;
       if (
         controls?.hasSelectedVertex &&
         controls.selectedVertex?.id === this.$modelId
       ) {
-        const targetIndex = controls.selectedVertex.index;
-        coordinatesData = reject(
-          coordinatesData,
-          (val) => val.index === targetIndex
+        const targetIndices = controls.selectedVertexIndices;
+        coordinatesData = reject(coordinatesData, (val) =>
+          targetIndices.includes(val.index)
         );
       }
       return coordinatesData.map((val) => {
@@ -718,32 +1780,92 @@ export class FeatureModel extends Model({
     }
   }
 
+  /**
+   * Helper function that lists the midpoints of the edges of this feature.
+   * The index of each midpoint is the index of the vertex at the start of its edge.
+   * Returns an empty list for point features and shapes that are edited using handles.
+   */
+  @computed
+  private get edgeMidpoints(): Array<{
+    /**
+     * Midpoint coordinates
+     */
+    coordinates: Position;
+    /**
+     * The role of the midpoint, which is always {@link CoordinateRole.EdgeMidpoint}
+     */
+    role: CoordinateRole;
+    /**
+     * The index of the vertex at the start of the edge
+     */
+    index: number;
+  }> {
+    if (this.semanticShape) {
+      return [];
+    }
+    const result: Array<{
+      coordinates: Position;
+      role: CoordinateRole;
+      index: number;
+    }> = [];
+    let offset = 0;
+    this.vertexSequences.forEach(({ coordinates, ring }) => {
+      // The last edge of a linear ring ends at the duplicate of the first position
+      for (let i = 0; i < coordinates.length - 1; i++) {
+        result.push({
+          coordinates: [
+            (coordinates[i][0] + coordinates[i + 1][0]) / 2,
+            (coordinates[i][1] + coordinates[i + 1][1]) / 2,
+          ],
+          role: CoordinateRole.EdgeMidpoint,
+          index: offset + i,
+        });
+      }
+      offset += ring < 0 ? coordinates.length : uniqueVertexCount(coordinates);
+    });
+    return result;
+  }
+
   /**
    * Computes the list of draggable points for this feature.
    * If this feature is in an editable state, either its point,
    * if it is a point feature, or any selected vertex, if it is not a
-   * point feature, is output.
-   * Otherwise, outputs an empty list.
+   * point feature, is output. All handles of a shape that is edited
+   * using handles are output. While vertices are being edited, the midpoints
+   * of the edges of a non-point feature are also output, for inserting vertices.
+   * Otherwise, or while whole features are being transformed or buffered,
+   * outputs an empty list.
    */
   @computed
   get draggablePositions(): Array<DraggablePosition> {
+    const controls = controlsContext.get(this);
+    if (controls?.hasTransformMode) {
+      // Whole features are transformed using handles provided by `FeatureListModel`
+      return [];
+    }
+    if (controls?.hasBufferMode) {
+      // Buffers are created from the features without changing them
+      return [];
+    }
     if (this.stage === FeatureLifecycleStage.EditShape) {
       let coordinatesData = this.coordinatesWithRoles;
-      if (this.geojson.geometry.type !== 'Point') {
-        // Filter to any selected vertex
-        const controls = controlsContext.get(this);
+      // All handles of a shape that is edited using handles are draggable
+      if (this.geojson.geometry.type !== 'Point' && !this.semanticShape) {
+        // Filter to any selected vertices
         if (
           controls?.hasSelectedVertex &&
           controls.selectedVertex?.id === this.$modelId
         ) {
-          const targetIndex = controls.selectedVertex.index;
-          coordinatesData = filter(
-            coordinatesData,
-            (val) => val.index === targetIndex
+          const targetIndices = controls.selectedVertexIndices;
+          coordinatesData = filter(coordinatesData, (val) =>
+            targetIndices.includes(val.index)
           );
         } else {
           coordinatesData = [];
         }
+        if (controls?.hasEditVerticesMode) {
+          coordinatesData = coordinatesData.concat(this.edgeMidpoints);
+        }
       }
 
       return coordinatesData.map((val) => {
@@ -760,13 +1882,19 @@ export class FeatureModel extends Model({
 
   /**
    * Helper function that generates a list of `LineString` features to display
-   * the edges of a polygon in a "hot" lifecycle stage.
-   * Returns an empty list for a non-polygon feature, or for a feature that
+   * the edges of a polygon, or the line strings of a multi-line string
+   * or a multi-polygon, in a "hot" lifecycle stage.
+   * Returns an empty list for other features, or for a feature that
    * is not in a "hot" lifecycle stage,
    */
   @computed
   private get hotEdges(): Array<RenderFeature> {
-    if (this.geojson.geometry.type === 'Polygon' && this.isInHotStage) {
+    if (
+      (this.geojson.geometry.type === 'Polygon' ||
+        this.geojson.geometry.type === 'MultiLineString' ||
+        this.geojson.geometry.type === 'MultiPolygon') &&
+      this.isInHotStage
+    ) {
       return this.lineStringsWithRoles.map((val) => {
         return lineString(
           val.coordinates.map((c) => toJS(c)),
@@ -808,6 +1936,187 @@ export class FeatureModel extends Model({
     }
   }
 
+  /**
+   * Problems that make this feature's geometry invalid.
+   * Only features in "hot" lifecycle stages are checked, because they are the
+   * features that the user can change.
+   */
+  @computed
+  get geometryProblems(): Array<GeometryProblem> {
+    if (this.isInHotStage) {
+      return findGeometryProblems(this.geojson.geometry);
+    } else {
+      return [];
+    }
+  }
+
+  /**
+   * Find the vertices that constrain the position of a vertex of this feature
+   * (see {@link DrawingConstraints}). These are the previous vertex and the vertex
+   * before it, or, for the first vertex of a line string, the next vertex
+   * and the vertex after it.
+   *
+   * @param index The index of the vertex in this feature's list of vertices,
+   *              or `undefined` for the next vertex to be drawn in this feature,
+   *              which must be a line string or polygon that is being drawn
+   * @return The reference vertices, or `null` if the vertex has no neighbours,
+   *         or if this feature is a point, a multi-point, or a shape that is edited
+   *         using handles
+   */
+  constraintReference(index?: number): ConstraintReference | null {
+    if (this.semanticShape) {
+      return null;
+    }
+    if (index === undefined) {
+      if (this.stage !== FeatureLifecycleStage.NewShape) {
+        return null;
+      }
+      let drawn: Array<Position>;
+      switch (this.geojson.geometry.type) {
+        case 'Point':
+          drawn = [this.geojson.geometry.coordinates];
+          break;
+        case 'LineString':
+          drawn = this.geojson.geometry.coordinates;
+          break;
+        case 'Polygon':
+          // Exclude the duplicate position at the end of the ring
+          drawn = this.geojson.geometry.coordinates[0].slice(0, -1);
+          break;
+        default:
+          return null;
+      }
+      return {
+        previous: drawn[drawn.length - 1],
+        beforePrevious: drawn[drawn.length - 2],
+      };
+    }
+    if (
+      this.geojson.geometry.type === 'Point' ||
+      this.geojson.geometry.type === 'MultiPoint' ||
+      index < 0 ||
+      index >= this.vertexCount
+    ) {
+      return null;
+    }
+    const {
+      innerIndex,
+      sequence: { coordinates, ring },
+    } = this.sequenceIndices(index);
+    if (ring >= 0) {
+      const count = uniqueVertexCount(coordinates);
+      return {
+        previous: coordinates[(innerIndex + count - 1) % count],
+        beforePrevious: coordinates[(innerIndex + count - 2) % count],
+      };
+    } else if (innerIndex > 0) {
+      return {
+        previous: coordinates[innerIndex - 1],
+        beforePrevious: coordinates[innerIndex - 2],
+      };
+    } else if (coordinates.length > 1) {
+      return { previous: coordinates[1], beforePrevious: coordinates[2] };
+    }
+    return null;
+  }
+
+  /**
+   * Find the edge that ends at a vertex of this feature, or that starts at the vertex
+   * if it is the first vertex of a line string
+   *
+   * @param index The index of the vertex in this feature's list of vertices
+   * @return The endpoints of the edge, or `null` if there is no such edge
+   */
+  private edgeAtVertex(index: number): [Position, Position] | null {
+    if (
+      this.geojson.geometry.type === 'Point' ||
+      this.geojson.geometry.type === 'MultiPoint' ||
+      index < 0 ||
+      index >= this.vertexCount
+    ) {
+      return null;
+    }
+    const {
+      innerIndex,
+      sequence: { coordinates, ring },
+    } = this.sequenceIndices(index);
+    if (ring >= 0) {
+      const previous =
+        innerIndex === 0 ? coordinates.length - 2 : innerIndex - 1;
+      return [coordinates[previous], coordinates[innerIndex]];
+    } else if (innerIndex > 0) {
+      return [coordinates[innerIndex - 1], coordinates[innerIndex]];
+    } else if (coordinates.length > 1) {
+      return [coordinates[0], coordinates[1]];
+    }
+    return null;
+  }
+
+  /**
+   * The edge whose length is measured: the edge ending at the selected
+   * or most recently dragged vertex of this feature, or otherwise the edge
+   * that was most recently drawn
+   */
+  @computed
+  private get measuredEdge(): [Position, Position] | null {
+    if (this.semanticShape) {
+      return null;
+    }
+    const controls = controlsContext.get(this);
+    const vertex = controls?.measuredVertex;
+    if (vertex?.id === this.$modelId) {
+      return this.edgeAtVertex(vertex.index);
+    }
+    switch (this.geojson.geometry.type) {
+      case 'LineString': {
+        const { coordinates } = this.geojson.geometry;
+        if (
+          controls?.hasExtendLineMode &&
+          this.stage === FeatureLifecycleStage.EditShape &&
+          controls.extendFromStart
+        ) {
+          return [coordinates[0], coordinates[1]];
+        } else if (
+          controls?.hasExtendLineMode ||
+          this.stage === FeatureLifecycleStage.NewShape
+        ) {
+          return [
+            coordinates[coordinates.length - 2],
+            coordinates[coordinates.length - 1],
+          ];
+        }
+        break;
+      }
+      case 'Polygon':
+        if (this.stage === FeatureLifecycleStage.NewShape) {
+          // New vertices are added before the duplicate position at the end of the ring
+          const [ring] = this.geojson.geometry.coordinates;
+          return [ring[ring.length - 3], ring[ring.length - 2]];
+        }
+        break;
+      default:
+        break;
+    }
+    return null;
+  }
+
+  /**
+   * The length, area, and perimeter of this feature, where applicable,
+   * and the length of the edge that is being drawn or edited.
+   * Only features in "hot" lifecycle stages are measured.
+   */
+  @computed
+  get measurement(): Measurement | null {
+    if (!this.isInHotStage) {
+      return null;
+    }
+    const edge = this.measuredEdge;
+    return {
+      segmentLength: edge ? sequenceLength(edge) : null,
+      ...measureGeometry(this.geojson.geometry),
+    };
+  }
+
   /**
    * Returns this feature's properties along with extra properties for rendering
    */
@@ -834,13 +2143,26 @@ export class FeatureModel extends Model({
             role = CoordinateRole.LineStart;
             break;
           case 'Polygon':
-            role = CoordinateRole.PolygonStart;
+            if (this.semanticShape) {
+              role = semanticShapeHandles(this.semanticShape)[0].role;
+            } else {
+              role = CoordinateRole.PolygonStart;
+            }
             break;
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
+            throw new Error(
+              `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
+            );
         }
         break;
       case 'LineString':
         switch (this.finalType) {
           case 'Point':
+          case 'MultiPoint':
+          case 'MultiLineString':
+          case 'MultiPolygon':
             throw new Error(
               `this.finalType is ${this.finalType}, but this.geojson.geometry.type is ${this.geojson.geometry.type}`
             );
@@ -854,6 +2176,14 @@ export class FeatureModel extends Model({
         break;
       case 'Polygon':
         break;
+      case 'MultiPoint':
+        role = CoordinateRole.PointFeature;
+        break;
+      case 'MultiLineString':
+        role = LineStringRole.LineStringFeature;
+        break;
+      case 'MultiPolygon':
+        break;
     }
     /**
      * Properties provided by this library for data-driven styling of map layers,
@@ -864,7 +2194,24 @@ export class FeatureModel extends Model({
       rnmgeIndex: index,
       rnmgeStage: this.stage,
       rnmgeRole: role,
+      rnmgeValid: this.geometryProblems.length === 0,
     };
+    /**
+     * Add any measurements, omitting those that do not apply
+     */
+    const measurement = this.measurement;
+    if (measurement) {
+      const { segmentLength, length, area, perimeter } = measurement;
+      copyProperties = {
+        ...copyProperties,
+        ...(segmentLength === null
+          ? {}
+          : { rnmgeSegmentLength: segmentLength }),
+        ...(length === null ? {} : { rnmgeLength: length }),
+        ...(area === null ? {} : { rnmgeArea: area }),
+        ...(perimeter === null ? {} : { rnmgePerimeter: perimeter }),
+      };
+    }
     /**
      * Merge with user-provided properties of the GeoJSON object
      */
@@ -912,9 +2259,16 @@ export class FeatureModel extends Model({
         case 'LineString':
           return [this.renderFeature].concat(this.fixedPositions);
         case 'Polygon':
+        case 'MultiPolygon':
           return [this.renderFeature]
             .concat(this.hotEdges)
             .concat(this.fixedPositions);
+        case 'MultiPoint':
+          // Only the points are rendered, so that they can be selected individually
+          return this.fixedPositions;
+        case 'MultiLineString':
+          // The line strings are rendered separately to show any part being drawn
+          return this.hotEdges.concat(this.fixedPositions);
       }
     } else {
       return [];
@@ -924,11 +2278,29 @@ export class FeatureModel extends Model({
   /**
    * Returns any point features that should be rendered in the "cold" map layer.
    * Otherwise returns an empty array.
+   * The points of a multi-point are returned as separate point features,
+   * which can be clustered, and which are identified by their indices.
    */
   @computed
   get coldPointFeatures(): Array<Feature<Point, RenderProperties>> {
-    if (!this.isInHotStage && this.geojson.geometry.type === 'Point') {
-      return [this.renderFeature as Feature<Point, RenderProperties>];
+    if (!this.isInHotStage) {
+      if (this.geojson.geometry.type === 'Point') {
+        return [this.renderFeature as Feature<Point, RenderProperties>];
+      } else if (this.geojson.geometry.type === 'MultiPoint') {
+        return this.geojson.geometry.coordinates.map((val, index) => {
+          return point(
+            toJS(val),
+            {
+              ...toJS(this.renderFeatureProperties),
+              rnmgeIndex: index,
+            },
+            {
+              bbox: toJS(this.geojson.bbox),
+              id: this.geojson.id,
+            }
+          );
+        });
+      }
     }
     return [];
   }
@@ -939,11 +2311,15 @@ export class FeatureModel extends Model({
    */
   @computed
   get coldNonPointFeatures(): Array<
-    Feature<LineString | Polygon, RenderProperties>
+    Feature<NonPointGeometry, RenderProperties>
   > {
-    if (!this.isInHotStage && this.geojson.geometry.type !== 'Point') {
+    if (
+      !this.isInHotStage &&
+      this.geojson.geometry.type !== 'Point' &&
+      this.geojson.geometry.type !== 'MultiPoint'
+    ) {
       return [
-        this.renderFeature as Feature<LineString | Polygon, RenderProperties>,
+        this.renderFeature as Feature<NonPointGeometry, RenderProperties>,
       ];
     }
     return [];
@@ -975,10 +2351,11 @@ export class FeatureModel extends Model({
    * without becoming a different type of geometry.
    * Also returns `false` if this feature is not complete.
    * See {@link isCompleteFeature}.
+   * Shapes that are edited using handles cannot have vertices removed.
    */
   @computed
   get canRemoveVertices() {
-    if (this.isCompleteFeature) {
+    if (this.isCompleteFeature && !this.semanticShape) {
       switch (this.geojson.geometry.type) {
         case 'Point':
           return false;
@@ -986,8 +2363,16 @@ export class FeatureModel extends Model({
           return this.geojson.geometry.coordinates.length > 2;
         case 'Polygon':
           return (
-            this.geojson.geometry.coordinates.length > 0 &&
-            this.geojson.geometry.coordinates[0].length > 4
+            this.geojson.geometry.coordinates.length > 1 ||
+            (this.geojson.geometry.coordinates.length > 0 &&
+              this.geojson.geometry.coordinates[0].length > 4)
+          );
+        case 'MultiPoint':
+          return this.geojson.geometry.coordinates.length > 1;
+        case 'MultiLineString':
+        case 'MultiPolygon':
+          return this.vertexSequences.some((sequence) =>
+            this.canRemoveSequenceVertex(sequence)
           );
       }
     } else {
@@ -995,6 +2380,290 @@ export class FeatureModel extends Model({
     }
   }
 
+  /**
+   * Returns `true` if the given vertex index refers to a vertex of a hole
+   * in this feature, which must be a polygon.
+   *
+   * @param index The index of the vertex in this feature's list of vertices
+   */
+  private isHoleVertexIndex(index: number) {
+    if (this.geojson.geometry.type !== 'Polygon') {
+      return false;
+    }
+    const rings = this.geojson.geometry.coordinates;
+    return (
+      rings.length > 1 && index >= 0 && index >= uniqueVertexCount(rings[0])
+    );
+  }
+
+  /**
+   * Returns `true` if the vertex at the given index can be removed from
+   * this feature, as per {@link removeVertex}. Removing a vertex from a hole
+   * is always possible, as the hole is removed when it would otherwise degenerate.
+   *
+   * @param index The index of the vertex in this feature's list of vertices
+   */
+  canRemoveVertexAt(index: number) {
+    if (!this.canRemoveVertices) {
+      return false;
+    }
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+        return false;
+      case 'LineString':
+      case 'MultiPoint':
+        return true;
+      case 'Polygon':
+        if (this.isHoleVertexIndex(index)) {
+          return true;
+        }
+        return this.geojson.geometry.coordinates[0].length > 4;
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        if (index < 0 || index >= this.vertexCount) {
+          return false;
+        }
+        return this.canRemoveSequenceVertex(
+          this.sequenceIndices(index).sequence
+        );
+    }
+  }
+
+  /**
+   * Tests whether this feature is a multi-geometry feature
+   */
+  @computed
+  get isMultiFeature() {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        return false;
+      case 'MultiPoint':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        return true;
+    }
+  }
+
+  /**
+   * The number of parts in this feature, which is one for a single geometry feature
+   */
+  @computed
+  get partCount() {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        return 1;
+      case 'MultiPoint':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        return this.geojson.geometry.coordinates.length;
+    }
+  }
+
+  /**
+   * Find the part of this feature that contains a vertex.
+   * Throws an error if the index is out of range.
+   *
+   * @param index The index of the vertex in this feature's list of vertices
+   * @return The index of the part in this feature, which is zero for a single geometry feature
+   */
+  partIndexOfVertex(index: number) {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        return 0;
+      case 'MultiPoint':
+        if (index < 0 || index >= this.geojson.geometry.coordinates.length) {
+          throw new Error(
+            `Index ${index} into multi-point feature is out of range.`
+          );
+        }
+        return index;
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        return this.sequenceIndices(index).sequence.part;
+    }
+  }
+
+  /**
+   * Find the part of this feature that is closest to a position.
+   * A polygon containing the position is considered to be closest to the position.
+   *
+   * @param position The position
+   * @return The index of the part in this feature, which is zero for a single geometry feature
+   */
+  partIndexNearPosition(position: Position) {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        return 0;
+      case 'MultiPoint':
+        return nearestPoint(
+          position,
+          featureCollection(
+            this.geojson.geometry.coordinates.map((c) => point(toJS(c)))
+          )
+        ).properties.featureIndex;
+      case 'MultiLineString':
+      case 'MultiPolygon': {
+        const geometry = this.geojson.geometry;
+        if (geometry.type === 'MultiPolygon') {
+          const containingIndex = geometry.coordinates.findIndex((rings) =>
+            booleanPointInPolygon(position, polygon(toJS(rings)))
+          );
+          if (containingIndex >= 0) {
+            return containingIndex;
+          }
+        }
+        // Otherwise, find the closest edge
+        let nearestPart = 0;
+        let nearestDistance = Infinity;
+        this.vertexSequences.forEach((sequence) => {
+          const edgeDistance = pointToLineDistance(
+            position,
+            lineString(toJS(sequence.coordinates))
+          );
+          if (edgeDistance < nearestDistance) {
+            nearestDistance = edgeDistance;
+            nearestPart = sequence.part;
+          }
+        });
+        return nearestPart;
+      }
+    }
+  }
+
+  /**
+   * Tests whether this feature is a multi-geometry feature with enough parts
+   * that it will not become empty if a part is removed
+   */
+  @computed
+  get canRemovePart() {
+    return this.isMultiFeature && this.partCount > 1;
+  }
+
+  /**
+   * Remove a part from this feature, which must be a multi-geometry feature.
+   * Does nothing if this feature would become empty.
+   * See {@link canRemovePart}
+   *
+   * @param index The index of the part in this feature
+   */
+  @modelAction
+  removePart(index: number) {
+    if (!this.canRemovePart) {
+      console.warn(
+        `The feature with ID ${this.$modelId} cannot lose a part without becoming empty.`
+      );
+      return;
+    }
+    if (index < 0 || index >= this.partCount) {
+      throw new Error(`Part index ${index} is out of range.`);
+    }
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        break;
+      case 'MultiPoint':
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        this.geojson.geometry.coordinates.splice(index, 1);
+        break;
+    }
+  }
+
+  /**
+   * Add a vertex to the part that is being drawn in this feature.
+   * Vertices added to a multi-point feature immediately become new parts.
+   * Does nothing if this feature is not a multi-geometry feature, or if the vertex
+   * is exactly equal to an existing vertex.
+   *
+   * @param vertex The new vertex
+   */
+  @modelAction
+  addPartVertex(vertex: Position) {
+    if (this.hasVertex(vertex)) {
+      return;
+    }
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+        console.warn(
+          `Parts cannot be added to a feature with geometry type ${this.geojson.geometry.type}.`
+        );
+        break;
+      case 'MultiPoint':
+        this.geojson.geometry.coordinates.push(vertex);
+        break;
+      case 'MultiLineString':
+      case 'MultiPolygon':
+        this.partDraft.push(vertex);
+        break;
+    }
+  }
+
+  /**
+   * Tests whether the part that is being drawn in this feature has enough
+   * vertices to be added to this feature.
+   */
+  @computed
+  get canClosePart() {
+    switch (this.geojson.geometry.type) {
+      case 'Point':
+      case 'LineString':
+      case 'Polygon':
+      case 'MultiPoint':
+        return false;
+      case 'MultiLineString':
+        return this.partDraft.length >= 2;
+      case 'MultiPolygon':
+        return this.partDraft.length >= 3;
+    }
+  }
+
+  /**
+   * Add the part that is being drawn in this feature to this feature's geometry.
+   * Does nothing if the part does not have enough vertices.
+   * See {@link canClosePart}
+   */
+  @modelAction
+  closePart() {
+    if (!this.canClosePart) {
+      console.warn(
+        `The part being drawn in the feature with ID ${this.$modelId} cannot be closed.`
+      );
+      return;
+    }
+    const coordinates = this.partDraft.map((c) => toJS(c));
+    switch (this.geojson.geometry.type) {
+      case 'MultiLineString':
+        this.geojson.geometry.coordinates.push(coordinates);
+        break;
+      case 'MultiPolygon':
+        coordinates.push([...coordinates[0]]);
+        this.geojson.geometry.coordinates.push([coordinates]);
+        break;
+    }
+    this.partDraft = [];
+  }
+
+  /**
+   * Discard any part that is being drawn in this feature
+   */
+  @modelAction
+  discardPartDraft() {
+    if (this.partDraft.length > 0) {
+      this.partDraft = [];
+    }
+  }
+
   /**
    * Returns a deep copy of the GeoJSON feature.
    * Ensures that polygons have the proper winding order.
@@ -1005,12 +2674,32 @@ export class FeatureModel extends Model({
     switch (data.geometry.type) {
       case 'Point':
       case 'LineString':
+      case 'MultiPoint':
+      case 'MultiLineString':
         break;
       case 'Polygon':
+      case 'MultiPolygon':
         data = rewind(data, {
           mutate: true,
         });
     }
     return data;
   }
+
+  /**
+   * Returns a deep copy of the GeoJSON feature for use outside of the library,
+   * as in {@link safeGeoJSON}, with the semantic properties of a shape that is
+   * edited using handles stored in the {@link SEMANTIC_SHAPE_KEY} metadata field
+   */
+  @computed
+  get exportGeoJSON(): EditableFeature {
+    const data = this.safeGeoJSON;
+    if (!this.semanticShape) {
+      return data;
+    }
+    return {
+      ...data,
+      properties: withSemanticShapeField(data, toJS(this.semanticShape)),
+    };
+  }
 }
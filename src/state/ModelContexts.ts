@@ -2,6 +2,8 @@ import { createContext } from 'mobx-keystone';
 
 import type { ControlsModel } from './ControlsModel';
 import type { FeatureListModel } from './FeatureListModel';
+import type { SnappingModel } from './SnappingModel';
+import type { TrackingModel } from './TrackingModel';
 
 /**
  * A MobX Keystone context used to access any {@link FeatureListModel}
@@ -14,3 +16,15 @@ export const featureListContext = createContext<FeatureListModel>();
  * from anywhere in the state tree.
  */
 export const controlsContext = createContext<ControlsModel>();
+
+/**
+ * A MobX Keystone context used to access any {@link SnappingModel}
+ * from anywhere in the state tree.
+ */
+export const snappingContext = createContext<SnappingModel>();
+
+/**
+ * A MobX Keystone context used to access any {@link TrackingModel}
+ * from anywhere in the state tree.
+ */
+export const trackingContext = createContext<TrackingModel>();
@@ -1,10 +1,18 @@
-import { computed } from 'mobx';
+import { computed, toJS } from 'mobx';
+import { featureCollection } from '@turf/helpers';
 import { model, Model, modelAction, prop } from 'mobx-keystone';
 import type { FeatureCollection } from 'geojson';
 
-import { controlsContext, featureListContext } from './ModelContexts';
+import {
+  controlsContext,
+  featureListContext,
+  snappingContext,
+  trackingContext,
+} from './ModelContexts';
 import { FeatureListModel } from './FeatureListModel';
 import { ControlsModel } from './ControlsModel';
+import { SnappingModel } from './SnappingModel';
+import { TrackingModel } from './TrackingModel';
 import type { EditableFeature, EditableGeometry } from '../type/geometry';
 import type { MapPressPayload } from '../type/events';
 
@@ -21,6 +29,14 @@ export class RootModel extends Model({
    * Geometry data
    */
   features: prop<FeatureListModel>(() => new FeatureListModel({})),
+  /**
+   * Vertex snapping settings
+   */
+  snapping: prop<SnappingModel>(() => new SnappingModel({})),
+  /**
+   * Track recording settings and state
+   */
+  tracking: prop<TrackingModel>(() => new TrackingModel({})),
 }) {
   /**
    * Set up contexts by which child stores can find each other.
@@ -28,6 +44,8 @@ export class RootModel extends Model({
   onInit() {
     controlsContext.setComputed(this, () => this.controls);
     featureListContext.setComputed(this, () => this.features);
+    snappingContext.setComputed(this, () => this.snapping);
+    trackingContext.setComputed(this, () => this.tracking);
   }
 
   /**
@@ -66,4 +84,12 @@ export class RootModel extends Model({
   get geojson(): FeatureCollection<EditableGeometry> {
     return this.features.allGeoJSON;
   }
+
+  /**
+   * Returns a deep copy of the features that the user has copied
+   */
+  @computed
+  get clipboardGeoJSON(): FeatureCollection<EditableGeometry> {
+    return featureCollection(toJS(this.controls.clipboard));
+  }
 }
@@ -0,0 +1,96 @@
+import { model, Model, modelAction, prop } from 'mobx-keystone';
+import type { Position } from 'geojson';
+
+import { featureListContext } from './ModelContexts';
+import type { RnmgeID } from '../type/geometry';
+import type { SnappingOptions, SnappingUnits } from '../type/snapping';
+import { findSnapTarget, metersPerPixel } from '../util/geometry/snapping';
+
+/**
+ * Vertex snapping settings and state
+ */
+@model('reactNativeMapboxGeometryEditor/SnappingModel')
+export class SnappingModel extends Model({
+  /**
+   * The snapping distance threshold. Snapping is disabled when it is not positive.
+   */
+  tolerance: prop<number>(0),
+  /**
+   * The units of {@link tolerance}
+   */
+  units: prop<SnappingUnits>('pixels'),
+  /**
+   * The current map zoom level, needed to convert screen distances to ground distances
+   */
+  zoomLevel: prop<number | null>(null).withSetter(),
+  /**
+   * The position to which the most recently placed vertex was snapped, if any
+   */
+  snapTarget: prop<Position | null>(null),
+}) {
+  /**
+   * Update the snapping settings
+   * @param options New snapping settings, or `undefined` to disable snapping
+   */
+  @modelAction
+  setOptions(options?: SnappingOptions) {
+    this.tolerance = options?.tolerance ?? 0;
+    this.units = options?.units ?? 'pixels';
+  }
+
+  /**
+   * Compute the snapping tolerance in metres
+   * @param latitude The latitude of the position being snapped
+   * @return The tolerance, or zero if snapping is not possible
+   */
+  private toleranceInMeters(latitude: number): number {
+    if (this.tolerance <= 0) {
+      return 0;
+    }
+    switch (this.units) {
+      case 'meters':
+        return this.tolerance;
+      case 'pixels':
+        if (this.zoomLevel === null) {
+          return 0;
+        }
+        return this.tolerance * metersPerPixel(latitude, this.zoomLevel);
+    }
+  }
+
+  /**
+   * Snap a position to the nearest vertex or edge of features that are not
+   * being edited, and record the result as the current snap target.
+   *
+   * @param position The position of a new or dragged vertex
+   * @param exclude IDs of features that cannot be snapped to
+   * @return The snapped position, or the input position if there is nothing
+   *         to snap to within the tolerance
+   */
+  @modelAction
+  snap(position: Position, exclude: Array<RnmgeID> = []): Position {
+    const features = featureListContext.get(this);
+    const tolerance = this.toleranceInMeters(position[1]);
+    let target: Position | null = null;
+    if (features && tolerance > 0) {
+      target = findSnapTarget(
+        position,
+        [
+          ...features.coldPointFeatures.features,
+          ...features.coldNonPointFeatures.features,
+        ].filter((feature) => !exclude.includes(feature.properties.rnmgeID)),
+        tolerance
+      );
+    }
+    this.snapTarget = target ? [...target] : null;
+    return target ?? position;
+  }
+
+  /**
+   * Stop highlighting the current snap target
+   */
+  @modelAction
+  clearSnapTarget() {
+    this.snapTarget = null;
+  }
+}
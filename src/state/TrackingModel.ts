@@ -0,0 +1,177 @@
+import { model, Model, modelAction, prop } from 'mobx-keystone';
+
+import { controlsContext, featureListContext } from './ModelContexts';
+import { InteractionMode } from './ControlsModel';
+import type {
+  PositionProvider,
+  TrackPosition,
+  TrackRecordingOptions,
+} from '../type/tracking';
+import { shouldRecordPosition } from '../util/geometry/track';
+
+/**
+ * Track recording settings and state.
+ *
+ * Positions are received from a {@link PositionProvider} while recording
+ * in {@link InteractionMode.RecordTrack} mode, and those that pass the filters
+ * in the recording options are appended to the new feature as vertices.
+ */
+@model('reactNativeMapboxGeometryEditor/TrackingModel')
+export class TrackingModel extends Model({
+  /**
+   * See {@link TrackRecordingOptions.minDistance}
+   */
+  minDistance: prop<number>(0),
+  /**
+   * See {@link TrackRecordingOptions.maxAccuracy}
+   */
+  maxAccuracy: prop<number | null>(null),
+  /**
+   * See {@link TrackRecordingOptions.minInterval}
+   */
+  minInterval: prop<number>(0),
+  /**
+   * The type of geometry that a new track becomes
+   */
+  trackType: prop<'LineString' | 'Polygon'>('LineString').withSetter(),
+  /**
+   * Whether there is a position provider (see {@link setProvider})
+   */
+  hasProvider: prop<boolean>(false),
+  /**
+   * Whether positions are being recorded, as opposed to recording being paused
+   */
+  isRecording: prop<boolean>(false),
+  /**
+   * The position from which the most recent vertex of the track was recorded
+   */
+  lastPosition: prop<TrackPosition | null>(null),
+}) {
+  /**
+   * The source of positions. Since it is a function, it cannot be stored
+   * in the state tree, and is stored as runtime data instead.
+   */
+  private provider: PositionProvider | null = null;
+  /**
+   * A function that stops receiving positions from {@link provider},
+   * while positions are being received
+   */
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Update the track recording settings
+   * @param options New track recording settings, or `undefined` to use default settings
+   */
+  @modelAction
+  setOptions(options?: TrackRecordingOptions) {
+    this.minDistance = options?.minDistance ?? 0;
+    this.maxAccuracy = options?.maxAccuracy ?? null;
+    this.minInterval = options?.minInterval ?? 0;
+  }
+
+  /**
+   * Set the source of positions. Recording is paused if the source changes.
+   * @param provider The new source of positions, or `null` if there is none
+   */
+  @modelAction
+  setProvider(provider: PositionProvider | null) {
+    if (provider === this.provider) {
+      return;
+    }
+    this.pause();
+    this.provider = provider;
+    this.hasProvider = !!provider;
+  }
+
+  /**
+   * Start or resume recording positions
+   */
+  @modelAction
+  start() {
+    if (this.isRecording) {
+      return;
+    }
+    const mode = controlsContext.get(this)?.mode;
+    if (mode !== InteractionMode.RecordTrack) {
+      console.warn(
+        `Tracks cannot be recorded in the current editing mode, ${mode}.`
+      );
+      return;
+    }
+    if (!this.provider) {
+      console.warn(
+        'There is no position provider from which to record a track.'
+      );
+      return;
+    }
+    this.isRecording = true;
+    this.unsubscribe = this.provider.subscribe((position) =>
+      this.addPosition(position)
+    );
+  }
+
+  /**
+   * Pause recording positions. Recording can be resumed with {@link start}.
+   */
+  @modelAction
+  pause() {
+    this.isRecording = false;
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  /**
+   * Pause recording positions if positions are being recorded,
+   * and otherwise start or resume recording
+   */
+  @modelAction
+  toggleRecording() {
+    if (this.isRecording) {
+      this.pause();
+    } else {
+      this.start();
+    }
+  }
+
+  /**
+   * Add a position to the track, as the first vertex of a new feature
+   * if there is no new feature, if it passes the filters in the recording options.
+   * Each vertex is a separate step in the undo history.
+   *
+   * @param position The position
+   */
+  @modelAction
+  addPosition(position: TrackPosition) {
+    if (!this.isRecording) {
+      console.warn('Positions are received while recording is paused.');
+      return;
+    }
+    // Positions received while the user is entering metadata are ignored
+    if (controlsContext.get(this)?.isPageOpen) {
+      return;
+    }
+    const features = featureListContext.get(this);
+    if (!features) {
+      return;
+    }
+    // The first vertex of a new track does not depend on previous tracks
+    const previous = features.hasNewFeature ? this.lastPosition : null;
+    if (
+      !shouldRecordPosition(position, previous, {
+        minDistance: this.minDistance,
+        maxAccuracy: this.maxAccuracy,
+        minInterval: this.minInterval,
+      })
+    ) {
+      return;
+    }
+    features.addFreehandStroke([[...position.coordinates]], this.trackType);
+    this.lastPosition = {
+      coordinates: [...position.coordinates],
+      accuracy: position.accuracy ?? null,
+      timestamp: position.timestamp,
+    };
+  }
+}
@@ -7,6 +7,9 @@ import type {
   Feature,
   FeatureCollection,
   LineString,
+  MultiLineString,
+  MultiPoint,
+  MultiPolygon,
   Point,
   Polygon,
   Position,
@@ -18,10 +21,25 @@ import type {
 export type BBox2D = [number, number, number, number];
 
 /**
- * Geometry available for editing consists of atomic shapes,
- * not multi-shapes.
+ * Geometry available for editing consists of atomic shapes
+ * and multi-shapes, but not geometry collections.
  */
-export type EditableGeometry = Point | LineString | Polygon;
+export type EditableGeometry =
+  | Point
+  | LineString
+  | Polygon
+  | MultiPoint
+  | MultiLineString
+  | MultiPolygon;
+
+/**
+ * Editable geometry that is rendered as lines or areas, rather than as points
+ */
+export type NonPointGeometry =
+  | LineString
+  | Polygon
+  | MultiLineString
+  | MultiPolygon;
 
 /**
  * The valid values for the "type" property of {@link EditableGeometry} objects.
@@ -30,16 +48,57 @@ export type EditableGeometryType = EditableGeometry['type'];
 
 /**
  * The semantic type of geometry, which may not necessarily correspond
- * to the GeoJSON geometry type.
- *
- * TODO: For future use in distinguishing circles from points.
+ * to the GeoJSON geometry type. For example, circles and rectangles
+ * are stored as GeoJSON polygons.
  */
-export type SemanticGeometryType = EditableGeometryType;
+export type SemanticGeometryType =
+  | EditableGeometryType
+  | 'Circle'
+  | 'Rectangle';
+
+/**
+ * A circle, which is stored as a polygon approximating the circle
+ */
+export interface CircleShape {
+  /**
+   * The semantic type of the shape
+   */
+  readonly type: 'Circle';
+  /**
+   * The centre of the circle
+   */
+  readonly center: Position;
+  /**
+   * The radius of the circle, in kilometres
+   */
+  readonly radius: number;
+}
+
+/**
+ * A rectangle, aligned with lines of longitude and latitude,
+ * which is stored as a polygon
+ */
+export interface RectangleShape {
+  /**
+   * The semantic type of the shape
+   */
+  readonly type: 'Rectangle';
+  /**
+   * Two opposite corners of the rectangle
+   */
+  readonly corners: [Position, Position];
+}
+
+/**
+ * The semantic properties of a shape that is edited using dedicated handles,
+ * rather than by moving its vertices
+ */
+export type SemanticShape = CircleShape | RectangleShape;
 
 /**
  * Geometry available for editing is represented
- * using features that contain only single shapes.
- * Doing so simplifies selection and editing on the user interface.
+ * using features that contain either single shapes or multi-shapes.
+ * The parts of a multi-shape are selected together as one feature.
  */
 export type EditableFeature = Feature<EditableGeometry>;
 
@@ -127,6 +186,50 @@ export enum CoordinateRole {
    * (i.e. not part of the first linear ring)
    */
   PolygonHole = 'POLYGONHOLE_POINT',
+  /**
+   * The coordinate is the first point of a hole that is being
+   * drawn in a polygon
+   */
+  PolygonHoleStart = 'POLYGONHOLESTART_POINT',
+  /**
+   * The coordinate is the most recently added point of a hole that is
+   * being drawn in a polygon, and the hole has more than one point
+   */
+  PolygonHoleSecondLast = 'POLYGONHOLESECONDLAST_POINT',
+  /**
+   * The coordinate is the centre of a circle, and is used to move the circle
+   */
+  CircleCenter = 'CIRCLECENTER_POINT',
+  /**
+   * The coordinate is on the boundary of a circle,
+   * and is used to change the radius of the circle
+   */
+  CircleRadius = 'CIRCLERADIUS_POINT',
+  /**
+   * The coordinate is a corner of a rectangle, and is used to resize the rectangle
+   * while the opposite corner stays in place
+   */
+  RectangleCorner = 'RECTANGLECORNER_POINT',
+  /**
+   * The coordinate is a handle used to move whole features
+   * that are being transformed
+   */
+  TransformTranslate = 'TRANSFORMTRANSLATE_POINT',
+  /**
+   * The coordinate is a handle used to rotate whole features
+   * that are being transformed
+   */
+  TransformRotate = 'TRANSFORMROTATE_POINT',
+  /**
+   * The coordinate is a handle used to resize whole features
+   * that are being transformed
+   */
+  TransformScale = 'TRANSFORMSCALE_POINT',
+  /**
+   * The coordinate is the midpoint of an edge of a shape whose vertices
+   * are being edited, and is used to insert a vertex into the edge
+   */
+  EdgeMidpoint = 'EDGEMIDPOINT_POINT',
 }
 
 /**
@@ -158,6 +261,17 @@ export enum LineStringRole {
    * (i.e. not part of the first linear ring)
    */
   PolygonHole = 'POLYGONHOLE_LINESTRING',
+  /**
+   * The line string is the edge that closes a hole that is being drawn
+   * in a polygon. The hole therefore has at least three vertices.
+   */
+  PolygonHoleLast = 'POLYGONHOLELAST_LINESTRING',
+  /**
+   * The line string is a guide showing the directions, or the bearing,
+   * along which the next vertex can be placed while drawing is constrained
+   * (see {@link DrawingConstraints}). It is not part of any feature.
+   */
+  Guide = 'GUIDE_LINESTRING',
 }
 
 /**
@@ -173,6 +287,242 @@ export enum GeometryRole {
   Other = 'OTHER',
 }
 
+/**
+ * Reasons why the geometry of a feature is invalid
+ */
+export enum GeometryProblem {
+  /**
+   * Edges of the geometry cross each other, such as in a "bow-tie" polygon,
+   * or a polygon hole that crosses the polygon's exterior boundary
+   */
+  SelfIntersection = 'SELF_INTERSECTION',
+  /**
+   * Two consecutive vertices of a line string or linear ring are at the same position
+   */
+  DuplicateVertices = 'DUPLICATE_VERTICES',
+  /**
+   * A linear ring of a polygon encloses no area, such as when all of its vertices
+   * lie on a line
+   */
+  ZeroAreaRing = 'ZERO_AREA_RING',
+}
+
+/**
+ * What to do when the user attempts to save geometry that is invalid
+ * (see {@link GeometryProblem})
+ *
+ * - `'allow'`: Save the geometry without asking for confirmation
+ * - `'warn'`: Ask the user whether to save the geometry anyway
+ * - `'block'`: Inform the user that the geometry must be corrected before it can be saved
+ */
+export type InvalidGeometryPolicy = 'allow' | 'warn' | 'block';
+
+/**
+ * Ways of changing the number of vertices in line strings and polygons
+ *
+ * - `'simplify'`: Remove vertices that are within a tolerance distance
+ *   of the line formed by the remaining vertices
+ * - `'densify'`: Add vertices along edges so that no edge is longer than a given distance
+ */
+export type ResampleMethod = 'simplify' | 'densify';
+
+/**
+ * Ways of creating a shape at a distance from an existing shape
+ *
+ * - `'buffer'`: Create a polygon covering everything within the distance of the shape
+ * - `'offsetLeft'`: Create a line parallel to a line string, to the left of the line string
+ * - `'offsetRight'`: Create a line parallel to a line string, to the right of the line string
+ */
+export type BufferMethod = 'buffer' | 'offsetLeft' | 'offsetRight';
+
+/**
+ * Units of ground distance that the user can choose between
+ */
+export type LengthUnits = 'meters' | 'kilometers' | 'feet' | 'miles';
+
+/**
+ * Angles to which the direction of each new or moved edge is snapped,
+ * relative to the direction of the previous edge
+ *
+ * - `'none'`: Edges can have any direction
+ * - `'right'`: Multiples of 90 degrees
+ * - `'diagonal'`: Multiples of 45 degrees
+ */
+export type AngleConstraint = 'none' | 'right' | 'diagonal';
+
+/**
+ * Constraints on the positions of vertices that are drawn or dragged,
+ * relative to the previous vertex
+ */
+export interface DrawingConstraints {
+  /**
+   * Angles to which the direction of the edge ending at the vertex is snapped.
+   * Ignored if {@link bearing} is not `null`.
+   */
+  readonly angle: AngleConstraint;
+  /**
+   * A bearing, in degrees clockwise from north, along which the vertex
+   * must lie, or `null` if the bearing is not fixed
+   */
+  readonly bearing: number | null;
+  /**
+   * The length, in metres, of the edge ending at the vertex,
+   * or `null` if the length is not fixed
+   */
+  readonly length: number | null;
+}
+
+/**
+ * The layout of a grid of rectangular plots, such as the plots of a field trial
+ */
+export interface PlotGridOptions {
+  /**
+   * The width of each plot, in metres, along the rows of the grid
+   */
+  readonly width: number;
+  /**
+   * The height of each plot, in metres, along the columns of the grid
+   */
+  readonly height: number;
+  /**
+   * The angle, in degrees clockwise, by which the grid is rotated from having
+   * rows that run from west to east
+   */
+  readonly rotation: number;
+  /**
+   * The distance, in metres, between adjacent rows of plots
+   */
+  readonly rowGap: number;
+  /**
+   * The distance, in metres, between adjacent columns of plots
+   */
+  readonly columnGap: number;
+}
+
+/**
+ * The metadata fields (GeoJSON `"properties"`) in which the position of each plot
+ * in a grid of plots is stored. The values of these fields in the metadata entered
+ * for the grid are replaced by the indices of the plots.
+ */
+export interface PlotIndexKeys {
+  /**
+   * The key of the field that stores the one-based index of the row of the plot,
+   * counting from the top of the grid, or `null` to not store the index.
+   * Defaults to `'row'`.
+   */
+  readonly row?: string | null;
+  /**
+   * The key of the field that stores the one-based index of the column of the plot,
+   * counting from the left of the grid, or `null` to not store the index.
+   * Defaults to `'column'`.
+   */
+  readonly column?: string | null;
+}
+
+/**
+ * Formats in which the user can view and enter the coordinates of vertices
+ *
+ * - `'decimal'`: Latitude and longitude in decimal degrees
+ * - `'dms'`: Latitude and longitude in degrees, minutes, and seconds
+ * - `'utm'`: Universal Transverse Mercator zone, easting, and northing
+ */
+export type CoordinateFormat = 'decimal' | 'dms' | 'utm';
+
+/**
+ * Ways in which the user can select the vertices of a shape whose vertices are being edited
+ *
+ * - `'single'`: Touching a vertex selects only that vertex
+ * - `'multiple'`: Touching a vertex adds it to the selected vertices
+ * - `'lasso'`: Tracing a loop around vertices adds them to the selected vertices
+ */
+export type VertexSelectionMode = 'single' | 'multiple' | 'lasso';
+
+/**
+ * Ways in which the user can select features while multiple features can be selected
+ *
+ * - `'tap'`: Touching a feature selects or deselects it
+ * - `'box'`: Dragging across the map selects features that intersect the rectangle
+ *   whose opposite corners are the start and end of the drag
+ * - `'lasso'`: Tracing a loop selects features that intersect the loop or are inside it
+ */
+export type FeatureSelectionMode = 'tap' | 'box' | 'lasso';
+
+/**
+ * Ways in which features selected using a box or a lasso (see {@link FeatureSelectionMode})
+ * are combined with features that are already selected
+ *
+ * - `'replace'`: Only the features in the box or lasso are selected
+ * - `'add'`: The features in the box or lasso are selected in addition to the selected features
+ * - `'subtract'`: The features in the box or lasso are deselected
+ */
+export type SelectionOperation = 'replace' | 'add' | 'subtract';
+
+/**
+ * Ways of converting selected features into a feature of a different geometry type
+ *
+ * - `'closeLine'`: Turn a polyline into a polygon by joining its last vertex to its first vertex
+ * - `'openPolygon'`: Turn a polygon into a polyline that follows its boundary
+ * - `'joinPoints'`: Join points into a polyline, in the order in which they were selected
+ * - `'convexHull'`: Create the smallest convex polygon that contains points
+ */
+export type GeometryConversion =
+  | 'closeLine'
+  | 'openPolygon'
+  | 'joinPoints'
+  | 'convexHull';
+
+/**
+ * Options for automatically clipping new polygons when they are saved
+ */
+export interface ClippingOptions {
+  /**
+   * Whether to remove the parts of new polygons that lie outside the polygon
+   * that the user has designated as the boundary. Defaults to `false`.
+   */
+  readonly clipToBoundary?: boolean;
+  /**
+   * Whether to remove the parts of new polygons that overlap existing polygons,
+   * other than the boundary. Defaults to `false`.
+   */
+  readonly subtractNeighbours?: boolean;
+}
+
+/**
+ * Systems of units in which measurements of shapes are presented to the user
+ *
+ * - `'metric'`: Metres or kilometres, and square metres or square kilometres
+ * - `'imperial'`: Feet or miles, and square feet or square miles
+ * - `'hectares'`: Metres or kilometres, and hectares
+ * - `'acres'`: Feet or miles, and acres
+ */
+export type MeasurementUnits = 'metric' | 'imperial' | 'hectares' | 'acres';
+
+/**
+ * Measurements of the shapes that are being drawn or edited.
+ * Lengths are in metres, and areas are in square metres.
+ */
+export interface Measurement {
+  /**
+   * The length of the edge that was most recently drawn, or that ends at
+   * the vertex that was most recently selected or dragged,
+   * or `null` if there is no such edge
+   */
+  readonly segmentLength: number | null;
+  /**
+   * The total length of all polylines, or `null` if there are no polylines
+   */
+  readonly length: number | null;
+  /**
+   * The total area of all polygons, or `null` if there are no polygons
+   */
+  readonly area: number | null;
+  /**
+   * The total length of the boundaries of all polygons, including the boundaries
+   * of holes, or `null` if there are no polygons
+   */
+  readonly perimeter: number | null;
+}
+
 /**
  * The type of feature IDs
  * See {@link RenderProperties}
@@ -212,6 +562,33 @@ export interface RenderProperties {
    * For non-point features, it is set to `-1`.
    */
   readonly rnmgeIndex: number;
+  /**
+   * Whether the geometry of the feature is valid (see {@link GeometryProblem}).
+   * Only features that are being created or edited are checked for validity.
+   * Other features are always marked as valid.
+   */
+  readonly rnmgeValid: boolean;
+  /**
+   * For features that are being drawn or edited, the length of the edge
+   * that is being drawn or edited, in metres (see {@link Measurement.segmentLength}).
+   * Not set for other features.
+   */
+  readonly rnmgeSegmentLength?: number;
+  /**
+   * For polylines that are being drawn or edited, their length, in metres.
+   * Not set for other features.
+   */
+  readonly rnmgeLength?: number;
+  /**
+   * For polygons that are being drawn or edited, their area, in square metres.
+   * Not set for other features.
+   */
+  readonly rnmgeArea?: number;
+  /**
+   * For polygons that are being drawn or edited, their perimeter, in metres.
+   * Not set for other features.
+   */
+  readonly rnmgePerimeter?: number;
   /**
    * Client-defined properties associated with GeoJSON features.
    * These properties are set by the client, not by the library.
@@ -246,7 +623,7 @@ export type RenderPointFeatureCollection = FeatureCollection<
  * A collection of {@link RenderFeature} non-point features
  */
 export type RenderNonPointFeatureCollection = FeatureCollection<
-  LineString | Polygon,
+  NonPointGeometry,
   RenderProperties
 >;
 
@@ -119,7 +119,7 @@ export interface ExistingMetadataSchemaGenerator {
   /**
    * If the function returns `null`, metadata previews
    * will not appear when the user inspects geometry.
-   * @param type The semantic type of the geometry (e.g. circle vs. point)
+   * @param type The semantic type of the geometry (e.g. circle vs. polygon)
    * @param feature The geometry feature whose metadata is to be viewed or edited
    */
   (type: SemanticGeometryType, feature: EditableFeature): MetadataSchema | null;
@@ -132,12 +132,26 @@ export interface NewMetadataSchemaGenerator {
   /**
    * If the function returns `null`, the metadata creation form will
    * be skipped.
-   * @param type The semantic type of the geometry (e.g. circle vs. point)
+   * @param type The semantic type of the geometry (e.g. circle vs. polygon)
    *             whose metadata is to be created
    */
   (type: SemanticGeometryType): MetadataSchema | null;
 }
 
+/**
+ * A function that decides the metadata of a feature created by merging
+ * other features together, or by joining points into a polyline or a polygon
+ */
+export interface MergeMetadataCb {
+  /**
+   * @param features The features that are being merged, in the order in which
+   *                 they are stored by the library, or the points that are
+   *                 being joined, in the order in which they were selected
+   * @return The metadata (GeoJSON `"properties"`) for the merged feature
+   */
+  (features: Array<EditableFeature>): Metadata | null;
+}
+
 /**
  * The set of functions needed to generate metadata schemas for all
  * possible metadata operations.
@@ -0,0 +1,103 @@
+/**
+ * Feature query type definitions
+ * @packageDocumentation
+ */
+import type { EditableFeature, EditableGeometryType } from './geometry';
+
+/**
+ * Ways of comparing a value of a feature with the value in a {@link QueryCondition}
+ *
+ * - `'contains'`: The value of the feature, converted to a string, contains the value
+ *   in the condition, ignoring case
+ *
+ * The remaining operators compare numbers as numbers, and other values as strings.
+ */
+export type QueryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+
+/**
+ * A condition on the value of a metadata field (GeoJSON `"properties"`) of a feature.
+ * Features that do not have a value for the field only satisfy `'!='` conditions.
+ */
+export interface PropertyCondition {
+  /**
+   * The key of the metadata field
+   */
+  readonly property: string;
+  /**
+   * The comparison between the value of the field and `value`
+   */
+  readonly operator: QueryOperator;
+  /**
+   * The value with which the value of the field is compared
+   */
+  readonly value: string | number | boolean;
+}
+
+/**
+ * A condition on the area of the polygons in a feature,
+ * or on the length of the polylines in a feature.
+ * Features that have no polygons, or no polylines, respectively,
+ * do not satisfy the condition.
+ */
+export interface MeasurementCondition {
+  /**
+   * The measurement
+   */
+  readonly measurement: 'area' | 'length';
+  /**
+   * The comparison between the measurement and `value`
+   */
+  readonly operator: Exclude<QueryOperator, 'contains'>;
+  /**
+   * The value with which the measurement is compared,
+   * in square metres for areas, and in metres for lengths
+   */
+  readonly value: number;
+}
+
+/**
+ * A condition in a {@link FeatureQuery}
+ */
+export type QueryCondition = PropertyCondition | MeasurementCondition;
+
+/**
+ * A description of the features to select, such as features whose `crop` metadata field
+ * is `"wheat"` and whose area is greater than 5 hectares:
+ * ```
+ * {
+ *   conditions: [
+ *     { property: 'crop', operator: '==', value: 'wheat' },
+ *     { measurement: 'area', operator: '>', value: 50000 },
+ *   ],
+ * }
+ * ```
+ */
+export interface FeatureQuery {
+  /**
+   * The conditions that features must satisfy. If there are no conditions,
+   * all features of the types in `geometryTypes` satisfy the query.
+   */
+  readonly conditions: Array<QueryCondition>;
+  /**
+   * Whether features must satisfy all of the conditions (`'all'`, the default),
+   * or at least one of them (`'any'`)
+   */
+  readonly match?: 'all' | 'any';
+  /**
+   * The types of geometry that features must have, or `undefined`,
+   * or an empty list, if features can have any type of geometry.
+   * Circles and rectangles have the type `'Polygon'`.
+   */
+  readonly geometryTypes?: Array<EditableGeometryType>;
+}
+
+/**
+ * A function that decides which features to select
+ */
+export interface FeaturePredicate {
+  /**
+   * @param feature A copy of a feature that can be selected
+   * @return Whether the feature matches the predicate
+   */
+  (feature: EditableFeature): boolean;
+}
@@ -0,0 +1,30 @@
+/**
+ * Vertex snapping type definitions
+ * @packageDocumentation
+ */
+
+/**
+ * Units in which a snapping tolerance can be expressed
+ *
+ * - `'pixels'`: Screen distance, converted to a ground distance at the current
+ *   map zoom level (and at the latitude of the position being snapped)
+ * - `'meters'`: Ground distance
+ */
+export type SnappingUnits = 'pixels' | 'meters';
+
+/**
+ * Options controlling how new and dragged vertices are snapped
+ * to the geometry of features that are not being edited
+ */
+export interface SnappingOptions {
+  /**
+   * The maximum distance from a vertex being placed at which
+   * another feature's vertices or edges will attract the vertex.
+   * A value of zero (or a negative value) disables snapping.
+   */
+  readonly tolerance: number;
+  /**
+   * The units of `tolerance`. Defaults to `'pixels'`.
+   */
+  readonly units?: SnappingUnits;
+}
@@ -50,6 +50,17 @@ export interface DraggablePointStyleGenerator {
   (role: CoordinateRole, feature: EditableFeature): DraggablePointStyle;
 }
 
+/**
+ * A function that will be called to output style properties for the
+ * highlighted position to which a vertex has been snapped
+ */
+export interface SnapTargetStyleGenerator {
+  /**
+   * @return The style attributes for the snap target marker
+   */
+  (): DraggablePointStyle;
+}
+
 /**
  * A function that will be called to output style properties for point-like features
  */
@@ -122,6 +133,16 @@ export interface StyleGeneratorMap {
    * Style generator for user-selected editable vertices within shapes
    */
   readonly selectedVertex: DraggablePointStyleGenerator;
+  /**
+   * Style generator for the handles at the midpoints of the edges of shapes
+   * whose vertices are being edited, which are dragged to insert vertices
+   */
+  readonly edgeMidpoint: DraggablePointStyleGenerator;
+  /**
+   * Style generator for the marker highlighting the vertex or edge position
+   * to which a new or dragged vertex was snapped
+   */
+  readonly snapTarget: SnapTargetStyleGenerator;
   /**
    * Style generator for non-draggable point features.
    * Features will be of type {@link RenderFeature} and will have a geometry
@@ -0,0 +1,66 @@
+/**
+ * Track recording type definitions
+ * @packageDocumentation
+ */
+import type { Position } from 'geojson';
+
+/**
+ * A position reported by a {@link PositionProvider}, such as a GPS fix
+ */
+export interface TrackPosition {
+  /**
+   * The longitude and latitude of the position
+   */
+  readonly coordinates: Position;
+  /**
+   * The horizontal accuracy of the position, in metres, if known
+   */
+  readonly accuracy?: number | null;
+  /**
+   * The time at which the position was measured, in milliseconds since the Unix epoch
+   */
+  readonly timestamp: number;
+}
+
+/**
+ * A function that receives positions from a {@link PositionProvider}
+ *
+ * @param position The latest position
+ */
+export type TrackPositionCb = (position: TrackPosition) => void;
+
+/**
+ * A source of positions from which the vertices of a track are recorded,
+ * such as a wrapper around the device's location services,
+ * or a simulated track for testing
+ */
+export interface PositionProvider {
+  /**
+   * Start receiving positions
+   *
+   * @param callback A function to call with each new position
+   * @return A function that stops sending positions to `callback`
+   */
+  subscribe(callback: TrackPositionCb): () => void;
+}
+
+/**
+ * Options controlling which positions from a {@link PositionProvider}
+ * become vertices of a recorded track
+ */
+export interface TrackRecordingOptions {
+  /**
+   * The minimum distance, in metres, between consecutive vertices. Defaults to zero.
+   */
+  readonly minDistance?: number;
+  /**
+   * The maximum horizontal accuracy, in metres, of a position that can become
+   * a vertex. Positions whose accuracy is unknown are accepted.
+   * Defaults to `null`, which accepts positions of any accuracy.
+   */
+  readonly maxAccuracy?: number | null;
+  /**
+   * The minimum time, in milliseconds, between consecutive vertices. Defaults to zero.
+   */
+  readonly minInterval?: number;
+}
@@ -1,3 +1,5 @@
+import type { Measurement } from './geometry';
+
 /**
  * Callbacks that a {@link PageOpenCb} receives
  */
@@ -69,6 +71,18 @@ export interface EditingStatusCb {
   (status: boolean): void;
 }
 
+/**
+ * A callback that notifies the client application of the measurements of the shapes
+ * that are being drawn or edited, whenever the measurements change.
+ * The measurements are `null` when no shapes are being drawn or edited.
+ */
+export interface MeasurementCb {
+  /**
+   * @param measurement The measurements, in metres and square metres
+   */
+  (measurement: Measurement | null): void;
+}
+
 /**
  * Callbacks to notify the client application of shape or metadata editing events
  */
@@ -77,4 +91,9 @@ export interface InteractionEventProps {
    * An event callback for changes to the current editing status
    */
   readonly onEditingStatus?: EditingStatusCb;
+  /**
+   * An event callback for changes to the measurements of the shapes
+   * that are being drawn or edited
+   */
+  readonly onMeasurement?: MeasurementCb;
 }
@@ -61,6 +61,40 @@ function getSelectedVertexPointStyle(
   };
 }
 
+/**
+ * The default style generation function for the handles at the midpoints of edges,
+ * which are drawn smaller and fainter than vertices
+ * @param role The role of the handle in the underlying geometry feature
+ * @param _feature The feature corresponding to the handle
+ * @return The style attributes for the input style type and feature combination
+ */
+function getEdgeMidpointPointStyle(
+  role: CoordinateRole,
+  _feature: EditableFeature
+): DraggablePointStyle {
+  return {
+    radius: (ANNOTATION_SIZE * 2) / 3,
+    color: coordinateRoleColor(role),
+    opacity: 0.6,
+    strokeWidth: 2,
+    strokeColor: featureLifecycleStageColor(FeatureLifecycleStage.EditShape),
+  };
+}
+
+/**
+ * The default style generation function for snap targets
+ * @return The style attributes for the snap target marker
+ */
+function getSnapTargetPointStyle(): DraggablePointStyle {
+  return {
+    radius: ANNOTATION_SIZE / 2,
+    color: 'white',
+    opacity: 0.8,
+    strokeWidth: 3,
+    strokeColor: 'magenta',
+  };
+}
+
 /**
  * Default colours for geometry lifecycle stages
  * @param stage The lifecycle stage
@@ -140,6 +174,24 @@ export function coordinateRoleColor(role?: CoordinateRole): string {
       return '#ff8c00'; // darkorange
     case CoordinateRole.PolygonHole:
       return '#008b8b'; // darkcyan
+    case CoordinateRole.PolygonHoleStart:
+      return '#00ced1'; // darkturquoise
+    case CoordinateRole.PolygonHoleSecondLast:
+      return '#20b2aa'; // lightseagreen
+    case CoordinateRole.CircleCenter:
+      return '#6495ed'; // cornflowerblue
+    case CoordinateRole.CircleRadius:
+      return '#ff8c00'; // darkorange
+    case CoordinateRole.RectangleCorner:
+      return '#ff8c00'; // darkorange
+    case CoordinateRole.TransformTranslate:
+      return '#6495ed'; // cornflowerblue
+    case CoordinateRole.TransformRotate:
+      return '#9932cc'; // darkorchid
+    case CoordinateRole.TransformScale:
+      return '#ff8c00'; // darkorange
+    case CoordinateRole.EdgeMidpoint:
+      return '#ffffff'; // white
   }
 }
 
@@ -160,6 +212,10 @@ export function lineStringRoleColor(role?: LineStringRole): string {
       return '#daa520'; // goldenrod
     case LineStringRole.PolygonHole:
       return '#b0c4de'; // lightsteelblue
+    case LineStringRole.PolygonHoleLast:
+      return '#87cefa'; // lightskyblue
+    case LineStringRole.Guide:
+      return '#ff00ff'; // magenta
   }
 }
 
@@ -180,6 +236,10 @@ function lineStringRoleWidth(role?: LineStringRole): number {
       return 3;
     case LineStringRole.PolygonHole:
       return 2;
+    case LineStringRole.PolygonHoleLast:
+      return 3;
+    case LineStringRole.Guide:
+      return 1;
   }
 }
 
@@ -188,6 +248,12 @@ function lineStringRoleWidth(role?: LineStringRole): number {
  */
 const MISSING_COLOR = '#000000';
 
+/**
+ * The default colour to use for features with invalid geometry
+ * (see {@link RenderProperties.rnmgeValid})
+ */
+const INVALID_COLOR = '#ff0000'; // Red
+
 /**
  * The default width to use for missing information
  */
@@ -270,6 +336,24 @@ function getDefaultVertexStyle(): CircleLayerStyle {
       coordinateRoleColor(CoordinateRole.PolygonSecondLast),
       CoordinateRole.PolygonHole,
       coordinateRoleColor(CoordinateRole.PolygonHole),
+      CoordinateRole.PolygonHoleStart,
+      coordinateRoleColor(CoordinateRole.PolygonHoleStart),
+      CoordinateRole.PolygonHoleSecondLast,
+      coordinateRoleColor(CoordinateRole.PolygonHoleSecondLast),
+      CoordinateRole.CircleCenter,
+      coordinateRoleColor(CoordinateRole.CircleCenter),
+      CoordinateRole.CircleRadius,
+      coordinateRoleColor(CoordinateRole.CircleRadius),
+      CoordinateRole.RectangleCorner,
+      coordinateRoleColor(CoordinateRole.RectangleCorner),
+      CoordinateRole.TransformTranslate,
+      coordinateRoleColor(CoordinateRole.TransformTranslate),
+      CoordinateRole.TransformRotate,
+      coordinateRoleColor(CoordinateRole.TransformRotate),
+      CoordinateRole.TransformScale,
+      coordinateRoleColor(CoordinateRole.TransformScale),
+      CoordinateRole.EdgeMidpoint,
+      coordinateRoleColor(CoordinateRole.EdgeMidpoint),
       coordinateRoleColor(),
     ],
     circlePitchAlignment: 'map',
@@ -286,17 +370,27 @@ function getDefaultVertexStyle(): CircleLayerStyle {
 function getDefaultEdgeStyle(): LineLayerStyle {
   return {
     lineColor: [
-      'match',
-      ['get', 'rnmgeRole'],
-      LineStringRole.LineStringFeature,
-      lineStringRoleColor(LineStringRole.LineStringFeature),
-      LineStringRole.PolygonInner,
-      lineStringRoleColor(LineStringRole.PolygonInner),
-      LineStringRole.PolygonLast,
-      lineStringRoleColor(LineStringRole.PolygonLast),
-      LineStringRole.PolygonHole,
-      lineStringRoleColor(LineStringRole.PolygonHole),
-      lineStringRoleColor(),
+      'case',
+      ['get', 'rnmgeValid'],
+      [
+        'match',
+        ['get', 'rnmgeRole'],
+        LineStringRole.LineStringFeature,
+        lineStringRoleColor(LineStringRole.LineStringFeature),
+        LineStringRole.PolygonInner,
+        lineStringRoleColor(LineStringRole.PolygonInner),
+        LineStringRole.PolygonLast,
+        lineStringRoleColor(LineStringRole.PolygonLast),
+        LineStringRole.PolygonHole,
+        lineStringRoleColor(LineStringRole.PolygonHole),
+        LineStringRole.PolygonHoleLast,
+        lineStringRoleColor(LineStringRole.PolygonHoleLast),
+        LineStringRole.Guide,
+        lineStringRoleColor(LineStringRole.Guide),
+        lineStringRoleColor(),
+      ],
+      // Highlight edges of invalid geometry
+      INVALID_COLOR,
     ],
     lineWidth: [
       'match',
@@ -309,6 +403,10 @@ function getDefaultEdgeStyle(): LineLayerStyle {
       lineStringRoleWidth(LineStringRole.PolygonLast),
       LineStringRole.PolygonHole,
       lineStringRoleWidth(LineStringRole.PolygonHole),
+      LineStringRole.PolygonHoleLast,
+      lineStringRoleWidth(LineStringRole.PolygonHoleLast),
+      LineStringRole.Guide,
+      lineStringRoleWidth(LineStringRole.Guide),
       lineStringRoleWidth(),
     ],
   };
@@ -320,7 +418,12 @@ function getDefaultEdgeStyle(): LineLayerStyle {
  */
 function getDefaultPolygonStyle(): FillLayerStyle {
   return {
-    fillColor: '#fffacd', // lemonchiffon
+    fillColor: [
+      'case',
+      ['get', 'rnmgeValid'],
+      '#fffacd', // lemonchiffon
+      INVALID_COLOR,
+    ],
     /**
      * Outline colour based on geometry lifecycle stage
      * The outline is very thin (1 px?) and hard to notice.
@@ -352,21 +455,26 @@ function getDefaultPolygonStyle(): FillLayerStyle {
 function getDefaultPolylineStyle(): LineLayerStyle {
   return {
     lineColor: [
-      'match',
-      ['get', 'rnmgeStage'],
-      FeatureLifecycleStage.NewShape,
-      featureLifecycleStageColor(FeatureLifecycleStage.NewShape),
-      FeatureLifecycleStage.EditShape,
-      featureLifecycleStageColor(FeatureLifecycleStage.EditShape),
-      FeatureLifecycleStage.EditMetadata,
-      featureLifecycleStageColor(FeatureLifecycleStage.EditMetadata),
-      FeatureLifecycleStage.SelectMultiple,
-      featureLifecycleStageColor(FeatureLifecycleStage.SelectMultiple),
-      FeatureLifecycleStage.SelectSingle,
-      featureLifecycleStageColor(FeatureLifecycleStage.SelectSingle),
-      FeatureLifecycleStage.View,
-      featureLifecycleStageColor(FeatureLifecycleStage.View),
-      MISSING_COLOR,
+      'case',
+      ['!', ['get', 'rnmgeValid']],
+      INVALID_COLOR,
+      [
+        'match',
+        ['get', 'rnmgeStage'],
+        FeatureLifecycleStage.NewShape,
+        featureLifecycleStageColor(FeatureLifecycleStage.NewShape),
+        FeatureLifecycleStage.EditShape,
+        featureLifecycleStageColor(FeatureLifecycleStage.EditShape),
+        FeatureLifecycleStage.EditMetadata,
+        featureLifecycleStageColor(FeatureLifecycleStage.EditMetadata),
+        FeatureLifecycleStage.SelectMultiple,
+        featureLifecycleStageColor(FeatureLifecycleStage.SelectMultiple),
+        FeatureLifecycleStage.SelectSingle,
+        featureLifecycleStageColor(FeatureLifecycleStage.SelectSingle),
+        FeatureLifecycleStage.View,
+        featureLifecycleStageColor(FeatureLifecycleStage.View),
+        MISSING_COLOR,
+      ],
     ],
     lineWidth: lineStringRoleWidth(LineStringRole.LineStringFeature),
     lineCap: 'round',
@@ -409,6 +517,8 @@ function getDefaultClusterSymbolStyle(): SymbolLayerStyle {
 export const defaultStyleGeneratorMap: StyleGeneratorMap = {
   draggablePoint: getDefaultDraggablePointStyle,
   selectedVertex: getSelectedVertexPointStyle,
+  edgeMidpoint: getEdgeMidpointPointStyle,
+  snapTarget: getSnapTargetPointStyle,
   point: getDefaultPointStyle,
   vertex: getDefaultVertexStyle,
   edge: getDefaultEdgeStyle,
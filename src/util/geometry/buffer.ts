@@ -0,0 +1,173 @@
+/**
+ * Utilities for creating shapes at a distance from other shapes
+ * @packageDocumentation
+ */
+import buffer from '@turf/buffer';
+import type {
+  LineString,
+  MultiLineString,
+  MultiPolygon,
+  Polygon,
+  Position,
+} from 'geojson';
+
+import type { EditableGeometry } from '../../type/geometry';
+import { METERS_PER_DEGREE } from './transform';
+
+/**
+ * The number of line segments used to approximate a quarter circle
+ * at the rounded corners of buffers
+ */
+const BUFFER_STEPS = 8;
+
+/**
+ * The maximum distance of a corner of an offset line from the corresponding
+ * vertex of the original line, as a multiple of the offset distance.
+ * Sharper corners are bevelled.
+ */
+const MITER_LIMIT = 4;
+
+/**
+ * The sine of the angle below which consecutive line segments are considered parallel
+ */
+const PARALLEL_TOLERANCE = 1e-9;
+
+/**
+ * Create a polygon covering all positions within a distance of a geometry
+ *
+ * @param geometry The geometry
+ * @param distance The distance, in metres. A negative distance shrinks polygons,
+ *                 and produces nothing for other types of geometry.
+ * @return The buffer, or `null` if it is empty
+ */
+export function bufferGeometry(
+  geometry: EditableGeometry,
+  distance: number
+): Polygon | MultiPolygon | null {
+  const result = buffer(geometry, distance, {
+    units: 'meters',
+    steps: BUFFER_STEPS,
+  });
+  // The result is undefined if the buffer is empty
+  if (!result || result.geometry.coordinates.length === 0) {
+    return null;
+  }
+  return result.geometry;
+}
+
+/**
+ * Offset a line string by a distance, treating longitude and latitude
+ * as planar coordinates scaled to metres at the latitude of the first vertex
+ *
+ * @param positions The vertices of the line string
+ * @param distance The distance, in metres, which is positive to offset
+ *                 the line to its left, or negative to offset it to its right
+ * @return The vertices of the offset line, or `null` if the line string
+ *         does not have at least two distinct vertices
+ */
+function offsetSequence(
+  positions: Array<Position>,
+  distance: number
+): Array<Position> | null {
+  if (positions.length === 0) {
+    return null;
+  }
+  const scale = Math.cos((positions[0][1] * Math.PI) / 180) * METERS_PER_DEGREE;
+  const planar = positions
+    .map((val) => [val[0] * scale, val[1] * METERS_PER_DEGREE])
+    .filter(
+      (val, index, arr) =>
+        index === 0 ||
+        val[0] !== arr[index - 1][0] ||
+        val[1] !== arr[index - 1][1]
+    );
+  if (planar.length < 2) {
+    return null;
+  }
+  // Each line segment, moved sideways by the offset distance
+  const segments = planar.slice(1).map((end, index) => {
+    const start = planar[index];
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const normal = [
+      (-(end[1] - start[1]) / length) * distance,
+      ((end[0] - start[0]) / length) * distance,
+    ];
+    return [
+      [start[0] + normal[0], start[1] + normal[1]],
+      [end[0] + normal[0], end[1] + normal[1]],
+    ];
+  });
+  const result: Array<Position> = [segments[0][0]];
+  for (let i = 1; i < segments.length; i++) {
+    const [a1, a2] = segments[i - 1];
+    const [b1, b2] = segments[i];
+    const rx = a2[0] - a1[0];
+    const ry = a2[1] - a1[1];
+    const sx = b2[0] - b1[0];
+    const sy = b2[1] - b1[1];
+    const cross = rx * sy - ry * sx;
+    if (
+      Math.abs(cross) <
+      PARALLEL_TOLERANCE * Math.hypot(rx, ry) * Math.hypot(sx, sy)
+    ) {
+      if (rx * sx + ry * sy > 0) {
+        result.push(a2);
+      } else {
+        // The line doubles back on itself
+        result.push(a2, b1);
+      }
+      continue;
+    }
+    // The corner where the two offset segments, extended as needed, meet
+    const t = ((b1[0] - a1[0]) * sy - (b1[1] - a1[1]) * sx) / cross;
+    const corner = [a1[0] + t * rx, a1[1] + t * ry];
+    const vertex = planar[i];
+    if (
+      Math.hypot(corner[0] - vertex[0], corner[1] - vertex[1]) >
+      MITER_LIMIT * Math.abs(distance)
+    ) {
+      result.push(a2, b1);
+    } else {
+      result.push(corner);
+    }
+  }
+  result.push(segments[segments.length - 1][1]);
+  return result.map((val) => [val[0] / scale, val[1] / METERS_PER_DEGREE]);
+}
+
+/**
+ * Create a line parallel to a line string or multi-line string
+ *
+ * @param geometry The line string or multi-line string
+ * @param distance The distance, in metres, which is positive to offset
+ *                 lines to their left, or negative to offset them to their right
+ * @return The offset line, or `null` if there are no lines with
+ *         at least two distinct vertices
+ */
+export function offsetLine(
+  geometry: LineString | MultiLineString,
+  distance: number
+): LineString | MultiLineString | null {
+  switch (geometry.type) {
+    case 'LineString': {
+      const coordinates = offsetSequence(geometry.coordinates, distance);
+      if (!coordinates) {
+        return null;
+      }
+      return { type: geometry.type, coordinates };
+    }
+    case 'MultiLineString': {
+      const coordinates: Array<Array<Position>> = [];
+      geometry.coordinates.forEach((val) => {
+        const offset = offsetSequence(val, distance);
+        if (offset) {
+          coordinates.push(offset);
+        }
+      });
+      if (coordinates.length === 0) {
+        return null;
+      }
+      return { type: geometry.type, coordinates };
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Utilities for clipping polygons to boundaries and removing overlaps between polygons
+ * @packageDocumentation
+ */
+import area from '@turf/area';
+import difference from '@turf/difference';
+import intersect from '@turf/intersect';
+import type { MultiPolygon, Polygon } from 'geojson';
+
+/**
+ * The relative change in area below which clipping is considered
+ * to have left a polygon unchanged
+ */
+const AREA_TOLERANCE = 1e-9;
+
+/**
+ * Clip a polygon to a boundary, and remove the parts of it that overlap other polygons
+ *
+ * @param geometry The polygon or multi-polygon to clip
+ * @param boundary The area outside of which parts of `geometry` are removed,
+ *                 or `null` if `geometry` is not to be clipped to a boundary
+ * @param neighbours Polygons and multi-polygons whose areas are removed from `geometry`
+ * @return `geometry` itself if clipping does not remove any of its area,
+ *         `null` if clipping removes all of its area, or otherwise a new polygon,
+ *         or a new multi-polygon if clipping divides it into separate parts
+ */
+export function clipPolygon(
+  geometry: Polygon | MultiPolygon,
+  boundary: Polygon | MultiPolygon | null,
+  neighbours: Array<Polygon | MultiPolygon>
+): Polygon | MultiPolygon | null {
+  let result: Polygon | MultiPolygon | null = geometry;
+  if (boundary) {
+    result = intersect(result, boundary)?.geometry ?? null;
+  }
+  for (let i = 0; i < neighbours.length && result; i++) {
+    result = difference(result, neighbours[i])?.geometry ?? null;
+  }
+  if (!result) {
+    return null;
+  }
+  const originalArea = area(geometry);
+  const clippedArea = area(result);
+  if (clippedArea === 0) {
+    return null;
+  } else if (originalArea - clippedArea <= originalArea * AREA_TOLERANCE) {
+    return geometry;
+  }
+  return result;
+}
@@ -0,0 +1,219 @@
+/**
+ * Utilities for constraining the directions and lengths of edges being drawn
+ * @packageDocumentation
+ */
+import type { Position } from 'geojson';
+
+import type { AngleConstraint, DrawingConstraints } from '../../type/geometry';
+import { METERS_PER_DEGREE } from './transform';
+
+/**
+ * A vertex that the next vertex is positioned relative to
+ */
+export interface ConstraintReference {
+  /**
+   * The vertex at the start of the edge ending at the next vertex
+   */
+  previous: Position;
+  /**
+   * The vertex before {@link previous}, which gives the direction of the previous edge,
+   * or `undefined` if there is no previous edge
+   */
+  beforePrevious?: Position;
+}
+
+/**
+ * Whether any constraints are imposed on vertices
+ * @param constraints The constraints
+ */
+export function hasConstraints(constraints: DrawingConstraints): boolean {
+  return (
+    constraints.angle !== 'none' ||
+    constraints.bearing !== null ||
+    constraints.length !== null
+  );
+}
+
+/**
+ * The step between the bearings allowed by an angle constraint
+ * @param angle The angle constraint, which must not be `'none'`
+ * @return The step, in degrees
+ */
+function angleStep(angle: Exclude<AngleConstraint, 'none'>): number {
+  switch (angle) {
+    case 'right':
+      return 90;
+    case 'diagonal':
+      return 45;
+  }
+}
+
+/**
+ * Convert a position to planar coordinates in metres, relative to an origin,
+ * which are accurate near the origin
+ *
+ * @param position The position
+ * @param origin The origin
+ * @return Eastward and northward offsets from the origin, in metres
+ */
+function toLocal(position: Position, origin: Position): [number, number] {
+  const scale = Math.cos((origin[1] * Math.PI) / 180) * METERS_PER_DEGREE;
+  return [
+    (position[0] - origin[0]) * scale,
+    (position[1] - origin[1]) * METERS_PER_DEGREE,
+  ];
+}
+
+/**
+ * Convert planar coordinates relative to an origin back to a position.
+ * The inverse of {@link toLocal}.
+ *
+ * @param offset Eastward and northward offsets from the origin, in metres
+ * @param origin The origin
+ */
+function fromLocal(offset: [number, number], origin: Position): Position {
+  const scale = Math.cos((origin[1] * Math.PI) / 180) * METERS_PER_DEGREE;
+  return [
+    origin[0] + offset[0] / scale,
+    origin[1] + offset[1] / METERS_PER_DEGREE,
+  ];
+}
+
+/**
+ * The unit vector in the direction of a bearing
+ * @param bearing The bearing, in degrees clockwise from north
+ * @return Eastward and northward components
+ */
+function bearingVector(bearing: number): [number, number] {
+  const radians = (bearing * Math.PI) / 180;
+  return [Math.sin(radians), Math.cos(radians)];
+}
+
+/**
+ * Calculate the bearing from one position to another, treating longitude and latitude
+ * as planar coordinates scaled to metres at the latitude of the first position
+ *
+ * @param start The first position
+ * @param end The second position
+ * @return The bearing, in degrees clockwise from north, in the range [0, 360)
+ */
+export function planarBearing(start: Position, end: Position): number {
+  const [x, y] = toLocal(end, start);
+  const bearing = (Math.atan2(x, y) * 180) / Math.PI;
+  return bearing < 0 ? bearing + 360 : bearing;
+}
+
+/**
+ * The bearings along which a vertex can be placed under an angle constraint.
+ * The directions are relative to the previous edge, or to north
+ * if there is no previous edge.
+ *
+ * @param angle The angle constraint, which must not be `'none'`
+ * @param reference The vertices preceding the vertex
+ * @return The bearings, in degrees clockwise from north
+ */
+function allowedBearings(
+  angle: Exclude<AngleConstraint, 'none'>,
+  reference: ConstraintReference
+): Array<number> {
+  const step = angleStep(angle);
+  const base = reference.beforePrevious
+    ? planarBearing(reference.beforePrevious, reference.previous)
+    : 0;
+  const result: Array<number> = [];
+  for (let bearing = 0; bearing < 360; bearing += step) {
+    result.push(base + bearing);
+  }
+  return result;
+}
+
+/**
+ * Move a new or dragged vertex to satisfy drawing constraints.
+ *
+ * If a bearing is locked, the vertex is moved to the nearest point on the line
+ * through the previous vertex along the bearing. Otherwise, if there is an angle
+ * constraint, the vertex is moved to the nearest point on the nearest allowed ray
+ * from the previous vertex. Finally, if the length of the edge is fixed, the vertex
+ * is moved along its direction from the previous vertex until the edge
+ * has that length.
+ *
+ * Longitude and latitude are treated as planar coordinates scaled to metres
+ * at the latitude of the previous vertex.
+ *
+ * @param position The position of the vertex
+ * @param reference The vertices preceding the vertex
+ * @param constraints The constraints
+ * @return The new position of the vertex
+ */
+export function constrainPosition(
+  position: Position,
+  reference: ConstraintReference,
+  constraints: DrawingConstraints
+): Position {
+  const { previous } = reference;
+  const offset = toLocal(position, previous);
+  let direction: [number, number];
+  let distance: number;
+  if (constraints.bearing !== null) {
+    direction = bearingVector(constraints.bearing);
+    // The vertex can be on either side of the previous vertex
+    distance = offset[0] * direction[0] + offset[1] * direction[1];
+  } else if (constraints.angle !== 'none') {
+    const bearing = planarBearing(previous, position);
+    const step = angleStep(constraints.angle);
+    const [base] = allowedBearings(constraints.angle, reference);
+    direction = bearingVector(
+      base + Math.round((bearing - base) / step) * step
+    );
+    distance = offset[0] * direction[0] + offset[1] * direction[1];
+  } else {
+    distance = Math.hypot(offset[0], offset[1]);
+    if (distance === 0) {
+      return position;
+    }
+    direction = [offset[0] / distance, offset[1] / distance];
+  }
+  if (constraints.length !== null) {
+    distance = distance < 0 ? -constraints.length : constraints.length;
+  }
+  return fromLocal(
+    [direction[0] * distance, direction[1] * distance],
+    previous
+  );
+}
+
+/**
+ * Create guide lines showing where a vertex can be placed under drawing constraints
+ *
+ * @param reference The vertices preceding the vertex
+ * @param constraints The constraints
+ * @param length The length of the guide lines, in metres, if the length
+ *               of the edge ending at the vertex is not fixed
+ * @return A line through the previous vertex along a locked bearing, or rays
+ *         from the previous vertex along the allowed directions. An empty list
+ *         is returned if the direction of the edge is not constrained.
+ */
+export function constraintGuides(
+  reference: ConstraintReference,
+  constraints: DrawingConstraints,
+  length: number
+): Array<Array<Position>> {
+  const { previous } = reference;
+  const guideLength = constraints.length ?? length;
+  const ray = (bearing: number): Position => {
+    const direction = bearingVector(bearing);
+    return fromLocal(
+      [direction[0] * guideLength, direction[1] * guideLength],
+      previous
+    );
+  };
+  if (constraints.bearing !== null) {
+    return [[ray(constraints.bearing + 180), ray(constraints.bearing)]];
+  } else if (constraints.angle !== 'none') {
+    return allowedBearings(constraints.angle, reference).map((bearing) => [
+      previous,
+      ray(bearing),
+    ]);
+  }
+  return [];
+}
@@ -0,0 +1,130 @@
+/**
+ * Utilities for converting geometry between geometry types
+ * @packageDocumentation
+ */
+import type {
+  LineString,
+  MultiLineString,
+  Point,
+  Polygon,
+  Position,
+} from 'geojson';
+import isEqual from 'lodash/isEqual';
+import sortBy from 'lodash/sortBy';
+import uniqWith from 'lodash/uniqWith';
+
+/**
+ * Turn a line string into a polygon by joining its last vertex to its first vertex
+ *
+ * @param line The line string, which may already end at its first vertex
+ * @return A polygon without holes, or `null` if the line string has fewer than
+ *         three distinct vertices
+ */
+export function closeLine(line: LineString): Polygon | null {
+  const positions: Array<Position> = [...line.coordinates];
+  if (
+    positions.length > 1 &&
+    isEqual(positions[0], positions[positions.length - 1])
+  ) {
+    positions.pop();
+  }
+  if (uniqWith(positions, isEqual).length < 3) {
+    return null;
+  }
+  return {
+    type: 'Polygon',
+    coordinates: [[...positions, positions[0]]],
+  };
+}
+
+/**
+ * Turn a polygon into a line string that follows its boundary
+ *
+ * @param polygon The polygon
+ * @return A line string that starts and ends at the same vertex, or a multi-line string
+ *         with one line string for each linear ring if the polygon has holes
+ */
+export function openPolygon(polygon: Polygon): LineString | MultiLineString {
+  if (polygon.coordinates.length === 1) {
+    return { type: 'LineString', coordinates: polygon.coordinates[0] };
+  }
+  return { type: 'MultiLineString', coordinates: polygon.coordinates };
+}
+
+/**
+ * Join points into a line string
+ *
+ * @param points The points, in the order in which they are to be joined
+ * @return A line string, or `null` if there are fewer than two points
+ */
+export function joinPoints(points: Array<Point>): LineString | null {
+  if (points.length < 2) {
+    return null;
+  }
+  return {
+    type: 'LineString',
+    coordinates: points.map((val) => val.coordinates),
+  };
+}
+
+/**
+ * The z-component of the cross product of the vectors from one position to two others,
+ * treating longitude and latitude as planar coordinates
+ *
+ * @param origin The origin of the vectors
+ * @param a The end of the first vector
+ * @param b The end of the second vector
+ * @return A positive value if `b` is counterclockwise of `a` as seen from `origin`,
+ *         a negative value if it is clockwise, or zero if the positions lie on a line
+ */
+function cross(origin: Position, a: Position, b: Position): number {
+  return (
+    (a[0] - origin[0]) * (b[1] - origin[1]) -
+    (a[1] - origin[1]) * (b[0] - origin[0])
+  );
+}
+
+/**
+ * Compute the smallest convex polygon that contains points, using Andrew's
+ * monotone chain algorithm, treating longitude and latitude as planar coordinates
+ *
+ * @param points The points
+ * @return A polygon whose vertices are in counterclockwise order, or `null` if the points
+ *         do not enclose any area, such as if there are fewer than three distinct points,
+ *         or if the points lie on a line
+ */
+export function convexHull(points: Array<Point>): Polygon | null {
+  const positions = sortBy(
+    uniqWith(
+      points.map((val) => val.coordinates),
+      isEqual
+    ),
+    [(val) => val[0], (val) => val[1]]
+  );
+  if (positions.length < 3) {
+    return null;
+  }
+  const halfHull = (sequence: Array<Position>) => {
+    const hull: Array<Position> = [];
+    sequence.forEach((val) => {
+      while (
+        hull.length >= 2 &&
+        cross(hull[hull.length - 2], hull[hull.length - 1], val) <= 0
+      ) {
+        hull.pop();
+      }
+      hull.push(val);
+    });
+    // The last position is the first position of the other half
+    hull.pop();
+    return hull;
+  };
+  const hull = [...halfHull(positions), ...halfHull([...positions].reverse())];
+  if (hull.length < 3) {
+    return null;
+  }
+  return {
+    type: 'Polygon',
+    coordinates: [[...hull, hull[0]]],
+  };
+}
@@ -0,0 +1,409 @@
+/**
+ * Utilities for presenting coordinates to the user, and for reading coordinates
+ * entered by the user, in different formats
+ * @packageDocumentation
+ */
+import type { Position } from 'geojson';
+
+import type { CoordinateFormat } from '../../type/geometry';
+
+/**
+ * The semi-major axis of the WGS 84 ellipsoid, in metres
+ */
+const WGS84_A = 6378137;
+
+/**
+ * The flattening of the WGS 84 ellipsoid
+ */
+const WGS84_F = 1 / 298.257223563;
+
+/**
+ * The square of the first eccentricity of the WGS 84 ellipsoid
+ */
+const E2 = WGS84_F * (2 - WGS84_F);
+
+/**
+ * The square of the second eccentricity of the WGS 84 ellipsoid
+ */
+const EP2 = E2 / (1 - E2);
+
+/**
+ * The scale factor along the central meridian of each UTM zone
+ */
+const UTM_K0 = 0.9996;
+
+/**
+ * The easting of the central meridian of each UTM zone, in metres
+ */
+const UTM_FALSE_EASTING = 500000;
+
+/**
+ * The northing of the equator in the southern hemisphere, in metres
+ */
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+
+/**
+ * The latitude bands of the UTM system, from south to north, each spanning 8 degrees.
+ * The last band, X, spans 12 degrees.
+ */
+const UTM_BANDS = 'CDEFGHJKLMNPQRSTUVWX';
+
+/**
+ * The southern limit of the UTM system, in degrees
+ */
+const UTM_MIN_LATITUDE = -80;
+
+/**
+ * The northern limit of the UTM system, in degrees
+ */
+const UTM_MAX_LATITUDE = 84;
+
+/**
+ * The coefficient of the latitude in the series for the length of a meridian arc
+ */
+const M1 = 1 - E2 / 4 - (3 * E2 * E2) / 64 - (5 * E2 * E2 * E2) / 256;
+
+/**
+ * Coordinates in the Universal Transverse Mercator (UTM) system
+ */
+export interface UtmCoordinates {
+  /**
+   * The zone number, from 1 to 60
+   */
+  zone: number;
+  /**
+   * Whether the coordinates are in the northern hemisphere
+   */
+  north: boolean;
+  /**
+   * The easting, in metres
+   */
+  easting: number;
+  /**
+   * The northing, in metres
+   */
+  northing: number;
+}
+
+/**
+ * Convert degrees to radians
+ * @param degrees The angle in degrees
+ */
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Convert radians to degrees
+ * @param radians The angle in radians
+ */
+function toDegrees(radians: number) {
+  return (radians * 180) / Math.PI;
+}
+
+/**
+ * The longitude of the central meridian of a UTM zone, in degrees
+ * @param zone The zone number
+ */
+function centralMeridian(zone: number) {
+  return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * Convert a position to UTM coordinates, in the standard zone for its longitude.
+ * The exceptions to the standard zones around Norway and Svalbard are not applied.
+ *
+ * @param position The longitude and latitude of the position
+ * @return The UTM coordinates, or `null` if the position is outside
+ *         the latitudes covered by the UTM system
+ */
+export function toUtm(position: Position): UtmCoordinates | null {
+  const [longitude, latitude] = position;
+  if (latitude < UTM_MIN_LATITUDE || latitude > UTM_MAX_LATITUDE) {
+    return null;
+  }
+  const zone = Math.min(Math.floor((longitude + 180) / 6) + 1, 60);
+  const phi = toRadians(latitude);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+  const n = WGS84_A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * toRadians(longitude - centralMeridian(zone));
+  const m =
+    WGS84_A *
+    (M1 * phi -
+      ((3 * E2) / 8 + (3 * E2 * E2) / 32 + (45 * E2 * E2 * E2) / 1024) *
+        Math.sin(2 * phi) +
+      ((15 * E2 * E2) / 256 + (45 * E2 * E2 * E2) / 1024) * Math.sin(4 * phi) -
+      ((35 * E2 * E2 * E2) / 3072) * Math.sin(6 * phi));
+  const easting =
+    UTM_K0 *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    UTM_FALSE_EASTING;
+  let northing =
+    UTM_K0 *
+    (m +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720));
+  const north = latitude >= 0;
+  if (!north) {
+    northing += UTM_FALSE_NORTHING_SOUTH;
+  }
+  return { zone, north, easting, northing };
+}
+
+/**
+ * Convert UTM coordinates to a position
+ *
+ * @param coordinates The UTM coordinates
+ * @return The longitude and latitude of the position
+ */
+export function fromUtm({
+  zone,
+  north,
+  easting,
+  northing,
+}: UtmCoordinates): Position {
+  const x = easting - UTM_FALSE_EASTING;
+  const y = north ? northing : northing - UTM_FALSE_NORTHING_SOUTH;
+  const mu = y / UTM_K0 / (WGS84_A * M1);
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const n1 = WGS84_A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const t1 = tanPhi1 * tanPhi1;
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const r1 = (WGS84_A * (1 - E2)) / (1 - E2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = x / (n1 * UTM_K0);
+  const phi =
+    phi1 -
+    ((n1 * tanPhi1) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) *
+          d ** 6) /
+          720);
+  const lambda =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) /
+        120) /
+    cosPhi1;
+  return [centralMeridian(zone) + toDegrees(lambda), toDegrees(phi)];
+}
+
+/**
+ * Present an angle in degrees, minutes, and seconds, to a tenth of a second
+ *
+ * @param degrees The angle in decimal degrees
+ * @param positive The hemisphere letter for positive angles
+ * @param negative The hemisphere letter for negative angles
+ */
+function formatDms(degrees: number, positive: string, negative: string) {
+  // Round to tenths of a second first, so that 60 seconds are carried over
+  const tenths = Math.round(Math.abs(degrees) * 36000);
+  const wholeDegrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = (tenths % 600) / 10;
+  return `${wholeDegrees}°${minutes}'${seconds.toFixed(1)}"${
+    degrees < 0 ? negative : positive
+  }`;
+}
+
+/**
+ * Present a position to the user
+ *
+ * @param position The longitude and latitude of the position
+ * @param format The format in which to present the position
+ * @return The latitude followed by the longitude, in decimal degrees or
+ *         degrees, minutes and seconds, or the UTM zone, latitude band, easting,
+ *         and northing. UTM coordinates cannot be presented for positions
+ *         that are too far north or south, so `null` is returned instead.
+ */
+export function formatPosition(
+  position: Position,
+  format: CoordinateFormat
+): string | null {
+  const [longitude, latitude] = position;
+  switch (format) {
+    case 'decimal':
+      return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+    case 'dms':
+      return `${formatDms(latitude, 'N', 'S')} ${formatDms(
+        longitude,
+        'E',
+        'W'
+      )}`;
+    case 'utm': {
+      const utm = toUtm(position);
+      if (!utm) {
+        return null;
+      }
+      const band =
+        UTM_BANDS[
+          Math.min(
+            Math.floor((latitude - UTM_MIN_LATITUDE) / 8),
+            UTM_BANDS.length - 1
+          )
+        ];
+      return `${utm.zone}${band} ${utm.easting.toFixed(
+        2
+      )} ${utm.northing.toFixed(2)}`;
+    }
+  }
+}
+
+/**
+ * Check that a longitude and latitude are within range
+ *
+ * @param longitude The longitude
+ * @param latitude The latitude
+ * @return The position, or `null` if the longitude or latitude is out of range
+ */
+function validPosition(longitude: number, latitude: number): Position | null {
+  if (
+    !Number.isFinite(longitude) ||
+    !Number.isFinite(latitude) ||
+    Math.abs(longitude) > 180 ||
+    Math.abs(latitude) > 90
+  ) {
+    return null;
+  }
+  return [longitude, latitude];
+}
+
+/**
+ * Read a latitude and longitude in decimal degrees, separated by a comma or spaces
+ * @param text The text entered by the user
+ */
+function parseDecimal(text: string): Position | null {
+  const match = text.match(
+    /^\s*([+-]?\d+(?:\.\d*)?)\s*(?:,\s*|\s+)([+-]?\d+(?:\.\d*)?)\s*$/
+  );
+  if (!match) {
+    return null;
+  }
+  return validPosition(parseFloat(match[2]), parseFloat(match[1]));
+}
+
+/**
+ * Read a latitude and longitude in degrees, minutes, and seconds, each followed
+ * by a hemisphere letter. Minutes and seconds are optional, and
+ * the degree, minute, and second symbols can be replaced by spaces.
+ *
+ * @param text The text entered by the user
+ */
+function parseDms(text: string): Position | null {
+  let latitude: number | undefined;
+  let longitude: number | undefined;
+  const upperCaseText = text.toUpperCase();
+  // Each angle is everything up to, and including, its hemisphere letter
+  const angles = upperCaseText.match(/[^NSEW]*[NSEW]/g);
+  if (
+    !angles ||
+    angles.length !== 2 ||
+    angles.join('') !== upperCaseText.trimEnd()
+  ) {
+    return null;
+  }
+  for (const angle of angles) {
+    const hemisphere = angle[angle.length - 1];
+    const numbers = angle.match(/\d+(?:\.\d+)?/g);
+    if (
+      !numbers ||
+      numbers.length > 3 ||
+      !/^[\d.\s,°'′"″]*$/.test(angle.slice(0, -1))
+    ) {
+      return null;
+    }
+    const [degrees, minutes = 0, seconds = 0] = numbers.map(parseFloat);
+    if (minutes >= 60 || seconds >= 60) {
+      return null;
+    }
+    let value = degrees + minutes / 60 + seconds / 3600;
+    if (hemisphere === 'S' || hemisphere === 'W') {
+      value = -value;
+    }
+    if (hemisphere === 'N' || hemisphere === 'S') {
+      if (latitude !== undefined) {
+        return null;
+      }
+      latitude = value;
+    } else {
+      if (longitude !== undefined) {
+        return null;
+      }
+      longitude = value;
+    }
+  }
+  if (latitude === undefined || longitude === undefined) {
+    return null;
+  }
+  return validPosition(longitude, latitude);
+}
+
+/**
+ * Read UTM coordinates consisting of a zone number, a latitude band letter,
+ * an easting, and a northing, such as `18T 445000 5030000`
+ *
+ * @param text The text entered by the user
+ */
+function parseUtm(text: string): Position | null {
+  const match = text
+    .toUpperCase()
+    .match(
+      /^\s*(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d*)?)\s*(?:,\s*|\s+)(\d+(?:\.\d*)?)\s*$/
+    );
+  if (!match) {
+    return null;
+  }
+  const zone = parseInt(match[1], 10);
+  if (zone < 1 || zone > 60) {
+    return null;
+  }
+  const [longitude, latitude] = fromUtm({
+    zone,
+    north: match[2] >= 'N',
+    easting: parseFloat(match[3]),
+    northing: parseFloat(match[4]),
+  });
+  return validPosition(longitude, latitude);
+}
+
+/**
+ * Read a position entered by the user
+ *
+ * @param text The text entered by the user, in the same format as produced
+ *             by {@link formatPosition}
+ * @param format The format of the text
+ * @return The longitude and latitude of the position, or `null`
+ *         if the text is not a valid position in the given format
+ */
+export function parsePosition(
+  text: string,
+  format: CoordinateFormat
+): Position | null {
+  switch (format) {
+    case 'decimal':
+      return parseDecimal(text);
+    case 'dms':
+      return parseDms(text);
+    case 'utm':
+      return parseUtm(text);
+  }
+}
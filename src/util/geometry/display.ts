@@ -4,10 +4,20 @@ import booleanEqual from '@turf/boolean-equal';
 import booleanDisjoint from '@turf/boolean-disjoint';
 import bbox from '@turf/bbox';
 import centroid from '@turf/centroid';
+import { lineString } from '@turf/helpers';
 import length from '@turf/length';
-import type { Feature, LineString, Polygon, GeoJsonProperties } from 'geojson';
+import type {
+  Feature,
+  GeoJsonProperties,
+  MultiPolygon,
+  Polygon,
+} from 'geojson';
 
-import type { BBox2D, EditableFeature } from '../../type/geometry';
+import type {
+  BBox2D,
+  EditableFeature,
+  NonPointGeometry,
+} from '../../type/geometry';
 import { Comparison, groupSort } from '../collections';
 import type { Comparator } from '../collections';
 
@@ -32,6 +42,21 @@ export function findCenterForAnnotation(feature: EditableFeature) {
        * See https://stackoverflow.com/questions/55982479/difference-between-centroid-and-centerofmass-in-turf
        */
       return centroid(feature.geometry).geometry.coordinates;
+    case 'MultiPoint':
+    case 'MultiPolygon':
+      return centroid(feature.geometry).geometry.coordinates;
+    case 'MultiLineString':
+      // Midpoint in terms of path length along the longest polyline
+      let longest = feature.geometry.coordinates[0];
+      let longestLength = 0;
+      for (const coordinates of feature.geometry.coordinates) {
+        const lineLength = length(lineString(coordinates));
+        if (lineLength > longestLength) {
+          longest = coordinates;
+          longestLength = lineLength;
+        }
+      }
+      return along(lineString(longest), longestLength / 2).geometry.coordinates;
   }
 }
 
@@ -46,15 +71,31 @@ export function findBoundingBox(feature: EditableFeature): BBox2D | null {
     case 'Point':
       // Turf's bounding box function would yield a degenerate bounding box
       return null;
+    case 'MultiPoint':
+      if (feature.geometry.coordinates.length < 2) {
+        // A single point has a degenerate bounding box
+        return null;
+      }
+      return boundingBox2D(feature);
     case 'LineString':
     case 'Polygon':
-      const box = bbox(feature.geometry);
-      switch (box.length) {
-        case 4:
-          return box;
-        case 6:
-          return [box[0], box[1], box[3], box[4]];
-      }
+    case 'MultiLineString':
+    case 'MultiPolygon':
+      return boundingBox2D(feature);
+  }
+}
+
+/**
+ * Get the bounding box for a feature, truncated to two dimensions
+ * @param feature The feature whose bounding box is to be calculated.
+ */
+function boundingBox2D(feature: EditableFeature): BBox2D {
+  const box = bbox(feature.geometry);
+  switch (box.length) {
+    case 4:
+      return box;
+    case 6:
+      return [box[0], box[1], box[3], box[4]];
   }
 }
 
@@ -69,8 +110,8 @@ export function findBoundingBox(feature: EditableFeature): BBox2D | null {
  * @param b The second polygon to compare
  */
 function comparePolygonsByOverlap<Props extends GeoJsonProperties>(
-  a: Feature<Polygon, Props>,
-  b: Feature<Polygon, Props>
+  a: Feature<Polygon | MultiPolygon, Props>,
+  b: Feature<Polygon | MultiPolygon, Props>
 ): Comparison | undefined {
   if (booleanEqual(a, b)) {
     return Comparison.Equal;
@@ -91,30 +132,40 @@ function comparePolygonsByOverlap<Props extends GeoJsonProperties>(
   }
 }
 
+/**
+ * Check if a shape is a polyline or a multi-polyline
+ * @param geometry The shape's geometry
+ */
+function isLineGeometry(geometry: NonPointGeometry) {
+  return geometry.type === 'LineString' || geometry.type === 'MultiLineString';
+}
+
 /**
  * An ordering function that declares polylines as being "greater"
  * than polygons, and uses comparePolygonsByOverlap to order polygons.
+ * Multi-polylines are treated as polylines, and multi-polygons are
+ * treated as polygons.
  *
  * @param a The first shape to compare
  * @param b The second shape to compare
  */
 export function compareShapesByOverlap<Props extends GeoJsonProperties>(
-  a: Feature<Polygon | LineString, Props>,
-  b: Feature<Polygon | LineString, Props>
+  a: Feature<NonPointGeometry, Props>,
+  b: Feature<NonPointGeometry, Props>
 ): Comparison | undefined {
-  if (a.geometry.type === 'LineString') {
-    if (b.geometry.type === 'LineString') {
+  if (isLineGeometry(a.geometry)) {
+    if (isLineGeometry(b.geometry)) {
       return undefined;
     } else {
       return Comparison.Greater;
     }
   } else {
-    if (b.geometry.type === 'LineString') {
+    if (isLineGeometry(b.geometry)) {
       return Comparison.Less;
     } else {
       return comparePolygonsByOverlap(
-        a as Feature<Polygon, Props>,
-        b as Feature<Polygon, Props>
+        a as Feature<Polygon | MultiPolygon, Props>,
+        b as Feature<Polygon | MultiPolygon, Props>
       );
     }
   }
@@ -137,10 +188,8 @@ export function compareShapesByOverlap<Props extends GeoJsonProperties>(
  * @param compare An optional function defining an order between shapes
  */
 export function orderShapes<Props extends GeoJsonProperties>(
-  shapes: Array<Feature<Polygon | LineString, Props>>,
-  compare: Comparator<
-    Feature<Polygon | LineString, Props>
-  > = compareShapesByOverlap
-): Array<Array<Feature<Polygon | LineString, Props>>> {
+  shapes: Array<Feature<NonPointGeometry, Props>>,
+  compare: Comparator<Feature<NonPointGeometry, Props>> = compareShapesByOverlap
+): Array<Array<Feature<NonPointGeometry, Props>>> {
   return groupSort(shapes, compare);
 }
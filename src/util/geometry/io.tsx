@@ -4,10 +4,7 @@ import { autorun, runInAction } from 'mobx';
 import filter from 'lodash/filter';
 import cloneDeep from 'lodash/cloneDeep';
 import { hint } from '@mapbox/geojsonhint/lib/object';
-import flatten from '@turf/flatten';
-import { polygon } from '@turf/helpers';
-import type { AllGeoJSON } from '@turf/helpers';
-import type { FeatureCollection, Geometry } from 'geojson';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
 
 import type { RootModel } from '../../state/RootModel';
 import type { EditableFeature, EditableGeometry } from '../../type/geometry';
@@ -15,6 +12,12 @@ import type {
   GeometryImportOptions,
   GeometryImportResult,
 } from '../../component/geometry/GeometryIO';
+import {
+  hasSemanticShapeField,
+  readSemanticShape,
+  SEMANTIC_SHAPE_KEY,
+  withSemanticShapeField,
+} from './semantic';
 
 /**
  * An error indicating that candidate GeoJSON data is not JSON
@@ -205,58 +208,49 @@ function validateAndTransformGeometry(
     if (features.type !== 'FeatureCollection') {
       throw new InvalidGeoJSONError('The object is not a FeatureCollection');
     }
-    // Convert multi-geometry features to multiple single-geometry features
-    let flattenedFeatures = flatten(features as AllGeoJSON);
-    let exact = true;
-    if (flattenedFeatures.features.length !== features.features.length) {
-      exact = false;
-    }
+    // Convert geometry collection features to multiple features
+    let { features: splitFeatures, exact } = splitGeometryCollections(
+      features.features
+    );
     // Geometry type-specific custom validation
-    let transformedFeatures = flattenedFeatures.features.map(
-      (feature, index) => {
-        let geometry = feature.geometry as Geometry;
-        switch (geometry.type) {
-          case 'GeometryCollection':
-          case 'MultiLineString':
-          case 'MultiPoint':
-          case 'MultiPolygon':
-            // These types of geometry should have been subdivided by `flatten()`.
+    let transformedFeatures = splitFeatures.map((feature, index) => {
+      let geometry = feature.geometry as Geometry;
+      switch (geometry.type) {
+        case 'GeometryCollection':
+          // This type of geometry should have been subdivided by `splitGeometryCollections()`.
+          return {
+            feature,
+            error: new InvalidGeometryError(
+              `Unexpected geometry type, ${geometry.type}, for split feature with index ${index}.`
+            ),
+            canImport: false,
+          };
+        case 'Point':
+        case 'LineString':
+        case 'Polygon':
+        case 'MultiPoint':
+        case 'MultiLineString':
+        case 'MultiPolygon': {
+          // These features can be used as-is, including polygons with holes
+          const editable = feature as EditableFeature;
+          if (hasSemanticShapeField(editable) && !readSemanticShape(editable)) {
+            // The feature can still be imported as an ordinary shape
+            exact = false;
             return {
-              feature,
+              feature: {
+                ...editable,
+                properties: withSemanticShapeField(editable),
+              },
               error: new InvalidGeometryError(
-                `Unexpected geometry type, ${geometry.type}, for flattened feature with index ${index}.`
+                `The ${SEMANTIC_SHAPE_KEY} metadata field of the feature with index ${index} does not describe a circle or a rectangle that has an area, and whose polygon matches the ${geometry.type} geometry of the feature.`
               ),
-              canImport: false,
+              canImport: true,
             };
-          case 'Point':
-          case 'LineString':
-            // These features can be used as-is
-            return { feature, canImport: true };
-          case 'Polygon': {
-            // Remove holes from polygons
-            if (geometry.coordinates.length > 1) {
-              exact = false;
-              return {
-                feature: polygon(
-                  [geometry.coordinates[0]],
-                  feature.properties,
-                  feature
-                ),
-                error: new UnsupportedGeometryError(
-                  `Holes found in polygon feature with index ${index}.`
-                ),
-                canImport: true,
-              };
-            } else {
-              return {
-                feature,
-                canImport: true,
-              };
-            }
           }
+          return { feature, canImport: true };
         }
       }
-    );
+    });
 
     /**
      * Enforce strictness of custom geometry validation,
@@ -281,7 +275,9 @@ function validateAndTransformGeometry(
         (result) => result.canImport
       );
     }
-    const outputFeatures = transformedFeatures.map((result) => result.feature);
+    const outputFeatures = transformedFeatures.map(
+      (result) => result.feature as EditableFeature
+    );
 
     return Promise.resolve({
       errors: outputErrors,
@@ -294,16 +290,49 @@ function validateAndTransformGeometry(
 }
 
 /**
- * Implementation of {@link GeometryIORef.export}, with an additional `store`
- * parameter
+ * Convert features with `GeometryCollection` geometry into multiple features,
+ * one for each geometry in the collection. Nested geometry collections are
+ * also split up. Each new feature receives a copy of the properties
+ * of the original feature. Other features are passed through unchanged.
  *
- * Refer to the documentation of {@link GeometryIORef.export}.
+ * @param features The features to process
+ * @return The features, with geometry collections split up, and whether
+ *         the features were passed through unchanged, meaning that there were
+ *         no geometry collections, not even collections of a single geometry
+ */
+function splitGeometryCollections(features: Array<Feature>): {
+  features: Array<Feature>;
+  exact: boolean;
+} {
+  let result: Array<Feature> = [];
+  let exact = true;
+  for (let feature of features) {
+    if (feature.geometry.type === 'GeometryCollection') {
+      exact = false;
+      result = result.concat(
+        splitGeometryCollections(
+          feature.geometry.geometries.map((geometry) => ({
+            type: 'Feature',
+            geometry,
+            properties: cloneDeep(feature.properties),
+          }))
+        ).features
+      );
+    } else {
+      result.push(feature);
+    }
+  }
+  return { features: result, exact };
+}
+
+/**
+ * Read a feature collection from the store
  *
- * @param store The store that exports the geometry
+ * @param getFeatures A function that reads the feature collection from the store
  */
-export async function exportGeometry(
-  store: RootModel
-): Promise<FeatureCollection<EditableGeometry>> {
+function readGeometry(
+  getFeatures: () => FeatureCollection<EditableGeometry>
+): FeatureCollection<EditableGeometry> {
   let features: FeatureCollection<EditableGeometry> | null = null;
   /**
    * We need to use a MobX observable in a reactive context,
@@ -314,7 +343,7 @@ export async function exportGeometry(
    * in the future, we dispose of the reaction afterwards.
    */
   const disposer = autorun(() => {
-    features = store.geojson;
+    features = getFeatures();
   });
   disposer();
 
@@ -328,3 +357,31 @@ export async function exportGeometry(
     };
   }
 }
+
+/**
+ * Implementation of {@link GeometryIORef.export}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.export}.
+ *
+ * @param store The store that exports the geometry
+ */
+export async function exportGeometry(
+  store: RootModel
+): Promise<FeatureCollection<EditableGeometry>> {
+  return readGeometry(() => store.geojson);
+}
+
+/**
+ * Implementation of {@link GeometryIORef.exportClipboard}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.exportClipboard}.
+ *
+ * @param store The store that exports the geometry
+ */
+export async function exportClipboard(
+  store: RootModel
+): Promise<FeatureCollection<EditableGeometry>> {
+  return readGeometry(() => store.clipboardGeoJSON);
+}
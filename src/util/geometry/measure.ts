@@ -0,0 +1,91 @@
+/**
+ * Utilities for measuring the lengths and areas of geometry
+ * @packageDocumentation
+ */
+import area from '@turf/area';
+import { feature, lineString } from '@turf/helpers';
+import length from '@turf/length';
+import type { Position } from 'geojson';
+
+import type { EditableGeometry, Measurement } from '../../type/geometry';
+
+/**
+ * Measure the length of a sequence of positions along the surface of the Earth
+ *
+ * @param positions The sequence of positions
+ * @return The length, in metres
+ */
+export function sequenceLength(positions: Array<Position>): number {
+  if (positions.length < 2) {
+    return 0;
+  }
+  return length(lineString(positions), { units: 'meters' });
+}
+
+/**
+ * Measure the length, area, and perimeter of a geometry, where applicable
+ *
+ * @param geometry The geometry
+ * @return The measurements, in metres and square metres, except for the length
+ *         of an edge, which cannot be determined from the geometry alone
+ */
+export function measureGeometry(
+  geometry: EditableGeometry
+): Omit<Measurement, 'segmentLength'> {
+  switch (geometry.type) {
+    case 'Point':
+    case 'MultiPoint':
+      return { length: null, area: null, perimeter: null };
+    case 'LineString':
+    case 'MultiLineString':
+      return {
+        length: length(feature(geometry), { units: 'meters' }),
+        area: null,
+        perimeter: null,
+      };
+    case 'Polygon':
+    case 'MultiPolygon':
+      return {
+        length: null,
+        area: area(geometry),
+        perimeter: length(feature(geometry), { units: 'meters' }),
+      };
+  }
+}
+
+/**
+ * Add a measurement to a total, where either may be absent
+ * @param total The total
+ * @param value The measurement
+ */
+function addMeasurement(total: number | null, value: number | null) {
+  if (total === null) {
+    return value;
+  } else if (value === null) {
+    return total;
+  }
+  return total + value;
+}
+
+/**
+ * Combine the measurements of several shapes
+ *
+ * @param measurements The measurements of the shapes
+ * @return The total lengths, areas, and perimeters of the shapes, and the first edge length
+ *         that is not `null`, or `null` if there are no measurements
+ */
+export function combineMeasurements(
+  measurements: Array<Measurement>
+): Measurement | null {
+  if (measurements.length === 0) {
+    return null;
+  }
+  return measurements.reduce((total, val) => {
+    return {
+      segmentLength: total.segmentLength ?? val.segmentLength,
+      length: addMeasurement(total.length, val.length),
+      area: addMeasurement(total.area, val.area),
+      perimeter: addMeasurement(total.perimeter, val.perimeter),
+    };
+  });
+}
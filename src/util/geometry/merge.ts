@@ -0,0 +1,26 @@
+/**
+ * Utilities for combining geometry
+ * @packageDocumentation
+ */
+import union from '@turf/union';
+import type { MultiPolygon, Polygon } from 'geojson';
+
+/**
+ * Compute the union of polygons
+ *
+ * @param geometries The polygons and multi-polygons to combine
+ * @return A polygon, or a multi-polygon if the inputs do not form a contiguous area,
+ *         or `null` if there are no inputs or the union is empty
+ */
+export function mergePolygons(
+  geometries: Array<Polygon | MultiPolygon>
+): Polygon | MultiPolygon | null {
+  if (geometries.length === 0) {
+    return null;
+  }
+  let result: Polygon | MultiPolygon | null = geometries[0];
+  for (let i = 1; i < geometries.length && result; i++) {
+    result = union(result, geometries[i])?.geometry ?? null;
+  }
+  return result;
+}
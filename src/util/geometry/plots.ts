@@ -0,0 +1,135 @@
+/**
+ * Utilities for laying out grids of plots, such as the plots of field trials
+ * @packageDocumentation
+ */
+import bbox from '@turf/bbox';
+import intersect from '@turf/intersect';
+import { coordAll } from '@turf/meta';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+
+import type { PlotGridOptions } from '../../type/geometry';
+import { fromLocal, METERS_PER_DEGREE, toLocal } from './transform';
+
+/**
+ * The maximum number of cells in a grid of plots, including cells that
+ * lie outside the area being divided into plots
+ */
+export const MAX_PLOT_GRID_CELLS = 2500;
+
+/**
+ * The distance, in metres, by which an area can extend past a whole number of
+ * plots without adding a row or column of plots, to avoid slivers of plots
+ * caused by rounding errors
+ */
+const GRID_TOLERANCE = 1e-6;
+
+/**
+ * A plot in a grid of plots
+ */
+export interface PlotCell {
+  /**
+   * The shape of the plot, which is a rectangle unless it was clipped
+   * to the edge of the area being divided into plots
+   */
+  readonly geometry: Polygon | MultiPolygon;
+  /**
+   * The one-based index of the row of the grid containing the plot,
+   * counting from the top of the grid
+   */
+  readonly row: number;
+  /**
+   * The one-based index of the column of the grid containing the plot,
+   * counting from the left of the grid
+   */
+  readonly column: number;
+}
+
+/**
+ * Divide an area into a grid of rectangular plots.
+ *
+ * The grid covers the bounding box of the area, in the rotated coordinate system
+ * of the grid, starting from the top left corner. Plots are clipped to the area,
+ * and plots that lie entirely outside the area are omitted, but the row and column
+ * indices of the remaining plots are their positions in the whole grid.
+ *
+ * @param area The polygon or multi-polygon to divide into plots
+ * @param options The dimensions and orientation of the grid
+ * @return The plots, in order of rows and then columns, or `null` if the grid
+ *         would have more than {@link MAX_PLOT_GRID_CELLS} cells
+ */
+export function plotGrid(
+  area: Polygon | MultiPolygon,
+  options: PlotGridOptions
+): Array<PlotCell> | null {
+  const { width, height, rotation, rowGap, columnGap } = options;
+  if (!(width > 0 && height > 0 && rowGap >= 0 && columnGap >= 0)) {
+    return [];
+  }
+  const [west, south, east, north] = bbox(area);
+  const origin: Position = [(west + east) / 2, (south + north) / 2];
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  /**
+   * Convert a position to eastward and northward distances in metres
+   * in the coordinate system of the grid
+   */
+  const toGrid = (position: Position): [number, number] => {
+    const [x, y] = toLocal(position, origin);
+    return [
+      (x * cos - y * sin) * METERS_PER_DEGREE,
+      (x * sin + y * cos) * METERS_PER_DEGREE,
+    ];
+  };
+  /**
+   * The inverse of `toGrid`
+   */
+  const fromGrid = ([x, y]: [number, number]): Position =>
+    fromLocal(
+      [
+        (x * cos + y * sin) / METERS_PER_DEGREE,
+        (-x * sin + y * cos) / METERS_PER_DEGREE,
+      ],
+      origin
+    );
+
+  const gridPositions = coordAll(area).map(toGrid);
+  const minX = Math.min(...gridPositions.map((val) => val[0]));
+  const maxX = Math.max(...gridPositions.map((val) => val[0]));
+  const minY = Math.min(...gridPositions.map((val) => val[1]));
+  const maxY = Math.max(...gridPositions.map((val) => val[1]));
+  const columns = Math.max(
+    1,
+    Math.ceil((maxX - minX + columnGap - GRID_TOLERANCE) / (width + columnGap))
+  );
+  const rows = Math.max(
+    1,
+    Math.ceil((maxY - minY + rowGap - GRID_TOLERANCE) / (height + rowGap))
+  );
+  if (rows * columns > MAX_PLOT_GRID_CELLS) {
+    return null;
+  }
+
+  const cells: Array<PlotCell> = [];
+  for (let row = 0; row < rows; row++) {
+    const top = maxY - row * (height + rowGap);
+    for (let column = 0; column < columns; column++) {
+      const left = minX + column * (width + columnGap);
+      // Counterclockwise exterior ring
+      const ring = [
+        fromGrid([left, top - height]),
+        fromGrid([left + width, top - height]),
+        fromGrid([left + width, top]),
+        fromGrid([left, top]),
+      ];
+      const geometry = intersect(
+        { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+        area
+      )?.geometry;
+      if (geometry) {
+        cells.push({ geometry, row: row + 1, column: column + 1 });
+      }
+    }
+  }
+  return cells;
+}
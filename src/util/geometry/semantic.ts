@@ -0,0 +1,225 @@
+/**
+ * Utilities for storing the semantic properties of shapes that are edited using handles,
+ * such as circles and rectangles, in GeoJSON features
+ * @packageDocumentation
+ */
+import circle from '@turf/circle';
+import omit from 'lodash/omit';
+import type { Polygon, Position } from 'geojson';
+
+import type { EditableFeature, SemanticShape } from '../../type/geometry';
+
+/**
+ * The reserved key of the metadata field (GeoJSON `"properties"`) in which
+ * the semantic properties of a shape that is edited using handles are exported,
+ * so that the shape can be edited using handles again after it is imported
+ */
+export const SEMANTIC_SHAPE_KEY = 'rnmgeSemanticShape';
+
+/**
+ * The number of edges of polygons approximating circles
+ */
+const CIRCLE_STEPS = 64;
+
+/**
+ * Determine whether a shape that is edited using handles has zero area
+ * @param shape The semantic properties of the shape
+ */
+export function isDegenerateSemanticShape(shape: SemanticShape) {
+  switch (shape.type) {
+    case 'Circle':
+      return shape.radius <= 0;
+    case 'Rectangle':
+      return (
+        shape.corners[0][0] === shape.corners[1][0] ||
+        shape.corners[0][1] === shape.corners[1][1]
+      );
+  }
+}
+
+/**
+ * Compute the linear rings of the polygon representing a shape
+ * that is edited using handles
+ * @param shape The semantic properties of the shape, which must not be degenerate
+ * @return The coordinates of a polygon that follows the right-hand rule
+ */
+export function semanticShapeToPolygon(
+  shape: SemanticShape
+): Array<Array<Position>> {
+  switch (shape.type) {
+    case 'Circle':
+      return circle(shape.center, shape.radius, {
+        steps: CIRCLE_STEPS,
+        units: 'kilometers',
+      }).geometry.coordinates;
+    case 'Rectangle': {
+      const [a, b] = shape.corners;
+      const west = Math.min(a[0], b[0]);
+      const east = Math.max(a[0], b[0]);
+      const south = Math.min(a[1], b[1]);
+      const north = Math.max(a[1], b[1]);
+      return [
+        [
+          [west, south],
+          [east, south],
+          [east, north],
+          [west, north],
+          [west, south],
+        ],
+      ];
+    }
+  }
+}
+
+/**
+ * The maximum difference, in degrees of longitude or latitude, between the vertices
+ * of a polygon and the vertices of the polygon generated from a shape
+ * that the polygon represents
+ */
+const SHAPE_TOLERANCE = 1e-6;
+
+/**
+ * Determine whether a value is a longitude and latitude pair
+ * @param value The value
+ */
+function isPosition(value: unknown): value is Position {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    value.every((val) => typeof val === 'number' && Number.isFinite(val))
+  );
+}
+
+/**
+ * Determine whether a value describes a shape that is edited using handles,
+ * and that has an area
+ * @param value The value
+ */
+function isSemanticShape(value: unknown): value is SemanticShape {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const shape = value as { [key: string]: unknown };
+  switch (shape.type) {
+    case 'Circle':
+      return (
+        isPosition(shape.center) &&
+        typeof shape.radius === 'number' &&
+        Number.isFinite(shape.radius) &&
+        shape.radius > 0
+      );
+    case 'Rectangle':
+      return (
+        Array.isArray(shape.corners) &&
+        shape.corners.length === 2 &&
+        shape.corners.every(isPosition) &&
+        !isDegenerateSemanticShape({
+          type: 'Rectangle',
+          corners: shape.corners as [Position, Position],
+        })
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Determine whether a feature has a value in the {@link SEMANTIC_SHAPE_KEY} metadata field
+ * @param feature The feature
+ */
+export function hasSemanticShapeField(feature: EditableFeature): boolean {
+  return !!feature.properties && SEMANTIC_SHAPE_KEY in feature.properties;
+}
+
+/**
+ * Determine whether a polygon represents a shape, meaning that it has the vertices
+ * of the polygon generated from the shape, to within {@link SHAPE_TOLERANCE},
+ * in any order
+ *
+ * @param polygon The polygon
+ * @param shape The semantic properties of the shape, which must not be degenerate
+ */
+function isShapePolygon(polygon: Polygon, shape: SemanticShape): boolean {
+  const expected = semanticShapeToPolygon(shape)[0];
+  const rings = polygon.coordinates;
+  if (rings.length !== 1 || rings[0].length !== expected.length) {
+    return false;
+  }
+  return rings[0].every((position) =>
+    expected.some(
+      (val) =>
+        Math.abs(val[0] - position[0]) <= SHAPE_TOLERANCE &&
+        Math.abs(val[1] - position[1]) <= SHAPE_TOLERANCE
+    )
+  );
+}
+
+/**
+ * Read the semantic properties of a shape that is edited using handles
+ * from the {@link SEMANTIC_SHAPE_KEY} metadata field of a feature
+ *
+ * @param feature The feature
+ * @return The semantic properties, or `undefined` if the field is absent,
+ *         or does not describe a circle or a rectangle that has an area,
+ *         or if the feature is not a polygon representing the circle or rectangle
+ */
+export function readSemanticShape(
+  feature: EditableFeature
+): SemanticShape | undefined {
+  const shape = feature.properties?.[SEMANTIC_SHAPE_KEY];
+  if (
+    !isSemanticShape(shape) ||
+    feature.geometry.type !== 'Polygon' ||
+    !isShapePolygon(feature.geometry, shape)
+  ) {
+    return undefined;
+  }
+  return shape;
+}
+
+/**
+ * Create a copy of a feature's metadata with or without
+ * the {@link SEMANTIC_SHAPE_KEY} metadata field
+ *
+ * @param feature The feature, which is not modified
+ * @param shape The semantic properties to store in the field,
+ *              or `undefined` to remove the field
+ * @return The metadata (GeoJSON `"properties"`) of the copy
+ */
+export function withSemanticShapeField(
+  feature: EditableFeature,
+  shape?: SemanticShape
+): EditableFeature['properties'] {
+  if (!feature.properties) {
+    return shape ? { [SEMANTIC_SHAPE_KEY]: shape } : feature.properties;
+  }
+  const properties = omit(feature.properties, SEMANTIC_SHAPE_KEY);
+  return shape ? { ...properties, [SEMANTIC_SHAPE_KEY]: shape } : properties;
+}
+
+/**
+ * Move the semantic properties of a shape that is edited using handles
+ * by a difference in longitude and latitude
+ *
+ * @param shape The semantic properties, which are not modified
+ * @param delta Longitude and latitude differences
+ * @return The moved semantic properties
+ */
+export function translateSemanticShape(
+  shape: SemanticShape,
+  delta: Position
+): SemanticShape {
+  const move = (position: Position): Position => [
+    position[0] + delta[0],
+    position[1] + delta[1],
+  ];
+  switch (shape.type) {
+    case 'Circle':
+      return { ...shape, center: move(shape.center) };
+    case 'Rectangle':
+      return {
+        ...shape,
+        corners: [move(shape.corners[0]), move(shape.corners[1])],
+      };
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Utilities for changing the number of vertices in lines
+ * @packageDocumentation
+ */
+import type { Position } from 'geojson';
+
+import type {
+  EditableGeometry,
+  NonPointGeometry,
+  ResampleMethod,
+} from '../../type/geometry';
+import { METERS_PER_DEGREE } from './transform';
+
+/**
+ * The distance from a point to a line segment, in planar coordinates
+ *
+ * @param position The point
+ * @param start The first endpoint of the segment
+ * @param end The second endpoint of the segment
+ */
+function distanceToSegment(
+  position: Position,
+  start: Position,
+  end: Position
+): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const lengthSquared = dx * dx + dy * dy;
+  let t = 0;
+  if (lengthSquared > 0) {
+    t =
+      ((position[0] - start[0]) * dx + (position[1] - start[1]) * dy) /
+      lengthSquared;
+    t = Math.min(Math.max(t, 0), 1);
+  }
+  return Math.hypot(
+    position[0] - (start[0] + t * dx),
+    position[1] - (start[1] + t * dy)
+  );
+}
+
+/**
+ * Simplify a sequence of points using the Douglas-Peucker algorithm,
+ * treating the coordinates of the points as planar coordinates, such as screen coordinates.
+ *
+ * The first and last points are always kept, and consecutive duplicate points are removed.
+ *
+ * @param positions The sequence of points
+ * @param tolerance The maximum distance between a removed point and the simplified line,
+ *                  in the units of the coordinates. A value of zero only removes points
+ *                  that lie exactly on the simplified line.
+ * @return A new sequence containing a subset of the points
+ */
+export function simplifyPlanar(
+  positions: Array<Position>,
+  tolerance: number
+): Array<Position> {
+  const points = positions.filter(
+    (val, index) =>
+      index === 0 ||
+      val[0] !== positions[index - 1][0] ||
+      val[1] !== positions[index - 1][1]
+  );
+  if (points.length < 3) {
+    return points;
+  }
+  const keep = points.map(
+    (_val, index) => index === 0 || index === points.length - 1
+  );
+  // Ranges of points that have yet to be simplified, given by their first and last indices
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop() as [number, number];
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(
+        points[i],
+        points[first],
+        points[last]
+      );
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_val, index) => keep[index]);
+}
+
+/**
+ * Convert longitudes and latitudes to planar coordinates in metres,
+ * which are accurate near a reference latitude
+ *
+ * @param positions The positions to convert
+ * @param latitude The reference latitude
+ * @return Eastward and northward coordinates, in metres
+ */
+function toMeters(
+  positions: Array<Position>,
+  latitude: number
+): Array<Position> {
+  const scale = Math.cos((latitude * Math.PI) / 180);
+  return positions.map((val) => [
+    val[0] * scale * METERS_PER_DEGREE,
+    val[1] * METERS_PER_DEGREE,
+  ]);
+}
+
+/**
+ * Simplify a line string or linear ring using the Douglas-Peucker algorithm
+ *
+ * @param positions The vertices of the line string or linear ring
+ * @param tolerance The maximum distance between a removed vertex and the simplified line, in metres
+ * @param isRing Whether the vertices form a linear ring
+ * @return The remaining vertices, or the original vertices if a linear ring
+ *         would no longer enclose any area
+ */
+function simplifySequence(
+  positions: Array<Position>,
+  tolerance: number,
+  isRing: boolean
+): Array<Position> {
+  if (positions.length === 0) {
+    return positions;
+  }
+  /**
+   * Keep track of the original positions, so that they are not changed
+   * by converting them to planar coordinates and back
+   */
+  const indexed = toMeters(positions, positions[0][1]).map((val, index) => [
+    ...val.slice(0, 2),
+    index,
+  ]);
+  const result = simplifyPlanar(indexed, tolerance).map(
+    (val) => positions[val[2]]
+  );
+  if (isRing && result.length < 4) {
+    return positions;
+  }
+  return result;
+}
+
+/**
+ * Add vertices along the edges of a line string or linear ring
+ *
+ * @param positions The vertices of the line string or linear ring
+ * @param interval The maximum length of an edge, in metres
+ * @return The vertices, including the new vertices
+ */
+function densifySequence(
+  positions: Array<Position>,
+  interval: number
+): Array<Position> {
+  if (positions.length === 0) {
+    return positions;
+  }
+  const planar = toMeters(positions, positions[0][1]);
+  const result: Array<Position> = [positions[0]];
+  for (let i = 1; i < positions.length; i++) {
+    const start = positions[i - 1];
+    const end = positions[i];
+    const length = Math.hypot(
+      planar[i][0] - planar[i - 1][0],
+      planar[i][1] - planar[i - 1][1]
+    );
+    const count = Math.ceil(length / interval);
+    for (let k = 1; k < count; k++) {
+      const t = k / count;
+      result.push([
+        start[0] + t * (end[0] - start[0]),
+        start[1] + t * (end[1] - start[1]),
+      ]);
+    }
+    result.push(end);
+  }
+  return result;
+}
+
+/**
+ * Simplify or densify the line strings and linear rings of a geometry.
+ * Longitude and latitude are treated as planar coordinates that are scaled
+ * to metres at the latitude of the first vertex of each line string or linear ring.
+ *
+ * @param geometry The geometry
+ * @param method Whether to simplify or densify the geometry
+ * @param distance The simplification tolerance, or the maximum length of an edge
+ *                 after densification, in metres, which must be positive
+ * @return A new geometry, or the original geometry if it is point geometry
+ */
+export function resampleGeometry(
+  geometry: EditableGeometry,
+  method: ResampleMethod,
+  distance: number
+): EditableGeometry {
+  if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+    return geometry;
+  }
+  const resample = (positions: Array<Position>, isRing: boolean) => {
+    switch (method) {
+      case 'simplify':
+        return simplifySequence(positions, distance, isRing);
+      case 'densify':
+        return densifySequence(positions, distance);
+    }
+  };
+  let result: NonPointGeometry;
+  switch (geometry.type) {
+    case 'LineString':
+      result = {
+        type: geometry.type,
+        coordinates: resample(geometry.coordinates, false),
+      };
+      break;
+    case 'MultiLineString':
+      result = {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map((val) => resample(val, false)),
+      };
+      break;
+    case 'Polygon':
+      result = {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map((val) => resample(val, true)),
+      };
+      break;
+    case 'MultiPolygon':
+      result = {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map((rings) =>
+          rings.map((val) => resample(val, true))
+        ),
+      };
+      break;
+  }
+  return result;
+}
+
+/**
+ * Count the points and vertices of a geometry. The duplicate positions
+ * at the ends of linear rings are counted.
+ *
+ * @param geometry The geometry
+ */
+export function countPositions(geometry: EditableGeometry): number {
+  switch (geometry.type) {
+    case 'Point':
+      return 1;
+    case 'LineString':
+    case 'MultiPoint':
+      return geometry.coordinates.length;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat().length;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2).length;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Utilities for snapping vertices to nearby geometry
+ * @packageDocumentation
+ */
+import distance from '@turf/distance';
+import { multiLineString } from '@turf/helpers';
+import { coordEach } from '@turf/meta';
+import nearestPointOnLine from '@turf/nearest-point-on-line';
+import type { Feature, Position } from 'geojson';
+import { runInAction } from 'mobx';
+
+import type { SnappingModel } from '../../state/SnappingModel';
+import type { EditableGeometry, NonPointGeometry } from '../../type/geometry';
+
+/**
+ * The equatorial circumference of the Earth, in metres,
+ * as used by Web Mercator map projections
+ */
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+/**
+ * Base-2 logarithm of the width of Mapbox map tiles, in pixels
+ */
+const TILE_SIZE_EXPONENT = 9;
+
+/**
+ * Calculate the ground distance covered by one screen pixel
+ * on a Mapbox map
+ *
+ * @param latitude The latitude at which to measure the ground distance
+ * @param zoomLevel The map zoom level
+ * @return Ground distance in metres
+ */
+export function metersPerPixel(latitude: number, zoomLevel: number): number {
+  return (
+    (EARTH_CIRCUMFERENCE * Math.cos((latitude * Math.PI) / 180)) /
+    Math.pow(2, zoomLevel + TILE_SIZE_EXPONENT)
+  );
+}
+
+/**
+ * Store the zoom level of a map that has finished loading, so that distances
+ * measured in pixels can be converted to ground distances before the map
+ * is first moved
+ *
+ * @param snapping The store that receives the zoom level
+ * @param map The map, such as a Mapbox `MapView`
+ */
+export async function loadZoomLevel(
+  snapping: SnappingModel,
+  map: { getZoom(): Promise<number> }
+): Promise<void> {
+  try {
+    const zoomLevel = await map.getZoom();
+    runInAction(() => {
+      snapping.setZoomLevel(zoomLevel);
+    });
+  } catch (err) {
+    console.warn(`Failed to obtain the zoom level of the map: ${err}`);
+  }
+}
+
+/**
+ * Retrieve all edges of a non-point geometry as lines
+ *
+ * @param geometry The geometry
+ * @return The line strings making up the geometry's edges
+ */
+function edgesOfGeometry(geometry: NonPointGeometry): Array<Array<Position>> {
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates;
+    case 'MultiPolygon':
+      return geometry.coordinates.flat();
+  }
+}
+
+/**
+ * Find the position to which a vertex should snap.
+ *
+ * Vertices of the candidate features take priority over edges, so that
+ * a vertex is only snapped to an edge if no vertices are within range.
+ *
+ * @param position The position of the vertex to snap
+ * @param features Features whose geometry can attract the vertex
+ * @param tolerance The maximum snapping distance, in metres
+ * @return The snapped position, or `null` if no geometry is within range
+ */
+export function findSnapTarget(
+  position: Position,
+  features: Array<Feature<EditableGeometry>>,
+  tolerance: number
+): Position | null {
+  if (tolerance <= 0) {
+    return null;
+  }
+
+  let target: Position | null = null;
+  let targetDistance = tolerance;
+  /**
+   * Snap to vertices
+   */
+  features.forEach((feature) => {
+    coordEach(feature, (coord) => {
+      const vertexDistance = distance(position, coord, { units: 'meters' });
+      if (vertexDistance <= targetDistance) {
+        target = coord;
+        targetDistance = vertexDistance;
+      }
+    });
+  });
+  if (target) {
+    return [...(target as Position)];
+  }
+
+  /**
+   * Snap to edges
+   */
+  features.forEach((feature) => {
+    if (
+      feature.geometry.type === 'Point' ||
+      feature.geometry.type === 'MultiPoint'
+    ) {
+      return;
+    }
+    const edges = edgesOfGeometry(feature.geometry).filter(
+      (line) => line.length > 1
+    );
+    if (edges.length === 0) {
+      return;
+    }
+    const nearest = nearestPointOnLine(multiLineString(edges), position, {
+      units: 'meters',
+    });
+    const edgeDistance = nearest.properties.dist;
+    if (edgeDistance !== undefined && edgeDistance <= targetDistance) {
+      target = nearest.geometry.coordinates;
+      targetDistance = edgeDistance;
+    }
+  });
+  return target;
+}
@@ -0,0 +1,322 @@
+/**
+ * Utilities for splitting geometry with cut lines
+ * @packageDocumentation
+ */
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { featureCollection, lineString } from '@turf/helpers';
+import pointOnFeature from '@turf/point-on-feature';
+import polygonize from '@turf/polygonize';
+import type { LineString, Polygon, Position } from 'geojson';
+
+import type { EditableGeometry } from '../../type/geometry';
+
+/**
+ * The tolerance used to decide whether an intersection between two line segments
+ * is at one of the endpoints of the segments, in units of the segments' parameters
+ */
+const ENDPOINT_TOLERANCE = 1e-12;
+
+/**
+ * A position at which a line segment is to be split
+ */
+interface SplitPoint {
+  /**
+   * The distance along the segment, as a fraction of the segment's length
+   */
+  t: number;
+  /**
+   * The position of the split
+   */
+  position: Position;
+}
+
+/**
+ * Find the intersection of two line segments, treating longitude and latitude
+ * as planar coordinates. Collinear overlapping segments are not considered
+ * to intersect.
+ *
+ * @param p1 The first endpoint of the first segment
+ * @param p2 The second endpoint of the first segment
+ * @param q1 The first endpoint of the second segment
+ * @param q2 The second endpoint of the second segment
+ * @return `t` and `u` are the fractional distances of the intersection along the
+ *         first and second segments, respectively, or `null` if there is no intersection.
+ */
+function segmentIntersection(
+  p1: Position,
+  p2: Position,
+  q1: Position,
+  q2: Position
+): { t: number; u: number } | null {
+  const rx = p2[0] - p1[0];
+  const ry = p2[1] - p1[1];
+  const sx = q2[0] - q1[0];
+  const sy = q2[1] - q1[1];
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) {
+    return null;
+  }
+  const qpx = q1[0] - p1[0];
+  const qpy = q1[1] - p1[1];
+  const t = (qpx * sy - qpy * sx) / denominator;
+  const u = (qpx * ry - qpy * rx) / denominator;
+  if (
+    t < -ENDPOINT_TOLERANCE ||
+    t > 1 + ENDPOINT_TOLERANCE ||
+    u < -ENDPOINT_TOLERANCE ||
+    u > 1 + ENDPOINT_TOLERANCE
+  ) {
+    return null;
+  }
+  return {
+    t: Math.min(Math.max(t, 0), 1),
+    u: Math.min(Math.max(u, 0), 1),
+  };
+}
+
+/**
+ * Choose the position of an intersection between two line segments,
+ * preferring existing vertices to computed positions, so that vertices
+ * are not duplicated with slightly different coordinates.
+ *
+ * @param p1 The first endpoint of the first segment
+ * @param p2 The second endpoint of the first segment
+ * @param q1 The first endpoint of the second segment
+ * @param q2 The second endpoint of the second segment
+ * @param t The fractional distance of the intersection along the first segment
+ * @param u The fractional distance of the intersection along the second segment
+ */
+function intersectionPosition(
+  p1: Position,
+  p2: Position,
+  q1: Position,
+  q2: Position,
+  t: number,
+  u: number
+): Position {
+  if (t <= ENDPOINT_TOLERANCE) {
+    return p1;
+  } else if (t >= 1 - ENDPOINT_TOLERANCE) {
+    return p2;
+  } else if (u <= ENDPOINT_TOLERANCE) {
+    return q1;
+  } else if (u >= 1 - ENDPOINT_TOLERANCE) {
+    return q2;
+  }
+  return [p1[0] + t * (p2[0] - p1[0]), p1[1] + t * (p2[1] - p1[1])];
+}
+
+/**
+ * Find the points at which two sequences of positions cross each other
+ *
+ * @param a The first sequence
+ * @param b The second sequence
+ * @return For each sequence, a list of split points per segment of the sequence.
+ *         Split points are shared between the two outputs.
+ */
+function findSplitPoints(
+  a: Array<Position>,
+  b: Array<Position>
+): { aSplits: Array<Array<SplitPoint>>; bSplits: Array<Array<SplitPoint>> } {
+  const aSplits: Array<Array<SplitPoint>> = a.slice(1).map(() => []);
+  const bSplits: Array<Array<SplitPoint>> = b.slice(1).map(() => []);
+  for (let i = 0; i < a.length - 1; i++) {
+    for (let j = 0; j < b.length - 1; j++) {
+      const intersection = segmentIntersection(a[i], a[i + 1], b[j], b[j + 1]);
+      if (intersection) {
+        const { t, u } = intersection;
+        const position = intersectionPosition(
+          a[i],
+          a[i + 1],
+          b[j],
+          b[j + 1],
+          t,
+          u
+        );
+        aSplits[i].push({ t, position });
+        bSplits[j].push({ t: u, position });
+      }
+    }
+  }
+  return { aSplits, bSplits };
+}
+
+/**
+ * Whether two positions are exactly equal
+ * @param a The first position
+ * @param b The second position
+ */
+function isSamePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Break a sequence of positions into two-point line segments at the given split points
+ *
+ * @param sequence The sequence of positions
+ * @param splits The split points of each segment of the sequence
+ * @return Line segments, excluding segments of zero length
+ */
+function nodedSegments(
+  sequence: Array<Position>,
+  splits: Array<Array<SplitPoint>>
+): Array<[Position, Position]> {
+  const result: Array<[Position, Position]> = [];
+  splits.forEach((segmentSplits, i) => {
+    const positions = [
+      sequence[i],
+      ...segmentSplits.sort((x, y) => x.t - y.t).map((val) => val.position),
+      sequence[i + 1],
+    ];
+    for (let k = 0; k < positions.length - 1; k++) {
+      if (!isSamePosition(positions[k], positions[k + 1])) {
+        result.push([positions[k], positions[k + 1]]);
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Split a polygon into pieces along a cut line
+ *
+ * @param polygon The polygon to split
+ * @param cutLine The vertices of the cut line
+ * @return The pieces of the polygon, or a list containing only the original
+ *         polygon if the cut line does not divide the polygon
+ */
+function splitPolygon(
+  polygon: Polygon,
+  cutLine: Array<Position>
+): Array<Polygon> {
+  let segments: Array<[Position, Position]> = [];
+  /**
+   * Each split point along the cut line will be found when intersecting
+   * the cut line with one of the rings of the polygon.
+   */
+  let cutSplits: Array<Array<SplitPoint>> = cutLine.slice(1).map(() => []);
+  polygon.coordinates.forEach((ring) => {
+    const { aSplits, bSplits } = findSplitPoints(ring, cutLine);
+    segments = segments.concat(nodedSegments(ring, aSplits));
+    cutSplits = cutSplits.map((val, index) => val.concat(bSplits[index]));
+  });
+  segments = segments.concat(nodedSegments(cutLine, cutSplits));
+
+  /**
+   * Form polygons from the noded line segments. Some of the polygons may be
+   * outside the original polygon, such as when the cut line crosses the boundary
+   * of the polygon multiple times, or inside holes.
+   */
+  const faces = polygonize(
+    featureCollection(segments.map((segment) => lineString(segment)))
+  ).features.filter((face) =>
+    booleanPointInPolygon(pointOnFeature(face), polygon)
+  );
+  if (faces.length < 2) {
+    return [polygon];
+  }
+  return faces.map((face) => face.geometry);
+}
+
+/**
+ * Split a line string into pieces where it crosses a cut line
+ *
+ * @param line The line string to split
+ * @param cutLine The vertices of the cut line
+ * @return The pieces of the line string, or a list containing only the original
+ *         line string if the cut line does not cross it
+ */
+function splitLineString(
+  line: LineString,
+  cutLine: Array<Position>
+): Array<LineString> {
+  const { aSplits } = findSplitPoints(line.coordinates, cutLine);
+  const pieces: Array<Array<Position>> = [];
+  let piece: Array<Position> = [line.coordinates[0]];
+  aSplits.forEach((segmentSplits, i) => {
+    const end = line.coordinates[i + 1];
+    segmentSplits
+      .sort((x, y) => x.t - y.t)
+      .forEach(({ position }) => {
+        if (!isSamePosition(position, piece[piece.length - 1])) {
+          piece.push(position);
+        }
+        // The line string cannot be split at its starting point
+        if (piece.length > 1) {
+          pieces.push(piece);
+          piece = [position];
+        }
+      });
+    if (!isSamePosition(end, piece[piece.length - 1])) {
+      piece.push(end);
+    }
+  });
+  // The line string cannot be split at its ending point
+  if (piece.length > 1) {
+    pieces.push(piece);
+  }
+  if (pieces.length < 2) {
+    return [line];
+  }
+  return pieces.map((coordinates) => {
+    return { type: 'LineString', coordinates };
+  });
+}
+
+/**
+ * Split geometry into pieces along a cut line.
+ *
+ * Each part of a multi-geometry is split separately. If any part is split,
+ * the result contains all of the parts and pieces of parts as separate geometry.
+ *
+ * Longitude and latitude are treated as planar coordinates.
+ *
+ * @param geometry The geometry to split
+ * @param cutLine The vertices of the cut line
+ * @return The pieces of the geometry, or `null` if the cut line does not
+ *         divide the geometry, or if the geometry is point geometry
+ */
+export function splitGeometry(
+  geometry: EditableGeometry,
+  cutLine: Array<Position>
+): Array<LineString | Polygon> | null {
+  if (cutLine.length < 2) {
+    return null;
+  }
+  let pieces: Array<LineString | Polygon> = [];
+  switch (geometry.type) {
+    case 'Point':
+    case 'MultiPoint':
+      return null;
+    case 'LineString':
+      pieces = splitLineString(geometry, cutLine);
+      break;
+    case 'MultiLineString':
+      geometry.coordinates.forEach((coordinates) => {
+        pieces = pieces.concat(
+          splitLineString({ type: 'LineString', coordinates }, cutLine)
+        );
+      });
+      if (pieces.length === geometry.coordinates.length) {
+        return null;
+      }
+      return pieces;
+    case 'Polygon':
+      pieces = splitPolygon(geometry, cutLine);
+      break;
+    case 'MultiPolygon':
+      geometry.coordinates.forEach((coordinates) => {
+        pieces = pieces.concat(
+          splitPolygon({ type: 'Polygon', coordinates }, cutLine)
+        );
+      });
+      if (pieces.length === geometry.coordinates.length) {
+        return null;
+      }
+      return pieces;
+  }
+  if (pieces.length < 2) {
+    return null;
+  }
+  return pieces;
+}
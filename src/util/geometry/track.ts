@@ -0,0 +1,43 @@
+/**
+ * Utilities for recording tracks from streams of positions
+ * @packageDocumentation
+ */
+import distance from '@turf/distance';
+
+import type { TrackPosition, TrackRecordingOptions } from '../../type/tracking';
+
+/**
+ * Decide whether a position should become the next vertex of a track
+ *
+ * @param position The position
+ * @param previous The position of the previous vertex of the track,
+ *                 or `null` if the position would be the first vertex
+ * @param options Options for filtering positions
+ * @return `false` if the position is less accurate than required, or if it is
+ *         too close in distance or in time to the previous vertex
+ */
+export function shouldRecordPosition(
+  position: TrackPosition,
+  previous: TrackPosition | null,
+  options: TrackRecordingOptions
+): boolean {
+  const { minDistance = 0, maxAccuracy = null, minInterval = 0 } = options;
+  if (
+    maxAccuracy !== null &&
+    typeof position.accuracy === 'number' &&
+    position.accuracy > maxAccuracy
+  ) {
+    return false;
+  }
+  if (!previous) {
+    return true;
+  }
+  if (position.timestamp - previous.timestamp < minInterval) {
+    return false;
+  }
+  return (
+    distance(previous.coordinates, position.coordinates, {
+      units: 'meters',
+    }) >= minDistance
+  );
+}
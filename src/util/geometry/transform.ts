@@ -0,0 +1,211 @@
+/**
+ * Utilities for moving, rotating, and scaling geometry
+ * @packageDocumentation
+ */
+import bbox from '@turf/bbox';
+import { featureCollection } from '@turf/helpers';
+import { coordEach } from '@turf/meta';
+import cloneDeep from 'lodash/cloneDeep';
+import type { Position } from 'geojson';
+
+import type { EditableFeature } from '../../type/geometry';
+import {
+  readSemanticShape,
+  semanticShapeToPolygon,
+  translateSemanticShape,
+  withSemanticShapeField,
+} from './semantic';
+
+/**
+ * The length of one degree of longitude at the equator, in metres,
+ * as used by Web Mercator map projections
+ */
+export const METERS_PER_DEGREE = 111319.49;
+
+/**
+ * Find the centre of the bounding box of features
+ *
+ * @param features The features, of which there should be at least one
+ * @return The longitude and latitude of the centre
+ */
+export function featuresCenter(features: Array<EditableFeature>): Position {
+  const [west, south, east, north] = bbox(featureCollection(features));
+  return [(west + east) / 2, (south + north) / 2];
+}
+
+/**
+ * Convert a ground distance to a change in longitude and latitude
+ * that moves a position south-east by the distance in each direction
+ *
+ * @param distance The distance to move east, and the distance to move south, in metres
+ * @param latitude The latitude at which the distance is measured
+ * @return Longitude and latitude differences
+ */
+export function southEastOffset(distance: number, latitude: number): Position {
+  const degrees = distance / METERS_PER_DEGREE;
+  return [degrees / Math.cos((latitude * Math.PI) / 180), -degrees];
+}
+
+/**
+ * Create copies of features that are moved by a difference in longitude and latitude.
+ * The copies do not have the GeoJSON `id` members of the original features,
+ * if any, so that identifiers are not duplicated. Shapes that are edited using handles
+ * (see {@link SEMANTIC_SHAPE_KEY}) are moved by moving their semantic properties,
+ * and their polygons are generated again from the moved semantic properties.
+ *
+ * @param features The features to copy
+ * @param delta Longitude and latitude differences
+ * @return The moved copies
+ */
+export function translateFeatures(
+  features: Array<EditableFeature>,
+  delta: Position
+): Array<EditableFeature> {
+  return features.map((feature) => {
+    const copy = cloneDeep(feature);
+    delete copy.id;
+    const shape = readSemanticShape(copy);
+    if (shape) {
+      // Circles have radii in kilometres, so they are regenerated at their new latitude
+      const moved = translateSemanticShape(shape, delta);
+      copy.geometry = {
+        type: 'Polygon',
+        coordinates: semanticShapeToPolygon(moved),
+      };
+      copy.properties = withSemanticShapeField(copy, moved);
+      return copy;
+    }
+    coordEach(copy, (coord) => {
+      coord[0] += delta[0];
+      coord[1] += delta[1];
+    });
+    return copy;
+  });
+}
+
+/**
+ * A rotation and uniform scaling about a fixed point, followed by a translation.
+ *
+ * Positions are transformed in a planar approximation centred on the fixed point,
+ * in which differences in longitude are scaled by the cosine of the latitude,
+ * so that shapes are not distorted away from the equator.
+ */
+export interface SimilarityTransform {
+  /**
+   * The position that does not move when rotating or scaling
+   */
+  readonly pivot: Position;
+  /**
+   * The counterclockwise rotation angle, in degrees
+   */
+  readonly rotation: number;
+  /**
+   * The scale factor, which must be positive
+   */
+  readonly scale: number;
+  /**
+   * Longitude and latitude differences added after rotating and scaling
+   */
+  readonly translation: Position;
+}
+
+/**
+ * Convert a position to planar coordinates centred on a reference position
+ *
+ * @param position The position to convert
+ * @param origin The reference position
+ * @return Eastward and northward distances from the reference position, in degrees of latitude
+ */
+export function toLocal(
+  position: Position,
+  origin: Position
+): [number, number] {
+  return [
+    (position[0] - origin[0]) * Math.cos((origin[1] * Math.PI) / 180),
+    position[1] - origin[1],
+  ];
+}
+
+/**
+ * The inverse of {@link toLocal}
+ *
+ * @param local Eastward and northward distances from the reference position, in degrees of latitude
+ * @param origin The reference position
+ * @return Longitude and latitude
+ */
+export function fromLocal(local: [number, number], origin: Position): Position {
+  return [
+    origin[0] + local[0] / Math.cos((origin[1] * Math.PI) / 180),
+    origin[1] + local[1],
+  ];
+}
+
+/**
+ * Apply a transformation to a position
+ *
+ * @param position The position to transform. Any altitude is preserved.
+ * @param transform The transformation
+ * @return The transformed position
+ */
+export function applyTransform(
+  position: Position,
+  transform: SimilarityTransform
+): Position {
+  const { pivot, rotation, scale, translation } = transform;
+  const [x, y] = toLocal(position, pivot);
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians) * scale;
+  const sin = Math.sin(radians) * scale;
+  const [longitude, latitude] = fromLocal(
+    [x * cos - y * sin, x * sin + y * cos],
+    pivot
+  );
+  return [
+    longitude + translation[0],
+    latitude + translation[1],
+    ...position.slice(2),
+  ];
+}
+
+/**
+ * Find the rotation about a fixed point that turns one position towards another
+ *
+ * @param pivot The fixed point
+ * @param from The initial position
+ * @param to The final position
+ * @return The counterclockwise rotation angle, in degrees, or zero if either
+ *         position is at the fixed point
+ */
+export function rotationAngle(
+  pivot: Position,
+  from: Position,
+  to: Position
+): number {
+  const [fromX, fromY] = toLocal(from, pivot);
+  const [toX, toY] = toLocal(to, pivot);
+  if ((fromX === 0 && fromY === 0) || (toX === 0 && toY === 0)) {
+    return 0;
+  }
+  return ((Math.atan2(toY, toX) - Math.atan2(fromY, fromX)) * 180) / Math.PI;
+}
+
+/**
+ * Find the uniform scaling about a fixed point that moves one position
+ * to the same distance from the fixed point as another position
+ *
+ * @param pivot The fixed point
+ * @param from The initial position
+ * @param to The final position
+ * @return The scale factor, or zero if `from` is at the fixed point
+ */
+export function scaleFactor(
+  pivot: Position,
+  from: Position,
+  to: Position
+): number {
+  const fromDistance = Math.hypot(...toLocal(from, pivot));
+  if (fromDistance === 0) {
+    return 0;
+  }
+  return Math.hypot(...toLocal(to, pivot)) / fromDistance;
+}
@@ -0,0 +1,184 @@
+/**
+ * Utilities for checking the validity of geometry
+ * @packageDocumentation
+ */
+import kinks from '@turf/kinks';
+import type { Position } from 'geojson';
+
+import { GeometryProblem } from '../../type/geometry';
+import type { EditableGeometry, NonPointGeometry } from '../../type/geometry';
+
+/**
+ * The sine of the angle below which three vertices are considered to lie on a line
+ */
+const COLLINEARITY_TOLERANCE = 1e-9;
+
+/**
+ * Whether two positions are exactly equal
+ * @param a The first position
+ * @param b The second position
+ */
+function isSamePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Remove consecutive duplicate positions from a sequence of positions
+ * @param positions The sequence of positions
+ * @return A new sequence of positions
+ */
+function removeConsecutiveDuplicates(
+  positions: Array<Position>
+): Array<Position> {
+  return positions.filter(
+    (val, index) => index === 0 || !isSamePosition(val, positions[index - 1])
+  );
+}
+
+/**
+ * Whether a sequence of positions contains consecutive duplicate positions
+ * @param positions The sequence of positions
+ */
+function hasConsecutiveDuplicates(positions: Array<Position>): boolean {
+  return positions.some(
+    (val, index) => index > 0 && isSamePosition(val, positions[index - 1])
+  );
+}
+
+/**
+ * Whether a linear ring encloses no area, because all of its vertices lie on a line.
+ *
+ * Note that the signed area of a self-intersecting ring can also be zero,
+ * but such rings are detected as self-intersecting instead.
+ *
+ * @param ring The linear ring, without consecutive duplicate positions
+ */
+function isZeroAreaRing(ring: Array<Position>): boolean {
+  // A linear ring needs at least three distinct vertices, plus a closing vertex
+  if (ring.length < 4) {
+    return true;
+  }
+  const [origin, second] = ring;
+  const dx = second[0] - origin[0];
+  const dy = second[1] - origin[1];
+  const baseLength = Math.hypot(dx, dy);
+  return ring.every((val) => {
+    const vx = val[0] - origin[0];
+    const vy = val[1] - origin[1];
+    const length = Math.hypot(vx, vy);
+    if (length === 0) {
+      return true;
+    }
+    const sine = (dx * vy - dy * vx) / (baseLength * length);
+    return Math.abs(sine) < COLLINEARITY_TOLERANCE;
+  });
+}
+
+/**
+ * Retrieve all line strings and linear rings in a non-point geometry
+ * @param geometry The geometry
+ * @return `sequences` are the line strings and linear rings, and `rings`
+ *         are the linear rings only.
+ */
+function vertexSequencesOfGeometry(geometry: NonPointGeometry): {
+  sequences: Array<Array<Position>>;
+  rings: Array<Array<Position>>;
+} {
+  switch (geometry.type) {
+    case 'LineString':
+      return { sequences: [geometry.coordinates], rings: [] };
+    case 'MultiLineString':
+      return { sequences: geometry.coordinates, rings: [] };
+    case 'Polygon':
+      return { sequences: geometry.coordinates, rings: geometry.coordinates };
+    case 'MultiPolygon': {
+      const rings = geometry.coordinates.flat();
+      return { sequences: rings, rings };
+    }
+  }
+}
+
+/**
+ * Remove consecutive duplicate positions from a non-point geometry
+ * @param geometry The geometry
+ * @return A new geometry
+ */
+function removeGeometryDuplicates(
+  geometry: NonPointGeometry
+): NonPointGeometry {
+  switch (geometry.type) {
+    case 'LineString':
+      return {
+        type: geometry.type,
+        coordinates: removeConsecutiveDuplicates(geometry.coordinates),
+      };
+    case 'MultiLineString':
+    case 'Polygon':
+      return {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map(removeConsecutiveDuplicates),
+      };
+    case 'MultiPolygon':
+      return {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map((rings) =>
+          rings.map(removeConsecutiveDuplicates)
+        ),
+      };
+  }
+}
+
+/**
+ * Check a geometry for problems that would make it invalid.
+ * Point geometry is always valid.
+ *
+ * Note that edges that overlap without crossing, such as when a line string
+ * doubles back on itself, are not detected as self-intersections.
+ *
+ * @param geometry The geometry to check
+ * @return The problems found, or an empty array if the geometry is valid
+ */
+export function findGeometryProblems(
+  geometry: EditableGeometry
+): Array<GeometryProblem> {
+  if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+    return [];
+  }
+  const problems: Array<GeometryProblem> = [];
+  const { sequences, rings } = vertexSequencesOfGeometry(geometry);
+  if (sequences.some(hasConsecutiveDuplicates)) {
+    problems.push(GeometryProblem.DuplicateVertices);
+  }
+  if (rings.some((ring) => isZeroAreaRing(removeConsecutiveDuplicates(ring)))) {
+    problems.push(GeometryProblem.ZeroAreaRing);
+  }
+  /**
+   * Duplicate vertices are reported separately, and would otherwise
+   * be detected as self-intersections
+   */
+  if (kinks(removeGeometryDuplicates(geometry)).features.length > 0) {
+    problems.push(GeometryProblem.SelfIntersection);
+  }
+  return problems;
+}
+
+/**
+ * Describe geometry validity problems to the user
+ * @param problems The problems, which should not be empty
+ * @return A sentence describing the problems
+ */
+export function describeGeometryProblems(
+  problems: Array<GeometryProblem>
+): string {
+  const descriptions = problems.map((problem) => {
+    switch (problem) {
+      case GeometryProblem.SelfIntersection:
+        return 'edges that cross each other';
+      case GeometryProblem.DuplicateVertices:
+        return 'repeated vertices';
+      case GeometryProblem.ZeroAreaRing:
+        return 'boundaries that enclose no area';
+    }
+  });
+  return `The shape has ${descriptions.join(', ')}.`;
+}
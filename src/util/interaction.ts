@@ -7,9 +7,13 @@ import {
 } from '@turf/helpers';
 import filter from 'lodash/filter';
 import type { OnPressEvent } from '@rnmapbox/maps';
-import type { Feature, LineString, Point, Polygon, Position } from 'geojson';
+import type { Feature, Point, Position } from 'geojson';
 
-import type { RenderProperties, RnmgeID } from '../type/geometry';
+import type {
+  NonPointGeometry,
+  RenderProperties,
+  RnmgeID,
+} from '../type/geometry';
 import type { FeatureListModel } from '../state/FeatureListModel';
 
 /**
@@ -47,7 +51,7 @@ export function pickTopmostFeature(
   if (event.features.length > 0) {
     let topmostZIndex: number | null = null;
     let points: Array<Feature<Point, RenderProperties>> = [];
-    let nonPoints: Array<Feature<LineString | Polygon, RenderProperties>> = [];
+    let nonPoints: Array<Feature<NonPointGeometry, RenderProperties>> = [];
     let idSet = new Set<RnmgeID>();
 
     // Filter features to non-clusters and find the maximum z-index
@@ -71,8 +75,22 @@ export function pickTopmostFeature(
               );
               idSet.add(id);
               break;
+            case 'MultiPoint':
+              // Multi-point features are rendered as separate points
+              const coordinates = sourceFeature.geojson.geometry.coordinates;
+              const pointIndex = feature.properties?.rnmgeIndex;
+              points.push(
+                point(
+                  coordinates[typeof pointIndex === 'number' ? pointIndex : 0],
+                  feature.properties
+                ) as Feature<Point, RenderProperties>
+              );
+              idSet.add(id);
+              break;
             case 'LineString':
             case 'Polygon':
+            case 'MultiLineString':
+            case 'MultiPolygon':
               let zIndex = feature.properties?.[NONPOINT_ZINDEX_PROPERTY];
               if (typeof zIndex === 'number') {
                 if (
@@ -85,7 +103,7 @@ export function pickTopmostFeature(
                   turfFeature(
                     sourceFeature.geojson.geometry,
                     feature.properties
-                  ) as Feature<LineString | Polygon, RenderProperties>
+                  ) as Feature<NonPointGeometry, RenderProperties>
                 );
                 idSet.add(id);
               } else {
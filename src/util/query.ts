@@ -0,0 +1,227 @@
+/**
+ * Utilities for finding features that match queries
+ * @packageDocumentation
+ */
+import { autorun, runInAction } from 'mobx';
+
+import type { RootModel } from '../state/RootModel';
+import type {
+  EditableFeature,
+  EditableGeometryType,
+  SelectionOperation,
+} from '../type/geometry';
+import type {
+  FeaturePredicate,
+  FeatureQuery,
+  QueryCondition,
+  QueryOperator,
+} from '../type/query';
+import { measureGeometry } from './geometry/measure';
+import { hasValue } from './metadata/display';
+
+/**
+ * Compare a value of a feature with the value in a query condition
+ *
+ * @param actual The value of the feature, which may be absent
+ * @param operator The comparison
+ * @param expected The value in the query condition
+ * @return Whether the comparison holds. Absent values, and values that cannot
+ *         be compared with numbers, only satisfy `'!='` comparisons.
+ */
+export function compareValues(
+  actual: unknown,
+  operator: QueryOperator,
+  expected: string | number | boolean
+): boolean {
+  if (!hasValue(actual)) {
+    return operator === '!=';
+  }
+  if (operator === 'contains') {
+    return String(actual)
+      .toLowerCase()
+      .includes(String(expected).toLowerCase());
+  }
+  let a: number | string = String(actual);
+  let b: number | string = String(expected);
+  if (typeof expected === 'number') {
+    a = typeof actual === 'number' ? actual : Number(a);
+    b = expected;
+    if (Number.isNaN(a)) {
+      return operator === '!=';
+    }
+  }
+  switch (operator) {
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Test whether a feature satisfies a query condition
+ *
+ * @param feature The feature
+ * @param condition The condition
+ */
+function matchesCondition(
+  feature: EditableFeature,
+  condition: QueryCondition
+): boolean {
+  if ('measurement' in condition) {
+    const value = measureGeometry(feature.geometry)[condition.measurement];
+    return (
+      value !== null &&
+      compareValues(value, condition.operator, condition.value)
+    );
+  }
+  return compareValues(
+    feature.properties?.[condition.property],
+    condition.operator,
+    condition.value
+  );
+}
+
+/**
+ * Convert a query into a function that tests whether features match the query
+ *
+ * @param query The query
+ * @return A function that returns `true` for features that match the query
+ */
+export function queryPredicate(query: FeatureQuery): FeaturePredicate {
+  const { conditions, match = 'all', geometryTypes = [] } = query;
+  return (feature) => {
+    if (
+      geometryTypes.length > 0 &&
+      !geometryTypes.includes(feature.geometry.type)
+    ) {
+      return false;
+    }
+    if (match === 'all') {
+      return conditions.every((val) => matchesCondition(feature, val));
+    }
+    return (
+      conditions.length === 0 ||
+      conditions.some((val) => matchesCondition(feature, val))
+    );
+  };
+}
+
+/**
+ * Read the number of selected features from the store
+ *
+ * @param store The store
+ */
+function readSelectedCount(store: RootModel): number {
+  let count = 0;
+  /**
+   * We need to use a MobX observable in a reactive context,
+   * which is provided by `autorun` (see `readGeometry()` in `io.tsx`)
+   */
+  const disposer = autorun(() => {
+    count = store.features.selectedFeaturesCount;
+  });
+  disposer();
+  return count;
+}
+
+/**
+ * Make a selection change and report the outcome
+ *
+ * @param store The store
+ * @param change A function that changes the selection, and returns `false`
+ *               if the selection cannot be changed
+ * @return The number of selected features after the change
+ */
+function changeSelection(store: RootModel, change: () => boolean): number {
+  let isChanged = false;
+  runInAction(() => {
+    isChanged = change();
+  });
+  if (!isChanged) {
+    throw new Error(
+      'Features cannot be selected while the user is editing or drawing a feature.'
+    );
+  }
+  return readSelectedCount(store);
+}
+
+/**
+ * Implementation of {@link GeometryIORef.select}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.select}.
+ *
+ * @param store The store in which features are selected
+ * @param query A query, or a function that decides which features to select
+ * @param operation How the features that match are combined with
+ *                  the features that are already selected
+ */
+export async function selectGeometry(
+  store: RootModel,
+  query: FeatureQuery | FeaturePredicate,
+  operation: SelectionOperation = 'replace'
+): Promise<number> {
+  const predicate = typeof query === 'function' ? query : queryPredicate(query);
+  return changeSelection(store, () =>
+    store.controls.selectFeatures(predicate, operation)
+  );
+}
+
+/**
+ * Implementation of {@link GeometryIORef.selectByType}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.selectByType}.
+ *
+ * @param store The store in which features are selected
+ * @param types The types of geometry of the features to select
+ * @param operation How the features that match are combined with
+ *                  the features that are already selected
+ */
+export async function selectGeometryByType(
+  store: RootModel,
+  types: Array<EditableGeometryType>,
+  operation: SelectionOperation = 'replace'
+): Promise<number> {
+  return changeSelection(store, () =>
+    store.controls.selectFeatures(
+      (feature) => types.includes(feature.geometry.type),
+      operation
+    )
+  );
+}
+
+/**
+ * Implementation of {@link GeometryIORef.selectAll}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.selectAll}.
+ *
+ * @param store The store in which features are selected
+ */
+export async function selectAllGeometry(store: RootModel): Promise<number> {
+  return changeSelection(store, () => store.controls.selectAll());
+}
+
+/**
+ * Implementation of {@link GeometryIORef.invertSelection}, with an additional `store`
+ * parameter
+ *
+ * Refer to the documentation of {@link GeometryIORef.invertSelection}.
+ *
+ * @param store The store in which features are selected
+ */
+export async function invertGeometrySelection(
+  store: RootModel
+): Promise<number> {
+  return changeSelection(store, () => store.controls.invertSelection());
+}
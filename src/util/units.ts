@@ -0,0 +1,115 @@
+/**
+ * Utilities for presenting units of measurement
+ * @packageDocumentation
+ */
+import type { LengthUnits, MeasurementUnits } from '../type/geometry';
+
+/**
+ * The number of metres in a foot
+ */
+const METERS_PER_FOOT = 0.3048;
+
+/**
+ * The number of feet in a mile
+ */
+const FEET_PER_MILE = 5280;
+
+/**
+ * The number of square metres in an acre
+ */
+const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+/**
+ * The number of square metres in a hectare
+ */
+const SQUARE_METERS_PER_HECTARE = 10000;
+
+/**
+ * Retrieve the abbreviation of units of ground distance
+ * @param units The units
+ */
+export function lengthUnitsSymbol(units: LengthUnits): string {
+  switch (units) {
+    case 'meters':
+      return 'm';
+    case 'kilometers':
+      return 'km';
+    case 'feet':
+      return 'ft';
+    case 'miles':
+      return 'mi';
+  }
+}
+
+/**
+ * Format a number with a number of decimal places that suits its magnitude
+ * @param value The number, which must not be negative
+ */
+function formatNumber(value: number): string {
+  if (value < 10) {
+    return value.toFixed(2);
+  } else if (value < 100) {
+    return value.toFixed(1);
+  }
+  return value.toFixed(0);
+}
+
+/**
+ * Present a length to the user, switching to larger units for longer lengths
+ *
+ * @param meters The length, in metres
+ * @param units The system of units in which to present the length
+ * @return The length, followed by the abbreviation of its units
+ */
+export function formatLength(meters: number, units: MeasurementUnits): string {
+  switch (units) {
+    case 'metric':
+    case 'hectares':
+      if (meters < 1000) {
+        return `${formatNumber(meters)} m`;
+      }
+      return `${formatNumber(meters / 1000)} km`;
+    case 'imperial':
+    case 'acres': {
+      const feet = meters / METERS_PER_FOOT;
+      if (feet < FEET_PER_MILE) {
+        return `${formatNumber(feet)} ft`;
+      }
+      return `${formatNumber(feet / FEET_PER_MILE)} mi`;
+    }
+  }
+}
+
+/**
+ * Present an area to the user, switching to larger units for larger areas
+ * in the metric and imperial systems
+ *
+ * @param squareMeters The area, in square metres
+ * @param units The system of units in which to present the area
+ * @return The area, followed by the abbreviation of its units
+ */
+export function formatArea(
+  squareMeters: number,
+  units: MeasurementUnits
+): string {
+  switch (units) {
+    case 'metric':
+      if (squareMeters < 1e6) {
+        return `${formatNumber(squareMeters)} m²`;
+      }
+      return `${formatNumber(squareMeters / 1e6)} km²`;
+    case 'hectares':
+      return `${formatNumber(squareMeters / SQUARE_METERS_PER_HECTARE)} ha`;
+    case 'imperial': {
+      const squareFeet = squareMeters / (METERS_PER_FOOT * METERS_PER_FOOT);
+      if (squareFeet < FEET_PER_MILE * FEET_PER_MILE) {
+        return `${formatNumber(squareFeet)} ft²`;
+      }
+      return `${formatNumber(
+        squareFeet / (FEET_PER_MILE * FEET_PER_MILE)
+      )} mi²`;
+    }
+    case 'acres':
+      return `${formatNumber(squareMeters / SQUARE_METERS_PER_ACRE)} ac`;
+  }
+}